@@ -2,7 +2,6 @@
 
 interface ImportMetaEnv {
   readonly VITE_SPOTIFY_CLIENT_ID: string;
-  readonly VITE_SPOTIFY_CLIENT_SECRET: string;
   readonly VITE_SPOTIFY_REDIRECT_URI: string;
 }
 
@@ -0,0 +1,6 @@
+import { config } from 'dotenv';
+config(); // Load environment variables
+
+// Run with vite-node so `@/` imports and import.meta.env resolve the same
+// way they do in the app: npm run worker:transfer
+import '../src/server/transfer-worker';
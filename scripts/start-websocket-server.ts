@@ -2,3 +2,6 @@ import { config } from 'dotenv';
 config(); // Load environment variables
 
 import '../src/server/websocket-server';
+// Scheduled library syncs run in the same process, their events reach the
+// server over POST /events like the other workers'
+import '../src/server/library-sync-worker';
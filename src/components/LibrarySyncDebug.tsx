@@ -1,7 +1,7 @@
 import { useEffect, useState } from 'react';
 import { useAuth } from '@/contexts/auth-context';
 import { supabase } from '@/lib/supabase';
-import { librarySyncQueue } from '@/lib/services/library-sync-queue';
+import { requestLibrarySync } from '@/lib/services/library-sync';
 
 export function LibrarySyncDebug() {
   const { user } = useAuth();
@@ -84,10 +84,14 @@ export function LibrarySyncDebug() {
     };
   }, [user]);
 
-  const triggerManualSync = () => {
+  const triggerManualSync = async () => {
     if (!user) return;
-    librarySyncQueue.enqueue(user.id, 'spotify', 2);
-    librarySyncQueue.enqueue(user.id, 'apple-music', 2);
+    try {
+      await requestLibrarySync(user.id, 'spotify');
+      await requestLibrarySync(user.id, 'apple-music');
+    } catch (error) {
+      console.error('Error requesting library sync:', error);
+    }
   };
 
   if (!user) {
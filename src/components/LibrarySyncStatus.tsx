@@ -2,15 +2,60 @@ import { useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabase';
 import { ServiceType } from '@/lib/types';
 import { useAuth } from '@/contexts/auth-context';
-import { forceSyncLibrary } from '@/lib/services/library-sync';
+import { useRealtimeEvents } from '@/hooks/useRealtimeEvents';
+import { requestLibrarySync } from '@/lib/services/library-sync';
 import { Button } from './ui/button';
 import { ReloadIcon } from '@radix-ui/react-icons';
 
 export function LibrarySyncStatus() {
   const { user } = useAuth();
   const [syncStatus, setSyncStatus] = useState<Record<ServiceType, any>>({});
+  const [progress, setProgress] = useState<
+    Partial<Record<ServiceType, { stage: string; current: number; total?: number }>>
+  >({});
   const [isLoading, setIsLoading] = useState(false);
 
+  // Syncs running in another tab report here before library_syncs is updated
+  useRealtimeEvents((event) => {
+    switch (event.type) {
+      case 'library_sync_started':
+        updateStatus(event.service, { sync_status: 'syncing', last_error: null });
+        break;
+      case 'library_sync_progress':
+        setProgress((prev) => ({
+          ...prev,
+          [event.service]: {
+            stage: event.stage,
+            current: event.current,
+            total: event.total,
+          },
+        }));
+        break;
+      case 'library_sync_completed':
+        updateStatus(event.service, {
+          sync_status: 'idle',
+          last_error: null,
+          stats: { albums: event.albums, playlists: event.playlists },
+        });
+        break;
+      case 'library_sync_failed':
+        updateStatus(event.service, {
+          sync_status: 'error',
+          last_error: event.error,
+        });
+        break;
+    }
+  });
+
+  const updateStatus = (service: ServiceType, updates: Record<string, any>) => {
+    if (updates.sync_status !== 'syncing') {
+      setProgress((prev) => ({ ...prev, [service]: undefined }));
+    }
+    setSyncStatus((prev) =>
+      prev[service] ? { ...prev, [service]: { ...prev[service], ...updates } } : prev
+    );
+  };
+
   useEffect(() => {
     if (!user?.id) return;
 
@@ -65,7 +110,7 @@ export function LibrarySyncStatus() {
 
     setIsLoading(true);
     try {
-      await forceSyncLibrary(user.id, service);
+      await requestLibrarySync(user.id, service);
     } catch (error) {
       console.error('Failed to force sync:', error);
     } finally {
@@ -81,6 +126,7 @@ export function LibrarySyncStatus() {
   const renderServiceStatus = (service: ServiceType) => {
     const status = syncStatus[service];
     if (!status) return null;
+    const serviceProgress = progress[service];
 
     return (
       <div key={service} className="mb-4 p-4 bg-black/10 rounded-lg">
@@ -99,6 +145,13 @@ export function LibrarySyncStatus() {
         
         <div className="space-y-1 text-sm">
           <p>Status: <span className="capitalize">{status.sync_status}</span></p>
+          {status.sync_status === 'syncing' && serviceProgress && (
+            <p className="opacity-70">
+              Fetched {serviceProgress.current}
+              {serviceProgress.total ? `/${serviceProgress.total}` : ''}{' '}
+              {serviceProgress.stage}
+            </p>
+          )}
           <p>Last Sync: {formatTime(status.last_sync_time)}</p>
           <p>Next Sync: {formatTime(status.next_sync_time)}</p>
           {status.last_error && (
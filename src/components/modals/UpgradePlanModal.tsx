@@ -1,26 +1,44 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-import { useAuth } from '@/contexts/auth-context';
-import { supabase } from '@/lib/supabase';
+import {
+  PLAN_LIMITS,
+  PlanLimits,
+  SubscriptionTier,
+} from '@/lib/services/entitlements';
 import { Check, Sparkles, Zap } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface UpgradePlanModalProps {
   open: boolean;
   onClose: () => void;
+  currentTier?: SubscriptionTier;
 }
 
-type PlanType = 'free' | 'pro' | 'enterprise';
-
 interface Plan {
-  id: PlanType;
+  id: SubscriptionTier;
   name: string;
   price: string;
   features: string[];
   icon: React.ElementType;
 }
 
+function describeLimits(limits: PlanLimits) {
+  const upTo = (limit: number | null, noun: string) =>
+    limit === null ? `Unlimited ${noun}` : `Up to ${limit} ${noun}`;
+
+  return [
+    upTo(limits.connectedServices, 'services'),
+    limits.transfersPerMonth === null
+      ? 'Unlimited transfers'
+      : `${limits.transfersPerMonth} transfers a month`,
+    upTo(limits.playlistsPerBulkTransfer, 'playlists per bulk transfer'),
+    upTo(limits.syncPairs, 'synced playlists'),
+    limits.minSyncFrequency === 'hourly' ? 'Hourly syncing' : 'Daily syncing'
+  ];
+}
+
 const plans: Plan[] = [
   {
     id: 'free',
@@ -28,9 +46,7 @@ const plans: Plan[] = [
     price: '$0/month',
     icon: Check,
     features: [
-      'Basic music syncing',
-      'Limited to 2 services',
-      'Standard quality streaming',
+      ...describeLimits(PLAN_LIMITS.free),
       'Basic playlist management'
     ]
   },
@@ -40,9 +56,7 @@ const plans: Plan[] = [
     price: '$9.99/month',
     icon: Zap,
     features: [
-      'Advanced music syncing',
-      'Up to 5 services',
-      'High quality streaming',
+      ...describeLimits(PLAN_LIMITS.pro),
       'Advanced playlist management',
       'Priority support'
     ]
@@ -53,9 +67,7 @@ const plans: Plan[] = [
     price: '$19.99/month',
     icon: Sparkles,
     features: [
-      'Unlimited music syncing',
-      'Unlimited services',
-      'Ultra high quality streaming',
+      ...describeLimits(PLAN_LIMITS.enterprise),
       'Advanced playlist management',
       'Priority support',
       'Early access to new features'
@@ -63,41 +75,19 @@ const plans: Plan[] = [
   }
 ];
 
-export function UpgradePlanModal({ open, onClose }: UpgradePlanModalProps) {
-  const { user } = useAuth();
-  const [selectedPlan, setSelectedPlan] = useState<PlanType>(
-    (user?.user_metadata?.plan_type as PlanType) || 'free'
-  );
-  const [updating, setUpdating] = useState(false);
-
-  const handleUpgrade = async () => {
-    if (!user || updating) return;
-    
-    setUpdating(true);
-    try {
-      // Update user metadata
-      const { error: userError } = await supabase.auth.updateUser({
-        data: {
-          plan_type: selectedPlan
-        }
-      });
-
-      if (userError) throw userError;
-
-      // Update profiles table
-      const { error: profileError } = await supabase
-        .from('profiles')
-        .update({ subscription_tier: selectedPlan })
-        .eq('id', user.id);
+// Plan changes are made server-side with the service role,
+// profiles.subscription_tier can't be written from the browser
+export function UpgradePlanModal({ open, onClose, currentTier = 'free' }: UpgradePlanModalProps) {
+  const navigate = useNavigate();
+  const [selectedPlan, setSelectedPlan] = useState<SubscriptionTier>(currentTier);
 
-      if (profileError) throw profileError;
+  useEffect(() => {
+    setSelectedPlan(currentTier);
+  }, [currentTier]);
 
-      onClose();
-    } catch (error) {
-      console.error('Error updating plan:', error);
-    } finally {
-      setUpdating(false);
-    }
+  const handleChangePlan = () => {
+    onClose();
+    navigate('/contact');
   };
 
   return (
@@ -149,11 +139,11 @@ export function UpgradePlanModal({ open, onClose }: UpgradePlanModalProps) {
             Cancel
           </Button>
           <Button
-            onClick={handleUpgrade}
-            disabled={updating || selectedPlan === user?.user_metadata?.plan_type}
+            onClick={handleChangePlan}
+            disabled={selectedPlan === currentTier}
             className="bg-white/10 text-white hover:bg-white/20"
           >
-            {updating ? 'Updating...' : 'Confirm Plan'}
+            Contact Us to Change Plan
           </Button>
         </div>
       </DialogContent>
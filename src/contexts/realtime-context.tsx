@@ -0,0 +1,191 @@
+import { useAuth } from '@/contexts/auth-context';
+import {
+  CLIENT_EVENT_TYPES,
+  dispatchRealtimeEvent,
+  isRealtimeEvent,
+  RealtimeEvent,
+  setRealtimeForwarder,
+  subscribeToRealtimeEvents,
+} from '@/lib/services/realtime-events';
+import { supabase } from '@/lib/supabase';
+import { QueryClient, useQueryClient } from '@tanstack/react-query';
+import { useEffect } from 'react';
+
+const WEBSOCKET_URL = import.meta.env.VITE_WEBSOCKET_URL;
+const MIN_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30 * 1000;
+
+const LIBRARY_QUERY_KEYS = [
+  'albums',
+  'libraryItems',
+  'storedLibrary',
+  'userPlaylists',
+  'uniqueAlbumsCount',
+  'uniquePlaylistsCount',
+  'lastSyncTimes',
+];
+
+const TRANSFER_QUERY_KEYS = [
+  'transfers',
+  'library-transfer',
+  'transfer-jobs',
+  'transfer-item-counts',
+  'recentTransfers',
+];
+
+const invalidate = (queryClient: QueryClient, keys: string[]) =>
+  keys.forEach((key) => queryClient.invalidateQueries({ queryKey: [key] }));
+
+// Patches progress into cached transfer rows instead of refetching them
+function applyTransferProgress(
+  queryClient: QueryClient,
+  event: Extract<RealtimeEvent, { type: 'transfer_progress' }>
+) {
+  const withProgress = (transfer: any) =>
+    transfer?.id === event.transferId
+      ? {
+          ...transfer,
+          status: 'in_progress',
+          checkpoint: {
+            ...transfer.checkpoint,
+            stage: event.stage,
+            current: event.current,
+            total: event.total,
+            message: event.message,
+            updatedAt: event.timestamp,
+          },
+        }
+      : transfer;
+
+  queryClient.setQueriesData({ queryKey: ['library-transfer'] }, withProgress);
+  queryClient.setQueriesData({ queryKey: ['transfer-jobs'] }, (jobs?: any[]) =>
+    jobs?.map(withProgress)
+  );
+  queryClient.setQueriesData({ queryKey: ['transfers'] }, (transfers?: any[]) =>
+    transfers?.map(withProgress)
+  );
+}
+
+function applyToQueryCache(queryClient: QueryClient, event: RealtimeEvent) {
+  switch (event.type) {
+    case 'transfer_progress':
+      applyTransferProgress(queryClient, event);
+      break;
+    case 'transfer_finished':
+    case 'transfer_failed':
+      invalidate(queryClient, TRANSFER_QUERY_KEYS);
+      queryClient.invalidateQueries({
+        queryKey: ['transfer', event.transferId],
+      });
+      break;
+    case 'library_update':
+    case 'library_sync_completed':
+      invalidate(queryClient, LIBRARY_QUERY_KEYS);
+      break;
+    case 'sync_pair_drift':
+      queryClient.invalidateQueries({ queryKey: ['playlist-sync-pairs'] });
+      break;
+  }
+}
+
+export function RealtimeProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const queryClient = useQueryClient();
+
+  // Events from the socket and from this tab update the caches the same way
+  useEffect(
+    () =>
+      subscribeToRealtimeEvents((event) =>
+        applyToQueryCache(queryClient, event)
+      ),
+    [queryClient]
+  );
+
+  useEffect(() => {
+    if (!userId || !WEBSOCKET_URL) return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let stopped = false;
+
+    const scheduleReconnect = () => {
+      if (stopped) return;
+
+      // Exponential backoff with jitter, so tabs don't reconnect in lockstep
+      const delay =
+        Math.min(
+          MIN_RECONNECT_DELAY_MS * 2 ** attempts,
+          MAX_RECONNECT_DELAY_MS
+        ) *
+        (0.5 + Math.random() / 2);
+      attempts++;
+      reconnectTimer = setTimeout(start, delay);
+    };
+
+    const connect = async () => {
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      if (stopped || !session) return;
+
+      const ws = new WebSocket(
+        `${WEBSOCKET_URL}?token=${encodeURIComponent(session.access_token)}`
+      );
+      socket = ws;
+
+      ws.onopen = () => {
+        // Anything pushed while we were disconnected was missed
+        if (attempts > 0) {
+          invalidate(queryClient, [
+            ...TRANSFER_QUERY_KEYS,
+            ...LIBRARY_QUERY_KEYS,
+          ]);
+        }
+        attempts = 0;
+        setRealtimeForwarder((event) => {
+          if (
+            ws.readyState === WebSocket.OPEN &&
+            CLIENT_EVENT_TYPES.includes(event.type)
+          ) {
+            ws.send(JSON.stringify(event));
+          }
+        });
+      };
+
+      ws.onmessage = (message) => {
+        try {
+          const event = JSON.parse(message.data);
+          if (isRealtimeEvent(event)) {
+            dispatchRealtimeEvent(event);
+          }
+        } catch (error) {
+          console.error('Invalid realtime message:', error);
+        }
+      };
+
+      ws.onclose = () => {
+        setRealtimeForwarder(null);
+        scheduleReconnect();
+      };
+    };
+
+    const start = () =>
+      connect().catch((error) => {
+        console.error('Failed to connect to realtime server:', error);
+        scheduleReconnect();
+      });
+
+    start();
+
+    return () => {
+      stopped = true;
+      clearTimeout(reconnectTimer);
+      setRealtimeForwarder(null);
+      socket?.close();
+    };
+  }, [userId, queryClient]);
+
+  return <>{children}</>;
+}
@@ -0,0 +1,16 @@
+import {
+  RealtimeEvent,
+  subscribeToRealtimeEvents,
+} from '@/lib/services/realtime-events';
+import { useEffect, useRef } from 'react';
+
+// Calls the listener for every realtime event while the component is mounted
+export function useRealtimeEvents(listener: (event: RealtimeEvent) => void) {
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(
+    () => subscribeToRealtimeEvents((event) => listenerRef.current(event)),
+    []
+  );
+}
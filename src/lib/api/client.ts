@@ -0,0 +1,310 @@
+import { ApiError, ServiceType } from '@/lib/types';
+import { refreshSpotifyToken } from './spotify';
+
+export type ApiErrorCode =
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'rate_limited'
+  | 'server_error'
+  | 'network_error'
+  | 'request_failed';
+
+export class ServiceApiError extends Error implements ApiError {
+  service: ServiceType;
+  code: ApiErrorCode;
+  status?: number;
+
+  constructor(
+    service: ServiceType,
+    message: string,
+    code: ApiErrorCode,
+    status?: number
+  ) {
+    super(message);
+    this.name = 'ServiceApiError';
+    this.service = service;
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export interface ApiRequestOptions {
+  accessToken: string;
+  musicUserToken?: string;
+  // Lets an expired Spotify token be refreshed and the request retried
+  userId?: string;
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  // Sent as JSON unless it's a Blob
+  body?: unknown;
+  contentType?: string;
+}
+
+interface ClientLimits {
+  // Token bucket refill rate and size
+  requestsPerSecond: number;
+  burst: number;
+  // Requests in flight at once
+  maxConcurrent: number;
+}
+
+const SERVICE_NAMES: Record<ServiceType, string> = {
+  spotify: 'Spotify',
+  'apple-music': 'Apple Music',
+};
+
+const MAX_RETRIES = 4;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30 * 1000;
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Jittered so requests that failed together don't all retry together
+function backoffDelay(attempt: number) {
+  const ceiling = Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function retryAfterMs(response: Response): number | null {
+  const header = response.headers.get('Retry-After');
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
+
+function errorCode(status: number): ApiErrorCode {
+  if (status === 401) return 'unauthorized';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not_found';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'server_error';
+  return 'request_failed';
+}
+
+// Spotify sends { error: { message } }, Apple Music { errors: [{ detail }] }
+async function readErrorMessage(response: Response) {
+  const text = await response.text().catch(() => '');
+  try {
+    const body = JSON.parse(text);
+    return (
+      body.error?.message ||
+      body.errors?.[0]?.detail ||
+      body.errors?.[0]?.title ||
+      text
+    );
+  } catch {
+    return text || response.statusText;
+  }
+}
+
+function encodeBody(body: unknown): BodyInit | undefined {
+  if (body === undefined || body instanceof Blob) return body;
+  return JSON.stringify(body);
+}
+
+// Requests that hit a 401 together share one refresh
+const spotifyRefreshes = new Map<string, Promise<string>>();
+
+function refreshSpotifyAccessToken(userId: string) {
+  let refresh = spotifyRefreshes.get(userId);
+  if (!refresh) {
+    console.log('Spotify token expired, refreshing...');
+    refresh = refreshSpotifyToken(userId)
+      .then((auth) => auth.accessToken)
+      .finally(() => spotifyRefreshes.delete(userId));
+    spotifyRefreshes.set(userId, refresh);
+  }
+  return refresh;
+}
+
+export class ServiceClient {
+  private service: ServiceType;
+  private limits: ClientLimits;
+  private tokens: number;
+  private refilledAt = Date.now();
+  // Set from Retry-After so every queued request waits, not just the one
+  // that was rate limited
+  private pausedUntil = 0;
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(service: ServiceType, limits: ClientLimits) {
+    this.service = service;
+    this.limits = limits;
+    this.tokens = limits.burst;
+  }
+
+  private async acquire() {
+    if (this.active < this.limits.maxConcurrent) {
+      this.active++;
+    } else {
+      // release() hands its slot straight to the next waiter
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+
+    let waitMs = this.takeToken();
+    while (waitMs > 0) {
+      await delay(waitMs);
+      waitMs = this.takeToken();
+    }
+  }
+
+  // Returns how long to wait before a token is free, or 0 once one is taken
+  private takeToken() {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.limits.burst,
+      this.tokens +
+        ((now - this.refilledAt) / 1000) * this.limits.requestsPerSecond
+    );
+    this.refilledAt = now;
+
+    const waitMs = Math.max(
+      this.pausedUntil - now,
+      this.tokens >= 1
+        ? 0
+        : ((1 - this.tokens) / this.limits.requestsPerSecond) * 1000
+    );
+    if (waitMs <= 0) this.tokens--;
+    return waitMs;
+  }
+
+  private release() {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  private async send(url: string, init: RequestInit) {
+    await this.acquire();
+    try {
+      return await fetch(url, init);
+    } finally {
+      this.release();
+    }
+  }
+
+  // Returns the parsed JSON body, or undefined when there is none. Rate
+  // limits and server errors are retried, anything else that fails is
+  // thrown as a ServiceApiError.
+  async request<T = any>(url: string, options: ApiRequestOptions): Promise<T> {
+    const serviceName = SERVICE_NAMES[this.service];
+    const { body, userId } = options;
+    let accessToken = options.accessToken;
+    let refreshed = false;
+
+    if (!accessToken) {
+      throw new ServiceApiError(
+        this.service,
+        `${serviceName} access token is required`,
+        'unauthorized'
+      );
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const headers: Record<string, string> = {
+        Authorization: `Bearer ${accessToken}`,
+      };
+      if (options.musicUserToken) {
+        headers['Music-User-Token'] = options.musicUserToken;
+      }
+      if (body !== undefined) {
+        headers['Content-Type'] = options.contentType || 'application/json';
+      }
+
+      let response: Response;
+      try {
+        response = await this.send(url, {
+          method: options.method || 'GET',
+          headers,
+          body: encodeBody(body),
+        });
+      } catch (error) {
+        if (attempt < MAX_RETRIES) {
+          const waitMs = backoffDelay(attempt);
+          console.log(
+            `${serviceName} request failed, retrying in ${Math.round(waitMs)}ms...`
+          );
+          await delay(waitMs);
+          continue;
+        }
+        throw new ServiceApiError(
+          this.service,
+          `${serviceName} API request failed: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+          'network_error'
+        );
+      }
+
+      if (response.ok) {
+        const text = await response.text();
+        return (text ? JSON.parse(text) : undefined) as T;
+      }
+
+      // Only Spotify tokens can be refreshed, Apple Music users reconnect
+      if (
+        response.status === 401 &&
+        this.service === 'spotify' &&
+        userId &&
+        !refreshed
+      ) {
+        accessToken = await refreshSpotifyAccessToken(userId);
+        refreshed = true;
+        continue;
+      }
+
+      const retryable = response.status === 429 || response.status >= 500;
+      if (retryable && attempt < MAX_RETRIES) {
+        const waitMs = retryAfterMs(response) ?? backoffDelay(attempt);
+        if (response.status === 429) {
+          this.pausedUntil = Math.max(this.pausedUntil, Date.now() + waitMs);
+        }
+        console.log(
+          `${serviceName} request returned ${response.status}, retrying in ${Math.round(waitMs)}ms...`
+        );
+        await delay(waitMs);
+        continue;
+      }
+
+      const message = await readErrorMessage(response);
+      console.error(`${serviceName} API error:`, {
+        status: response.status,
+        url,
+        error: message,
+      });
+      throw new ServiceApiError(
+        this.service,
+        `${serviceName} API error (${response.status}): ${message}`,
+        errorCode(response.status),
+        response.status
+      );
+    }
+  }
+}
+
+// Neither service publishes its limits, these stay under what they allow
+export const spotifyClient = new ServiceClient('spotify', {
+  requestsPerSecond: 5,
+  burst: 10,
+  maxConcurrent: 4,
+});
+
+export const appleMusicClient = new ServiceClient('apple-music', {
+  requestsPerSecond: 10,
+  burst: 20,
+  maxConcurrent: 6,
+});
+
+export const serviceClients: Record<ServiceType, ServiceClient> = {
+  spotify: spotifyClient,
+  'apple-music': appleMusicClient,
+};
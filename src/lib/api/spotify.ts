@@ -1,8 +1,15 @@
-import { getServiceAuth, saveServiceAuth } from '@/lib/services/streaming-auth';
+import {
+  addMatchedTracksToPlaylist,
+  getAllPlaylistTracks,
+  PlaylistAddResult,
+} from '@/lib/services/playlist-tracks';
+import { supabase } from '@/lib/supabase';
+import { ServiceType, Track } from '@/lib/types';
+import { spotifyClient } from './client';
 
 const SPOTIFY_CLIENT_ID = import.meta.env.VITE_SPOTIFY_CLIENT_ID;
-const SPOTIFY_CLIENT_SECRET = import.meta.env.VITE_SPOTIFY_CLIENT_SECRET;
 const SPOTIFY_REDIRECT_URI = import.meta.env.VITE_SPOTIFY_REDIRECT_URI;
+const PKCE_VERIFIER_KEY = 'spotify_code_verifier';
 
 export interface SpotifyAuth {
   accessToken: string;
@@ -10,84 +17,27 @@ export interface SpotifyAuth {
   expiresIn: number;
 }
 
-async function handleSpotifyRequest<T>(
-  accessToken: string,
-  requestFn: (token: string) => Promise<T>,
-  userId?: string
-): Promise<T> {
-  const makeRequest = async (token: string) => {
-    try {
-      return await requestFn(token);
-    } catch (error) {
-      // Check if the error is due to an expired token
-      if (
-        error instanceof Error &&
-        'status' in error &&
-        (error as any).status === 401
-      ) {
-        if (!userId) {
-          throw new Error('User ID is required for token refresh');
-        }
-
-        // Get the current auth data
-        const currentAuth = await getServiceAuth(userId, 'spotify');
-        if (!currentAuth?.refreshToken) {
-          throw new Error('No refresh token available');
-        }
-
-        try {
-          // Attempt to refresh the token
-          console.log('Token expired, attempting refresh...');
-          const newAuth = await refreshSpotifyToken(currentAuth.refreshToken);
-
-          // Save the new tokens
-          await saveServiceAuth(userId, 'spotify', {
-            accessToken: newAuth.accessToken,
-            refreshToken: newAuth.refreshToken,
-            expiresAt: new Date(Date.now() + newAuth.expiresIn * 1000),
-          });
-
-          // Retry the request with the new token
-          console.log('Token refreshed, retrying request...');
-          return await requestFn(newAuth.accessToken);
-        } catch (refreshError) {
-          console.error('Token refresh failed:', refreshError);
-          throw new Error('Failed to refresh access token');
-        }
-      }
-
-      // Ensure error is properly formatted with status code if it's a fetch error
-      if (error instanceof Error && 'status' in error) {
-        const status = (error as any).status;
-        error.message = `Spotify API error (${status}): ${error.message}`;
-      }
-      throw error;
-    }
-  };
-
-  try {
-    if (typeof accessToken !== 'string') {
-      console.error('Invalid access token type:', typeof accessToken);
-      throw new Error('Invalid access token type');
-    }
+function base64UrlEncode(bytes: Uint8Array) {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
 
-    if (!accessToken) {
-      console.error('Access token is empty');
-      throw new Error('Access token is required');
-    }
+// Creates a PKCE verifier for the authorization request and keeps it for
+// the code exchange in getSpotifyToken
+export async function createSpotifyCodeChallenge() {
+  const verifier = base64UrlEncode(crypto.getRandomValues(new Uint8Array(64)));
+  sessionStorage.setItem(PKCE_VERIFIER_KEY, verifier);
 
-    console.log(
-      'Making Spotify API request with token:',
-      accessToken.slice(0, 10) + '...'
-    );
-    return await makeRequest(accessToken);
-  } catch (error) {
-    console.error('Request failed:', error);
-    throw error;
-  }
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(verifier)
+  );
+  return base64UrlEncode(new Uint8Array(digest));
 }
 
-export function getSpotifyAuthUrl() {
+export async function getSpotifyAuthUrl() {
   if (!SPOTIFY_CLIENT_ID || !SPOTIFY_REDIRECT_URI) {
     throw new Error('Missing Spotify environment variables');
   }
@@ -102,227 +52,123 @@ export function getSpotifyAuthUrl() {
       'user-read-email',
     ].join(' '),
     redirect_uri: SPOTIFY_REDIRECT_URI,
+    code_challenge_method: 'S256',
+    code_challenge: await createSpotifyCodeChallenge(),
     show_dialog: 'true',
   });
 
   return `https://accounts.spotify.com/authorize?${params.toString()}`;
 }
 
+// The code exchange and refresh grant need the client secret, so both run in
+// Supabase edge functions, which also store the tokens in user_services
 export async function getSpotifyToken(code: string): Promise<SpotifyAuth> {
-  console.log('Getting Spotify token with code:', code);
-  if (!SPOTIFY_CLIENT_ID || !SPOTIFY_CLIENT_SECRET || !SPOTIFY_REDIRECT_URI) {
-    throw new Error('Missing Spotify environment variables');
-  }
-
-  const params = new URLSearchParams({
-    grant_type: 'authorization_code',
-    code,
-    redirect_uri: SPOTIFY_REDIRECT_URI,
-  });
-
-  console.log('Making token request with params:', params.toString());
-
-  try {
-    const response = await fetch('https://accounts.spotify.com/api/token', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        Authorization: `Basic ${btoa(
-          `${SPOTIFY_CLIENT_ID}:${SPOTIFY_CLIENT_SECRET}`
-        )}`,
-      },
-      body: params,
-    });
+  console.log('Exchanging Spotify authorization code...');
+  const codeVerifier = sessionStorage.getItem(PKCE_VERIFIER_KEY);
+  sessionStorage.removeItem(PKCE_VERIFIER_KEY);
 
-    console.log('Token response status:', response.status);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Token request failed:', errorText);
-      throw new Error(
-        `Failed to get Spotify token: ${response.status} ${errorText}`
-      );
-    }
-
-    const data = await response.json();
-    console.log('Token response parsed successfully');
-
-    if (!data.access_token) {
-      console.error('Missing access token in response:', data);
-      throw new Error('Invalid token response from Spotify');
-    }
+  const { data, error } = await supabase.functions.invoke(
+    'exchangeSpotifyCode',
+    { body: { code, codeVerifier } }
+  );
 
-    return {
-      accessToken: data.access_token,
-      refreshToken: data.refresh_token,
-      expiresIn: data.expires_in,
-    };
-  } catch (error) {
-    console.error('Failed to get Spotify token:', error);
-    throw error;
+  if (error || !data?.access_token) {
+    console.error('Token request failed:', error || data);
+    throw new Error(
+      `Failed to get Spotify token: ${error?.message || 'Invalid response'}`
+    );
   }
+
+  return {
+    accessToken: data.access_token,
+    refreshToken: data.refresh_token,
+    expiresIn: data.expires_in,
+  };
 }
 
 export async function refreshSpotifyToken(
-  refreshToken: string
+  userId: string
 ): Promise<SpotifyAuth> {
   console.log('Starting Spotify token refresh...');
-  if (!SPOTIFY_CLIENT_ID || !SPOTIFY_CLIENT_SECRET) {
-    console.error('Missing environment variables:', {
-      hasClientId: !!SPOTIFY_CLIENT_ID,
-      hasClientSecret: !!SPOTIFY_CLIENT_SECRET,
-    });
-    throw new Error('Missing Spotify environment variables');
+  const { data, error } = await supabase.functions.invoke(
+    'refreshSpotifyToken',
+    { body: { userId } }
+  );
+
+  if (error || !data?.access_token) {
+    console.error('Token refresh failed:', error || data);
+    throw new Error(
+      `Failed to refresh token: ${error?.message || 'Invalid response'}`
+    );
   }
 
-  const params = new URLSearchParams({
-    grant_type: 'refresh_token',
-    refresh_token: refreshToken,
-    client_id: SPOTIFY_CLIENT_ID,
-  });
+  return {
+    accessToken: data.access_token,
+    refreshToken: data.refresh_token,
+    expiresIn: data.expires_in,
+  };
+}
 
-  try {
-    console.log('Making refresh token request to Spotify...');
-    const response = await fetch('https://accounts.spotify.com/api/token', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        Authorization: `Basic ${btoa(
-          `${SPOTIFY_CLIENT_ID}:${SPOTIFY_CLIENT_SECRET}`
-        )}`,
-      },
-      body: params,
-    });
+// Needs the user-read-private scope, older connections get null
+export async function getSpotifyCountry(
+  accessToken: string
+): Promise<string | null> {
+  const profile = await spotifyClient.request('https://api.spotify.com/v1/me', {
+    accessToken,
+  });
+  return profile.country || null;
+}
 
-    console.log('Received response:', {
-      status: response.status,
-      statusText: response.statusText,
-      ok: response.ok,
+// Reads every page, the library sync treats a missing playlist as removed
+export async function getSpotifyPlaylists(accessToken: string, userId: string) {
+  const items: any[] = [];
+  let nextUrl: string | null =
+    'https://api.spotify.com/v1/me/playlists?limit=50';
+
+  while (nextUrl) {
+    const data: any = await spotifyClient.request(nextUrl, {
+      accessToken,
+      userId,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Token refresh failed:', {
-        status: response.status,
-        statusText: response.statusText,
-        error: errorText,
-      });
-      throw new Error(
-        `Failed to refresh token: ${response.status} ${errorText}`
-      );
+    if (!Array.isArray(data?.items)) {
+      console.error('Invalid playlist response:', data);
+      throw new Error('Invalid playlist response from Spotify');
     }
 
-    const responseText = await response.text();
-    console.log('Raw response:', responseText);
-
-    let data;
-    try {
-      data = JSON.parse(responseText);
-      console.log('Parsed response:', {
-        hasAccessToken: !!data.access_token,
-        hasRefreshToken: !!data.refresh_token,
-        expiresIn: data.expires_in,
-        tokenType: data.token_type,
-        scope: data.scope,
-      });
-    } catch (parseError) {
-      console.error('Failed to parse response:', parseError);
-      throw new Error('Invalid JSON response from Spotify');
-    }
-
-    try {
-      return {
-        accessToken: data.access_token,
-        refreshToken: data.refresh_token,
-        expiresIn: data.expires_in,
-      };
-    } catch (parseError) {
-      console.error('Schema validation failed:', parseError);
-      throw new Error('Invalid token response from Spotify');
-    }
-  } catch (error) {
-    console.error('Token refresh request failed:', error);
-    throw error;
+    items.push(...data.items);
+    nextUrl = data.next;
   }
-}
-
-export async function getSpotifyPlaylists(accessToken: string, userId: string) {
-  return handleSpotifyRequest(
-    accessToken,
-    async (token) => {
-      const response = await fetch('https://api.spotify.com/v1/me/playlists', {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Spotify API error:', {
-          status: response.status,
-          statusText: response.statusText,
-          error: errorText,
-        });
-        throw new Error(
-          `Failed to fetch playlists: ${response.status} ${response.statusText}`
-        );
-      }
-
-      const data = await response.json();
-
-      if (!Array.isArray(data?.items)) {
-        console.error('Invalid playlist response:', data);
-        throw new Error('Invalid playlist response from Spotify');
-      }
-
-      return data.items.map((item: any) => ({
-        playlist_id: item.id,
-        name: item.name || 'Untitled Playlist',
-        description: item.description || '',
-        artwork: item.images?.[0]
-          ? {
-              url: item.images[0].url,
-              height: item.images[0].height || null,
-              width: item.images[0].width || null,
-            }
-          : null,
-        tracks_count: item.tracks?.total || 0,
-        owner: item.owner
-          ? {
-              id: item.owner.id || null,
-              display_name: item.owner.display_name || null,
-            }
-          : null,
-        is_public: Boolean(item.public),
-        external_url: item.external_urls?.spotify || null,
-      }));
-    },
-    userId
-  );
+  return items.map((item: any) => ({
+    playlist_id: item.id,
+    name: item.name || 'Untitled Playlist',
+    description: item.description || '',
+    artwork: item.images?.[0]
+      ? {
+          url: item.images[0].url,
+          height: item.images[0].height || null,
+          width: item.images[0].width || null,
+        }
+      : null,
+    tracks_count: item.tracks?.total || 0,
+    owner: item.owner
+      ? {
+          id: item.owner.id || null,
+          display_name: item.owner.display_name || null,
+        }
+      : null,
+    is_public: Boolean(item.public),
+    external_url: item.external_urls?.spotify || null,
+  }));
 }
 
 export async function getSpotifyAlbums(accessToken: string) {
-  const response = await fetch(
-    'https://api.spotify.com/v1/me/albums?limit=50',
-    {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-      },
-    }
+  const data = await spotifyClient.request(
+    'https://api.spotify.com/v1/me/albums?limit=50&market=from_token',
+    { accessToken }
   );
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('Failed to get Spotify albums:', {
-      status: response.status,
-      error: errorText,
-    });
-    throw new Error(`Failed to get Spotify albums: ${response.status}`);
-  }
-
-  const data = await response.json();
-
   if (!data?.items || !Array.isArray(data.items)) {
     console.error('Invalid album response:', data);
     throw new Error('Invalid album response from Spotify');
@@ -335,22 +181,7 @@ export async function getMoreSpotifyAlbums(
   nextUrl: string,
   accessToken: string
 ) {
-  const response = await fetch(nextUrl, {
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('Failed to get more Spotify albums:', {
-      status: response.status,
-      error: errorText,
-    });
-    throw new Error(`Failed to get more Spotify albums: ${response.status}`);
-  }
-
-  const data = await response.json();
+  const data = await spotifyClient.request(nextUrl, { accessToken });
 
   if (!data?.items || !Array.isArray(data.items)) {
     console.error('Invalid album response:', data);
@@ -360,16 +191,22 @@ export async function getMoreSpotifyAlbums(
   return data;
 }
 
+// Saved albums come newest first. With `since`, paging stops at the first
+// album saved before it and only albums saved at or after it are returned.
 export async function getAllSpotifyAlbums(
   userId: string,
   accessToken: string,
-  onProgress?: (current: number, total: number) => void
+  onProgress?: (current: number, total: number) => void,
+  since?: string
 ) {
   try {
-    let allAlbums = [];
+    let allAlbums: any[] = [];
     let nextUrl = null;
     let total = 0;
     let current = 0;
+    const sinceTime = since ? Date.parse(since) : null;
+    const isOlder = (item: any) =>
+      sinceTime !== null && Date.parse(item.added_at) < sinceTime;
 
     // Get first page
     const firstPage = await getSpotifyAlbums(accessToken);
@@ -382,7 +219,7 @@ export async function getAllSpotifyAlbums(
     }
 
     // Get remaining pages
-    while (nextUrl) {
+    while (nextUrl && !allAlbums.some(isOlder)) {
       const nextPage = await getMoreSpotifyAlbums(nextUrl, accessToken);
       if (nextPage.items) {
         allAlbums = [...allAlbums, ...nextPage.items];
@@ -393,7 +230,8 @@ export async function getAllSpotifyAlbums(
     }
 
     // Process albums
-    return allAlbums.map((item: any) => {
+    const albums = allAlbums.filter((item: any) => !isOlder(item));
+    return albums.map((item: any) => {
       const album = item.album || item;
       // Ensure album_type matches database constraints
       let albumType = album?.album_type?.toLowerCase() || 'album';
@@ -412,6 +250,15 @@ export async function getAllSpotifyAlbums(
         album_type: albumType,
         added_at: item.added_at || null,
         upc: album?.external_ids?.upc || null,
+        // Only the first page of tracks comes embedded in the album
+        tracks: (album?.tracks?.items || []).map((track: any) => ({
+          name: track.name,
+          artist_name: track.artists?.[0]?.name || null,
+          duration_ms: track.duration_ms,
+          preview_url: track.preview_url || null,
+          external_url: track.external_urls?.spotify || null,
+          is_playable: track.is_playable ?? true,
+        })),
       };
     });
   } catch (error) {
@@ -425,67 +272,46 @@ export async function getSpotifyAlbumDetails(
   albumId: string,
   accessToken: string
 ) {
-  return handleSpotifyRequest(
-    accessToken,
-    async (token) => {
-      const [albumResponse, tracksResponse] = await Promise.all([
-        fetch(`https://api.spotify.com/v1/albums/${albumId}`, {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        }),
-        fetch(`https://api.spotify.com/v1/albums/${albumId}/tracks?limit=50`, {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        }),
-      ]);
-
-      if (!albumResponse.ok || !tracksResponse.ok) {
-        const error = new Error(
-          `Failed to get Spotify album details: ${albumResponse.status}`
-        );
-        (error as any).status = albumResponse.status;
-        throw error;
-      }
-
-      const [album, tracks] = await Promise.all([
-        albumResponse.json(),
-        tracksResponse.json(),
-      ]);
-
-      return {
-        id: album.id,
-        name: album.name,
-        artists: album.artists.map((artist: any) => ({
-          id: artist.id,
-          name: artist.name,
-        })),
-        releaseDate: album.release_date,
-        totalTracks: album.total_tracks,
-        artwork: {
-          url: album.images[0]?.url,
-          width: album.images[0]?.width,
-          height: album.images[0]?.height,
-        },
-        genres: album.genres || [],
-        copyrights: album.copyrights?.map((c: any) => c.text) || [],
-        label: album.label,
-        tracks: tracks.items.map((track: any) => ({
-          id: track.id,
-          name: track.name,
-          trackNumber: track.track_number,
-          durationMs: track.duration_ms,
-          artists: track.artists.map((artist: any) => ({
-            id: artist.id,
-            name: artist.name,
-          })),
-          previewUrl: track.preview_url,
-        })),
-      };
+  const [album, tracks] = await Promise.all([
+    spotifyClient.request(`https://api.spotify.com/v1/albums/${albumId}`, {
+      accessToken,
+      userId,
+    }),
+    spotifyClient.request(
+      `https://api.spotify.com/v1/albums/${albumId}/tracks?limit=50`,
+      { accessToken, userId }
+    ),
+  ]);
+
+  return {
+    id: album.id,
+    name: album.name,
+    artists: album.artists.map((artist: any) => ({
+      id: artist.id,
+      name: artist.name,
+    })),
+    releaseDate: album.release_date,
+    totalTracks: album.total_tracks,
+    artwork: {
+      url: album.images[0]?.url,
+      width: album.images[0]?.width,
+      height: album.images[0]?.height,
     },
-    userId
-  );
+    genres: album.genres || [],
+    copyrights: album.copyrights?.map((c: any) => c.text) || [],
+    label: album.label,
+    tracks: tracks.items.map((track: any) => ({
+      id: track.id,
+      name: track.name,
+      trackNumber: track.track_number,
+      durationMs: track.duration_ms,
+      artists: track.artists.map((artist: any) => ({
+        id: artist.id,
+        name: artist.name,
+      })),
+      previewUrl: track.preview_url,
+    })),
+  };
 }
 
 export async function getSpotifyPlaylistDetails(
@@ -495,66 +321,48 @@ export async function getSpotifyPlaylistDetails(
 ) {
   console.log('Getting playlist details for:', playlistId);
 
-  return handleSpotifyRequest(
-    accessToken,
-    async (token) => {
-      const response = await fetch(
-        `https://api.spotify.com/v1/playlists/${playlistId}`,
-        {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        }
-      );
-
-      if (!response.ok) {
-        const error = new Error('Failed to fetch playlist details');
-        (error as any).status = response.status;
-        throw error;
-      }
-
-      const data = await response.json();
-
-      return {
-        id: data.id,
-        name: data.name,
-        description: data.description,
-        owner: data.owner,
-        service: 'spotify' as const,
-        artwork: data.images?.[0]
-          ? {
-              url: data.images[0].url,
-              width: data.images[0].width,
-              height: data.images[0].height,
-            }
-          : undefined,
-        tracks:
-          data.tracks?.items?.map((item: any) => ({
-            id: item.track.id,
-            name: item.track.name,
-            artist: {
-              id: item.track.artists[0].id,
-              name: item.track.artists[0].name,
-            },
-            artists: item.track.artists.map((artist: any) => ({
-              id: artist.id,
-              name: artist.name,
-            })),
-            album: {
-              id: item.track.album.id,
-              name: item.track.album.name,
-            },
-            duration_ms: item.track.duration_ms,
-            added_at: item.added_at,
-          })) || [],
-        total_tracks: data.tracks?.total || 0,
-        collaborative: data.collaborative,
-        public: data.public,
-        type: 'playlist',
-      };
-    },
-    userId
+  const data = await spotifyClient.request(
+    `https://api.spotify.com/v1/playlists/${playlistId}`,
+    { accessToken, userId }
   );
+
+  return {
+    id: data.id,
+    name: data.name,
+    description: data.description,
+    owner: data.owner,
+    service: 'spotify' as const,
+    artwork: data.images?.[0]
+      ? {
+          url: data.images[0].url,
+          width: data.images[0].width,
+          height: data.images[0].height,
+        }
+      : undefined,
+    tracks:
+      data.tracks?.items?.map((item: any) => ({
+        id: item.track.id,
+        name: item.track.name,
+        artist: {
+          id: item.track.artists[0].id,
+          name: item.track.artists[0].name,
+        },
+        artists: item.track.artists.map((artist: any) => ({
+          id: artist.id,
+          name: artist.name,
+        })),
+        album: {
+          id: item.track.album.id,
+          name: item.track.album.name,
+        },
+        duration_ms: item.track.duration_ms,
+        added_at: item.added_at,
+      })) || [],
+    total_tracks: data.tracks?.total || 0,
+    collaborative: data.collaborative,
+    public: data.public,
+    type: 'playlist',
+  };
 }
 
 export async function searchSpotifyAlbum(
@@ -562,24 +370,12 @@ export async function searchSpotifyAlbum(
   token: string
 ): Promise<SearchResult | null> {
   try {
-    const response = await fetch(
+    const data = await spotifyClient.request(
       `https://api.spotify.com/v1/search?q=${encodeURIComponent(
         query
-      )}&type=album&limit=1`,
-      {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      }
+      )}&type=album&limit=1&market=from_token`,
+      { accessToken: token }
     );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Failed to search Spotify album:', errorText);
-      throw new Error('Failed to search Spotify album');
-    }
-
-    const data = await response.json();
     const albums = data.albums.items;
 
     if (albums.length === 0) {
@@ -603,22 +399,357 @@ export async function addSpotifyAlbumToLibrary(
   token: string
 ): Promise<void> {
   try {
-    const response = await fetch(`https://api.spotify.com/v1/me/albums`, {
+    await spotifyClient.request('https://api.spotify.com/v1/me/albums', {
+      accessToken: token,
       method: 'PUT',
-      headers: {
-        Authorization: `Bearer ${token}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ ids: [albumId] }),
+      body: { ids: [albumId] },
     });
+  } catch (error) {
+    console.error('Error adding album to Spotify library:', error);
+    throw error;
+  }
+}
+
+// A UPC whose lookup fails maps to null like one Spotify doesn't know, so the
+// caller falls back to text search for that album instead of losing the batch
+export async function findSpotifyAlbumsByUPC(
+  upcs: string[],
+  token: string
+): Promise<{ [upc: string]: string | null }> {
+  // Spotify has no bulk UPC lookup, so each UPC is its own search request
+  // and the client paces them
+  const results: { [upc: string]: string | null } = {};
+
+  await Promise.all(
+    upcs.map(async (upc) => {
+      try {
+        const data = await spotifyClient.request(
+          `https://api.spotify.com/v1/search?q=${encodeURIComponent(
+            `upc:${upc}`
+          )}&type=album&limit=1&market=from_token`,
+          { accessToken: token }
+        );
+        results[upc] = data.albums?.items?.[0]?.id || null;
+      } catch (error) {
+        console.error(`Error finding Spotify album by UPC ${upc}:`, error);
+        results[upc] = null;
+      }
+    })
+  );
+
+  return results;
+}
+
+export async function searchSpotifyCatalog(
+  query: string,
+  token: string,
+  types: string[] = ['album']
+): Promise<any> {
+  const url = new URL('https://api.spotify.com/v1/search');
+  url.searchParams.append('q', query);
+  url.searchParams.append('type', types.join(','));
+  url.searchParams.append('limit', '10');
+  url.searchParams.append('market', 'from_token');
+
+  try {
+    return await spotifyClient.request(url.toString(), { accessToken: token });
+  } catch (error) {
+    console.error('Spotify search error:', error);
+    throw error;
+  }
+}
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Failed to add album to Spotify library:', errorText);
-      throw new Error('Failed to add album to Spotify library');
+export function findBestMatchingSpotifyAlbum(
+  searchResults: any,
+  targetAlbum: { name: string; artist_name: string }
+): { id: string; name: string; artist: string; confidence: number } | null {
+  if (!searchResults?.albums?.items) {
+    console.log('No search results found');
+    return null;
+  }
+
+  const albums = searchResults.albums.items;
+  let bestMatch: any = null;
+  let bestScore = 0;
+
+  for (const album of albums) {
+    const nameMatch =
+      album.name?.toLowerCase() === targetAlbum.name.toLowerCase();
+    const artistMatch = album.artists?.some(
+      (artist: any) =>
+        artist.name?.toLowerCase() === targetAlbum.artist_name.toLowerCase()
+    );
+
+    const score = (nameMatch ? 1 : 0) + (artistMatch ? 1 : 0);
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestMatch = album;
+    }
+  }
+
+  if (bestMatch && bestScore > 0) {
+    console.log('Found best match:', {
+      id: bestMatch.id,
+      name: bestMatch.name,
+      artist: bestMatch.artists?.[0]?.name,
+      score: bestScore,
+    });
+    // Matching only the name or only the artist is a guess
+    return {
+      id: bestMatch.id,
+      name: bestMatch.name || '',
+      artist: bestMatch.artists?.[0]?.name || '',
+      confidence: bestScore / 2,
+    };
+  }
+
+  console.log('No suitable match found');
+  return null;
+}
+
+export async function checkSpotifyAlbumsInLibrary(
+  albumIds: string[],
+  token: string
+): Promise<{ [id: string]: boolean }> {
+  try {
+    const results: { [id: string]: boolean } = {};
+
+    // The contains endpoint accepts at most 20 IDs per request
+    const batchSize = 20;
+    for (let i = 0; i < albumIds.length; i += batchSize) {
+      const batchIds = albumIds.slice(i, i + batchSize);
+
+      const saved: boolean[] = await spotifyClient.request(
+        `https://api.spotify.com/v1/me/albums/contains?ids=${batchIds.join(
+          ','
+        )}`,
+        { accessToken: token }
+      );
+      batchIds.forEach((id, index) => {
+        results[id] = Boolean(saved[index]);
+      });
     }
+
+    return results;
   } catch (error) {
-    console.error('Error adding album to Spotify library:', error);
+    console.error('Failed to check albums in Spotify library:', error);
+    throw error;
+  }
+}
+
+export async function addAlbumsToSpotifyLibrary(
+  albumIds: string[],
+  token: string
+): Promise<void> {
+  if (!albumIds.length) return;
+
+  try {
+    // Spotify accepts up to 50 IDs per save request
+    const batchSize = 50;
+    for (let i = 0; i < albumIds.length; i += batchSize) {
+      const batch = albumIds.slice(i, i + batchSize);
+
+      await spotifyClient.request('https://api.spotify.com/v1/me/albums', {
+        accessToken: token,
+        method: 'PUT',
+        body: { ids: batch },
+      });
+    }
+  } catch (error) {
+    console.error('Error adding albums to Spotify library:', error);
     throw error;
   }
 }
+
+export async function followSpotifyPlaylist(
+  playlistId: string,
+  token: string
+): Promise<void> {
+  await spotifyClient.request(
+    `https://api.spotify.com/v1/playlists/${playlistId}/followers`,
+    { accessToken: token, method: 'PUT' }
+  );
+}
+
+export async function removeAlbumsFromSpotifyLibrary(
+  albumIds: string[],
+  token: string
+): Promise<void> {
+  if (!albumIds.length) return;
+
+  try {
+    // Spotify accepts up to 50 IDs per remove request
+    const batchSize = 50;
+    for (let i = 0; i < albumIds.length; i += batchSize) {
+      const batch = albumIds.slice(i, i + batchSize);
+
+      await spotifyClient.request('https://api.spotify.com/v1/me/albums', {
+        accessToken: token,
+        method: 'DELETE',
+        body: { ids: batch },
+      });
+    }
+  } catch (error) {
+    console.error('Error removing albums from Spotify library:', error);
+    throw error;
+  }
+}
+
+// Spotify has no delete for playlists, unfollowing removes one from the
+// library and it can be followed again later
+export async function unfollowSpotifyPlaylist(
+  playlistId: string,
+  token: string
+): Promise<void> {
+  await spotifyClient.request(
+    `https://api.spotify.com/v1/playlists/${playlistId}/followers`,
+    { accessToken: token, method: 'DELETE' }
+  );
+}
+
+// Also returns the snapshot the positions belong to, which
+// removeTracksFromSpotifyPlaylist and reorderSpotifyPlaylist need
+export async function getSpotifyPlaylistTracks(
+  accessToken: string,
+  playlistId: string
+): Promise<{ tracks: Track[]; snapshotId?: string }> {
+  const { tracks, snapshotId } = await getAllPlaylistTracks(
+    'spotify',
+    playlistId,
+    { accessToken }
+  );
+  return { tracks, snapshotId };
+}
+
+export async function getSpotifyPlaylistSnapshot(
+  accessToken: string,
+  playlistId: string
+): Promise<string> {
+  const { snapshot_id } = await spotifyClient.request(
+    `https://api.spotify.com/v1/playlists/${playlistId}?fields=snapshot_id`,
+    { accessToken }
+  );
+  return snapshot_id;
+}
+
+export async function addTracksToSpotifyPlaylist(
+  accessToken: string,
+  playlistId: string,
+  tracks: Track[],
+  sourceService: ServiceType
+): Promise<PlaylistAddResult> {
+  return addMatchedTracksToPlaylist(
+    sourceService,
+    'spotify',
+    playlistId,
+    tracks,
+    { accessToken }
+  );
+}
+
+// Removes playlist entries by position, so only the listed occurrence of a
+// track that appears twice is removed. The positions are those of the
+// snapshot the tracks were read from: Spotify checks the entries are there in
+// that version and removes the same entries even if the playlist has changed
+// since.
+export async function removeTracksFromSpotifyPlaylist(
+  accessToken: string,
+  playlistId: string,
+  tracks: Track[],
+  snapshotId: string
+): Promise<number> {
+  const entries = tracks
+    .filter((track) => track.id && track.position !== undefined)
+    // Removing from the end first keeps earlier positions valid
+    .sort((a, b) => b.position! - a.position!);
+
+  if (entries.length === 0) return 0;
+
+  // Spotify accepts 100 tracks per request. Every batch names the snapshot
+  // the positions were read from.
+  const batchSize = 100;
+  for (let i = 0; i < entries.length; i += batchSize) {
+    const batch = entries.slice(i, i + batchSize);
+
+    await spotifyClient.request(
+      `https://api.spotify.com/v1/playlists/${playlistId}/tracks`,
+      {
+        accessToken,
+        method: 'DELETE',
+        body: {
+          tracks: batch.map((track) => ({
+            uri: `spotify:track:${track.id}`,
+            positions: [track.position],
+          })),
+          snapshot_id: snapshotId,
+        },
+      }
+    );
+  }
+
+  console.log(`✓ Removed ${entries.length} tracks from Spotify playlist`);
+  return entries.length;
+}
+
+// Moves playlist entries into the order given. `tracks` are entries read from
+// the playlist, so their positions are where they sit now. Entries that are
+// already next to each other in the new order move in one request, and
+// anything not listed ends up after the listed entries. The first move is
+// made against `snapshotId`, the snapshot the positions were read from, and
+// each later one against the snapshot the move before it returned.
+export async function reorderSpotifyPlaylist(
+  accessToken: string,
+  playlistId: string,
+  tracks: Track[],
+  snapshotId: string
+): Promise<number> {
+  const wanted = tracks
+    .map((track) => track.position)
+    .filter((position): position is number => position !== undefined);
+  if (wanted.length === 0) return 0;
+
+  // Original positions of the entries, in the order they currently sit
+  const current = Array.from(
+    { length: Math.max(...wanted) + 1 },
+    (_, index) => index
+  );
+  let moves = 0;
+
+  let index = 0;
+  while (index < wanted.length) {
+    const rangeStart = current.indexOf(wanted[index]);
+    if (rangeStart === index) {
+      index++;
+      continue;
+    }
+
+    let rangeLength = 1;
+    while (
+      index + rangeLength < wanted.length &&
+      current[rangeStart + rangeLength] === wanted[index + rangeLength]
+    ) {
+      rangeLength++;
+    }
+
+    ({ snapshot_id: snapshotId } = await spotifyClient.request(
+      `https://api.spotify.com/v1/playlists/${playlistId}/tracks`,
+      {
+        accessToken,
+        method: 'PUT',
+        body: {
+          range_start: rangeStart,
+          insert_before: index,
+          range_length: rangeLength,
+          snapshot_id: snapshotId,
+        },
+      }
+    ));
+    current.splice(index, 0, ...current.splice(rangeStart, rangeLength));
+    index += rangeLength;
+    moves++;
+  }
+
+  console.log(`✓ Reordered Spotify playlist in ${moves} moves`);
+  return moves;
+}
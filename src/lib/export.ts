@@ -1,29 +1,11 @@
-import { NormalizedAlbum, Playlist } from '@/lib/types';
+import { ServiceType, Track, UserAlbum, UserPlaylist } from '@/lib/types';
 
-export function convertAlbumsToCSV(albums: NormalizedAlbum[]): string {
-  const headers = ['Name', 'Artist', 'Release Date', 'Track Count', 'Service'];
-  const rows = albums.map((album) => [
-    `"${album.name.replace(/"/g, '""')}"`,
-    `"${album.artistName.replace(/"/g, '""')}"`,
-    album.releaseDate,
-    album.trackCount.toString(),
-    album.sourceService,
-  ]);
+export type ExportFormat = 'csv' | 'json' | 'm3u8' | 'xspf';
 
-  return [headers, ...rows].map((row) => row.join(',')).join('\n');
-}
-
-export function convertPlaylistsToCSV(playlists: Playlist[]): string {
-  const headers = ['Name', 'Track Count'];
-  const rows = playlists.map((playlist) => [
-    `"${(playlist.name || playlist.attributes?.name || '').replace(
-      /"/g,
-      '""'
-    )}"`,
-    (playlist.tracks?.total || playlist.attributes?.trackCount || 0).toString(),
-  ]);
-
-  return [headers, ...rows].map((row) => row.join(',')).join('\n');
+// A playlist with its full track listing
+export interface ExportedPlaylist {
+  playlist: UserPlaylist;
+  tracks: Track[];
 }
 
 export function downloadFile(
@@ -34,6 +16,10 @@ export function downloadFile(
   const blob = new Blob([content], {
     type: type === 'csv' ? 'text/csv' : 'application/json',
   });
+  downloadBlob(blob, filename);
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
   const url = window.URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.href = url;
@@ -43,3 +29,198 @@ export function downloadFile(
   document.body.removeChild(link);
   window.URL.revokeObjectURL(url);
 }
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+  m3u8: 'audio/x-mpegurl',
+  xspf: 'application/xspf+xml',
+};
+
+export function toBlob(parts: string[], format: ExportFormat) {
+  return new Blob(parts, { type: MIME_TYPES[format] });
+}
+
+function csvField(value: string | number | null | undefined) {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRow(values: (string | number | null | undefined)[]) {
+  return values.map(csvField).join(',') + '\n';
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function jsonArray(entries: string[]) {
+  return [
+    '[\n',
+    ...entries.map((entry, i) => (i ? `,\n${entry}` : entry)),
+    '\n]\n',
+  ];
+}
+
+// Apple Music library IDs only mean something to the user's own library, so
+// links use the catalog ID
+function trackUrl(service: ServiceType, track: Track) {
+  if (service === 'spotify') {
+    return track.id ? `https://open.spotify.com/track/${track.id}` : '';
+  }
+  return track.catalogId
+    ? `https://music.apple.com/song/${track.catalogId}`
+    : '';
+}
+
+// Parts are one line or one playlist each, so nothing builds a string the
+// size of the whole library
+export function albumsToCSV(albums: UserAlbum[]): string[] {
+  return [
+    csvRow([
+      'Name',
+      'Artist',
+      'Release Date',
+      'Track Count',
+      'UPC',
+      'Service',
+      'Service ID',
+      'URL',
+    ]),
+    ...albums.map((album) =>
+      csvRow([
+        album.name,
+        album.artist_name,
+        album.release_date,
+        album.tracks_count,
+        album.upc,
+        album.service,
+        album.album_id,
+        album.external_url,
+      ])
+    ),
+  ];
+}
+
+export function albumsToJSON(albums: UserAlbum[]): string[] {
+  const entries = albums.map((album) =>
+    JSON.stringify({
+      name: album.name,
+      artist: album.artist_name,
+      releaseDate: album.release_date || null,
+      trackCount: album.tracks_count ?? null,
+      upc: album.upc || null,
+      service: album.service,
+      serviceId: album.album_id,
+      url: album.external_url || null,
+    })
+  );
+  return jsonArray(entries);
+}
+
+export function playlistsToCSV(playlists: ExportedPlaylist[]): string[] {
+  return [
+    csvRow([
+      'Playlist',
+      'Position',
+      'Title',
+      'Artist',
+      'Album',
+      'Duration (ms)',
+      'ISRC',
+      'Service',
+      'Service ID',
+      'Catalog ID',
+      'Playlist ID',
+    ]),
+    ...playlists.map(({ playlist, tracks }) =>
+      tracks
+        .map((track, index) =>
+          csvRow([
+            playlist.name,
+            (track.position ?? index) + 1,
+            track.name,
+            track.artist,
+            track.album,
+            track.durationMs,
+            track.isrc,
+            playlist.service,
+            track.id,
+            track.catalogId,
+            playlist.playlist_id,
+          ])
+        )
+        .join('')
+    ),
+  ];
+}
+
+export function playlistsToJSON(playlists: ExportedPlaylist[]): string[] {
+  const entries = playlists.map(({ playlist, tracks }) =>
+    JSON.stringify({
+      name: playlist.name,
+      description: playlist.description || null,
+      service: playlist.service,
+      serviceId: playlist.playlist_id,
+      url: playlist.external_url || null,
+      tracks: tracks.map((track, index) => ({
+        position: (track.position ?? index) + 1,
+        title: track.name,
+        artist: track.artist,
+        album: track.album,
+        durationMs: track.durationMs ?? null,
+        isrc: track.isrc || null,
+        serviceId: track.id || null,
+        catalogId: track.catalogId || null,
+      })),
+    })
+  );
+  return jsonArray(entries);
+}
+
+export function playlistToM3U8({ playlist, tracks }: ExportedPlaylist) {
+  return [
+    `#EXTM3U\n#PLAYLIST:${playlist.name}\n`,
+    ...tracks.map((track) => {
+      const seconds = track.durationMs
+        ? Math.round(track.durationMs / 1000)
+        : -1;
+      return `#EXTINF:${seconds},${track.artist} - ${track.name}\n#EXTALB:${
+        track.album
+      }\n${trackUrl(playlist.service, track)}\n`;
+    }),
+  ];
+}
+
+export function playlistToXSPF({ playlist, tracks }: ExportedPlaylist) {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>\n',
+    '<playlist version="1" xmlns="http://xspf.org/ns/0/">\n',
+    `  <title>${escapeXml(playlist.name)}</title>\n`,
+    '  <trackList>\n',
+    ...tracks.map((track, index) => {
+      const url = trackUrl(playlist.service, track);
+      return [
+        '    <track>\n',
+        url && `      <location>${escapeXml(url)}</location>\n`,
+        track.isrc &&
+          `      <identifier>urn:isrc:${escapeXml(track.isrc)}</identifier>\n`,
+        `      <title>${escapeXml(track.name)}</title>\n`,
+        `      <creator>${escapeXml(track.artist)}</creator>\n`,
+        `      <album>${escapeXml(track.album)}</album>\n`,
+        `      <trackNum>${(track.position ?? index) + 1}</trackNum>\n`,
+        track.durationMs && `      <duration>${track.durationMs}</duration>\n`,
+        '    </track>\n',
+      ]
+        .filter(Boolean)
+        .join('');
+    }),
+    '  </trackList>\n',
+    '</playlist>\n',
+  ];
+}
@@ -34,7 +34,11 @@ export function useAlbumDetails(
           if (!auth.musicUserToken) {
             throw new Error('No Apple Music user token found');
           }
-          return getAppleMusicAlbumDetails(albumId, auth.musicUserToken);
+          return getAppleMusicAlbumDetails(
+            albumId,
+            auth.musicUserToken,
+            auth.storefront
+          );
         
         default:
           throw new Error(`Unsupported service: ${detectedService}`);
@@ -76,7 +80,8 @@ export function usePrefetchAlbum() {
           if (!auth.musicUserToken) return;
           await queryClient.prefetchQuery({
             queryKey: [ALBUM_DETAILS_QUERY_KEY, albumId, userId, detectedService],
-            queryFn: async () => getAppleMusicAlbumDetails(albumId, auth.musicUserToken),
+            queryFn: async () =>
+              getAppleMusicAlbumDetails(albumId, auth.musicUserToken, auth.storefront),
             staleTime: 1000 * 60 * 5,
           });
           break;
@@ -1,6 +1,15 @@
 import { useCallback, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase';
+import { assertCanAddSyncPair } from '@/lib/services/entitlements';
+import { ConflictPolicy, SyncDirection } from '@/lib/services/playlist-merge';
+import type { PlaylistSyncChanges } from '@/lib/services/playlist-sync';
+import {
+  removePlaylistSyncSchedule,
+  schedulePlaylistSync,
+  SyncFrequency,
+  updatePlaylistSyncSchedule,
+} from '@/lib/services/playlist-sync-schedule';
 import { toast } from 'sonner';
 
 type ServiceType = 'spotify' | 'apple-music';
@@ -15,6 +24,9 @@ interface PlaylistSyncPair {
   last_synced_at: string | null;
   is_active: boolean;
   sync_enabled: boolean;
+  sync_direction: SyncDirection;
+  conflict_policy: ConflictPolicy;
+  rebuild_to_reorder: boolean;
   last_error: string | null;
   error_count: number;
   last_error_at: string | null;
@@ -22,6 +34,15 @@ interface PlaylistSyncPair {
   updated_at: string;
 }
 
+// An Apple Music playlist a sync replaced with a reordered copy
+export interface ReplacedPlaylist {
+  runId: string;
+  syncPairId: string;
+  id: string;
+  name: string;
+  replacedAt: string;
+}
+
 export function usePlaylistSync(userId: string | undefined) {
   const queryClient = useQueryClient();
 
@@ -42,6 +63,42 @@ export function usePlaylistSync(userId: string | undefined) {
     enabled: !!userId,
   });
 
+  // The API can't delete the playlists a rebuild replaced, so the user is
+  // asked to remove them in the Music app
+  const { data: replacedPlaylists } = useQuery({
+    queryKey: ['playlist-sync-replaced', userId],
+    queryFn: async () => {
+      if (!userId) return [];
+      const { data, error } = await supabase
+        .from('playlist_sync_runs')
+        .select('id, sync_pair_id, changes, created_at')
+        .eq('user_id', userId)
+        .not('changes->replacedPlaylist', 'is', null)
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      return (data || []).flatMap((run): ReplacedPlaylist[] => {
+        const { replacedPlaylist } = run.changes as Pick<
+          PlaylistSyncChanges,
+          'replacedPlaylist'
+        >;
+        return replacedPlaylist
+          ? [
+              {
+                runId: run.id,
+                syncPairId: run.sync_pair_id,
+                id: replacedPlaylist.id,
+                name: replacedPlaylist.name,
+                replacedAt: run.created_at,
+              },
+            ]
+          : [];
+      });
+    },
+    enabled: !!userId,
+  });
+
   // Create a new sync pair
   const createSyncPair = useMutation({
     mutationFn: async ({
@@ -49,13 +106,22 @@ export function usePlaylistSync(userId: string | undefined) {
       sourceService,
       targetPlaylistId,
       targetService,
+      frequency,
+      syncDirection = 'one_way',
+      conflictPolicy = 'source_wins',
+      rebuildToReorder = false,
     }: {
       sourcePlaylistId: string;
       sourceService: ServiceType;
       targetPlaylistId: string;
       targetService: ServiceType;
+      frequency: SyncFrequency;
+      syncDirection?: SyncDirection;
+      conflictPolicy?: ConflictPolicy;
+      rebuildToReorder?: boolean;
     }) => {
       if (!userId) throw new Error('User not authenticated');
+      await assertCanAddSyncPair(userId, frequency);
 
       const { data, error } = await supabase
         .from('playlist_sync_pairs')
@@ -65,11 +131,21 @@ export function usePlaylistSync(userId: string | undefined) {
           source_service: sourceService,
           target_playlist_id: targetPlaylistId,
           target_service: targetService,
+          sync_direction: syncDirection,
+          conflict_policy: conflictPolicy,
+          rebuild_to_reorder: rebuildToReorder,
         })
         .select()
         .single();
 
       if (error) throw error;
+
+      await schedulePlaylistSync(
+        userId,
+        { id: sourcePlaylistId, service: sourceService },
+        { id: targetPlaylistId, service: targetService },
+        frequency
+      );
       return data;
     },
     onSuccess: () => {
@@ -86,12 +162,20 @@ export function usePlaylistSync(userId: string | undefined) {
   // Delete a sync pair
   const deleteSyncPair = useMutation({
     mutationFn: async (syncPairId: string) => {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('playlist_sync_pairs')
         .delete()
-        .eq('id', syncPairId);
+        .eq('id', syncPairId)
+        .select()
+        .single();
 
       if (error) throw error;
+
+      await removePlaylistSyncSchedule(
+        data.user_id,
+        data.source_playlist_id,
+        data.target_playlist_id
+      );
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['playlist-sync-pairs', userId] });
@@ -113,12 +197,21 @@ export function usePlaylistSync(userId: string | undefined) {
       syncPairId: string;
       enabled: boolean;
     }) => {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('playlist_sync_pairs')
         .update({ sync_enabled: enabled })
-        .eq('id', syncPairId);
+        .eq('id', syncPairId)
+        .select()
+        .single();
 
       if (error) throw error;
+
+      await updatePlaylistSyncSchedule(
+        data.user_id,
+        data.source_playlist_id,
+        data.target_playlist_id,
+        { enabled }
+      );
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['playlist-sync-pairs', userId] });
@@ -146,6 +239,7 @@ export function usePlaylistSync(userId: string | undefined) {
         },
         () => {
           queryClient.invalidateQueries({ queryKey: ['playlist-sync-pairs', userId] });
+          queryClient.invalidateQueries({ queryKey: ['playlist-sync-replaced', userId] });
         }
       )
       .subscribe();
@@ -157,6 +251,7 @@ export function usePlaylistSync(userId: string | undefined) {
 
   return {
     syncPairs,
+    replacedPlaylists,
     isLoading,
     createSyncPair,
     deleteSyncPair,
@@ -1,5 +1,6 @@
 import { toast } from 'sonner';
 import { syncAppleMusicLibrary } from './apple-music-library';
+import { detectAppleMusicStorefront } from './apple-music-storefront';
 import { removeServiceAuth, saveServiceAuth } from './streaming-auth';
 
 declare global {
@@ -96,10 +97,16 @@ export async function authorizeAppleMusic(userId: string) {
       throw error;
     }
 
+    // Catalog lookups have to use the user's storefront to find what they
+    // can actually play
+    const storefront = await detectAppleMusicStorefront(music);
+    console.log('Detected Apple Music storefront:', storefront);
+
     // Save the authorization with the correct token structure
     await saveServiceAuth(userId, 'apple-music', {
       accessToken: import.meta.env.VITE_APPLE_DEVELOPER_TOKEN || '',
       musicUserToken: musicUserToken,
+      storefront,
       expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours from now
     });
 
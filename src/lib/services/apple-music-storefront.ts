@@ -0,0 +1,69 @@
+import { supabase } from '@/lib/supabase';
+
+export interface AppleMusicStorefront {
+  id: string;
+  // Language catalog titles and artist names are returned in, e.g. ja
+  language?: string;
+}
+
+// Used for accounts connected before storefronts were stored
+export const DEFAULT_STOREFRONT: AppleMusicStorefront = { id: 'us' };
+
+export function appleMusicCatalogUrl(
+  path: string,
+  storefront: AppleMusicStorefront = DEFAULT_STOREFRONT
+) {
+  const url = `https://api.music.apple.com/v1/catalog/${storefront.id}/${path}`;
+  if (!storefront.language) return url;
+
+  const separator = path.includes('?') ? '&' : '?';
+  return `${url}${separator}l=${encodeURIComponent(storefront.language)}`;
+}
+
+// MusicKit knows the storefront ID even when the request fails, just not
+// the storefront's language
+export async function detectAppleMusicStorefront(
+  music: any
+): Promise<AppleMusicStorefront> {
+  try {
+    const response = await music.api.music('/v1/me/storefront');
+    const storefront = response?.data?.data?.[0];
+    if (storefront?.id) {
+      return {
+        id: storefront.id,
+        language: storefront.attributes?.defaultLanguageTag,
+      };
+    }
+  } catch (error) {
+    console.error('Failed to fetch Apple Music storefront:', error);
+  }
+
+  return music.storefrontId
+    ? { id: music.storefrontId }
+    : DEFAULT_STOREFRONT;
+}
+
+export async function getAppleMusicStorefront(
+  userId: string
+): Promise<AppleMusicStorefront> {
+  const { data, error } = await supabase
+    .from('user_services')
+    .select('storefront, storefront_language')
+    .eq('user_id', userId)
+    .eq('service', 'apple-music')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to load Apple Music storefront:', error);
+  }
+
+  return toAppleMusicStorefront(data);
+}
+
+export function toAppleMusicStorefront(
+  row: { storefront?: string | null; storefront_language?: string | null } | null
+): AppleMusicStorefront {
+  return row?.storefront
+    ? { id: row.storefront, language: row.storefront_language || undefined }
+    : DEFAULT_STOREFRONT;
+}
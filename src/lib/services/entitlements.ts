@@ -0,0 +1,251 @@
+import { supabase } from '@/lib/supabase';
+import { Database } from '@/types/supabase';
+import { limitSyncFrequency, SyncFrequency } from './playlist-sync-schedule';
+
+export type SubscriptionTier = Database['public']['Enums']['subscription_tier'];
+
+// null means unlimited
+export interface PlanLimits {
+  connectedServices: number | null;
+  transfersPerMonth: number | null;
+  playlistsPerBulkTransfer: number | null;
+  syncPairs: number | null;
+  // The fastest playlist pairs and libraries are synced
+  minSyncFrequency: SyncFrequency;
+}
+
+export type PlanLimit = Exclude<keyof PlanLimits, 'minSyncFrequency'>;
+
+// connectedServices is also checked by a trigger on user_services and
+// transfersPerMonth by record_transfer_usage() and record_import_usage(),
+// keep max_connected_services() and max_transfers_per_month() in the
+// migrations in step with them
+export const PLAN_LIMITS: Record<SubscriptionTier, PlanLimits> = {
+  free: {
+    connectedServices: 2,
+    transfersPerMonth: 10,
+    playlistsPerBulkTransfer: 5,
+    syncPairs: 2,
+    minSyncFrequency: 'daily',
+  },
+  pro: {
+    connectedServices: 5,
+    transfersPerMonth: 200,
+    playlistsPerBulkTransfer: 50,
+    syncPairs: 25,
+    minSyncFrequency: 'hourly',
+  },
+  enterprise: {
+    connectedServices: null,
+    transfersPerMonth: null,
+    playlistsPerBulkTransfer: null,
+    syncPairs: null,
+    minSyncFrequency: 'hourly',
+  },
+};
+
+export const PLAN_NAMES: Record<SubscriptionTier, string> = {
+  free: 'Free',
+  pro: 'Pro',
+  enterprise: 'Enterprise',
+};
+
+export interface PlanUsage {
+  connectedServices: number;
+  transfersThisMonth: number;
+  syncPairs: number;
+}
+
+export class EntitlementError extends Error {
+  limit: PlanLimit | 'minSyncFrequency';
+  tier: SubscriptionTier;
+
+  constructor(
+    message: string,
+    limit: PlanLimit | 'minSyncFrequency',
+    tier: SubscriptionTier
+  ) {
+    super(message);
+    this.name = 'EntitlementError';
+    this.limit = limit;
+    this.tier = tier;
+  }
+}
+
+// A lapsed subscription falls back to free, see effective_subscription_tier()
+export async function getSubscriptionTier(
+  userId: string
+): Promise<SubscriptionTier> {
+  const { data, error } = await supabase.rpc('effective_subscription_tier', {
+    user_id_param: userId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to load subscription: ${error.message}`);
+  }
+
+  return data || 'free';
+}
+
+export async function getEntitlements(userId: string) {
+  const tier = await getSubscriptionTier(userId);
+  return { tier, limits: PLAN_LIMITS[tier] };
+}
+
+function startOfMonth() {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+async function countRows(
+  table: 'user_services' | 'transfer_usage' | 'playlist_sync_pairs',
+  userId: string,
+  since?: Date
+) {
+  let query = supabase
+    .from(table)
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId);
+
+  if (since) {
+    query = query.gte('created_at', since.toISOString());
+  }
+
+  const { count, error } = await query;
+  if (error) {
+    throw new Error(`Failed to count ${table}: ${error.message}`);
+  }
+  return count || 0;
+}
+
+// Monthly quotas reset on the first of the month, UTC
+export async function getUsage(userId: string): Promise<PlanUsage> {
+  const [connectedServices, transfersThisMonth, syncPairs] = await Promise.all([
+    countRows('user_services', userId),
+    countRows('transfer_usage', userId, startOfMonth()),
+    countRows('playlist_sync_pairs', userId),
+  ]);
+
+  return { connectedServices, transfersThisMonth, syncPairs };
+}
+
+function isOverLimit(limit: number | null, used: number, adding = 1) {
+  return limit !== null && used + adding > limit;
+}
+
+export async function assertCanConnectService(userId: string, service: string) {
+  const { tier, limits } = await getEntitlements(userId);
+  const { data, error } = await supabase
+    .from('user_services')
+    .select('service')
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to load connected services: ${error.message}`);
+  }
+
+  // Reconnecting a service doesn't use up another slot
+  const others = (data || []).filter((row) => row.service !== service);
+  if (isOverLimit(limits.connectedServices, others.length)) {
+    throw new EntitlementError(
+      `The ${PLAN_NAMES[tier]} plan allows up to ${limits.connectedServices} connected services`,
+      'connectedServices',
+      tier
+    );
+  }
+}
+
+export async function assertCanTransfer(userId: string, count = 1) {
+  const { tier, limits } = await getEntitlements(userId);
+  const used = await countRows('transfer_usage', userId, startOfMonth());
+
+  if (isOverLimit(limits.transfersPerMonth, used, count)) {
+    throw new EntitlementError(
+      `You've used ${used} of the ${limits.transfersPerMonth} transfers included in the ${PLAN_NAMES[tier]} plan this month`,
+      'transfersPerMonth',
+      tier
+    );
+  }
+}
+
+export async function assertCanBulkTransferPlaylists(
+  userId: string,
+  count: number
+) {
+  const { tier, limits } = await getEntitlements(userId);
+
+  if (isOverLimit(limits.playlistsPerBulkTransfer, 0, count)) {
+    throw new EntitlementError(
+      `The ${PLAN_NAMES[tier]} plan transfers up to ${limits.playlistsPerBulkTransfer} playlists at a time`,
+      'playlistsPerBulkTransfer',
+      tier
+    );
+  }
+}
+
+export async function assertCanAddSyncPair(
+  userId: string,
+  frequency: SyncFrequency
+) {
+  const { tier, limits } = await getEntitlements(userId);
+  const used = await countRows('playlist_sync_pairs', userId);
+
+  if (isOverLimit(limits.syncPairs, used)) {
+    throw new EntitlementError(
+      `The ${PLAN_NAMES[tier]} plan allows up to ${limits.syncPairs} synced playlist pairs`,
+      'syncPairs',
+      tier
+    );
+  }
+  assertSyncFrequencyAllowed(tier, frequency);
+}
+
+export function assertSyncFrequencyAllowed(
+  tier: SubscriptionTier,
+  frequency: SyncFrequency
+) {
+  const fastest = PLAN_LIMITS[tier].minSyncFrequency;
+
+  if (limitSyncFrequency(frequency, fastest) !== frequency) {
+    throw new EntitlementError(
+      `The ${PLAN_NAMES[tier]} plan syncs playlists at most ${fastest}`,
+      'minSyncFrequency',
+      tier
+    );
+  }
+}
+
+// The database functions that record usage check the quota again under a
+// lock and raise P0001 when it's used up
+async function throwIfOverQuota(
+  userId: string,
+  error: { code: string; message: string } | null,
+  action: string
+) {
+  if (error?.code === 'P0001') {
+    const tier = await getSubscriptionTier(userId);
+    throw new EntitlementError(error.message, 'transfersPerMonth', tier);
+  }
+  if (error) {
+    throw new Error(`Failed to record ${action} usage: ${error.message}`);
+  }
+}
+
+// Called by the transfer worker before a transfer runs for real. A transfer
+// is only counted once, resuming or retrying it is free.
+export async function recordTransferUsage(userId: string, transferId: string) {
+  const { error } = await supabase.rpc('record_transfer_usage', {
+    user_id_param: userId,
+    transfer_id_param: transferId,
+  });
+  await throwIfOverQuota(userId, error, 'transfer');
+}
+
+// Imports run in the browser, so their usage is recorded by
+// record_import_usage(), which checks the quota again in the database
+export async function recordImportUsage(userId: string, count: number) {
+  const { error } = await supabase.rpc('record_import_usage', {
+    playlist_count: count,
+  });
+  await throwIfOverQuota(userId, error, 'import');
+}
@@ -1,6 +1,5 @@
 export * from './normalizers';
 export * from './storage';
-export * from './sync';
 export * from './spotify-library';
 export * from './apple-music-library';
 export * from './streaming-auth';
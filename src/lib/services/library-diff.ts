@@ -0,0 +1,160 @@
+import { UserAlbum, UserPlaylist } from '@/lib/types';
+import { getStoredLibrary } from './storage';
+import { normalizeArtistName, normalizeTrackTitle } from './track-matching';
+
+export type DiffBucket = 'spotify' | 'apple-music' | 'both';
+
+export type DiffMatchMethod = 'upc' | 'name';
+
+// One album or playlist, and where it's saved. Items in both libraries
+// carry both rows.
+export interface DiffEntry<T> {
+  key: string;
+  name: string;
+  subtitle: string;
+  spotify?: T;
+  appleMusic?: T;
+  matchedBy?: DiffMatchMethod;
+}
+
+export interface LibraryDiff {
+  albums: DiffEntry<UserAlbum>[];
+  playlists: DiffEntry<UserPlaylist>[];
+}
+
+export function bucketOf(entry: DiffEntry<unknown>): DiffBucket {
+  if (entry.spotify && entry.appleMusic) return 'both';
+  return entry.spotify ? 'spotify' : 'apple-music';
+}
+
+export function albumNameKey(album: UserAlbum) {
+  return `${normalizeTrackTitle(album.name)}|${normalizeArtistName(
+    album.artist_name
+  )}`;
+}
+
+// Several items can share a key, a deluxe and a standard edition normalize
+// to the same title
+export function groupBy<T>(
+  items: T[],
+  keyOf: (item: T) => string | null | undefined
+) {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = keyOf(item);
+    if (!key) continue;
+    groups.set(key, [...(groups.get(key) || []), item]);
+  }
+  return groups;
+}
+
+// Each item is only matched once
+function take<T>(
+  groups: Map<string, T[]>,
+  key: string | null | undefined,
+  used: Set<T>
+) {
+  if (!key) return undefined;
+  const match = groups.get(key)?.find((item) => !used.has(item));
+  if (match) used.add(match);
+  return match;
+}
+
+// A UPC identifies the exact release on both services, anything without one
+// on both sides is matched on its normalized title and primary artist
+export function diffAlbums(
+  spotifyAlbums: UserAlbum[],
+  appleMusicAlbums: UserAlbum[]
+): DiffEntry<UserAlbum>[] {
+  const byUpc = groupBy(appleMusicAlbums, (album) => album.upc);
+  const byName = groupBy(appleMusicAlbums, albumNameKey);
+  const used = new Set<UserAlbum>();
+  const entries: DiffEntry<UserAlbum>[] = [];
+
+  const toEntry = (album: UserAlbum): DiffEntry<UserAlbum> => ({
+    key: album.id,
+    name: album.name,
+    subtitle: album.artist_name,
+  });
+
+  // UPC matches go first so a title match can't claim their album
+  const unmatched: UserAlbum[] = [];
+  for (const album of spotifyAlbums) {
+    const match = take(byUpc, album.upc, used);
+    if (match) {
+      entries.push({
+        ...toEntry(album),
+        spotify: album,
+        appleMusic: match,
+        matchedBy: 'upc',
+      });
+    } else {
+      unmatched.push(album);
+    }
+  }
+
+  for (const album of unmatched) {
+    const match = take(byName, albumNameKey(album), used);
+    entries.push({
+      ...toEntry(album),
+      spotify: album,
+      ...(match && { appleMusic: match, matchedBy: 'name' as const }),
+    });
+  }
+
+  for (const album of appleMusicAlbums) {
+    if (!used.has(album)) {
+      entries.push({ ...toEntry(album), appleMusic: album });
+    }
+  }
+
+  return entries.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Playlists have no shared identifier, a transferred playlist keeps its name
+export function diffPlaylists(
+  spotifyPlaylists: UserPlaylist[],
+  appleMusicPlaylists: UserPlaylist[]
+): DiffEntry<UserPlaylist>[] {
+  const byName = groupBy(appleMusicPlaylists, (playlist) =>
+    normalizeTrackTitle(playlist.name)
+  );
+  const used = new Set<UserPlaylist>();
+
+  const toEntry = (playlist: UserPlaylist): DiffEntry<UserPlaylist> => ({
+    key: playlist.id,
+    name: playlist.name,
+    subtitle: `${playlist.tracks_count || 0} tracks`,
+  });
+
+  const entries: DiffEntry<UserPlaylist>[] = spotifyPlaylists.map(
+    (playlist) => {
+      const match = take(byName, normalizeTrackTitle(playlist.name), used);
+      return {
+        ...toEntry(playlist),
+        spotify: playlist,
+        ...(match && { appleMusic: match, matchedBy: 'name' as const }),
+      };
+    }
+  );
+
+  for (const playlist of appleMusicPlaylists) {
+    if (!used.has(playlist)) {
+      entries.push({ ...toEntry(playlist), appleMusic: playlist });
+    }
+  }
+
+  return entries.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getLibraryDiff(userId: string): Promise<LibraryDiff> {
+  const [spotify, appleMusic] = await Promise.all([
+    getStoredLibrary(userId, 'spotify'),
+    getStoredLibrary(userId, 'apple-music'),
+  ]);
+
+  return {
+    albums: diffAlbums(spotify.albums, appleMusic.albums),
+    playlists: diffPlaylists(spotify.playlists, appleMusic.playlists),
+  };
+}
@@ -0,0 +1,166 @@
+import { ServiceType, Track, UserAlbum, UserPlaylist } from '@/lib/types';
+import { albumNameKey, groupBy } from './library-diff';
+import { getLibraryAuth } from './library-removals';
+import { getAllPlaylistTracks } from './playlist-tracks';
+import { getStoredLibrary } from './storage';
+import { normalizeArtistName, normalizeTrackTitle } from './track-matching';
+
+export type DuplicateMatchMethod = 'upc' | 'name' | 'tracks';
+
+// Versions of the same album or playlist saved more than once. The first
+// item is the one suggested to keep.
+export interface DuplicateGroup<T> {
+  key: string;
+  name: string;
+  items: T[];
+  matchedBy: DuplicateMatchMethod;
+}
+
+export interface LibraryDuplicates {
+  albums: DuplicateGroup<UserAlbum>[];
+  playlists: DuplicateGroup<UserPlaylist>[];
+}
+
+// Share of tracks two playlists need in common to count as copies
+const MIN_TRACK_OVERLAP = 0.8;
+
+// Items linked directly or through another item end up in one group, so a
+// standard edition matching a deluxe by name and a reissue by UPC is one group
+function connectedGroups<T>(items: T[], linked: Map<string, T[]>[]) {
+  const parent = new Map<T, T>(items.map((item) => [item, item]));
+  const find = (item: T): T => {
+    const root = parent.get(item)!;
+    if (root === item) return item;
+    const top = find(root);
+    parent.set(item, top);
+    return top;
+  };
+
+  for (const groups of linked) {
+    for (const group of groups.values()) {
+      for (const item of group.slice(1)) {
+        parent.set(find(item), find(group[0]));
+      }
+    }
+  }
+
+  const groups = new Map<T, T[]>();
+  for (const item of items) {
+    const root = find(item);
+    groups.set(root, [...(groups.get(root) || []), item]);
+  }
+  return [...groups.values()].filter((group) => group.length > 1);
+}
+
+// More tracks first, a deluxe edition or the fuller copy of a playlist is
+// usually the one worth keeping
+function bySize(a: { tracks_count?: number }, b: { tracks_count?: number }) {
+  return (b.tracks_count || 0) - (a.tracks_count || 0);
+}
+
+export function findDuplicateAlbums(
+  albums: UserAlbum[]
+): DuplicateGroup<UserAlbum>[] {
+  const byUpc = groupBy(albums, (album) => album.upc);
+  const byName = groupBy(albums, albumNameKey);
+
+  return connectedGroups(albums, [byUpc, byName])
+    .map((group) => {
+      const items = [...group].sort(bySize);
+      return {
+        key: items[0].id,
+        name: items[0].name,
+        items,
+        matchedBy: items.some(
+          (album) => album.upc && byUpc.get(album.upc)!.length > 1
+        )
+          ? ('upc' as const)
+          : ('name' as const),
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Within one library a track keeps its ID across playlists
+function trackKey(track: Track) {
+  return (
+    track.id ||
+    track.isrc ||
+    `${normalizeTrackTitle(track.name)}|${normalizeArtistName(track.artist)}`
+  );
+}
+
+function trackOverlap(a: Set<string>, b: Set<string>) {
+  const shared = [...a].filter((key) => b.has(key)).length;
+  const total = new Set([...a, ...b]).size;
+  return total ? shared / total : 0;
+}
+
+// Playlists can't be that similar unless their sizes are close, so only
+// those pairs have their tracks read
+function candidatePairs(playlists: UserPlaylist[]) {
+  const pairs: [UserPlaylist, UserPlaylist][] = [];
+  playlists.forEach((a, i) => {
+    for (const b of playlists.slice(i + 1)) {
+      const sizes = [a.tracks_count || 0, b.tracks_count || 0];
+      if (
+        Math.min(...sizes) > 0 &&
+        Math.min(...sizes) / Math.max(...sizes) >= MIN_TRACK_OVERLAP
+      ) {
+        pairs.push([a, b]);
+      }
+    }
+  });
+  return pairs;
+}
+
+export async function findDuplicatePlaylists(
+  userId: string,
+  service: ServiceType,
+  playlists: UserPlaylist[]
+): Promise<DuplicateGroup<UserPlaylist>[]> {
+  const pairs = candidatePairs(playlists);
+  if (!pairs.length) return [];
+
+  const auth = await getLibraryAuth(userId, service);
+  const tracks = new Map<UserPlaylist, Set<string>>();
+  for (const playlist of new Set(pairs.flat())) {
+    const result = await getAllPlaylistTracks(
+      service,
+      playlist.playlist_id,
+      auth
+    );
+    tracks.set(playlist, new Set(result.tracks.map(trackKey)));
+  }
+
+  const linked = new Map<string, UserPlaylist[]>();
+  for (const [a, b] of pairs) {
+    if (trackOverlap(tracks.get(a)!, tracks.get(b)!) >= MIN_TRACK_OVERLAP) {
+      linked.set(`${a.id}|${b.id}`, [a, b]);
+    }
+  }
+
+  return connectedGroups(playlists, [linked])
+    .map((group) => {
+      const items = [...group].sort(bySize);
+      return {
+        key: items[0].id,
+        name: items[0].name,
+        items,
+        matchedBy: 'tracks' as const,
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getLibraryDuplicates(
+  userId: string,
+  service: ServiceType
+): Promise<LibraryDuplicates> {
+  const library = await getStoredLibrary(userId, service);
+
+  return {
+    albums: findDuplicateAlbums(library.albums),
+    playlists: await findDuplicatePlaylists(userId, service, library.playlists),
+  };
+}
@@ -0,0 +1,193 @@
+import {
+  albumsToCSV,
+  albumsToJSON,
+  ExportedPlaylist,
+  ExportFormat,
+  playlistsToCSV,
+  playlistsToJSON,
+  playlistToM3U8,
+  playlistToXSPF,
+  toBlob,
+} from '@/lib/export';
+import { ServiceType, UserAlbum, UserPlaylist } from '@/lib/types';
+import { createZip, ZipEntry } from '@/lib/zip';
+import { getLibraryAuth } from './library-removals';
+import { readPlaylistTracks } from './playlist-tracks';
+import { getStoredLibrary } from './storage';
+
+export type ExportContent = 'albums' | 'playlists';
+
+export interface ExportProgress {
+  service: ServiceType;
+  playlistsDone: number;
+  playlistsTotal: number;
+  tracks: number;
+}
+
+export interface ExportFile {
+  blob: Blob;
+  filename: string;
+}
+
+type ProgressCallback = (progress: ExportProgress) => void;
+
+// Playlists are read a page at a time, so progress moves while a long
+// playlist downloads and the tab gets a turn between requests
+export async function readPlaylistContents(
+  userId: string,
+  service: ServiceType,
+  playlists: UserPlaylist[],
+  onProgress?: ProgressCallback
+): Promise<ExportedPlaylist[]> {
+  if (!playlists.length) return [];
+
+  const auth = await getLibraryAuth(userId, service);
+  const exported: ExportedPlaylist[] = [];
+  let tracks = 0;
+
+  for (const playlist of playlists) {
+    const entry: ExportedPlaylist = { playlist, tracks: [] };
+    for await (const page of readPlaylistTracks(
+      service,
+      playlist.playlist_id,
+      auth
+    )) {
+      entry.tracks.push(...page.tracks);
+      tracks += page.tracks.length;
+      onProgress?.({
+        service,
+        playlistsDone: exported.length,
+        playlistsTotal: playlists.length,
+        tracks,
+      });
+    }
+    exported.push(entry);
+  }
+
+  onProgress?.({
+    service,
+    playlistsDone: exported.length,
+    playlistsTotal: playlists.length,
+    tracks,
+  });
+  return exported;
+}
+
+// Playlist names can repeat and hold characters file systems reject
+function uniqueFileName(name: string, used: Set<string>) {
+  const base = name.replace(/[\\/:*?"<>|]/g, '_').trim() || 'Untitled';
+  let fileName = base;
+  for (let n = 2; used.has(fileName.toLowerCase()); n++) {
+    fileName = `${base} (${n})`;
+  }
+  used.add(fileName.toLowerCase());
+  return fileName;
+}
+
+function playlistFiles(
+  playlists: ExportedPlaylist[],
+  format: 'm3u8' | 'xspf',
+  folder = ''
+): ZipEntry[] {
+  const used = new Set<string>();
+  return playlists.map((playlist) => ({
+    path: `${folder}${uniqueFileName(playlist.playlist.name, used)}.${format}`,
+    parts:
+      format === 'm3u8' ? playlistToM3U8(playlist) : playlistToXSPF(playlist),
+  }));
+}
+
+function exportName(service: string, content: string, extension: string) {
+  const timestamp = new Date().toISOString().split('T')[0];
+  return `${service}-${content}-${timestamp}.${extension}`;
+}
+
+export async function exportLibrary(
+  userId: string,
+  service: ServiceType,
+  content: ExportContent,
+  format: ExportFormat,
+  onProgress?: ProgressCallback
+): Promise<ExportFile> {
+  const library = await getStoredLibrary(userId, service);
+
+  if (content === 'albums') {
+    if (format !== 'csv' && format !== 'json') {
+      throw new Error('Albums can only be exported as CSV or JSON');
+    }
+    const albums = library.albums as UserAlbum[];
+    return {
+      blob: toBlob(
+        format === 'csv' ? albumsToCSV(albums) : albumsToJSON(albums),
+        format
+      ),
+      filename: exportName(service, content, format),
+    };
+  }
+
+  const playlists = await readPlaylistContents(
+    userId,
+    service,
+    library.playlists as UserPlaylist[],
+    onProgress
+  );
+
+  if (format === 'csv' || format === 'json') {
+    return {
+      blob: toBlob(
+        format === 'csv'
+          ? playlistsToCSV(playlists)
+          : playlistsToJSON(playlists),
+        format
+      ),
+      filename: exportName(service, content, format),
+    };
+  }
+
+  // M3U8 and XSPF hold one playlist per file, so more than one is zipped
+  const files = playlistFiles(playlists, format);
+  if (files.length === 1) {
+    return {
+      blob: toBlob(files[0].parts, format),
+      filename: files[0].path,
+    };
+  }
+  return {
+    blob: await createZip(files),
+    filename: exportName(service, `${content}-${format}`, 'zip'),
+  };
+}
+
+// One archive with every format for each connected service
+export async function exportWholeLibrary(
+  userId: string,
+  services: ServiceType[],
+  onProgress?: ProgressCallback
+): Promise<ExportFile> {
+  const files: ZipEntry[] = [];
+
+  for (const service of services) {
+    const library = await getStoredLibrary(userId, service);
+    const albums = library.albums as UserAlbum[];
+    const playlists = await readPlaylistContents(
+      userId,
+      service,
+      library.playlists as UserPlaylist[],
+      onProgress
+    );
+
+    files.push(
+      { path: `${service}/albums.csv`, parts: albumsToCSV(albums) },
+      { path: `${service}/albums.json`, parts: albumsToJSON(albums) },
+      { path: `${service}/playlists.csv`, parts: playlistsToCSV(playlists) },
+      { path: `${service}/playlists.json`, parts: playlistsToJSON(playlists) },
+      ...playlistFiles(playlists, 'm3u8', `${service}/playlists/`),
+      ...playlistFiles(playlists, 'xspf', `${service}/playlists/`)
+    );
+  }
+
+  return {
+    blob: await createZip(files),
+    filename: exportName('velvet-metal', 'library', 'zip'),
+  };
+}
@@ -0,0 +1,184 @@
+import {
+  addAlbumsToAppleMusicLibrary,
+  searchAppleMusicAlbum,
+} from '@/lib/api/apple-music';
+import {
+  addAlbumsToSpotifyLibrary,
+  followSpotifyPlaylist,
+  removeAlbumsFromSpotifyLibrary,
+  unfollowSpotifyPlaylist,
+} from '@/lib/api/spotify';
+import { requestLibrarySync } from '@/lib/services/library-sync';
+import { getServiceAuth } from '@/lib/services/streaming-auth';
+import { tokenManager } from '@/lib/services/token-manager';
+import { supabase } from '@/lib/supabase';
+import { ServiceType, UserAlbum, UserPlaylist } from '@/lib/types';
+
+// How far back the recently removed view looks
+const RECENTLY_REMOVED_DAYS = 30;
+
+export async function getRecentlyRemoved(userId: string, service: ServiceType) {
+  const since = new Date(
+    Date.now() - RECENTLY_REMOVED_DAYS * 24 * 60 * 60 * 1000
+  ).toISOString();
+
+  const [albums, playlists] = await Promise.all([
+    supabase
+      .from('user_albums')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('service', service)
+      .gte('removed_at', since)
+      .order('removed_at', { ascending: false }),
+    supabase
+      .from('user_playlists')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('service', service)
+      .gte('removed_at', since)
+      .order('removed_at', { ascending: false }),
+  ]);
+
+  if (albums.error) throw albums.error;
+  if (playlists.error) throw playlists.error;
+
+  return {
+    albums: albums.data as UserAlbum[],
+    playlists: playlists.data as UserPlaylist[],
+  };
+}
+
+// A deleted Apple Music library playlist is gone for good, Spotify playlists
+// are only unfollowed and can be followed again
+export function canRestorePlaylist(playlist: UserPlaylist) {
+  return playlist.service === 'spotify';
+}
+
+export async function getLibraryAuth(userId: string, service: ServiceType) {
+  await tokenManager.refreshTokenIfNeeded(userId, service);
+  const auth = await getServiceAuth(userId, service);
+  if (!auth) {
+    throw new Error(`No ${service} authentication found`);
+  }
+  return auth;
+}
+
+// Apple Music's API can add to the library but can't remove anything from it
+export function supportsLibraryRemoval(service: ServiceType) {
+  return service === 'spotify';
+}
+
+async function clearRemoved(
+  table: 'user_albums' | 'user_playlists',
+  id: string
+) {
+  const { error } = await supabase
+    .from(table)
+    .update({ removed_at: null })
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+export async function restoreRemovedAlbum(userId: string, album: UserAlbum) {
+  const auth = await getLibraryAuth(userId, album.service);
+
+  if (album.service === 'spotify') {
+    await addAlbumsToSpotifyLibrary([album.album_id], auth.accessToken);
+    await clearRemoved('user_albums', album.id);
+    return;
+  }
+
+  // Apple Music only re-adds albums by their catalog ID, and the album comes
+  // back under a new library ID. The old row is dropped and the next sync
+  // stores the new one.
+  const match = await searchAppleMusicAlbum(
+    album.name,
+    album.artist_name,
+    auth.musicUserToken!,
+    auth.storefront
+  );
+  if (!match) {
+    throw new Error(`Couldn't find "${album.name}" in the Apple Music catalog`);
+  }
+
+  await addAlbumsToAppleMusicLibrary([match.id], auth.musicUserToken!);
+
+  const { error } = await supabase
+    .from('user_albums')
+    .delete()
+    .eq('id', album.id);
+  if (error) throw error;
+
+  await requestLibrarySync(userId, album.service);
+}
+
+export async function restoreRemovedPlaylist(
+  userId: string,
+  playlist: UserPlaylist
+) {
+  if (!canRestorePlaylist(playlist)) {
+    throw new Error("Deleted Apple Music playlists can't be restored");
+  }
+
+  const auth = await getLibraryAuth(userId, playlist.service);
+  await followSpotifyPlaylist(playlist.playlist_id, auth.accessToken);
+  await clearRemoved('user_playlists', playlist.id);
+}
+
+// Removed items are soft-deleted like the ones the library sync finds gone,
+// so they show up under recently removed and can be restored from there
+async function markRemoved(
+  table: 'user_albums' | 'user_playlists',
+  ids: string[]
+) {
+  const { error } = await supabase
+    .from(table)
+    .update({ removed_at: new Date().toISOString() })
+    .in('id', ids);
+
+  if (error) throw error;
+}
+
+export async function removeAlbumsFromLibrary(
+  userId: string,
+  service: ServiceType,
+  albums: UserAlbum[]
+) {
+  if (!albums.length) return;
+  if (!supportsLibraryRemoval(service)) {
+    throw new Error("Albums can't be removed from Apple Music through its API");
+  }
+
+  const auth = await getLibraryAuth(userId, service);
+  await removeAlbumsFromSpotifyLibrary(
+    albums.map((album) => album.album_id),
+    auth.accessToken
+  );
+  await markRemoved(
+    'user_albums',
+    albums.map((album) => album.id)
+  );
+}
+
+export async function removePlaylistsFromLibrary(
+  userId: string,
+  service: ServiceType,
+  playlists: UserPlaylist[]
+) {
+  if (!playlists.length) return;
+  if (!supportsLibraryRemoval(service)) {
+    throw new Error(
+      "Playlists can't be removed from Apple Music through its API"
+    );
+  }
+
+  const auth = await getLibraryAuth(userId, service);
+  for (const playlist of playlists) {
+    await unfollowSpotifyPlaylist(playlist.playlist_id, auth.accessToken);
+  }
+  await markRemoved(
+    'user_playlists',
+    playlists.map((playlist) => playlist.id)
+  );
+}
@@ -2,7 +2,16 @@ import { supabase } from '@/lib/supabase';
 import { ServiceType } from '@/lib/types';
 import { refreshSpotifyToken } from '@/lib/api/spotify';
 import { isTokenExpired } from '@/lib/auth';
-import { getAllSpotifyAlbums, getSpotifyPlaylists } from '@/lib/api/spotify';
+import { getAllSpotifyAlbums, getSpotifyCountry, getSpotifyPlaylists } from '@/lib/api/spotify';
+import {
+  getAllAppleMusicLibraryAlbums,
+  getAppleMusicLibraryPlaylists,
+  getRecentlyAddedAppleMusicAlbums
+} from '@/lib/api/apple-music';
+import { getEntitlements } from '@/lib/services/entitlements';
+import { getNextSyncTime } from '@/lib/services/playlist-sync-schedule';
+import { RealtimeEventInput } from '@/lib/services/realtime-events';
+import { Database } from '@/types/supabase';
 
 // Configuration
 const SYNC_INTERVALS = {
@@ -14,7 +23,21 @@ const SYNC_INTERVALS = {
 const MAX_RETRY_COUNT = 5;
 const BACKOFF_MULTIPLIER = 2;
 
+// Most syncs only fetch albums saved since the newest one we've stored. A full
+// sync re-downloads the whole library this often to pick up removals.
+const FULL_SYNC_INTERVAL = 1000 * 60 * 60 * 24; // 24 hours
+
+type LibrarySyncMode = 'full' | 'delta';
+
+interface LibrarySyncMetadata {
+  lastFullSyncAt?: string;
+}
+
+type LibrarySyncRecord = Database['public']['Tables']['library_syncs']['Row'];
+type PublishEvent = (event: RealtimeEventInput) => void;
+
 interface LibrarySyncStats {
+  mode?: LibrarySyncMode;
   albums: {
     total: number;
     lastSyncCount: number;
@@ -31,26 +54,6 @@ interface LibrarySyncStats {
   };
 }
 
-// Get the current stored library data for a user's service
-async function getStoredLibrary(userId: string, service: ServiceType) {
-  const { data: albums } = await supabase
-    .from('user_albums')
-    .select('*')
-    .eq('user_id', userId)
-    .eq('service', service);
-
-  const { data: playlists } = await supabase
-    .from('user_playlists')
-    .select('*')
-    .eq('user_id', userId)
-    .eq('service', service);
-
-  return {
-    albums: albums || [],
-    playlists: playlists || []
-  };
-}
-
 // Get or create library sync record
 async function getLibrarySync(userId: string, service: ServiceType) {
   // Try to get existing record
@@ -105,6 +108,8 @@ async function updateLibrarySync(
     error_count: number;
     last_error: string | null;
     stats: any;
+    metadata: any;
+    claimed_by: string | null;
   }>
 ) {
   const { error } = await supabase
@@ -119,6 +124,33 @@ async function updateLibrarySync(
   }
 }
 
+// Newest added_at stored for the service, a delta sync fetches from here
+async function getAddedAtWatermark(userId: string, service: ServiceType): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('user_albums')
+    .select('added_at')
+    .eq('user_id', userId)
+    .eq('service', service)
+    .not('added_at', 'is', null)
+    .order('added_at', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    console.error('Failed to read library watermark:', error);
+    return null;
+  }
+
+  return data?.[0]?.added_at || null;
+}
+
+function chooseSyncMode(syncRecord: LibrarySyncRecord, watermark: string | null): LibrarySyncMode {
+  const lastFullSyncAt = (syncRecord.metadata as LibrarySyncMetadata | null)?.lastFullSyncAt;
+  if (!watermark || !lastFullSyncAt) {
+    return 'full';
+  }
+  return Date.now() - Date.parse(lastFullSyncAt) >= FULL_SYNC_INTERVAL ? 'full' : 'delta';
+}
+
 // Calculate next sync time using exponential backoff
 function calculateNextSyncTime(errorCount: number): Date {
   const baseDelay = SYNC_INTERVALS.DEFAULT;
@@ -128,50 +160,61 @@ function calculateNextSyncTime(errorCount: number): Date {
   return new Date(Date.now() + finalDelay);
 }
 
-// Compare old and new library data to calculate stats
-function calculateSyncStats(
-  oldData: { albums: any[]; playlists: any[] } | null,
-  newData: { albums: any[]; playlists: any[] },
-  oldStats: LibrarySyncStats
-): LibrarySyncStats {
-  const stats: LibrarySyncStats = {
-    albums: { ...oldStats.albums },
-    playlists: { ...oldStats.playlists }
-  };
-
-  // Calculate album changes
-  const oldAlbumIds = new Set(oldData?.albums.map(a => a.album_id) || []);
-  const newAlbumIds = new Set(newData.albums.map(a => a.album_id));
-  
-  stats.albums = {
-    total: newData.albums.length,
-    lastSyncCount: oldData?.albums.length || 0,
-    added: [...newAlbumIds].filter(id => !oldAlbumIds.has(id)).length,
-    removed: [...oldAlbumIds].filter(id => !newAlbumIds.has(id)).length,
-    updated: 0 // We'll implement change detection later
-  };
+async function storeSpotifyCountry(userId: string, accessToken: string) {
+  try {
+    const country = await getSpotifyCountry(accessToken);
+    if (!country) return;
 
-  // Calculate playlist changes
-  const oldPlaylistIds = new Set(oldData?.playlists.map(p => p.playlist_id) || []);
-  const newPlaylistIds = new Set(newData.playlists.map(p => p.playlist_id));
-  
-  stats.playlists = {
-    total: newData.playlists.length,
-    lastSyncCount: oldData?.playlists.length || 0,
-    added: [...newPlaylistIds].filter(id => !oldPlaylistIds.has(id)).length,
-    removed: [...oldPlaylistIds].filter(id => !newPlaylistIds.has(id)).length,
-    updated: 0 // We'll implement change detection later
-  };
+    await supabase
+      .from('user_services')
+      .update({ country })
+      .eq('user_id', userId)
+      .eq('service', 'spotify');
+  } catch (error) {
+    console.error('[syncLibrary] Failed to store Spotify country:', error);
+  }
+}
 
-  return stats;
+// Playability depends on the user's market and changes over time, so the
+// tracks of every fetched album are refreshed, on a full sync that's all of
+// them. Multi-disc albums restart their track numbers on each disc, tracks
+// are numbered across the album.
+async function storeAlbumTracks(userId: string, service: ServiceType, albums: any[]) {
+  const rows = albums.flatMap(album =>
+    (album.tracks || []).map((track: any, index: number) => ({
+      ...track,
+      album_id: album.album_id,
+      track_number: index + 1,
+      user_id: userId,
+      service,
+      updated_at: new Date().toISOString(),
+    }))
+  );
+  console.log(`[syncLibrary] Storing ${rows.length} album tracks...`);
+
+  for (let i = 0; i < rows.length; i += 500) {
+    const { error } = await supabase
+      .from('album_tracks')
+      .upsert(rows.slice(i, i + 500), { onConflict: 'user_id,album_id,track_number,service' });
+
+    if (error) {
+      console.error('[syncLibrary] Error storing album tracks:', error);
+      throw error;
+    }
+  }
 }
 
-// Sync library with streaming service
-async function syncLibrary(userId: string, service: ServiceType) {
-  console.log(`[syncLibrary] Starting ${service} library sync...`);
-  const result: { albums: any[]; playlists: any[] } = {
-    albums: [],
-    playlists: []
+// Fetch the library from the streaming service. With `since` only albums
+// saved at or after it are fetched, playlists are always fetched in full.
+async function fetchLibrary(
+  userId: string,
+  service: ServiceType,
+  since: string | null,
+  publish: PublishEvent
+): Promise<{ albums: any[]; playlists: any[] }> {
+  const onAlbumsProgress = (current: number, total: number) => {
+    console.log(`[syncLibrary] Fetched ${current}/${total} albums...`);
+    publish({ type: 'library_sync_progress', service, stage: 'albums', current, total });
   };
 
   if (service === 'spotify') {
@@ -179,7 +222,7 @@ async function syncLibrary(userId: string, service: ServiceType) {
     console.log('[syncLibrary] Getting Spotify auth...');
     const { data: auth } = await supabase
       .from('user_services')
-      .select('access_token')
+      .select('access_token, country')
       .eq('user_id', userId)
       .eq('service', service)
       .single();
@@ -188,237 +231,286 @@ async function syncLibrary(userId: string, service: ServiceType) {
       throw new Error('No Spotify access token found');
     }
 
-    try {
-      // Get user's saved albums with progress logging
-      console.log('[syncLibrary] Fetching Spotify albums...');
-      const albums = await getAllSpotifyAlbums(userId, auth.access_token, (current, total) => {
-        console.log(`[syncLibrary] Fetched ${current}/${total} albums...`);
-      });
-      
-      console.log(`[syncLibrary] Found ${albums.length} albums, checking for new ones...`);
-      
-      // Get all existing albums with pagination
-      let allExistingAlbums: { album_id: string }[] = [];
-      let page = 0;
-      const pageSize = 1000;
-      
-      while (true) {
-        console.log(`[syncLibrary] Fetching page ${page + 1} of existing albums...`);
-        const { data: existingAlbums, error: existingError } = await supabase
-          .from('user_albums')
-          .select('album_id')
-          .eq('user_id', userId)
-          .eq('service', service)
-          .range(page * pageSize, (page + 1) * pageSize - 1);
-
-        if (existingError) {
-          console.error('[syncLibrary] Error fetching existing albums:', existingError);
-          throw existingError;
-        }
-
-        if (!existingAlbums || existingAlbums.length === 0) {
-          break;
-        }
-
-        allExistingAlbums = allExistingAlbums.concat(existingAlbums);
-        
-        if (existingAlbums.length < pageSize) {
-          break;
-        }
-        
-        page++;
-      }
+    // Accounts connected before the country was stored pick it up here
+    if (!auth.country) {
+      await storeSpotifyCountry(userId, auth.access_token);
+    }
 
-      console.log(`[syncLibrary] Found ${allExistingAlbums.length} existing albums in database`);
-
-      // Create a set of existing album IDs for faster lookup
-      const existingAlbumIds = new Set(allExistingAlbums.map(a => a.album_id));
-      
-      // Debug logging of first few album IDs
-      console.log('[syncLibrary] First few existing album IDs:', 
-        allExistingAlbums.slice(0, 3).map(a => a.album_id));
-      console.log('[syncLibrary] First few incoming album IDs:', 
-        albums.slice(0, 3).map(a => a.album_id));
-      
-      // Filter out albums that already exist
-      const newAlbums = albums.filter(album => !existingAlbumIds.has(album.album_id));
-      
-      console.log(`[syncLibrary] Found ${newAlbums.length} new albums to add`);
-      
-      if (newAlbums.length > 0) {
-        console.log(`[syncLibrary] Storing ${newAlbums.length} new albums...`);
-        
-        // Insert albums in batches
-        for (let i = 0; i < newAlbums.length; i += 50) {
-          const batch = newAlbums.slice(i, i + 50);
-          console.log(`[syncLibrary] Processing batch ${i}-${i + batch.length}`);
-          console.log('[syncLibrary] First album in batch:', batch[0]);
-          const batchData = batch.map(album => ({
-            album_id: album.album_id,
-            name: album.name,
-            artist_name: album.artist_name,
-            image_url: album.image_url,
-            release_date: album.release_date,
-            tracks_count: album.tracks_count,
-            external_url: album.external_url,
-            album_type: album.album_type,
-            added_at: album.added_at,
-            upc: album.upc,
-            user_id: userId,
-            service,
-            synced_at: new Date().toISOString(),
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-          }));
-
-          const { error: insertError } = await supabase
-            .from('user_albums')
-            .upsert(batchData, { onConflict: 'album_id' });
-
-          if (insertError) {
-            console.error('[syncLibrary] Error storing albums batch:', insertError);
-            throw insertError;
-          }
-        }
-        console.log(`[syncLibrary] Successfully stored ${newAlbums.length} new albums`);
-      } else {
-        console.log('[syncLibrary] No new albums to store');
-      }
+    console.log('[syncLibrary] Fetching Spotify albums...');
+    const albums = await getAllSpotifyAlbums(userId, auth.access_token, onAlbumsProgress, since ?? undefined);
 
-      // Store all albums in result
-      result.albums = albums;
-
-      // Get user's playlists
-      console.log('[syncLibrary] Fetching Spotify playlists...');
-      const playlists = await getSpotifyPlaylists(auth.access_token, userId);
-      console.log('[syncLibrary] First raw playlist from Spotify:', playlists[0]);
-      console.log(`[syncLibrary] Found ${playlists.length} playlists, checking for new ones...`);
-      
-      if (playlists?.length > 0) {
-        // Get existing playlists with pagination
-        let allExistingPlaylists: { playlist_id: string }[] = [];
-        let page = 0;
-        const pageSize = 1000;
-        
-        while (true) {
-          console.log(`[syncLibrary] Fetching page ${page + 1} of existing playlists...`);
-          const { data: existingPlaylists, error: existingError } = await supabase
-            .from('user_playlists')
-            .select('playlist_id')
-            .eq('user_id', userId)
-            .eq('service', service)
-            .range(page * pageSize, (page + 1) * pageSize - 1);
-
-          if (existingError) {
-            console.error('[syncLibrary] Error fetching existing playlists:', existingError);
-            throw existingError;
-          }
-
-          if (!existingPlaylists || existingPlaylists.length === 0) {
-            break;
-          }
-
-          allExistingPlaylists = allExistingPlaylists.concat(existingPlaylists);
-          
-          if (existingPlaylists.length < pageSize) {
-            break;
-          }
-          
-          page++;
-        }
-
-        console.log(`[syncLibrary] Found ${allExistingPlaylists.length} existing playlists in database`);
-        console.log('[syncLibrary] First few existing playlist IDs:', allExistingPlaylists.slice(0, 3).map(p => p.playlist_id));
-        console.log('[syncLibrary] First few incoming playlist IDs:', playlists.slice(0, 3).map(p => p.playlist_id));
-        
-        // Create a set of existing playlist IDs for faster lookup
-        const existingPlaylistIds = new Set(allExistingPlaylists.map(p => p.playlist_id));
-        
-        // Filter out playlists that already exist
-        const newPlaylists = playlists.filter(playlist => !existingPlaylistIds.has(playlist.playlist_id));
-        
-        if (newPlaylists.length > 0) {
-          console.log(`[syncLibrary] Storing ${newPlaylists.length} new playlists...`);
-          
-          // Insert in batches of 50
-          for (let i = 0; i < newPlaylists.length; i += 50) {
-            const batch = newPlaylists.slice(i, i + 50);
-            console.log(`[syncLibrary] Processing batch ${i}-${i + batch.length}`);
-            console.log('[syncLibrary] First playlist in batch:', batch[0]);
-            const batchData = batch.map(playlist => ({
-              user_id: userId,
-              service,
-              playlist_id: playlist.playlist_id,
-              name: playlist.name,
-              description: playlist.description || '',
-              is_public: playlist.is_public || false,
-              collaborative: false, // Not supported by Spotify API
-              tracks_count: playlist.tracks_count || 0,
-              artwork_url: playlist.artwork?.url || null,
-              synced_at: new Date().toISOString(),
-              created_at: new Date().toISOString(),
-              updated_at: new Date().toISOString(),
-            }));
-
-            const { error: insertError } = await supabase
-              .from('user_playlists')
-              .upsert(batchData, { onConflict: 'playlist_id' });
-
-            if (insertError) {
-              console.error('[syncLibrary] Error storing playlists batch:', insertError);
-              throw insertError;
-            }
-          }
-          console.log(`[syncLibrary] Successfully stored ${newPlaylists.length} new playlists`);
-        } else {
-          console.log('[syncLibrary] No new playlists to store');
-        }
-
-        // Store all playlists in result
-        result.playlists = playlists;
+    console.log('[syncLibrary] Fetching Spotify playlists...');
+    const playlists = await getSpotifyPlaylists(auth.access_token, userId);
+    return { albums, playlists };
+  }
+
+  console.log('[syncLibrary] Getting Apple Music auth...');
+  const { data: auth } = await supabase
+    .from('user_services')
+    .select('music_user_token')
+    .eq('user_id', userId)
+    .eq('service', service)
+    .single();
+
+  if (!auth?.music_user_token) {
+    throw new Error('No Apple Music user token found');
+  }
+
+  // recently-added is ordered by date added, the full album list isn't
+  console.log('[syncLibrary] Fetching Apple Music albums...');
+  const albums = since
+    ? await getRecentlyAddedAppleMusicAlbums(auth.music_user_token, since)
+    : await getAllAppleMusicLibraryAlbums(auth.music_user_token, onAlbumsProgress);
+
+  console.log('[syncLibrary] Fetching Apple Music playlists...');
+  const playlists = await getAppleMusicLibraryPlaylists(auth.music_user_token);
+  return { albums, playlists };
+}
+
+interface LibraryTable {
+  table: 'user_albums' | 'user_playlists';
+  idColumn: 'album_id' | 'playlist_id';
+  // Compared with what's stored to tell whether an item changed
+  fields: string[];
+}
+
+type ReconcileCounts = Pick<LibrarySyncStats['albums'], 'added' | 'removed' | 'updated'>;
+
+const ALBUMS: LibraryTable = {
+  table: 'user_albums',
+  idColumn: 'album_id',
+  // upc is compared so albums stored before it was read pick it up
+  fields: ['name', 'artist_name', 'image_url', 'tracks_count', 'upc']
+};
+
+const PLAYLISTS: LibraryTable = {
+  table: 'user_playlists',
+  idColumn: 'playlist_id',
+  fields: ['name', 'description', 'image_url', 'tracks_count']
+};
+
+// Stored rows by ID, for the given IDs or when ids is null every row stored
+// for the service
+async function getStoredItems(kind: LibraryTable, userId: string, service: ServiceType, ids: string[] | null) {
+  const columns = [kind.idColumn, 'removed_at', ...kind.fields].join(', ');
+  const stored = new Map<string, any>();
+  const addRows = (rows: any[] | null) => (rows || []).forEach(row => stored.set(row[kind.idColumn], row));
+
+  if (ids) {
+    for (let i = 0; i < ids.length; i += 200) {
+      const { data, error } = await supabase
+        .from(kind.table)
+        .select(columns)
+        .eq('user_id', userId)
+        .eq('service', service)
+        .in(kind.idColumn, ids.slice(i, i + 200));
+
+      if (error) {
+        console.error(`[syncLibrary] Error fetching existing ${kind.table}:`, error);
+        throw error;
       }
-    } catch (error) {
-      console.error('[syncLibrary] Error during Spotify sync:', error);
+
+      addRows(data);
+    }
+    return stored;
+  }
+
+  let page = 0;
+  const pageSize = 1000;
+
+  while (true) {
+    console.log(`[syncLibrary] Fetching page ${page + 1} of existing ${kind.table}...`);
+    const { data, error } = await supabase
+      .from(kind.table)
+      .select(columns)
+      .eq('user_id', userId)
+      .eq('service', service)
+      .range(page * pageSize, (page + 1) * pageSize - 1);
+
+    if (error) {
+      console.error(`[syncLibrary] Error fetching existing ${kind.table}:`, error);
       throw error;
     }
+
+    addRows(data);
+
+    if (!data || data.length < pageSize) {
+      break;
+    }
+
+    page++;
   }
-  // Add other services here (Apple Music, etc.)
 
-  console.log('[syncLibrary] Sync completed successfully');
-  return result;
+  return stored;
 }
 
-// Main sync function with error handling and retry logic
-async function performSync(userId: string, service: ServiceType, force: boolean = false) {
-  console.log(`Starting sync for ${service}...`);
-  const syncRecord = await getLibrarySync(userId, service);
-  
-  // Check if sync is already in progress
-  if (syncRecord?.sync_status === 'syncing' && !force) {
-    // Check if it's a stale sync (stuck for more than 5 minutes)
-    const lastSyncTime = new Date(syncRecord.last_sync_time);
-    const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
-    
-    if (lastSyncTime < fiveMinutesAgo) {
-      console.log(`Found stale sync for ${service}, resetting...`);
-      await updateLibrarySync(userId, service, {
-        sync_status: 'idle',
-        last_error: 'Previous sync was stale',
-      });
-    } else {
-      console.log(`Sync already in progress for ${service}`);
-      return;
+async function upsertItems(kind: LibraryTable, rows: any[]) {
+  for (let i = 0; i < rows.length; i += 50) {
+    const { error } = await supabase
+      .from(kind.table)
+      .upsert(rows.slice(i, i + 50), { onConflict: kind.idColumn });
+
+    if (error) {
+      console.error(`[syncLibrary] Error storing ${kind.table} batch:`, error);
+      throw error;
     }
   }
+}
+
+// Brings the stored items in line with what the service returned. New items
+// are inserted, and changed or re-saved ones updated. When `rows` is the
+// whole library, stored items missing from it are marked removed; they're
+// kept so the user can see and restore them.
+async function reconcileItems(
+  kind: LibraryTable,
+  userId: string,
+  service: ServiceType,
+  rows: any[],
+  complete: boolean
+): Promise<ReconcileCounts> {
+  const stored = await getStoredItems(kind, userId, service, complete ? null : rows.map(row => row[kind.idColumn]));
+  const now = new Date().toISOString();
+  const inserts: any[] = [];
+  const updates: any[] = [];
+  let restored = 0;
+
+  for (const row of rows) {
+    const existing = stored.get(row[kind.idColumn]);
+    if (!existing) {
+      inserts.push({ ...row, created_at: now });
+    } else if (existing.removed_at) {
+      updates.push({ ...row, removed_at: null });
+      restored++;
+    } else if (kind.fields.some(field => (existing[field] ?? null) !== (row[field] ?? null))) {
+      updates.push(row);
+    }
+  }
+
+  const fetchedIds = new Set(rows.map(row => row[kind.idColumn]));
+  const removedIds = complete
+    ? [...stored.values()]
+      .filter(item => !item.removed_at && !fetchedIds.has(item[kind.idColumn]))
+      .map(item => item[kind.idColumn])
+    : [];
+
+  console.log(
+    `[syncLibrary] ${kind.table}: ${inserts.length} new, ${restored} re-saved, ` +
+    `${updates.length - restored} changed, ${removedIds.length} removed`
+  );
+
+  // Inserts and updates go separately so updates don't reset created_at
+  await upsertItems(kind, inserts);
+  await upsertItems(kind, updates);
+
+  for (let i = 0; i < removedIds.length; i += 200) {
+    const { error } = await supabase
+      .from(kind.table)
+      .update({ removed_at: now })
+      .eq('user_id', userId)
+      .eq('service', service)
+      .in(kind.idColumn, removedIds.slice(i, i + 200));
+
+    if (error) {
+      console.error(`[syncLibrary] Error marking ${kind.table} removed:`, error);
+      throw error;
+    }
+  }
+
+  return {
+    added: inserts.length + restored,
+    removed: removedIds.length,
+    updated: updates.length - restored
+  };
+}
+
+// Sync library with streaming service. `since` makes it a delta sync that
+// only fetches albums saved since the newest one we have, so album removals
+// wait for the next full sync. Playlists are always fetched in full.
+async function syncLibrary(userId: string, service: ServiceType, since: string | null, publish: PublishEvent) {
+  console.log(`[syncLibrary] Starting ${since ? 'delta' : 'full'} ${service} library sync...`);
 
   try {
-    console.log(`Updating sync status to syncing for ${service}...`);
-    // Update status to syncing
-    await updateLibrarySync(userId, service, {
-      sync_status: 'syncing',
-      last_sync_time: new Date().toISOString()
-    });
+    const { albums, playlists } = await fetchLibrary(userId, service, since, publish);
+    const now = new Date().toISOString();
+
+    console.log(`[syncLibrary] Found ${albums.length} albums, checking for changes...`);
+    const albumCounts = await reconcileItems(ALBUMS, userId, service, albums.map(album => ({
+      album_id: album.album_id,
+      name: album.name,
+      artist_name: album.artist_name,
+      image_url: album.image_url,
+      release_date: album.release_date,
+      tracks_count: album.tracks_count,
+      external_url: album.external_url,
+      album_type: album.album_type,
+      added_at: album.added_at,
+      upc: album.upc,
+      user_id: userId,
+      service,
+      synced_at: now,
+      updated_at: now,
+    })), !since);
+
+    await storeAlbumTracks(userId, service, albums);
+
+    console.log(`[syncLibrary] Found ${playlists.length} playlists, checking for changes...`);
+    publish({ type: 'library_sync_progress', service, stage: 'playlists', current: playlists.length });
+
+    const playlistCounts = await reconcileItems(PLAYLISTS, userId, service, playlists.map(playlist => ({
+      user_id: userId,
+      service,
+      playlist_id: playlist.playlist_id,
+      name: playlist.name,
+      description: playlist.description || '',
+      is_public: playlist.is_public || false,
+      collaborative: false, // Not supported by Spotify API
+      tracks_count: playlist.tracks_count || 0,
+      image_url: playlist.artwork?.url || null,
+      synced_at: now,
+      updated_at: now,
+    })), true);
+
+    console.log('[syncLibrary] Sync completed successfully');
+    return { albums, playlists, albumCounts, playlistCounts };
+  } catch (error) {
+    console.error(`[syncLibrary] Error during ${service} sync:`, error);
+    throw error;
+  }
+}
+
+// Services fetchLibrary knows how to read, the worker only claims these
+export const SYNCABLE_SERVICES: ServiceType[] = ['spotify', 'apple-music'];
+
+async function recordSyncHistory(
+  syncRecord: LibrarySyncRecord,
+  status: 'completed' | 'failed',
+  details: { stats?: LibrarySyncStats; error?: string }
+) {
+  const { error } = await supabase.from('library_sync_history').insert({
+    user_id: syncRecord.user_id,
+    service: syncRecord.service,
+    status,
+    started_at: syncRecord.last_sync_time,
+    completed_at: new Date().toISOString(),
+    stats: details.stats || null,
+    error: details.error || null
+  });
+
+  if (error) {
+    console.error('Failed to record library sync history:', error);
+  }
+}
 
+// Runs a sync the worker has already claimed (sync_status is 'syncing'), so
+// the record is never touched by two syncs at once. Events go to the user's
+// open tabs through publish.
+export async function runLibrarySync(syncRecord: LibrarySyncRecord, publish: PublishEvent) {
+  const userId = syncRecord.user_id;
+  const service = syncRecord.service as ServiceType;
+  console.log(`Starting sync for ${service}...`);
+  publish({ type: 'library_sync_started', service });
+
+  try {
     // Get service auth
     console.log(`Getting ${service} auth...`);
     const { data: auth } = await supabase
@@ -435,42 +527,61 @@ async function performSync(userId: string, service: ServiceType, force: boolean
     // Check if token needs refresh for Spotify
     if (service === 'spotify' && isTokenExpired(auth.token_expires_at)) {
       console.log('Refreshing Spotify token...');
-      const refreshedAuth = await refreshSpotifyToken(auth.refresh_token);
+      const refreshedAuth = await refreshSpotifyToken(userId);
       if (!refreshedAuth) {
         throw new Error('Failed to refresh Spotify token');
       }
     }
 
-    // Get current library data before sync
-    console.log(`Getting current library data for ${service}...`);
-    const oldLibraryData = await getStoredLibrary(userId, service);
+    const watermark = await getAddedAtWatermark(userId, service);
+    const mode = chooseSyncMode(syncRecord, watermark);
 
     // Perform the sync
-    console.log(`Syncing ${service} library...`);
-    const newLibraryData = await syncLibrary(userId, service);
+    console.log(`Syncing ${service} library (${mode})...`);
+    const newLibraryData = await syncLibrary(userId, service, mode === 'delta' ? watermark : null, publish);
 
     // Calculate sync stats
     console.log(`Calculating sync stats for ${service}...`);
-    const newStats = calculateSyncStats(
-      oldLibraryData,
-      newLibraryData,
-      syncRecord?.stats || {
-        albums: { total: 0, lastSyncCount: 0, added: 0, removed: 0, updated: 0 },
-        playlists: { total: 0, lastSyncCount: 0, added: 0, removed: 0, updated: 0 }
+    const oldStats: LibrarySyncStats = (syncRecord.stats as unknown as LibrarySyncStats) || {
+      albums: { total: 0, lastSyncCount: 0, added: 0, removed: 0, updated: 0 },
+      playlists: { total: 0, lastSyncCount: 0, added: 0, removed: 0, updated: 0 }
+    };
+    const newStats: LibrarySyncStats = {
+      mode,
+      albums: {
+        // A delta sync only sees new albums, so the total is carried forward
+        total: mode === 'full'
+          ? newLibraryData.albums.length
+          : oldStats.albums.total + newLibraryData.albumCounts.added,
+        lastSyncCount: oldStats.albums.total,
+        ...newLibraryData.albumCounts
+      },
+      playlists: {
+        total: newLibraryData.playlists.length,
+        lastSyncCount: oldStats.playlists.total,
+        ...newLibraryData.playlistCounts
       }
-    );
+    };
 
     // Update sync record with success
     console.log(`Sync completed for ${service}. Updating sync record...`);
     
-    // Update library_syncs table
+    // Libraries are synced as often as the user's plan allows
+    const { limits } = await getEntitlements(userId);
+
+    // Update library_syncs table and release the claim
     await updateLibrarySync(userId, service, {
       sync_status: 'idle',
+      claimed_by: null,
       error_count: 0,
       last_error: null,
-      next_sync_time: new Date(Date.now() + SYNC_INTERVALS.DEFAULT).toISOString(),
-      stats: newStats
+      next_sync_time: getNextSyncTime(limits.minSyncFrequency).toISOString(),
+      stats: newStats,
+      ...(mode === 'full' && {
+        metadata: { ...(syncRecord.metadata as object), lastFullSyncAt: new Date().toISOString() }
+      })
     });
+    await recordSyncHistory(syncRecord, 'completed', { stats: newStats });
 
     // Update last_library_sync in user_services table
     const now = new Date().toISOString();
@@ -497,20 +608,39 @@ async function performSync(userId: string, service: ServiceType, force: boolean
       }
     });
 
+    publish({
+      type: 'library_sync_completed',
+      service,
+      albums: {
+        total: newStats.albums.total,
+        added: newStats.albums.added,
+        removed: newStats.albums.removed
+      },
+      playlists: {
+        total: newStats.playlists.total,
+        added: newStats.playlists.added,
+        removed: newStats.playlists.removed
+      }
+    });
+
     return newLibraryData;
 
   } catch (error) {
     console.error(`Sync failed for ${service}:`, error);
+    const message = error instanceof Error ? error.message : String(error);
     
-    const newErrorCount = (syncRecord?.error_count || 0) + 1;
+    const newErrorCount = (syncRecord.error_count || 0) + 1;
     const nextSyncTime = calculateNextSyncTime(newErrorCount);
 
     await updateLibrarySync(userId, service, {
       sync_status: 'error',
+      claimed_by: null,
       error_count: newErrorCount,
-      last_error: error.message,
+      last_error: message,
       next_sync_time: nextSyncTime.toISOString()
     });
+    await recordSyncHistory(syncRecord, 'failed', { error: message });
+    publish({ type: 'library_sync_failed', service, error: message });
 
     // If we've exceeded max retries, we need manual intervention
     if (newErrorCount >= MAX_RETRY_COUNT) {
@@ -521,45 +651,17 @@ async function performSync(userId: string, service: ServiceType, force: boolean
   }
 }
 
-// Function to check and trigger sync for all services
-export async function checkAndTriggerSync() {
-  try {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user?.id) return;
-
-    const { data: services } = await supabase
-      .from('user_services')
-      .select('service')
-      .eq('user_id', user.id);
-
-    if (!services?.length) return;
-
-    for (const { service } of services) {
-      const syncRecord = await getLibrarySync(user.id, service as ServiceType);
-      
-      // Skip if next sync time hasn't been reached
-      if (syncRecord?.next_sync_time && new Date(syncRecord.next_sync_time) > new Date()) {
-        continue;
-      }
-
-      await performSync(user.id, service as ServiceType);
-    }
+// Asks the sync worker to pick up this library on its next poll. A sync that
+// is already running is left alone.
+export async function requestLibrarySync(userId: string, service: ServiceType) {
+  const syncRecord = await getLibrarySync(userId, service);
 
-  } catch (error) {
-    console.error('Failed to check and trigger sync:', error);
+  if (syncRecord.sync_status === 'syncing') {
+    console.log(`Sync already in progress for ${service}`);
+    return;
   }
-}
-
-// Function to force sync for a specific service
-export async function forceSyncLibrary(userId: string, service: ServiceType) {
-  return performSync(userId, service, true);
-}
-
-// Set up automatic sync check
-export function initializeAutoSync(checkInterval = SYNC_INTERVALS.DEFAULT) {
-  // Initial check
-  checkAndTriggerSync();
 
-  // Set up periodic checks
-  setInterval(checkAndTriggerSync, checkInterval);
+  await updateLibrarySync(userId, service, {
+    next_sync_time: new Date().toISOString()
+  });
 }
@@ -6,6 +6,7 @@ export async function getUserPlaylists(userId: string, service?: ServiceType) {
     .from('user_playlists')
     .select('*')
     .eq('user_id', userId)
+    .is('removed_at', null)
     .order('name');
 
   if (service) {
@@ -22,6 +23,7 @@ export async function getUserAlbums(userId: string, service?: ServiceType) {
     .from('user_albums')
     .select('*')
     .eq('user_id', userId)
+    .is('removed_at', null)
     .order('name');
 
   if (service) {
@@ -0,0 +1,299 @@
+import { supabase } from '@/lib/supabase';
+import { ServiceType, Track } from '@/lib/types';
+import {
+  LOW_CONFIDENCE_THRESHOLD,
+  MatchAuth,
+  matchTracks,
+  TrackMatch,
+} from './track-matching';
+
+export type TrackMappingMethod = 'isrc' | 'search' | 'manual';
+export type AlbumMappingMethod = 'upc' | 'search' | 'manual';
+
+export interface TrackMapping {
+  isrc?: string | null;
+  spotify_id: string;
+  apple_music_id: string;
+  match_method: TrackMappingMethod;
+  confidence: number;
+}
+
+export interface AlbumMapping {
+  upc?: string | null;
+  spotify_id: string;
+  apple_music_id: string;
+  match_method: AlbumMappingMethod;
+  confidence: number;
+}
+
+// Keeps `.in()` filters well under the PostgREST URL length limit
+const LOOKUP_CHUNK_SIZE = 100;
+
+const idColumn = (service: ServiceType) =>
+  service === 'spotify' ? 'spotify_id' : 'apple_music_id';
+
+// Apple Music library IDs (i.xxx, l.xxx) are per-user, only catalog IDs are
+// shared across users and can be stored
+export function catalogIdFor(
+  service: ServiceType,
+  item: { id?: string; catalogId?: string }
+): string | undefined {
+  if (service === 'spotify') return item.id;
+  if (item.catalogId) return item.catalogId;
+  return item.id && !/^[il]\./.test(item.id) ? item.id : undefined;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+async function selectMappings<T>(
+  table: 'track_mappings' | 'album_mappings',
+  column: string,
+  values: string[]
+): Promise<T[]> {
+  const unique = [...new Set(values.filter(Boolean))];
+  const rows: T[] = [];
+
+  for (const batch of chunk(unique, LOOKUP_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from(table)
+      .select('*')
+      .in(column, batch);
+
+    if (error) {
+      throw new Error(`Failed to read ${table}: ${error.message}`);
+    }
+    rows.push(...(data || []));
+  }
+
+  return rows;
+}
+
+// Users can only read the shared mappings. Matches made in the browser are
+// still used for that transfer, but only the workers, running with the
+// service role key, add them to the cache.
+const canWriteMappings = typeof window === 'undefined';
+
+async function upsertMappings(
+  table: 'track_mappings' | 'album_mappings',
+  mappings: (TrackMapping | AlbumMapping)[]
+) {
+  if (mappings.length === 0 || !canWriteMappings) return;
+
+  const now = new Date().toISOString();
+  const { error } = await supabase.from(table).upsert(
+    mappings.map((mapping) => ({
+      ...mapping,
+      confirmed_at: now,
+      updated_at: now,
+    })),
+    { onConflict: 'spotify_id,apple_music_id' }
+  );
+
+  if (error) {
+    // The cache is an optimisation, a failed write must not fail a transfer
+    console.error(`Failed to save ${table}:`, error);
+  }
+}
+
+export async function lookupTrackMappings(
+  sourceService: ServiceType,
+  tracks: Track[]
+) {
+  const sourceColumn = idColumn(sourceService);
+  const byId = new Map<string, TrackMapping>();
+  const byIsrc = new Map<string, TrackMapping>();
+
+  const ids = tracks
+    .map((track) => catalogIdFor(sourceService, track))
+    .filter((id): id is string => !!id);
+  const isrcs = tracks
+    .map((track) => track.isrc)
+    .filter((isrc): isrc is string => !!isrc);
+
+  const [idRows, isrcRows] = await Promise.all([
+    selectMappings<TrackMapping>('track_mappings', sourceColumn, ids),
+    selectMappings<TrackMapping>('track_mappings', 'isrc', isrcs),
+  ]);
+
+  idRows.forEach((row) => byId.set(row[sourceColumn], row));
+  isrcRows.forEach((row) => row.isrc && byIsrc.set(row.isrc, row));
+
+  return (track: Track): TrackMapping | undefined => {
+    const id = catalogIdFor(sourceService, track);
+    return (id && byId.get(id)) || (track.isrc && byIsrc.get(track.isrc)) || undefined;
+  };
+}
+
+export async function saveTrackMappings(mappings: TrackMapping[]) {
+  await upsertMappings('track_mappings', mappings);
+}
+
+// Only matches we'd put in front of a user without asking are cached. The
+// cache is shared, so a track one user can't play is left out too.
+function isConfirmedMatch(match: TrackMatch) {
+  return (
+    !!match.targetId &&
+    match.candidate?.isPlayable !== false &&
+    (match.method === 'isrc' || match.confidence >= LOW_CONFIDENCE_THRESHOLD)
+  );
+}
+
+export function toTrackMapping(
+  sourceService: ServiceType,
+  track: Track,
+  targetId: string,
+  method: TrackMappingMethod,
+  confidence: number
+): TrackMapping | null {
+  const sourceId = catalogIdFor(sourceService, track);
+  if (!sourceId) return null;
+
+  return {
+    isrc: track.isrc || null,
+    spotify_id: sourceService === 'spotify' ? sourceId : targetId,
+    apple_music_id: sourceService === 'spotify' ? targetId : sourceId,
+    match_method: method,
+    confidence,
+  };
+}
+
+// Same contract as matchTracks, but answers from track_mappings first and
+// only searches the target catalog for tracks it hasn't seen before
+export async function matchTracksCached(
+  sourceService: ServiceType,
+  targetService: ServiceType,
+  tracks: Track[],
+  auth: MatchAuth,
+  onProgress?: (current: number) => void
+): Promise<TrackMatch[]> {
+  const targetColumn = idColumn(targetService);
+  const results: (TrackMatch | undefined)[] = new Array(tracks.length);
+  const misses: { index: number; track: Track }[] = [];
+
+  try {
+    const findMapping = await lookupTrackMappings(sourceService, tracks);
+    tracks.forEach((track, index) => {
+      const mapping = findMapping(track);
+      if (!mapping) {
+        misses.push({ index, track });
+        return;
+      }
+
+      const targetId = mapping[targetColumn];
+      results[index] = {
+        track,
+        targetId,
+        targetUri:
+          targetService === 'spotify' ? `spotify:track:${targetId}` : undefined,
+        confidence: Number(mapping.confidence),
+        method: mapping.match_method === 'isrc' ? 'isrc' : 'search',
+      };
+    });
+  } catch (error) {
+    console.error('Mapping cache lookup failed, searching instead:', error);
+    misses.length = 0;
+    tracks.forEach((track, index) => misses.push({ index, track }));
+  }
+
+  const hits = tracks.length - misses.length;
+  if (hits > 0) {
+    console.log(`Resolved ${hits}/${tracks.length} tracks from the mapping cache`);
+  }
+  onProgress?.(hits);
+
+  const searched = await matchTracks(
+    targetService,
+    misses.map((miss) => miss.track),
+    auth,
+    (current) => onProgress?.(hits + current)
+  );
+
+  const newMappings: TrackMapping[] = [];
+  searched.forEach((match, i) => {
+    results[misses[i].index] = match;
+
+    if (isConfirmedMatch(match)) {
+      const mapping = toTrackMapping(
+        sourceService,
+        match.track,
+        match.targetId!,
+        match.method === 'isrc' ? 'isrc' : 'search',
+        match.confidence
+      );
+      if (mapping) newMappings.push(mapping);
+    }
+  });
+
+  await saveTrackMappings(newMappings);
+  return results as TrackMatch[];
+}
+
+export async function lookupAlbumMappings(
+  sourceService: ServiceType,
+  albums: { id?: string; upc?: string | null }[]
+) {
+  const sourceColumn = idColumn(sourceService);
+  const targetColumn = idColumn(sourceService === 'spotify' ? 'apple-music' : 'spotify');
+  const byId = new Map<string, string>();
+  const byUpc = new Map<string, string>();
+
+  const [idRows, upcRows] = await Promise.all([
+    selectMappings<AlbumMapping>(
+      'album_mappings',
+      sourceColumn,
+      albums
+        .map((album) => catalogIdFor(sourceService, album))
+        .filter((id): id is string => !!id)
+    ),
+    selectMappings<AlbumMapping>(
+      'album_mappings',
+      'upc',
+      albums
+        .map((album) => album.upc)
+        .filter((upc): upc is string => !!upc)
+    ),
+  ]);
+
+  idRows.forEach((row) => byId.set(row[sourceColumn], row[targetColumn]));
+  upcRows.forEach((row) => row.upc && byUpc.set(row.upc, row[targetColumn]));
+
+  // Returns the target service album ID, if known
+  return (album: { id?: string; upc?: string | null }): string | undefined => {
+    const id = catalogIdFor(sourceService, album);
+    return (id && byId.get(id)) || (album.upc && byUpc.get(album.upc)) || undefined;
+  };
+}
+
+export async function saveAlbumMappings(
+  sourceService: ServiceType,
+  pairs: {
+    sourceId: string;
+    targetId: string;
+    upc?: string | null;
+    method: AlbumMappingMethod;
+    confidence?: number;
+  }[]
+) {
+  const mappings: AlbumMapping[] = [];
+
+  pairs.forEach(({ sourceId, targetId, upc, method, confidence }) => {
+    const catalogId = catalogIdFor(sourceService, { id: sourceId });
+    if (!catalogId) return;
+
+    mappings.push({
+      upc: upc || null,
+      spotify_id: sourceService === 'spotify' ? catalogId : targetId,
+      apple_music_id: sourceService === 'spotify' ? targetId : catalogId,
+      match_method: method,
+      confidence: confidence ?? 1,
+    });
+  });
+
+  await upsertMappings('album_mappings', mappings);
+}
@@ -0,0 +1,532 @@
+import { ServiceType, Track } from '@/lib/types';
+import { z } from 'zod';
+import {
+  assertCanBulkTransferPlaylists,
+  recordImportUsage,
+} from './entitlements';
+import { getLibraryAuth } from './library-removals';
+import { matchTracksCached } from './mapping-cache';
+import { appendTracksToPlaylist, SkippedTrack } from './playlist-tracks';
+import { MatchAuth, summarizeMatches, TrackMatch } from './track-matching';
+import { createPlaylist, TransferProgress } from './transfer';
+
+export type ImportFormat = 'csv' | 'm3u' | 'xspf' | 'json';
+
+export interface ParsedPlaylist {
+  name: string;
+  description?: string;
+  // Set when the file says which service the tracks came from, their IDs
+  // can then be looked up in the mapping cache
+  service?: ServiceType;
+  tracks: Track[];
+  // Rows that couldn't be read as a track
+  errors: SkippedTrack[];
+}
+
+export interface ImportResult {
+  playlists: { id: string; name: string }[];
+  matches: TrackMatch[];
+  skipped: SkippedTrack[];
+}
+
+const FORMATS_BY_EXTENSION: Record<string, ImportFormat> = {
+  csv: 'csv',
+  m3u: 'm3u',
+  m3u8: 'm3u',
+  xspf: 'xspf',
+  json: 'json',
+};
+
+export const IMPORT_FILE_TYPES = Object.keys(FORMATS_BY_EXTENSION)
+  .map((extension) => `.${extension}`)
+  .join(',');
+
+// Header names from our own export and the common third-party exporters
+const CSV_COLUMNS = {
+  playlist: ['playlist', 'playlist name'],
+  title: ['title', 'name', 'track', 'track name', 'song', 'song name'],
+  artist: ['artist', 'artists', 'artist name', 'artist name(s)', 'creator'],
+  album: ['album', 'album name', 'album title'],
+  duration: ['duration (ms)', 'duration_ms', 'duration'],
+  isrc: ['isrc'],
+  service: ['service'],
+  id: ['service id', 'track id', 'spotify id', 'track uri'],
+  catalogId: ['catalog id'],
+};
+
+type CsvColumn = keyof typeof CSV_COLUMNS;
+
+function baseName(fileName: string) {
+  return fileName.replace(/\.[^.]+$/, '') || 'Imported playlist';
+}
+
+function toService(value: unknown): ServiceType | undefined {
+  return value === 'spotify' || value === 'apple-music' ? value : undefined;
+}
+
+// Accepts milliseconds, seconds or m:ss, a bare number in a column that
+// doesn't say ms is taken as seconds
+function parseDuration(value: string | undefined, inMs: boolean) {
+  if (!value) return undefined;
+  const clock = value.match(/^(\d+):(\d{1,2})$/);
+  if (clock) return (Number(clock[1]) * 60 + Number(clock[2])) * 1000;
+
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) return undefined;
+  return inMs ? Math.round(number) : Math.round(number * 1000);
+}
+
+// Title and artist are the least the matcher needs to search for a track
+function toTrack(
+  fields: Omit<Track, 'position'>,
+  position: number
+): Track | null {
+  const name = fields.name?.trim();
+  const artist = fields.artist?.trim();
+  if (!name || !artist) return null;
+
+  return {
+    ...fields,
+    name,
+    artist,
+    album: fields.album?.trim() || '',
+    position,
+  };
+}
+
+function addRow(
+  playlist: ParsedPlaylist,
+  fields: Omit<Track, 'position'>,
+  label?: string
+) {
+  const position = playlist.tracks.length + playlist.errors.length;
+  const track = toTrack(fields, position);
+  if (track) {
+    playlist.tracks.push(track);
+  } else {
+    playlist.errors.push({
+      position,
+      name: label || fields.name || undefined,
+      reason: 'invalid',
+    });
+  }
+}
+
+function parseCsvRows(text: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+function parseCsv(text: string, fileName: string): ParsedPlaylist[] {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+
+  const headings = header.map((cell) => cell.trim().toLowerCase());
+  const columns = {} as Record<CsvColumn, number>;
+  (Object.keys(CSV_COLUMNS) as CsvColumn[]).forEach((column) => {
+    columns[column] = headings.findIndex((heading) =>
+      CSV_COLUMNS[column].includes(heading)
+    );
+  });
+
+  if (columns.title === -1 || columns.artist === -1) {
+    throw new Error('The CSV file needs a title and an artist column');
+  }
+
+  const durationInMs = /ms/.test(headings[columns.duration] || '');
+  const playlists = new Map<string, ParsedPlaylist>();
+
+  rows.forEach((row) => {
+    const cell = (column: CsvColumn) =>
+      columns[column] === -1 ? undefined : row[columns[column]]?.trim();
+    const name = cell('playlist') || baseName(fileName);
+    const playlist = playlists.get(name) || {
+      name,
+      service: toService(cell('service')),
+      tracks: [],
+      errors: [],
+    };
+    playlists.set(name, playlist);
+
+    // Spotify URIs come as spotify:track:<id>
+    const id = cell('id')?.replace(/^spotify:track:/, '') || undefined;
+    addRow(playlist, {
+      id,
+      catalogId: cell('catalogId') || undefined,
+      name: cell('title') || '',
+      artist: cell('artist') || '',
+      album: cell('album') || '',
+      durationMs: parseDuration(cell('duration'), durationInMs),
+      isrc: cell('isrc') || undefined,
+    });
+  });
+
+  return [...playlists.values()];
+}
+
+function fileLabel(location: string) {
+  const file = location.split(/[\\/]/).pop() || '';
+  try {
+    return decodeURIComponent(file).replace(/\.[^.]+$/, '');
+  } catch {
+    return file.replace(/\.[^.]+$/, '');
+  }
+}
+
+// Players write "Artist - Title" after #EXTINF, files without it only have
+// paths, and those are usually named the same way. An entry without a path
+// ends at the next #EXTINF.
+function parseM3u(text: string, fileName: string): ParsedPlaylist[] {
+  const playlist: ParsedPlaylist = {
+    name: baseName(fileName),
+    tracks: [],
+    errors: [],
+  };
+  let info: { seconds?: string; label?: string; album?: string } | null = null;
+
+  const addEntry = (location = '') => {
+    const label = info?.label || fileLabel(location);
+    const separator = label.indexOf(' - ');
+    addRow(
+      playlist,
+      {
+        name: separator === -1 ? '' : label.slice(separator + 3),
+        artist: separator === -1 ? '' : label.slice(0, separator),
+        album: info?.album || '',
+        durationMs: parseDuration(info?.seconds?.trim(), false),
+      },
+      label
+    );
+    info = null;
+  };
+
+  for (const rawLine of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith('#PLAYLIST:')) {
+      playlist.name = line.slice(10).trim() || playlist.name;
+    } else if (line.startsWith('#EXTINF:')) {
+      if (info) addEntry();
+      const [seconds, ...label] = line.slice(8).split(',');
+      info = { seconds, label: label.join(',').trim() };
+    } else if (line.startsWith('#EXTALB:')) {
+      info = { ...(info ?? {}), album: line.slice(8).trim() };
+    } else if (!line.startsWith('#')) {
+      addEntry(line);
+    }
+  }
+  if (info) addEntry();
+
+  return [playlist];
+}
+
+function parseXspf(text: string, fileName: string): ParsedPlaylist[] {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const root = doc.documentElement;
+  if (
+    doc.getElementsByTagName('parsererror').length ||
+    root.localName !== 'playlist'
+  ) {
+    throw new Error('The XSPF file could not be read');
+  }
+
+  const childText = (parent: Element, name: string) =>
+    Array.from(parent.children)
+      .find((child) => child.localName === name)
+      ?.textContent?.trim() || '';
+
+  const playlist: ParsedPlaylist = {
+    name: childText(root, 'title') || baseName(fileName),
+    description: childText(root, 'annotation') || undefined,
+    tracks: [],
+    errors: [],
+  };
+
+  for (const track of Array.from(root.getElementsByTagNameNS('*', 'track'))) {
+    const isrc = Array.from(track.children)
+      .filter((child) => child.localName === 'identifier')
+      .map((child) => child.textContent?.trim().match(/^urn:isrc:(.+)$/i)?.[1])
+      .find(Boolean);
+
+    addRow(playlist, {
+      name: childText(track, 'title'),
+      artist: childText(track, 'creator'),
+      album: childText(track, 'album'),
+      durationMs: parseDuration(childText(track, 'duration'), true),
+      isrc,
+    });
+  }
+
+  return [playlist];
+}
+
+// Fields of the wrong type are dropped rather than failing the whole file,
+// a track left without a title or artist is reported as an invalid row
+const optionalString = z.string().optional().catch(undefined);
+
+const jsonTrackSchema = z
+  .object({
+    serviceId: optionalString,
+    catalogId: optionalString,
+    title: optionalString,
+    name: optionalString,
+    artist: optionalString,
+    album: optionalString,
+    durationMs: z.number().positive().optional().catch(undefined),
+    isrc: optionalString,
+  })
+  .catch({});
+
+const jsonPlaylistSchema = z.object({
+  name: optionalString,
+  description: optionalString,
+  service: z.enum(['spotify', 'apple-music']).optional().catch(undefined),
+  tracks: z.array(jsonTrackSchema),
+});
+
+const jsonExportSchema = z.union([
+  z.array(jsonPlaylistSchema),
+  jsonPlaylistSchema,
+]);
+
+// Reads our own JSON export, a list of playlists or a single one
+function parseJson(text: string, fileName: string): ParsedPlaylist[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The JSON file could not be read');
+  }
+
+  const parsed = jsonExportSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new Error("The JSON file isn't a Velvet Metal playlist export");
+  }
+
+  const entries = Array.isArray(parsed.data) ? parsed.data : [parsed.data];
+  return entries.map((entry) => {
+    const playlist: ParsedPlaylist = {
+      name: entry.name || baseName(fileName),
+      description: entry.description || undefined,
+      service: entry.service,
+      tracks: [],
+      errors: [],
+    };
+    entry.tracks.forEach((track) =>
+      addRow(playlist, {
+        id: track.serviceId || undefined,
+        catalogId: track.catalogId || undefined,
+        name: track.title || track.name || '',
+        artist: track.artist || '',
+        album: track.album || '',
+        durationMs: track.durationMs,
+        isrc: track.isrc || undefined,
+      })
+    );
+    return playlist;
+  });
+}
+
+export function detectImportFormat(fileName: string): ImportFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() || '';
+  return FORMATS_BY_EXTENSION[extension] || null;
+}
+
+export function parsePlaylistFile(
+  fileName: string,
+  text: string
+): ParsedPlaylist[] {
+  const format = detectImportFormat(fileName);
+  switch (format) {
+    case 'csv':
+      return parseCsv(text, fileName);
+    case 'm3u':
+      return parseM3u(text, fileName);
+    case 'xspf':
+      return parseXspf(text, fileName);
+    case 'json':
+      return parseJson(text, fileName);
+    default:
+      throw new Error('Choose a CSV, M3U, M3U8, XSPF or JSON file');
+  }
+}
+
+// The ID a track already has on the target service: Spotify's track ID, or
+// the catalog ID for Apple Music (a library ID only works in one library)
+function targetIdOf(track: Track, targetService: ServiceType) {
+  return targetService === 'spotify'
+    ? track.id?.replace(/^spotify:track:/, '')
+    : track.catalogId;
+}
+
+// Tracks from a file for the target service are added by the ID they carry,
+// the rest are matched. IDs of the other service are looked up in the
+// mapping cache, anything else is matched on ISRC, title and artist like a
+// track from the other service without an ID.
+function matchSource(playlist: ParsedPlaylist, targetService: ServiceType) {
+  const fromOtherService =
+    !!playlist.service && playlist.service !== targetService;
+  return {
+    source: fromOtherService
+      ? playlist.service!
+      : ((targetService === 'spotify'
+          ? 'apple-music'
+          : 'spotify') as ServiceType),
+    keepIds: fromOtherService,
+    direct: playlist.service === targetService,
+  };
+}
+
+async function matchBatch(
+  tracks: Track[],
+  targetService: ServiceType,
+  { source, keepIds, direct }: ReturnType<typeof matchSource>,
+  auth: MatchAuth
+): Promise<TrackMatch[]> {
+  const directIds = tracks.map((track) =>
+    direct ? targetIdOf(track, targetService) : undefined
+  );
+  const toSearch = tracks
+    .filter((_, i) => !directIds[i])
+    .map(({ id, catalogId, ...track }) =>
+      keepIds ? { id, catalogId, ...track } : track
+    );
+  const searched =
+    toSearch.length > 0
+      ? await matchTracksCached(source, targetService, toSearch, auth)
+      : [];
+
+  // Back in file order, so the playlist keeps it
+  return tracks.map((track, i) =>
+    directIds[i]
+      ? { track, targetId: directIds[i]!, confidence: 1, method: 'id' as const }
+      : searched.shift()!
+  );
+}
+
+// Creates one playlist per parsed playlist on the target service, matching
+// tracks the same way a transfer from another service does
+export async function importPlaylists(
+  userId: string,
+  targetService: ServiceType,
+  playlists: ParsedPlaylist[],
+  onProgress?: (progress: TransferProgress) => void
+): Promise<ImportResult> {
+  if (playlists.length > 1) {
+    await assertCanBulkTransferPlaylists(userId, playlists.length);
+  }
+  // Counted up front like a transfer the worker runs, an import that fails
+  // part way still used its quota
+  await recordImportUsage(userId, playlists.length);
+
+  const auth = await getLibraryAuth(userId, targetService);
+  const matchAuth = {
+    accessToken: auth.accessToken,
+    musicUserToken: auth.musicUserToken,
+    storefront: auth.storefront,
+  };
+  // Spotify accepts 100 tracks per request, Apple Music 25
+  const batchSize = targetService === 'spotify' ? 100 : 25;
+  const result: ImportResult = {
+    playlists: [],
+    matches: [],
+    skipped: playlists.flatMap((playlist) => playlist.errors),
+  };
+
+  for (const [index, playlist] of playlists.entries()) {
+    const counter =
+      playlists.length > 1 ? ` (${index + 1} of ${playlists.length})` : '';
+    const share = 100 / playlists.length;
+    onProgress?.({
+      stage: 'creating',
+      progress: index * share,
+      message: `Creating "${playlist.name}"${counter}...`,
+    });
+
+    const created = await createPlaylist(
+      targetService,
+      {
+        name: playlist.name,
+        description:
+          playlist.description || 'Imported from a file using Velvet Metal',
+      },
+      auth.accessToken,
+      userId
+    );
+    result.playlists.push({ id: created.id, name: created.name });
+
+    const plan = matchSource(playlist, targetService);
+    const { tracks } = playlist;
+    for (let i = 0; i < tracks.length; i += batchSize) {
+      const batch = tracks.slice(i, i + batchSize);
+      const matches = await matchBatch(batch, targetService, plan, matchAuth);
+      result.matches.push(...matches);
+
+      await appendTracksToPlaylist(
+        targetService,
+        created.id,
+        matches,
+        auth.accessToken,
+        auth.musicUserToken
+      );
+
+      onProgress?.({
+        stage: 'adding',
+        progress: Math.min(
+          (index + (i + batch.length) / tracks.length) * share,
+          99
+        ),
+        message: `Adding tracks to "${playlist.name}"${counter}...`,
+      });
+    }
+  }
+
+  onProgress?.({
+    stage: 'complete',
+    progress: 100,
+    message: 'Import complete!',
+    matchSummary: summarizeMatches(result.matches),
+    skipped: result.skipped,
+    unmatched: result.matches
+      .filter((match) => !match.targetId)
+      .map((match) => match.track),
+  });
+
+  return result;
+}
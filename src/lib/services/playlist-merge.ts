@@ -0,0 +1,173 @@
+import { Track } from '@/lib/types';
+import { normalizeArtistName, normalizeTrackTitle } from './track-matching';
+
+export type SyncDirection = 'one_way' | 'two_way';
+export type ConflictPolicy = 'source_wins' | 'target_wins' | 'keep_both';
+
+// What both playlists held after the last sync, stored on the sync pair.
+// A side's ID is missing when the track never made it to that side.
+export interface PlaylistSnapshotEntry {
+  key: string;
+  name: string;
+  artist: string;
+  sourceId?: string;
+  targetId?: string;
+}
+
+export type PlaylistConflictKind = 'removed_and_changed' | 'changed_on_both';
+
+export interface PlaylistConflict {
+  key: string;
+  name: string;
+  artist: string;
+  kind: PlaylistConflictKind;
+  policy: ConflictPolicy;
+}
+
+export interface PlaylistMergePlan {
+  addToTarget: Track[];
+  addToSource: Track[];
+  removeFromTarget: Track[];
+  removeFromSource: Track[];
+  conflicts: PlaylistConflict[];
+}
+
+// Versions of a song (remasters, live cuts, features) share a key, so
+// swapping one for another shows up as a change rather than add + remove
+export function playlistTrackKey(track: Pick<Track, 'name' | 'artist'>) {
+  return `${normalizeTrackTitle(track.name)}|${normalizeArtistName(
+    track.artist
+  )}`;
+}
+
+// First occurrence wins when a playlist holds the same song twice
+function indexByKey(tracks: Track[]) {
+  const byKey = new Map<string, Track>();
+  tracks.forEach((track) => {
+    const key = playlistTrackKey(track);
+    if (!byKey.has(key)) byKey.set(key, track);
+  });
+  return byKey;
+}
+
+export function buildPlaylistSnapshot(
+  sourceTracks: Track[],
+  targetTracks: Track[]
+): PlaylistSnapshotEntry[] {
+  const source = indexByKey(sourceTracks);
+  const target = indexByKey(targetTracks);
+  const keys = new Set([...source.keys(), ...target.keys()]);
+
+  return [...keys].map((key) => {
+    const track = (source.get(key) || target.get(key))!;
+    return {
+      key,
+      name: track.name,
+      artist: track.artist,
+      sourceId: source.get(key)?.id,
+      targetId: target.get(key)?.id,
+    };
+  });
+}
+
+// Compares each side against the snapshot to tell its additions from the
+// other side's deletions. Without a snapshot every track counts as added,
+// so the first sync merges both playlists.
+export function planTwoWayMerge(
+  sourceTracks: Track[],
+  targetTracks: Track[],
+  snapshot: PlaylistSnapshotEntry[] | null,
+  policy: ConflictPolicy
+): PlaylistMergePlan {
+  const source = indexByKey(sourceTracks);
+  const target = indexByKey(targetTracks);
+  const previous = new Map((snapshot || []).map((entry) => [entry.key, entry]));
+  const keys = new Set([...source.keys(), ...target.keys(), ...previous.keys()]);
+
+  const plan: PlaylistMergePlan = {
+    addToTarget: [],
+    addToSource: [],
+    removeFromTarget: [],
+    removeFromSource: [],
+    conflicts: [],
+  };
+
+  const conflict = (
+    key: string,
+    kind: PlaylistConflictKind,
+    track: Pick<Track, 'name' | 'artist'>
+  ) =>
+    plan.conflicts.push({
+      key,
+      name: track.name,
+      artist: track.artist,
+      kind,
+      policy,
+    });
+
+  keys.forEach((key) => {
+    const s = source.get(key);
+    const t = target.get(key);
+    const p = previous.get(key);
+
+    const sourceRemoved = !!p?.sourceId && !s;
+    const targetRemoved = !!p?.targetId && !t;
+    const sourceChanged = !!s && !!p?.sourceId && s.id !== p.sourceId;
+    const targetChanged = !!t && !!p?.targetId && t.id !== p.targetId;
+
+    if (sourceRemoved && targetRemoved) return;
+
+    if (sourceRemoved) {
+      if (!t) return;
+      if (targetChanged) {
+        conflict(key, 'removed_and_changed', t);
+        if (policy === 'source_wins') {
+          plan.removeFromTarget.push(t);
+        } else {
+          plan.addToSource.push(t);
+        }
+      } else {
+        plan.removeFromTarget.push(t);
+      }
+      return;
+    }
+
+    if (targetRemoved) {
+      if (!s) return;
+      if (sourceChanged) {
+        conflict(key, 'removed_and_changed', s);
+        if (policy === 'target_wins') {
+          plan.removeFromSource.push(s);
+        } else {
+          plan.addToTarget.push(s);
+        }
+      } else {
+        plan.removeFromSource.push(s);
+      }
+      return;
+    }
+
+    if (s && t) {
+      if (sourceChanged && targetChanged) {
+        conflict(key, 'changed_on_both', s);
+        if (policy !== 'target_wins') plan.addToTarget.push(s);
+        if (policy !== 'source_wins') plan.addToSource.push(t);
+        if (policy === 'source_wins') plan.removeFromTarget.push(t);
+        if (policy === 'target_wins') plan.removeFromSource.push(s);
+      } else if (sourceChanged) {
+        plan.removeFromTarget.push(t);
+        plan.addToTarget.push(s);
+      } else if (targetChanged) {
+        plan.removeFromSource.push(s);
+        plan.addToSource.push(t);
+      }
+      return;
+    }
+
+    // Tracks that never matched on the other side aren't retried every sync
+    if (s && !p?.sourceId) plan.addToTarget.push(s);
+    if (t && !p?.targetId) plan.addToSource.push(t);
+  });
+
+  return plan;
+}
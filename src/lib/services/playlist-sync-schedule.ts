@@ -0,0 +1,124 @@
+import { supabase } from '@/lib/supabase';
+import { Database } from '@/types/supabase';
+
+type ServiceType = 'spotify' | 'apple-music';
+
+export type SyncFrequency = Database['public']['Enums']['sync_frequency'];
+export type PlaylistSyncSchedule =
+  Database['public']['Tables']['playlist_syncs']['Row'];
+
+// playlist_syncs stores each side of a pair as { id, service }
+export interface ScheduledPlaylist {
+  id: string;
+  service: ServiceType;
+}
+
+// Stored in playlist_syncs.last_error, cleared after a successful sync
+export interface PlaylistSyncError {
+  message: string;
+  count: number;
+  at: string;
+}
+
+export const SYNC_FREQUENCIES: SyncFrequency[] = ['hourly', 'daily', 'weekly'];
+
+const HOUR = 60 * 60 * 1000;
+
+const FREQUENCY_INTERVALS: Record<SyncFrequency, number> = {
+  hourly: HOUR,
+  daily: 24 * HOUR,
+  weekly: 7 * 24 * HOUR,
+};
+
+const MAX_BACKOFF_MS = 7 * 24 * HOUR;
+const MAX_ERROR_COUNT = 10;
+
+// Failing pairs wait twice as long after each consecutive error, and are
+// disabled once they keep failing for good
+export function getNextSyncTime(frequency: SyncFrequency, errorCount = 0) {
+  const interval = FREQUENCY_INTERVALS[frequency];
+  return new Date(
+    Date.now() + Math.min(interval * 2 ** errorCount, MAX_BACKOFF_MS)
+  );
+}
+
+// Holds a schedule to the fastest frequency the user's plan allows
+export function limitSyncFrequency(
+  frequency: SyncFrequency,
+  fastest: SyncFrequency
+) {
+  return FREQUENCY_INTERVALS[frequency] < FREQUENCY_INTERVALS[fastest]
+    ? fastest
+    : frequency;
+}
+
+export function shouldDisableSync(errorCount: number) {
+  return errorCount >= MAX_ERROR_COUNT;
+}
+
+export async function schedulePlaylistSync(
+  userId: string,
+  source: ScheduledPlaylist,
+  target: ScheduledPlaylist,
+  frequency: SyncFrequency
+) {
+  // A pair is scheduled once, so relinking replaces the old schedule
+  await removePlaylistSyncSchedule(userId, source.id, target.id);
+
+  // The first sync runs on the scheduler's next pass
+  const { error } = await supabase.from('playlist_syncs').insert({
+    user_id: userId,
+    source_playlist: source,
+    target_playlist: target,
+    sync_frequency: frequency,
+    next_sync: new Date().toISOString(),
+  });
+
+  if (error) throw error;
+}
+
+export async function updatePlaylistSyncSchedule(
+  userId: string,
+  sourcePlaylistId: string,
+  targetPlaylistId: string,
+  updates: {
+    frequency?: SyncFrequency;
+    enabled?: boolean;
+    target?: ScheduledPlaylist;
+  }
+) {
+  const { error } = await supabase
+    .from('playlist_syncs')
+    .update({
+      ...(updates.frequency && {
+        sync_frequency: updates.frequency,
+        next_sync: getNextSyncTime(updates.frequency).toISOString(),
+      }),
+      ...(updates.enabled !== undefined && {
+        sync_enabled: updates.enabled,
+        last_error: null,
+      }),
+      ...(updates.target && { target_playlist: updates.target }),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('user_id', userId)
+    .eq('source_playlist->>id', sourcePlaylistId)
+    .eq('target_playlist->>id', targetPlaylistId);
+
+  if (error) throw error;
+}
+
+export async function removePlaylistSyncSchedule(
+  userId: string,
+  sourcePlaylistId: string,
+  targetPlaylistId: string
+) {
+  const { error } = await supabase
+    .from('playlist_syncs')
+    .delete()
+    .eq('user_id', userId)
+    .eq('source_playlist->>id', sourcePlaylistId)
+    .eq('target_playlist->>id', targetPlaylistId);
+
+  if (error) throw error;
+}
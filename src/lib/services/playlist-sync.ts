@@ -1,15 +1,87 @@
 import { supabase } from '@/lib/supabase';
-import { getSpotifyPlaylistTracks, addTracksToSpotifyPlaylist, removeTracksFromSpotifyPlaylist } from '@/lib/api/spotify';
-import { getAppleMusicPlaylistTracks, addTracksToAppleMusicPlaylist, removeTracksFromAppleMusicPlaylist } from '@/lib/api/apple-music';
+import {
+  getSpotifyPlaylistTracks,
+  addTracksToSpotifyPlaylist,
+  removeTracksFromSpotifyPlaylist,
+  reorderSpotifyPlaylist,
+} from '@/lib/api/spotify';
+import {
+  getAppleMusicPlaylistTracks,
+  addTracksToAppleMusicPlaylist,
+  removeTracksFromAppleMusicPlaylist,
+  rebuildAppleMusicPlaylist,
+} from '@/lib/api/apple-music';
+import { Track } from '@/lib/types';
+import { toAppleMusicStorefront } from './apple-music-storefront';
+import {
+  catalogIdFor,
+  lookupTrackMappings,
+  saveTrackMappings,
+  toTrackMapping,
+  TrackMapping,
+} from './mapping-cache';
+import {
+  buildPlaylistSnapshot,
+  PlaylistConflict,
+  PlaylistMergePlan,
+  PlaylistSnapshotEntry,
+  planTwoWayMerge,
+  SyncDirection,
+} from './playlist-merge';
+import { updatePlaylistSyncSchedule } from './playlist-sync-schedule';
+import { PlaylistReaderAuth, supportsTrackRemoval } from './playlist-tracks';
+import { publishRealtimeEvent } from './realtime-events';
 
 type ServiceType = 'spotify' | 'apple-music';
 
-interface Track {
-  id: string;
+interface SyncedTrack {
   name: string;
   artist: string;
-  album: string;
-  isrc?: string;
+}
+
+// Stored in playlist_sync_runs.changes for every sync
+export interface PlaylistSyncChanges {
+  addedToTarget: SyncedTrack[];
+  addedToSource: SyncedTrack[];
+  removedFromTarget: SyncedTrack[];
+  removedFromSource: SyncedTrack[];
+  // Tracks with no match in the other service's catalog
+  unmatched: SyncedTrack[];
+  // Removals skipped because the playlist's service can't remove tracks
+  kept: SyncedTrack[];
+  conflicts: PlaylistConflict[];
+  // Whether the target had to be reordered to match the source
+  reordered: boolean;
+  // Apple Music target left out of order because the pair doesn't allow
+  // rebuilding it
+  outOfOrder: boolean;
+  // The Apple Music playlist a rebuild replaced. The API can't delete it, so
+  // it stays in the user's library until they remove it.
+  replacedPlaylist?: { id: string; name: string };
+}
+
+interface SyncSide {
+  service: ServiceType;
+  auth: PlaylistReaderAuth;
+  playlistId: string;
+  // Spotify snapshot of the last read, removals and moves use its positions
+  snapshotId?: string;
+}
+
+const toSyncedTrack = ({ name, artist }: Track): SyncedTrack => ({ name, artist });
+
+function emptyChanges(): PlaylistSyncChanges {
+  return {
+    addedToTarget: [],
+    addedToSource: [],
+    removedFromTarget: [],
+    removedFromSource: [],
+    unmatched: [],
+    kept: [],
+    conflicts: [],
+    reordered: false,
+    outOfOrder: false,
+  };
 }
 
 export async function syncPlaylistChanges(
@@ -20,39 +92,126 @@ export async function syncPlaylistChanges(
   targetService: ServiceType
 ) {
   try {
+    const { data: pair } = await supabase
+      .from('playlist_sync_pairs')
+      .select('id, sync_direction, conflict_policy, last_snapshot, rebuild_to_reorder')
+      .eq('user_id', userId)
+      .eq('source_playlist_id', sourcePlaylistId)
+      .eq('target_playlist_id', targetPlaylistId)
+      .maybeSingle();
+    const direction: SyncDirection = pair?.sync_direction || 'one_way';
+
     // Get access tokens for both services
     const { data: tokens } = await supabase
       .from('user_services')
-      .select('service, access_token')
+      .select('service, access_token, music_user_token, storefront, storefront_language')
       .eq('user_id', userId)
       .in('service', [sourceService, targetService]);
 
     if (!tokens) throw new Error('Could not find service tokens');
 
-    const sourceToken = tokens.find(t => t.service === sourceService)?.access_token;
-    const targetToken = tokens.find(t => t.service === targetService)?.access_token;
+    const authFor = (service: ServiceType): PlaylistReaderAuth | undefined => {
+      const row = tokens.find(t => t.service === service);
+      return row?.access_token
+        ? {
+            accessToken: row.access_token,
+            musicUserToken: row.music_user_token || undefined,
+            storefront: toAppleMusicStorefront(row),
+          }
+        : undefined;
+    };
+    const sourceAuth = authFor(sourceService);
+    const targetAuth = authFor(targetService);
 
-    if (!sourceToken || !targetToken) {
+    if (!sourceAuth || !targetAuth) {
       throw new Error('Missing access tokens');
     }
 
+    const source: SyncSide = {
+      service: sourceService,
+      auth: sourceAuth,
+      playlistId: sourcePlaylistId,
+    };
+    const target: SyncSide = {
+      service: targetService,
+      auth: targetAuth,
+      playlistId: targetPlaylistId,
+    };
+
     // Get tracks from both playlists
-    const sourceTracks = await getPlaylistTracks(sourceService, sourceToken, sourcePlaylistId);
-    const targetTracks = await getPlaylistTracks(targetService, targetToken, targetPlaylistId);
+    const sourceTracks = await readTracks(source);
+    const targetTracks = await readTracks(target);
+
+    await recordIsrcPairs(sourceService, sourceTracks, targetService, targetTracks);
+
+    const plan =
+      direction === 'two_way'
+        ? planTwoWayMerge(
+            sourceTracks,
+            targetTracks,
+            (pair?.last_snapshot as PlaylistSnapshotEntry[] | null) || null,
+            pair?.conflict_policy || 'source_wins'
+          )
+        : await planOneWaySync(sourceService, sourceTracks, targetService, targetTracks);
 
-    // Find differences
-    const tracksToAdd = findMissingTracks(sourceTracks, targetTracks);
-    const tracksToRemove = findMissingTracks(targetTracks, sourceTracks);
+    const tracksToAdd = plan.addToTarget.length + plan.addToSource.length;
+    const tracksToRemove = plan.removeFromTarget.length + plan.removeFromSource.length;
 
-    // Apply changes to target playlist
-    if (tracksToAdd.length > 0) {
-      await addTracksToPlaylist(targetService, targetToken, targetPlaylistId, tracksToAdd);
+    if (tracksToAdd > 0 || tracksToRemove > 0) {
+      publishRealtimeEvent({
+        type: 'sync_pair_drift',
+        sourcePlaylistId,
+        targetPlaylistId,
+        tracksToAdd,
+        tracksToRemove,
+      });
     }
 
-    if (tracksToRemove.length > 0) {
-      await removeTracksFromPlaylist(targetService, targetToken, targetPlaylistId, tracksToRemove);
+    // Removals go first, so a track swapped for another version doesn't
+    // shift the positions of the entries being removed
+    const changes = emptyChanges();
+    changes.conflicts = plan.conflicts;
+    await removeFrom(target, plan.removeFromTarget, changes.removedFromTarget, changes.kept);
+    await removeFrom(source, plan.removeFromSource, changes.removedFromSource, changes.kept);
+    await addTo(target, sourceService, plan.addToTarget, changes.addedToTarget, changes.unmatched);
+    await addTo(source, targetService, plan.addToSource, changes.addedToSource, changes.unmatched);
+
+    if (changes.unmatched.length > 0) {
+      console.warn(
+        `${changes.unmatched.length} tracks have no match on the other service:`,
+        changes.unmatched.map(t => `${t.name} by ${t.artist}`)
+      );
+    }
+    if (changes.kept.length > 0) {
+      console.log(`Left ${changes.kept.length} tracks in place, removal isn't supported`);
     }
 
+    const changed = tracksToAdd > 0 || tracksToRemove > 0;
+    const currentSource = changed ? await readTracks(source) : sourceTracks;
+    const currentTarget = changed ? await readTracks(target) : targetTracks;
+
+    // Added tracks land at the end, so the target is put back in source order
+    const rebuiltTargetId = await restoreSourceOrder(
+      source,
+      currentSource,
+      target,
+      currentTarget,
+      changes,
+      !!pair?.rebuild_to_reorder
+    );
+    if (rebuiltTargetId) {
+      await updatePlaylistSyncSchedule(userId, sourcePlaylistId, targetPlaylistId, {
+        target: { id: rebuiltTargetId, service: targetService },
+      });
+    }
+
+    // The next two-way sync compares against what both playlists hold now.
+    // A rebuilt playlist holds the same library songs, so its IDs still match.
+    const snapshot =
+      direction === 'two_way'
+        ? buildPlaylistSnapshot(currentSource, currentTarget)
+        : undefined;
+
     // Update last synced timestamp
     await supabase
       .from('playlist_sync_pairs')
@@ -61,88 +220,354 @@ export async function syncPlaylistChanges(
         error_count: 0,
         last_error: null,
         last_error_at: null,
+        ...(snapshot && { last_snapshot: snapshot }),
+        ...(rebuiltTargetId && { target_playlist_id: rebuiltTargetId }),
       })
       .eq('source_playlist_id', sourcePlaylistId)
       .eq('target_playlist_id', targetPlaylistId);
 
-    return { tracksAdded: tracksToAdd.length, tracksRemoved: tracksToRemove.length };
+    if (pair) {
+      await recordSyncRun(pair.id, userId, direction, changes);
+    }
+
+    return {
+      tracksAdded: changes.addedToTarget.length + changes.addedToSource.length,
+      tracksRemoved: changes.removedFromTarget.length + changes.removedFromSource.length,
+      tracksUnmatched: changes.unmatched.length,
+      tracksKept: changes.kept.length,
+      conflicts: changes.conflicts.length,
+      reordered: changes.reordered,
+    };
   } catch (error) {
-    // Update error status
-    await supabase
+    await recordSyncError(sourcePlaylistId, targetPlaylistId, error);
+    throw error;
+  }
+}
+
+// Counts the failure on the pair. Failing to record it is only logged, the
+// caller needs the sync's own error.
+async function recordSyncError(
+  sourcePlaylistId: string,
+  targetPlaylistId: string,
+  syncError: unknown
+) {
+  try {
+    const { data: pair, error } = await supabase
+      .from('playlist_sync_pairs')
+      .select('id, error_count')
+      .eq('source_playlist_id', sourcePlaylistId)
+      .eq('target_playlist_id', targetPlaylistId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!pair) return;
+
+    const { error: updateError } = await supabase
       .from('playlist_sync_pairs')
       .update({
-        error_count: supabase.sql`error_count + 1`,
-        last_error: error instanceof Error ? error.message : 'Unknown error',
+        error_count: (pair.error_count || 0) + 1,
+        last_error:
+          syncError instanceof Error ? syncError.message : 'Unknown error',
         last_error_at: new Date().toISOString(),
       })
-      .eq('source_playlist_id', sourcePlaylistId)
-      .eq('target_playlist_id', targetPlaylistId);
+      .eq('id', pair.id);
 
-    throw error;
+    if (updateError) throw updateError;
+  } catch (error) {
+    console.error('Failed to record playlist sync error:', error);
   }
 }
 
-async function getPlaylistTracks(
-  service: ServiceType,
-  token: string,
-  playlistId: string
-): Promise<Track[]> {
-  switch (service) {
+// One-way sync makes the target mirror the source, removing anything the
+// source doesn't have
+async function planOneWaySync(
+  sourceService: ServiceType,
+  sourceTracks: Track[],
+  targetService: ServiceType,
+  targetTracks: Track[]
+): Promise<PlaylistMergePlan> {
+  // Tracks paired by an earlier transfer or sync count as present even
+  // when their metadata differs between services
+  const [sourceToTarget, targetToSource] = await Promise.all([
+    loadMappedIds(sourceService, targetService, sourceTracks),
+    loadMappedIds(targetService, sourceService, targetTracks),
+  ]);
+
+  const { unpairedSource, unpairedTarget } = pairTracks(
+    sourceTracks,
+    targetTracks,
+    sourceToTarget,
+    targetToSource
+  );
+
+  return {
+    addToTarget: unpairedSource,
+    addToSource: [],
+    removeFromTarget: unpairedTarget,
+    removeFromSource: [],
+    conflicts: [],
+  };
+}
+
+// Puts the target's entries in the order of their counterparts in the
+// source, duplicates included. Entries with no counterpart keep their order
+// after the rest. An Apple Music target is only rebuilt when the pair allows
+// it. Returns the target's new ID when it was rebuilt.
+async function restoreSourceOrder(
+  source: SyncSide,
+  sourceTracks: Track[],
+  target: SyncSide,
+  targetTracks: Track[],
+  changes: PlaylistSyncChanges,
+  allowRebuild: boolean
+): Promise<string | undefined> {
+  const [sourceToTarget, targetToSource] = await Promise.all([
+    loadMappedIds(source.service, target.service, sourceTracks),
+    loadMappedIds(target.service, source.service, targetTracks),
+  ]);
+  const { pairs, unpairedTarget } = pairTracks(
+    sourceTracks,
+    targetTracks,
+    sourceToTarget,
+    targetToSource
+  );
+  const ordered = [...pairs.map(([, targetTrack]) => targetTrack), ...unpairedTarget];
+
+  if (ordered.every((track, index) => track === targetTracks[index])) return;
+
+  if (target.service === 'apple-music' && !allowRebuild) {
+    console.log('Apple Music playlist is out of order, rebuilding is off');
+    changes.outOfOrder = true;
+    return;
+  }
+
+  changes.reordered = true;
+  switch (target.service) {
     case 'spotify':
-      return getSpotifyPlaylistTracks(token, playlistId);
+      await reorderSpotifyPlaylist(
+        target.auth.accessToken,
+        target.playlistId,
+        ordered,
+        readSnapshot(target)
+      );
+      return;
+    case 'apple-music': {
+      const rebuilt = await rebuildAppleMusicPlaylist(
+        target.auth,
+        target.playlistId,
+        ordered
+      );
+      changes.replacedPlaylist = { id: target.playlistId, name: rebuilt.name };
+      return rebuilt.id;
+    }
+  }
+}
+
+async function addTo(
+  side: SyncSide,
+  fromService: ServiceType,
+  tracks: Track[],
+  added: SyncedTrack[],
+  unmatched: SyncedTrack[]
+) {
+  if (tracks.length === 0) return;
+
+  const result = await addTracksToPlaylist(
+    fromService,
+    side.service,
+    side.auth,
+    side.playlistId,
+    tracks
+  );
+  const missing = new Set(result.unmatched);
+  tracks.forEach(track => (missing.has(track) ? unmatched : added).push(toSyncedTrack(track)));
+}
+
+async function removeFrom(
+  side: SyncSide,
+  tracks: Track[],
+  removed: SyncedTrack[],
+  kept: SyncedTrack[]
+) {
+  if (tracks.length === 0) return;
+
+  if (!supportsTrackRemoval(side.service)) {
+    kept.push(...tracks.map(toSyncedTrack));
+    return;
+  }
+
+  await removeTracksFromPlaylist(side, tracks);
+  removed.push(...tracks.map(toSyncedTrack));
+}
+
+async function recordSyncRun(
+  syncPairId: string,
+  userId: string,
+  direction: SyncDirection,
+  changes: PlaylistSyncChanges
+) {
+  const { error } = await supabase.from('playlist_sync_runs').insert({
+    sync_pair_id: syncPairId,
+    user_id: userId,
+    sync_direction: direction,
+    changes,
+  });
+
+  if (error) {
+    console.error('Failed to record playlist sync run:', error);
+  }
+}
+
+// Reads a side's tracks and keeps the snapshot their positions refer to
+async function readTracks(side: SyncSide): Promise<Track[]> {
+  switch (side.service) {
+    case 'spotify': {
+      const { tracks, snapshotId } = await getSpotifyPlaylistTracks(
+        side.auth.accessToken,
+        side.playlistId
+      );
+      side.snapshotId = snapshotId;
+      return tracks;
+    }
     case 'apple-music':
-      return getAppleMusicPlaylistTracks(token, playlistId);
+      return getAppleMusicPlaylistTracks(side.auth, side.playlistId);
     default:
-      throw new Error(`Unsupported service: ${service}`);
+      throw new Error(`Unsupported service: ${side.service}`);
   }
 }
 
+function readSnapshot(side: SyncSide) {
+  if (!side.snapshotId) {
+    throw new Error(`No snapshot was read for playlist ${side.playlistId}`);
+  }
+  return side.snapshotId;
+}
+
 async function addTracksToPlaylist(
+  sourceService: ServiceType,
   service: ServiceType,
-  token: string,
+  auth: PlaylistReaderAuth,
   playlistId: string,
   tracks: Track[]
 ) {
   switch (service) {
     case 'spotify':
-      return addTracksToSpotifyPlaylist(token, playlistId, tracks);
+      return addTracksToSpotifyPlaylist(auth.accessToken, playlistId, tracks, sourceService);
     case 'apple-music':
-      return addTracksToAppleMusicPlaylist(token, playlistId, tracks);
+      return addTracksToAppleMusicPlaylist(auth, playlistId, tracks, sourceService);
     default:
       throw new Error(`Unsupported service: ${service}`);
   }
 }
 
-async function removeTracksFromPlaylist(
-  service: ServiceType,
-  token: string,
-  playlistId: string,
-  tracks: Track[]
-) {
-  switch (service) {
+async function removeTracksFromPlaylist(side: SyncSide, tracks: Track[]) {
+  switch (side.service) {
     case 'spotify':
-      return removeTracksFromSpotifyPlaylist(token, playlistId, tracks);
+      return removeTracksFromSpotifyPlaylist(
+        side.auth.accessToken,
+        side.playlistId,
+        tracks,
+        readSnapshot(side)
+      );
     case 'apple-music':
-      return removeTracksFromAppleMusicPlaylist(token, playlistId, tracks);
+      return removeTracksFromAppleMusicPlaylist(side.auth, side.playlistId, tracks);
     default:
-      throw new Error(`Unsupported service: ${service}`);
+      throw new Error(`Unsupported service: ${side.service}`);
   }
 }
 
-function findMissingTracks(sourceTracks: Track[], targetTracks: Track[]): Track[] {
-  return sourceTracks.filter(sourceTrack => {
-    // First try to match by ISRC (most accurate)
-    if (sourceTrack.isrc) {
-      return !targetTracks.some(t => t.isrc === sourceTrack.isrc);
-    }
-    
-    // Fall back to matching by name and artist
-    return !targetTracks.some(
-      t =>
+type FindMappedId = (track: Track) => string | undefined;
+
+async function loadMappedIds(
+  fromService: ServiceType,
+  toService: ServiceType,
+  tracks: Track[]
+): Promise<FindMappedId> {
+  try {
+    const findMapping = await lookupTrackMappings(fromService, tracks);
+    const column = toService === 'spotify' ? 'spotify_id' : 'apple_music_id';
+    return track => findMapping(track)?.[column];
+  } catch (error) {
+    console.error('Mapping cache lookup failed:', error);
+    return () => undefined;
+  }
+}
+
+// Tracks present on both sides with the same ISRC are confirmed pairs
+async function recordIsrcPairs(
+  sourceService: ServiceType,
+  sourceTracks: Track[],
+  targetService: ServiceType,
+  targetTracks: Track[]
+) {
+  const targetsByIsrc = new Map(
+    targetTracks.filter(t => t.isrc).map(t => [t.isrc!, t])
+  );
+  const mappings: TrackMapping[] = [];
+
+  sourceTracks.forEach(track => {
+    const target = track.isrc ? targetsByIsrc.get(track.isrc) : undefined;
+    const targetId = target && catalogIdFor(targetService, target);
+    if (!targetId) return;
+
+    const mapping = toTrackMapping(sourceService, track, targetId, 'isrc', 1);
+    if (mapping) mappings.push(mapping);
+  });
+
+  await saveTrackMappings(mappings);
+}
+
+interface TrackPairing {
+  pairs: [Track, Track][];
+  unpairedSource: Track[];
+  unpairedTarget: Track[];
+}
+
+// Pairs each source entry with one target entry, in source order. A target
+// entry is used once, so a track that appears twice needs two entries.
+function pairTracks(
+  sourceTracks: Track[],
+  targetTracks: Track[],
+  sourceToTarget: FindMappedId,
+  targetToSource: FindMappedId
+): TrackPairing {
+  const remaining = [...targetTracks];
+  const pairs: [Track, Track][] = [];
+  const unpairedSource: Track[] = [];
+
+  sourceTracks.forEach(sourceTrack => {
+    const mappedId = sourceToTarget(sourceTrack);
+    const sourceIds = [sourceTrack.id, sourceTrack.catalogId].filter(Boolean);
+
+    const index = remaining.findIndex(t => {
+      if (mappedId && (t.id === mappedId || t.catalogId === mappedId)) {
+        return true;
+      }
+      const reverseId = targetToSource(t);
+      if (reverseId && sourceIds.includes(reverseId)) {
+        return true;
+      }
+
+      // First try to match by ISRC (most accurate)
+      if (sourceTrack.isrc) {
+        return t.isrc === sourceTrack.isrc;
+      }
+
+      // Fall back to matching by name and artist
+      return (
         t.name.toLowerCase() === sourceTrack.name.toLowerCase() &&
         t.artist.toLowerCase() === sourceTrack.artist.toLowerCase()
-    );
+      );
+    });
+
+    if (index === -1) {
+      unpairedSource.push(sourceTrack);
+    } else {
+      pairs.push([sourceTrack, remaining.splice(index, 1)[0]]);
+    }
   });
+
+  return { pairs, unpairedSource, unpairedTarget: remaining };
 }
 
 // Set up real-time sync using Supabase Edge Functions
@@ -0,0 +1,373 @@
+import {
+  appleMusicClient,
+  ServiceApiError,
+  spotifyClient,
+} from '@/lib/api/client';
+import { ServiceType, Track } from '@/lib/types';
+import { AppleMusicStorefront } from './apple-music-storefront';
+import { matchTracksCached } from './mapping-cache';
+
+// 'invalid' marks a row in an imported file that couldn't be read as a track
+export type SkipReason =
+  | 'unavailable'
+  | 'local'
+  | 'episode'
+  | 'unsupported'
+  | 'invalid';
+
+export interface SkippedTrack {
+  position: number;
+  name?: string;
+  reason: SkipReason;
+}
+
+export interface PlaylistTrackPage {
+  tracks: Track[];
+  skipped: SkippedTrack[];
+  // Position of the first item of this page within the playlist
+  offset: number;
+  total: number;
+  // Spotify's version of the playlist the positions refer to
+  snapshotId?: string;
+}
+
+export interface PlaylistReaderAuth {
+  accessToken: string;
+  musicUserToken?: string;
+  // Apple Music storefront used when matching against the catalog
+  storefront?: AppleMusicStorefront;
+}
+
+export interface PlaylistAddResult {
+  added: number;
+  // Source tracks with no confident match in the target catalog
+  unmatched: Track[];
+}
+
+async function* readSpotifyPlaylist(
+  playlistId: string,
+  auth: PlaylistReaderAuth
+): AsyncGenerator<PlaylistTrackPage> {
+  // The first page is read with the playlist so we know which snapshot the
+  // positions belong to
+  const playlist: any = await spotifyClient.request(
+    `https://api.spotify.com/v1/playlists/${playlistId}?fields=snapshot_id,tracks(items,offset,total,next)`,
+    { accessToken: auth.accessToken }
+  );
+  const snapshotId: string | undefined = playlist.snapshot_id;
+  let data: any = playlist.tracks;
+
+  while (data) {
+    const offset: number = data.offset || 0;
+    const tracks: Track[] = [];
+    const skipped: SkippedTrack[] = [];
+
+    (data.items || []).forEach((item: any, index: number) => {
+      const position = offset + index;
+      const track = item?.track;
+
+      if (!track) {
+        skipped.push({ position, reason: 'unavailable' });
+      } else if (item.is_local || track.is_local) {
+        skipped.push({ position, name: track.name, reason: 'local' });
+      } else if (track.type === 'episode') {
+        skipped.push({ position, name: track.name, reason: 'episode' });
+      } else {
+        tracks.push({
+          id: track.id,
+          position,
+          name: track.name,
+          artist: track.artists?.[0]?.name || '',
+          album: track.album?.name || '',
+          isrc: track.external_ids?.isrc,
+          durationMs: track.duration_ms,
+        });
+      }
+    });
+
+    yield { tracks, skipped, offset, total: data.total || 0, snapshotId };
+    data = data.next
+      ? await spotifyClient.request(data.next, {
+          accessToken: auth.accessToken,
+        })
+      : null;
+  }
+}
+
+async function* readAppleMusicPlaylist(
+  playlistId: string,
+  auth: PlaylistReaderAuth
+): AsyncGenerator<PlaylistTrackPage> {
+  let nextUrl: string | null =
+    `https://api.music.apple.com/v1/me/library/playlists/${playlistId}/tracks?limit=100`;
+  let offset = 0;
+
+  while (nextUrl) {
+    let data;
+    try {
+      data = await appleMusicClient.request(nextUrl, {
+        accessToken: auth.accessToken,
+        musicUserToken: auth.musicUserToken,
+      });
+    } catch (error) {
+      // Apple Music answers 404 for a playlist without tracks
+      if (
+        error instanceof ServiceApiError &&
+        error.code === 'not_found' &&
+        offset === 0
+      ) {
+        return;
+      }
+      throw error;
+    }
+    const items = data.data || [];
+    const tracks: Track[] = [];
+    const skipped: SkippedTrack[] = [];
+
+    items.forEach((item: any, index: number) => {
+      const position = offset + index;
+
+      if (!item?.attributes) {
+        skipped.push({ position, reason: 'unavailable' });
+      } else if (item.type !== 'library-songs' && item.type !== 'songs') {
+        skipped.push({
+          position,
+          name: item.attributes.name,
+          reason: 'unsupported',
+        });
+      } else {
+        tracks.push({
+          id: item.id,
+          catalogId: item.attributes.playParams?.catalogId,
+          position,
+          name: item.attributes.name,
+          artist: item.attributes.artistName,
+          album: item.attributes.albumName,
+          isrc: item.attributes.isrc,
+          durationMs: item.attributes.durationInMillis,
+        });
+      }
+    });
+
+    yield {
+      tracks,
+      skipped,
+      offset,
+      total: data.meta?.total ?? offset + items.length,
+    };
+
+    offset += items.length;
+    nextUrl = data.next ? `https://api.music.apple.com${data.next}` : null;
+  }
+}
+
+// Reads a playlist one page at a time so callers can start matching before
+// the whole playlist has been downloaded
+export function readPlaylistTracks(
+  service: ServiceType,
+  playlistId: string,
+  auth: PlaylistReaderAuth
+): AsyncGenerator<PlaylistTrackPage> {
+  return service === 'spotify'
+    ? readSpotifyPlaylist(playlistId, auth)
+    : readAppleMusicPlaylist(playlistId, auth);
+}
+
+export async function getAllPlaylistTracks(
+  service: ServiceType,
+  playlistId: string,
+  auth: PlaylistReaderAuth
+): Promise<{ tracks: Track[]; skipped: SkippedTrack[]; snapshotId?: string }> {
+  const tracks: Track[] = [];
+  const skipped: SkippedTrack[] = [];
+  let snapshotId: string | undefined;
+
+  for await (const page of readPlaylistTracks(service, playlistId, auth)) {
+    tracks.push(...page.tracks);
+    skipped.push(...page.skipped);
+    snapshotId ??= page.snapshotId;
+  }
+
+  return { tracks, skipped, snapshotId };
+}
+
+export interface PlaylistInsertion<T> {
+  // Index in the target playlist the first item goes to
+  index: number;
+  items: T[];
+}
+
+// Works out where source tracks belong in a target playlist that already
+// holds the tracks at placedPositions (source positions). Tracks with no
+// placed track between them are grouped into one insertion.
+export function planPlaylistInsertions<T>(
+  items: T[],
+  positionOf: (item: T) => number | undefined,
+  placedPositions: number[]
+): PlaylistInsertion<T>[] {
+  const placed = [...placedPositions].sort((a, b) => a - b);
+  const sorted = [...items].sort(
+    (a, b) => (positionOf(a) ?? Infinity) - (positionOf(b) ?? Infinity)
+  );
+  const insertions: PlaylistInsertion<T>[] = [];
+  let placedBefore = 0;
+  let previousPlacedBefore = -1;
+  let inserted = 0;
+
+  sorted.forEach((item) => {
+    const position = positionOf(item) ?? Infinity;
+    while (placedBefore < placed.length && placed[placedBefore] < position) {
+      placedBefore++;
+    }
+
+    if (placedBefore === previousPlacedBefore) {
+      insertions[insertions.length - 1].items.push(item);
+    } else {
+      insertions.push({ index: placedBefore + inserted, items: [item] });
+      previousPlacedBefore = placedBefore;
+    }
+    inserted++;
+  });
+
+  return insertions;
+}
+
+// Spotify inserts at `position` when it's given. Apple Music's API can only
+// append to library playlists, so the position is ignored there.
+export async function appendTracksToPlaylist(
+  service: 'spotify' | 'apple-music',
+  playlistId: string,
+  matches: { targetId: string | null; targetUri?: string }[],
+  token: string,
+  musicUserToken?: string,
+  position?: number
+) {
+  const ids = matches
+    .filter((match) => match.targetId)
+    .map((match) => ({ id: match.targetId!, uri: match.targetUri }));
+
+  if (ids.length === 0) return;
+
+  try {
+    if (service === 'spotify') {
+      await spotifyClient.request(
+        `https://api.spotify.com/v1/playlists/${playlistId}/tracks`,
+        {
+          accessToken: token,
+          method: 'POST',
+          body: {
+            uris: ids.map(({ id, uri }) => uri || `spotify:track:${id}`),
+            position,
+          },
+        }
+      );
+    } else {
+      await appleMusicClient.request(
+        `https://api.music.apple.com/v1/me/library/playlists/${playlistId}/tracks`,
+        {
+          accessToken: token,
+          musicUserToken,
+          method: 'POST',
+          body: {
+            data: ids.map(({ id }) => ({ id, type: 'songs' })),
+          },
+        }
+      );
+    }
+
+    console.log(`✓ Successfully added ${ids.length} tracks to ${service} playlist`);
+  } catch (error) {
+    console.error('Error adding tracks to playlist:', error);
+    throw error;
+  }
+}
+
+// Adds matched tracks at their source positions, so tracks added by a later
+// run land between the ones already there instead of at the end. Apple Music
+// can only append, the tracks go in source order at the end of the playlist.
+export async function insertTracksAtSourcePositions<
+  T extends { targetId: string | null; targetUri?: string },
+>(
+  service: ServiceType,
+  playlistId: string,
+  matches: T[],
+  positionOf: (match: T) => number | undefined,
+  placedPositions: number[],
+  token: string,
+  musicUserToken?: string
+) {
+  const insertions = planPlaylistInsertions(
+    matches.filter((match) => match.targetId),
+    positionOf,
+    placedPositions
+  );
+
+  if (service !== 'spotify') {
+    const ordered = insertions.flatMap((insertion) => insertion.items);
+    await appendTracksToPlaylist(
+      service,
+      playlistId,
+      ordered,
+      token,
+      musicUserToken
+    );
+    return;
+  }
+
+  // Spotify accepts 100 tracks per request
+  for (const { index, items } of insertions) {
+    for (let i = 0; i < items.length; i += 100) {
+      await appendTracksToPlaylist(
+        service,
+        playlistId,
+        items.slice(i, i + 100),
+        token,
+        musicUserToken,
+        index + i
+      );
+    }
+  }
+}
+
+// Matches tracks from another service against the target catalog and appends
+// the ones that were found
+export async function addMatchedTracksToPlaylist(
+  sourceService: ServiceType,
+  targetService: ServiceType,
+  playlistId: string,
+  tracks: Track[],
+  auth: PlaylistReaderAuth
+): Promise<PlaylistAddResult> {
+  const matches = await matchTracksCached(
+    sourceService,
+    targetService,
+    tracks,
+    auth
+  );
+  const matched = matches.filter((match) => match.targetId);
+
+  // Spotify accepts 100 tracks per request, Apple Music 25
+  const batchSize = targetService === 'spotify' ? 100 : 25;
+  for (let i = 0; i < matched.length; i += batchSize) {
+    await appendTracksToPlaylist(
+      targetService,
+      playlistId,
+      matched.slice(i, i + batchSize),
+      auth.accessToken,
+      auth.musicUserToken
+    );
+  }
+
+  return {
+    added: matched.length,
+    unmatched: matches
+      .filter((match) => !match.targetId)
+      .map((match) => match.track),
+  };
+}
+
+// Apple Music's API can add to library playlists but has no way to remove
+// from them, so pairs targeting Apple Music only ever add tracks
+export function supportsTrackRemoval(service: ServiceType) {
+  return service === 'spotify';
+}
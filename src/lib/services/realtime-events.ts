@@ -0,0 +1,118 @@
+// Events pushed over the WebSocket server (src/server/websocket-server.ts).
+// The same types are used by the server, the transfer worker and the
+// browser, so every message on the socket is one of these.
+
+type ServiceType = 'spotify' | 'apple-music';
+
+export interface LibrarySyncCounts {
+  total: number;
+  added: number;
+  removed: number;
+}
+
+export type RealtimeEvent = (
+  | { type: 'library_update'; service: ServiceType }
+  | {
+      type: 'transfer_progress';
+      transferId: string;
+      stage: string;
+      current: number;
+      total: number;
+      message?: string;
+    }
+  | { type: 'transfer_finished'; transferId: string; status: string }
+  | { type: 'transfer_failed'; transferId: string; error: string }
+  | { type: 'library_sync_started'; service: ServiceType }
+  | {
+      type: 'library_sync_progress';
+      service: ServiceType;
+      stage: 'albums' | 'playlists';
+      current: number;
+      total?: number;
+    }
+  | {
+      type: 'library_sync_completed';
+      service: ServiceType;
+      albums: LibrarySyncCounts;
+      playlists: LibrarySyncCounts;
+    }
+  | { type: 'library_sync_failed'; service: ServiceType; error: string }
+  | {
+      type: 'sync_pair_drift';
+      sourcePlaylistId: string;
+      targetPlaylistId: string;
+      tracksToAdd: number;
+      tracksToRemove: number;
+    }
+) & { timestamp: string };
+
+export type RealtimeEventType = RealtimeEvent['type'];
+
+// Omit applied to each member of the union, so events keep their own fields
+type WithoutTimestamp<T> = T extends unknown ? Omit<T, 'timestamp'> : never;
+
+export type RealtimeEventInput = WithoutTimestamp<RealtimeEvent>;
+
+const EVENT_TYPES: RealtimeEventType[] = [
+  'library_update',
+  'transfer_progress',
+  'transfer_finished',
+  'transfer_failed',
+  'library_sync_started',
+  'library_sync_progress',
+  'library_sync_completed',
+  'library_sync_failed',
+  'sync_pair_drift',
+];
+
+// Playlist sync checks run in the browser, so a tab may relay these to the
+// user's other tabs. Transfer and library sync events only come from workers.
+export const CLIENT_EVENT_TYPES: RealtimeEventType[] = ['sync_pair_drift'];
+
+export function isRealtimeEvent(value: unknown): value is RealtimeEvent {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    EVENT_TYPES.includes((value as RealtimeEvent).type) &&
+    typeof (value as RealtimeEvent).timestamp === 'string'
+  );
+}
+
+export function toRealtimeEvent(event: RealtimeEventInput): RealtimeEvent {
+  return { ...event, timestamp: new Date().toISOString() } as RealtimeEvent;
+}
+
+type RealtimeListener = (event: RealtimeEvent) => void;
+
+const listeners = new Set<RealtimeListener>();
+let forwardEvent: RealtimeListener | null = null;
+
+export function subscribeToRealtimeEvents(listener: RealtimeListener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function dispatchRealtimeEvent(event: RealtimeEvent) {
+  listeners.forEach((listener) => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error(`Realtime listener failed for ${event.type}:`, error);
+    }
+  });
+}
+
+// Set by the RealtimeProvider while its socket is open
+export function setRealtimeForwarder(forward: RealtimeListener | null) {
+  forwardEvent = forward;
+}
+
+// Handles an event raised in this tab and passes it on to the user's other
+// tabs. Without an open socket it only reaches this tab's listeners.
+export function publishRealtimeEvent(input: RealtimeEventInput) {
+  const event = toRealtimeEvent(input);
+  dispatchRealtimeEvent(event);
+  forwardEvent?.(event);
+}
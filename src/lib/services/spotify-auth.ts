@@ -1,4 +1,9 @@
-import { saveServiceAuth, removeServiceAuth } from './streaming-auth';
+import {
+  createSpotifyCodeChallenge,
+  getSpotifyToken,
+  refreshSpotifyToken as refreshSpotifyTokens,
+} from '@/lib/api/spotify';
+import { removeServiceAuth } from './streaming-auth';
 
 export async function authorizeSpotify(userId: string) {
   try {
@@ -19,7 +24,8 @@ export async function authorizeSpotify(userId: string) {
       'user-library-modify',
       'playlist-read-private',
       'playlist-modify-public',
-      'playlist-modify-private'
+      'playlist-modify-private',
+      'user-read-private' // The user's country, for market-aware matching
     ].join(' ');
 
     const params = new URLSearchParams({
@@ -28,6 +34,8 @@ export async function authorizeSpotify(userId: string) {
       redirect_uri: redirectUri,
       scope,
       state: userId,
+      code_challenge_method: 'S256',
+      code_challenge: await createSpotifyCodeChallenge(),
       show_dialog: 'true', // Always show the auth dialog
     });
 
@@ -61,39 +69,9 @@ export async function handleSpotifyCallback(code: string, userId: string) {
   try {
     console.log('Handling Spotify callback...', { code, userId });
 
-    const clientId = import.meta.env.VITE_SPOTIFY_CLIENT_ID;
-    const redirectUri = import.meta.env.VITE_SPOTIFY_REDIRECT_URI;
-
-    if (!clientId || !redirectUri) {
-      throw new Error('Missing Spotify configuration');
-    }
-
-    const response = await fetch('https://accounts.spotify.com/api/token', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: new URLSearchParams({
-        grant_type: 'authorization_code',
-        code,
-        redirect_uri: redirectUri,
-        client_id: clientId,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to exchange code for token');
-    }
-
-    const data = await response.json();
-    console.log('Got Spotify tokens:', { data });
-
-    // Save the tokens
-    await saveServiceAuth(userId, 'spotify', {
-      accessToken: data.access_token,
-      refreshToken: data.refresh_token,
-      expiresAt: new Date(Date.now() + data.expires_in * 1000),
-    });
+    // Tokens are stored by the exchange itself
+    await getSpotifyToken(code);
+    console.log('Got Spotify tokens');
 
     // Get the saved callback URL
     const callbackUrl = sessionStorage.getItem('auth_callback_url') || '/home';
@@ -106,45 +84,12 @@ export async function handleSpotifyCallback(code: string, userId: string) {
   }
 }
 
-export async function refreshSpotifyToken(userId: string, refreshToken: string) {
+export async function refreshSpotifyToken(userId: string) {
   try {
     console.log('Refreshing Spotify token...');
-    
-    const clientId = import.meta.env.VITE_SPOTIFY_CLIENT_ID;
-    const clientSecret = import.meta.env.VITE_SPOTIFY_CLIENT_SECRET;
-
-    if (!clientId || !clientSecret) {
-      throw new Error('Spotify credentials not found in environment variables');
-    }
-
-    const response = await fetch('https://accounts.spotify.com/api/token', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        Authorization: `Basic ${btoa(`${clientId}:${clientSecret}`)}`,
-      },
-      body: new URLSearchParams({
-        grant_type: 'refresh_token',
-        refresh_token: refreshToken,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to refresh Spotify token: ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    console.log('Received new Spotify tokens');
-
-    // Save new tokens
-    await saveServiceAuth(userId, 'spotify', {
-      accessToken: data.access_token,
-      refreshToken: data.refresh_token || refreshToken, // Use old refresh token if new one not provided
-      expiresAt: new Date(Date.now() + data.expires_in * 1000),
-    });
-
+    const tokens = await refreshSpotifyTokens(userId);
     console.log('Spotify token refresh completed successfully');
-    return data;
+    return tokens;
   } catch (error) {
     console.error('Failed to refresh Spotify token:', error);
     throw error;
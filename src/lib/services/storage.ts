@@ -78,6 +78,7 @@ export async function getStoredLibrary(userId: string, service: string) {
         .select('*')
         .eq('user_id', userId)
         .eq('service', service)
+        .is('removed_at', null)
         .order('name')
         .range(page * pageSize, (page + 1) * pageSize - 1);
 
@@ -105,6 +106,7 @@ export async function getStoredLibrary(userId: string, service: string) {
         .select('*')
         .eq('user_id', userId)
         .eq('service', service)
+        .is('removed_at', null)
         .order('name')
         .range(page * pageSize, (page + 1) * pageSize - 1);
 
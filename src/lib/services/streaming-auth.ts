@@ -1,4 +1,8 @@
 import { supabase } from '@/lib/supabase';
+import {
+  AppleMusicStorefront,
+  toAppleMusicStorefront,
+} from './apple-music-storefront';
 
 export type ServiceType = 'spotify' | 'apple-music' | 'lastfm';
 
@@ -7,6 +11,8 @@ interface ServiceTokens {
   refreshToken?: string;
   expiresAt?: Date;
   musicUserToken?: string; // For Apple Music
+  storefront?: AppleMusicStorefront; // For Apple Music catalog lookups
+  country?: string; // For Spotify, the user's market
 }
 
 export async function saveServiceAuth(
@@ -26,6 +32,8 @@ export async function saveServiceAuth(
         refresh_token: tokens.refreshToken,
         token_expires_at: tokens.expiresAt?.toISOString(),
         music_user_token: tokens.musicUserToken, // Add music user token
+        storefront: tokens.storefront?.id,
+        storefront_language: tokens.storefront?.language,
         updated_at: new Date().toISOString(),
       },
       {
@@ -79,6 +87,7 @@ export async function getServiceAuth(
       return {
         accessToken: data.access_token || '', // Use stored access token if available
         musicUserToken: musicUserToken,
+        storefront: toAppleMusicStorefront(data),
         refreshToken: data.refresh_token || null,
         expiresAt: data.token_expires_at
           ? new Date(data.token_expires_at)
@@ -94,6 +103,7 @@ export async function getServiceAuth(
         ? new Date(data.token_expires_at)
         : undefined,
       musicUserToken: data.music_user_token,
+      country: data.country || undefined,
     };
   } catch (error) {
     console.error('Failed to get service auth:', error);
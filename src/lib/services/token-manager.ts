@@ -1,8 +1,9 @@
 import { ServiceType, getServiceAuth, saveServiceAuth } from './streaming-auth';
 import { supabase } from '@/lib/supabase';
+import { refreshSpotifyToken } from '@/lib/api/spotify';
 
 interface TokenRefreshers {
-  [key: string]: (refreshToken: string) => Promise<{
+  [key: string]: (userId: string, refreshToken: string) => Promise<{
     accessToken: string;
     refreshToken?: string;
     expiresAt?: Date;
@@ -10,32 +11,14 @@ interface TokenRefreshers {
 }
 
 const tokenRefreshers: TokenRefreshers = {
-  spotify: async (refreshToken: string) => {
-    const response = await fetch('https://accounts.spotify.com/api/token', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        Authorization: `Basic ${btoa(
-          `${import.meta.env.VITE_SPOTIFY_CLIENT_ID}:${
-            import.meta.env.VITE_SPOTIFY_CLIENT_SECRET
-          }`
-        )}`,
-      },
-      body: new URLSearchParams({
-        grant_type: 'refresh_token',
-        refresh_token: refreshToken,
-      }),
-    });
-
-    const data = await response.json();
-    if (!response.ok) {
-      throw new Error(data.error || 'Failed to refresh Spotify token');
-    }
+  // The refresh grant needs the client secret, so it runs server-side
+  spotify: async (userId: string, refreshToken: string) => {
+    const data = await refreshSpotifyToken(userId);
 
     return {
-      accessToken: data.access_token,
-      refreshToken: data.refresh_token || refreshToken, // Spotify might not always return a new refresh token
-      expiresAt: new Date(Date.now() + data.expires_in * 1000),
+      accessToken: data.accessToken,
+      refreshToken: data.refreshToken || refreshToken, // Spotify might not always return a new refresh token
+      expiresAt: new Date(Date.now() + data.expiresIn * 1000),
     };
   },
   // Apple Music tokens are handled differently - they're generated client-side
@@ -105,7 +88,7 @@ export class TokenManager {
     }
 
     try {
-      const newTokens = await tokenRefreshers[service](refreshToken);
+      const newTokens = await tokenRefreshers[service](userId, refreshToken);
       await saveServiceAuth(userId, service, {
         ...newTokens,
         musicUserToken: (await getServiceAuth(userId, service))?.musicUserToken,
@@ -0,0 +1,411 @@
+import { appleMusicClient, spotifyClient } from '@/lib/api/client';
+import { ServiceType, Track } from '@/lib/types';
+import {
+  AppleMusicStorefront,
+  appleMusicCatalogUrl,
+} from './apple-music-storefront';
+
+// 'id' is a track that already had the target service's ID, e.g. an imported
+// file exported from that service
+export type MatchMethod = 'id' | 'isrc' | 'search' | 'none';
+
+export interface MatchCandidate {
+  id: string;
+  uri?: string;
+  name: string;
+  artist: string;
+  album: string;
+  durationMs?: number;
+  // False when the track can't be played in the user's market
+  isPlayable?: boolean;
+}
+
+export interface TrackMatch {
+  track: Track;
+  targetId: string | null;
+  targetUri?: string;
+  confidence: number; // 0-1
+  method: MatchMethod;
+  // Best candidate found, kept even when it falls below the match threshold
+  candidate?: MatchCandidate;
+}
+
+export interface MatchAuth {
+  accessToken: string;
+  musicUserToken?: string;
+  storefront?: AppleMusicStorefront;
+}
+
+// Candidates scoring below this are treated as not found
+export const MIN_MATCH_CONFIDENCE = 0.6;
+// Matches below this are shown to the user as guesses rather than exact hits
+export const LOW_CONFIDENCE_THRESHOLD = 0.85;
+// Tracks the user can't play are greyed out in their playlist, so at best
+// they're offered as a guess
+const UNPLAYABLE_MAX_CONFIDENCE = MIN_MATCH_CONFIDENCE;
+
+// A live recording is a different take, so when only one side is live the
+// match is offered as a guess rather than taken as exact
+const LIVE_MISMATCH_PENALTY = 0.2;
+
+const LIVE_PATTERNS = [
+  // - Live, - Live at Wembley, (Live)
+  /\s+-\s+live\b.*$/gi,
+  /\s*[([]\s*live\b[^)\]]*[)\]]/gi,
+];
+
+// Acoustic and other version qualifiers stay in the title, they name a
+// different recording. Live is stripped and scored by isLiveTitle instead.
+const TITLE_NOISE_PATTERNS = [
+  // (Remastered 2011), [Deluxe Edition], (Bonus Track)...
+  /\s*[([][^)\]]*\b(remaster(ed)?|deluxe|edition|bonus track|explicit|clean)\b[^)\]]*[)\]]/gi,
+  // - Remastered, - 2011 Remaster, - Remastered 2009
+  /\s+-\s+(\d{4}\s+)?remaster(ed)?(\s+\d{4})?(\s+version)?\s*$/gi,
+  ...LIVE_PATTERNS,
+  // (feat. X), [ft. X], feat. X
+  /\s*[([]\s*(feat\.?|ft\.?|featuring)\s[^)\]]*[)\]]/gi,
+  /\s+(feat\.?|ft\.?|featuring)\s.*$/gi,
+  // - Single, - EP
+  /\s+-\s+(single|ep)\s*$/gi,
+];
+
+function simplify(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function normalizeTrackTitle(title: string): string {
+  let result = title || '';
+  for (const pattern of TITLE_NOISE_PATTERNS) {
+    result = result.replace(pattern, '');
+  }
+  return simplify(result);
+}
+
+function isLiveTitle(title: string) {
+  return LIVE_PATTERNS.some((pattern) => {
+    // The patterns are global, test() would carry lastIndex between calls
+    pattern.lastIndex = 0;
+    return pattern.test(title || '');
+  });
+}
+
+export function normalizeArtistName(artist: string): string {
+  // Only the primary artist is compared, featured artists vary by service
+  const primary = (artist || '')
+    .split(/\s*(?:,|;|\bfeat\.?|\bft\.?|\bfeaturing\b)\s*/i)[0];
+  return simplify(primary).replace(/^the /, '');
+}
+
+function similarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  // Sørensen–Dice coefficient over word tokens, counted as multisets so a
+  // repeated word only matches as often as it appears on the other side
+  const tokensA = a.split(' ');
+  const tokensB = b.split(' ');
+  const remaining = new Map<string, number>();
+  tokensB.forEach((token) =>
+    remaining.set(token, (remaining.get(token) || 0) + 1)
+  );
+  const shared = tokensA.filter((token) => {
+    const count = remaining.get(token) || 0;
+    if (count === 0) return false;
+    remaining.set(token, count - 1);
+    return true;
+  }).length;
+  return (2 * shared) / (tokensA.length + tokensB.length);
+}
+
+function durationScore(a?: number, b?: number): number | null {
+  if (!a || !b) return null;
+  const diff = Math.abs(a - b);
+  if (diff <= 3000) return 1;
+  if (diff <= 10000) return 0.5;
+  return 0;
+}
+
+export function scoreTrackCandidate(
+  track: Track,
+  candidate: Pick<MatchCandidate, 'name' | 'artist' | 'album' | 'durationMs'>
+): number {
+  const components: { weight: number; score: number }[] = [
+    {
+      weight: 0.5,
+      score: similarity(
+        normalizeTrackTitle(track.name),
+        normalizeTrackTitle(candidate.name)
+      ),
+    },
+    {
+      weight: 0.3,
+      score: similarity(
+        normalizeArtistName(track.artist),
+        normalizeArtistName(candidate.artist)
+      ),
+    },
+  ];
+
+  if (track.album && candidate.album) {
+    components.push({
+      weight: 0.1,
+      score: similarity(
+        normalizeTrackTitle(track.album),
+        normalizeTrackTitle(candidate.album)
+      ),
+    });
+  }
+
+  const duration = durationScore(track.durationMs, candidate.durationMs);
+  if (duration !== null) {
+    components.push({ weight: 0.1, score: duration });
+  }
+
+  // Missing components are left out rather than counted as mismatches
+  const totalWeight = components.reduce((sum, c) => sum + c.weight, 0);
+  const score = components.reduce((sum, c) => sum + c.weight * c.score, 0);
+  const penalty =
+    isLiveTitle(track.name) !== isLiveTitle(candidate.name)
+      ? LIVE_MISMATCH_PENALTY
+      : 0;
+  return Math.max(Math.round((score / totalWeight - penalty) * 100) / 100, 0);
+}
+
+function candidateConfidence(candidate: MatchCandidate, score: number) {
+  return candidate.isPlayable === false
+    ? Math.min(score, UNPLAYABLE_MAX_CONFIDENCE)
+    : score;
+}
+
+function pickBestCandidate(track: Track, candidates: MatchCandidate[]) {
+  let best: MatchCandidate | undefined;
+  let bestScore = 0;
+
+  for (const candidate of candidates) {
+    const score = candidateConfidence(
+      candidate,
+      scoreTrackCandidate(track, candidate)
+    );
+    if (score > bestScore) {
+      bestScore = score;
+      best = candidate;
+    }
+  }
+
+  return { candidate: best, score: bestScore };
+}
+
+function fromSpotifyTrack(item: any): MatchCandidate {
+  return {
+    id: item.id,
+    uri: item.uri,
+    name: item.name,
+    artist: item.artists?.[0]?.name || '',
+    album: item.album?.name || '',
+    durationMs: item.duration_ms,
+    // Only present when the search was given a market
+    isPlayable: item.is_playable,
+  };
+}
+
+function fromAppleMusicSong(item: any): MatchCandidate {
+  return {
+    id: item.id,
+    name: item.attributes?.name || '',
+    artist: item.attributes?.artistName || '',
+    album: item.attributes?.albumName || '',
+    durationMs: item.attributes?.durationInMillis,
+  };
+}
+
+async function searchSpotifyTracks(
+  query: string,
+  auth: MatchAuth,
+  limit: number
+): Promise<MatchCandidate[]> {
+  const data = await spotifyClient.request(
+    `https://api.spotify.com/v1/search?q=${encodeURIComponent(
+      query
+    )}&type=track&limit=${limit}&market=from_token`,
+    { accessToken: auth.accessToken }
+  );
+  return (data.tracks?.items || []).filter(Boolean).map(fromSpotifyTrack);
+}
+
+async function fetchAppleMusic(url: string, auth: MatchAuth) {
+  return appleMusicClient.request(url, {
+    accessToken: auth.accessToken,
+    musicUserToken: auth.musicUserToken,
+  });
+}
+
+async function findByIsrc(
+  service: ServiceType,
+  isrc: string,
+  auth: MatchAuth
+): Promise<MatchCandidate[]> {
+  if (service === 'spotify') {
+    return searchSpotifyTracks(`isrc:${isrc}`, auth, 5);
+  }
+
+  const data = await fetchAppleMusic(
+    appleMusicCatalogUrl(
+      `songs?filter[isrc]=${encodeURIComponent(isrc)}`,
+      auth.storefront
+    ),
+    auth
+  );
+  return (data.data || []).map(fromAppleMusicSong);
+}
+
+async function findBySearch(
+  service: ServiceType,
+  track: Track,
+  auth: MatchAuth
+): Promise<MatchCandidate[]> {
+  const title = normalizeTrackTitle(track.name);
+  const artist = normalizeArtistName(track.artist);
+
+  if (service === 'spotify') {
+    const candidates = await searchSpotifyTracks(
+      `track:${title} artist:${artist}`,
+      auth,
+      10
+    );
+    if (candidates.length > 0) return candidates;
+
+    // Field filters are strict, retry as a plain keyword search
+    return searchSpotifyTracks(`${title} ${artist}`, auth, 10);
+  }
+
+  return searchCatalogTracks(service, `${title} ${artist}`, auth);
+}
+
+export async function searchCatalogTracks(
+  service: ServiceType,
+  query: string,
+  auth: MatchAuth
+): Promise<MatchCandidate[]> {
+  if (service === 'spotify') {
+    return searchSpotifyTracks(query, auth, 10);
+  }
+
+  const data = await fetchAppleMusic(
+    appleMusicCatalogUrl(
+      `search?term=${encodeURIComponent(query)}&types=songs&limit=10`,
+      auth.storefront
+    ),
+    auth
+  );
+  return (data.results?.songs?.data || []).map(fromAppleMusicSong);
+}
+
+export async function matchTrack(
+  service: ServiceType,
+  track: Track,
+  auth: MatchAuth
+): Promise<TrackMatch> {
+  let unplayableIsrcMatch: TrackMatch | undefined;
+
+  if (track.isrc) {
+    try {
+      const candidates = await findByIsrc(service, track.isrc, auth);
+      if (candidates.length > 0) {
+        // An ISRC can map to several releases, prefer the closest one
+        const { candidate } = pickBestCandidate(track, candidates);
+        const match = candidate || candidates[0];
+        const isrcMatch: TrackMatch = {
+          track,
+          targetId: match.id,
+          targetUri: match.uri,
+          confidence: candidateConfidence(match, 1),
+          method: 'isrc',
+          candidate: match,
+        };
+        if (match.isPlayable !== false) return isrcMatch;
+
+        // Not available in the user's market, another release of the
+        // song found by searching might be
+        unplayableIsrcMatch = isrcMatch;
+      }
+    } catch (error) {
+      console.error(`ISRC lookup failed for "${track.name}":`, error);
+    }
+  }
+
+  try {
+    const candidates = await findBySearch(service, track, auth);
+    const { candidate, score } = pickBestCandidate(track, candidates);
+
+    if (unplayableIsrcMatch && score <= unplayableIsrcMatch.confidence) {
+      return unplayableIsrcMatch;
+    }
+
+    if (candidate && score >= MIN_MATCH_CONFIDENCE) {
+      return {
+        track,
+        targetId: candidate.id,
+        targetUri: candidate.uri,
+        confidence: score,
+        method: 'search',
+        candidate,
+      };
+    }
+
+    return { track, targetId: null, confidence: score, method: 'none', candidate };
+  } catch (error) {
+    console.error(`Search failed for "${track.name}":`, error);
+    return (
+      unplayableIsrcMatch ?? { track, targetId: null, confidence: 0, method: 'none' }
+    );
+  }
+}
+
+export async function matchTracks(
+  service: ServiceType,
+  tracks: Track[],
+  auth: MatchAuth,
+  onProgress?: (current: number) => void
+): Promise<TrackMatch[]> {
+  const batchSize = 10;
+  const matches: TrackMatch[] = [];
+
+  for (let i = 0; i < tracks.length; i += batchSize) {
+    const batch = tracks.slice(i, i + batchSize);
+    const batchMatches = await Promise.all(
+      batch.map((track) => matchTrack(service, track, auth))
+    );
+    matches.push(...batchMatches);
+    onProgress?.(matches.length);
+  }
+
+  return matches;
+}
+
+export interface MatchSummary {
+  total: number;
+  exact: number;
+  fuzzy: number;
+  lowConfidence: number;
+  unmatched: number;
+}
+
+export function summarizeMatches(matches: TrackMatch[]): MatchSummary {
+  return {
+    total: matches.length,
+    exact: matches.filter((m) => m.method === 'id' || m.method === 'isrc')
+      .length,
+    fuzzy: matches.filter((m) => m.method === 'search').length,
+    lowConfidence: matches.filter(
+      (m) => m.targetId && m.confidence < LOW_CONFIDENCE_THRESHOLD
+    ).length,
+    unmatched: matches.filter((m) => !m.targetId).length,
+  };
+}
@@ -0,0 +1,160 @@
+import { supabase } from '@/lib/supabase';
+
+export type TransferItemStatus =
+  | 'pending'
+  | 'matched'
+  | 'added'
+  | 'skipped'
+  | 'failed';
+
+export type TransferItemCounts = Record<TransferItemStatus, number>;
+
+// Which items a run of a transfer should process: everything that isn't
+// finished yet, or only the ones that failed last time
+export type TransferRunMode = 'resume' | 'retry_failed';
+
+export interface TransferItem {
+  item_key: string;
+  kind: 'album' | 'track';
+  name?: string | null;
+  artist_name?: string | null;
+  status: TransferItemStatus;
+  target_id?: string | null;
+  confidence?: number | null;
+  error?: string | null;
+}
+
+const FLUSH_SIZE = 100;
+
+// Playlist items are tracked by position, the same track can appear twice
+export const trackItemKey = (position?: number) => `track:${position ?? -1}`;
+
+export const trackItemPosition = (key: string) => Number(key.split(':')[1]);
+
+// Source positions of the tracks a transfer has put in its target playlist
+export function addedTrackPositions(items: Iterable<TransferItem>) {
+  return [...items]
+    .filter((item) => item.kind === 'track' && item.status === 'added')
+    .map((item) => trackItemPosition(item.item_key));
+}
+
+export function isItemFinished(status?: TransferItemStatus) {
+  return status === 'added' || status === 'skipped';
+}
+
+export function shouldRunItem(
+  item: TransferItem | undefined,
+  mode: TransferRunMode
+) {
+  if (mode === 'retry_failed') return item?.status === 'failed';
+  return !isItemFinished(item?.status);
+}
+
+export async function loadTransferItems(transferId: string) {
+  const items = new Map<string, TransferItem>();
+  const pageSize = 1000;
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from('transfer_items')
+      .select(
+        'item_key, kind, name, artist_name, status, target_id, confidence, error'
+      )
+      .eq('transfer_id', transferId)
+      .range(from, from + pageSize - 1);
+
+    if (error) {
+      throw new Error(`Failed to load transfer items: ${error.message}`);
+    }
+
+    (data || []).forEach((item) => items.set(item.item_key, item));
+    if (!data || data.length < pageSize) break;
+  }
+
+  return items;
+}
+
+// Buffers item updates and writes them in batches, so tracking thousands of
+// albums doesn't turn into thousands of requests
+export function createItemTracker(
+  transferId: string,
+  userId: string,
+  known: Map<string, TransferItem> = new Map()
+) {
+  const pending = new Map<string, TransferItem>();
+
+  const flush = async () => {
+    if (pending.size === 0) return;
+
+    const rows = [...pending.values()].map((item) => ({
+      ...item,
+      transfer_id: transferId,
+      user_id: userId,
+      updated_at: new Date().toISOString(),
+    }));
+    pending.clear();
+
+    const { error } = await supabase
+      .from('transfer_items')
+      .upsert(rows, { onConflict: 'transfer_id,item_key' });
+
+    if (error) {
+      // Progress tracking must not fail the transfer itself
+      console.error('Failed to save transfer items:', error);
+    }
+  };
+
+  const update = (key: string, patch: Omit<TransferItem, 'item_key'>) => {
+    const item: TransferItem = {
+      ...known.get(key),
+      ...patch,
+      item_key: key,
+      error: patch.status === 'failed' ? patch.error ?? null : null,
+    };
+    known.set(key, item);
+    pending.set(key, item);
+
+    if (pending.size >= FLUSH_SIZE) {
+      flush().catch((error) =>
+        console.error('Failed to save transfer items:', error)
+      );
+    }
+  };
+
+  return {
+    get: (key: string) => known.get(key),
+    values: () => [...known.values()],
+    update,
+    flush,
+  };
+}
+
+export type ItemTracker = ReturnType<typeof createItemTracker>;
+
+export async function getTransferItemCounts(transferIds: string[]) {
+  const counts: Record<string, TransferItemCounts> = {};
+  if (transferIds.length === 0) return counts;
+
+  const { data, error } = await supabase.rpc('transfer_item_counts', {
+    transfer_ids: transferIds,
+  });
+
+  if (error) {
+    throw new Error(`Failed to count transfer items: ${error.message}`);
+  }
+
+  (data || []).forEach(
+    (row: { transfer_id: string; status: string; count: number }) => {
+      counts[row.transfer_id] ??= {
+        pending: 0,
+        matched: 0,
+        added: 0,
+        skipped: 0,
+        failed: 0,
+      };
+      counts[row.transfer_id][row.status as TransferItemStatus] = row.count;
+    }
+  );
+
+  return counts;
+}
@@ -0,0 +1,210 @@
+import { supabase } from '@/lib/supabase';
+import { TransferProgress } from './transfer';
+import { TransferRunMode } from './transfer-items';
+import { TransferReviewItem } from './transfer-review';
+
+type ServiceType = 'spotify' | 'apple-music';
+
+export type TransferJobType = 'library' | 'playlist' | 'album';
+
+// Everything the worker needs to run the job without the browser tab
+export type TransferJobPayload = (
+  | { type: 'library' }
+  | {
+      type: 'playlist';
+      playlist: {
+        id: string;
+        name: string;
+        artworkUrl?: string;
+      };
+    }
+  | {
+      type: 'album';
+      album: {
+        id: string;
+        album_id?: string;
+        name: string;
+        artist_name: string;
+        upc?: string | null;
+      };
+    }
+) & {
+  // Set when a finished or failed job is run again
+  mode?: TransferRunMode;
+  // Only match items and report what would happen, nothing is written to
+  // the target service
+  dryRun?: boolean;
+};
+
+export interface TransferLogEntry {
+  type: 'info' | 'success' | 'error';
+  message: string;
+  timestamp: string;
+}
+
+// Written by the worker while a job runs so the UI can follow along
+export interface TransferCheckpoint {
+  stage: string;
+  current: number;
+  total: number;
+  message?: string;
+  log?: TransferLogEntry[];
+  updatedAt: string;
+}
+
+// A finished dry run, waiting for the user to commit or discard it
+export const PREVIEW_TRANSFER_STATUS = 'preview';
+
+export const ACTIVE_TRANSFER_STATUSES = ['queued', 'pending', 'in_progress'];
+
+export function isTransferActive(status?: string | null) {
+  return !!status && ACTIVE_TRANSFER_STATUSES.includes(status);
+}
+
+// A single playlist or album job as the transfer modals show it
+export function toTransferProgress(job: any): TransferProgress {
+  const checkpoint = job?.checkpoint as TransferCheckpoint | null;
+  const metadata = job?.metadata || {};
+
+  if (job?.status === 'success') {
+    const reviewItems: TransferReviewItem[] = metadata.reviewItems || [];
+    return {
+      stage: 'complete',
+      progress: 100,
+      message: 'Transfer complete!',
+      matchSummary: metadata.matchSummary,
+      skipped: metadata.skippedItems,
+      unmatched: reviewItems
+        .filter((item) => item.kind === 'track' && item.reason === 'unmatched')
+        .map((item) => item.source),
+    };
+  }
+  if (job?.status === 'failed') {
+    return {
+      stage: 'error',
+      progress: 0,
+      message: 'Transfer failed',
+      error: job.error || 'An unknown error occurred',
+    };
+  }
+
+  return {
+    stage: (checkpoint?.stage as TransferProgress['stage']) || 'processing',
+    progress: checkpoint?.current || 0,
+    message: checkpoint?.message || 'Waiting for the transfer to start...',
+  };
+}
+
+export async function enqueueTransferJob(
+  userId: string,
+  sourceService: ServiceType,
+  destinationService: ServiceType,
+  payload: TransferJobPayload,
+  metadata: Record<string, any> = {}
+) {
+  const { data, error } = await supabase
+    .from('transfers')
+    .insert({
+      user_id: userId,
+      source_service: sourceService,
+      destination_service: destinationService,
+      status: 'queued',
+      job_type: payload.type,
+      payload,
+      metadata: { type: payload.type, ...metadata },
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Failed to queue transfer:', error);
+    throw new Error(`Failed to queue transfer: ${error.message}`);
+  }
+
+  return data;
+}
+
+export function toPlaylistJobPayload(
+  playlist: any
+): Extract<TransferJobPayload, { type: 'playlist' }> {
+  const artworkUrl = playlist.attributes?.artwork?.url
+    ?.replace('{w}', '640')
+    .replace('{h}', '640');
+
+  return {
+    type: 'playlist',
+    playlist: {
+      id: playlist.playlist_id || playlist.id,
+      name: playlist.name || playlist.attributes?.name,
+      artworkUrl,
+    },
+  };
+}
+
+export function toAlbumJobPayload(
+  album: any
+): Extract<TransferJobPayload, { type: 'album' }> {
+  return {
+    type: 'album',
+    album: {
+      id: album.id,
+      album_id: album.album_id,
+      name: album.name,
+      artist_name: album.artist_name,
+      upc: album.upc,
+    },
+  };
+}
+
+export async function getTransferJobs(ids: string[]) {
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('transfers')
+    .select('*')
+    .in('id', ids);
+
+  if (error) {
+    throw new Error(`Failed to load transfers: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+// Puts a transfer back on the queue, the worker skips items an earlier run
+// already finished. Passing `dryRun` switches a preview to a real run.
+export async function requeueTransfer(
+  transferId: string,
+  mode: TransferRunMode,
+  dryRun?: boolean
+) {
+  const { data: transfer, error: loadError } = await supabase
+    .from('transfers')
+    .select('payload')
+    .eq('id', transferId)
+    .single();
+
+  if (loadError || !transfer?.payload) {
+    throw new Error('This transfer was not run as a job and cannot be resumed');
+  }
+
+  const { error } = await supabase
+    .from('transfers')
+    .update({
+      status: 'queued',
+      error: null,
+      claimed_by: null,
+      completed_at: null,
+      attempts: 0,
+      payload: {
+        ...transfer.payload,
+        mode,
+        ...(dryRun !== undefined && { dryRun }),
+      },
+    })
+    .eq('id', transferId);
+
+  if (error) {
+    throw new Error(`Failed to queue transfer: ${error.message}`);
+  }
+}
@@ -0,0 +1,129 @@
+import { supabase } from '@/lib/supabase';
+import { LOW_CONFIDENCE_THRESHOLD } from './track-matching';
+import { loadTransferItems, TransferItem } from './transfer-items';
+import { PREVIEW_TRANSFER_STATUS, requeueTransfer } from './transfer-jobs';
+
+export type TransferPreviewStatus =
+  | 'will_add'
+  | 'in_library'
+  | 'low_confidence'
+  | 'not_found';
+
+export interface TransferPreviewItem {
+  key: string;
+  kind: 'album' | 'track';
+  name?: string | null;
+  artistName?: string | null;
+  status: TransferPreviewStatus;
+  confidence?: number | null;
+  error?: string | null;
+}
+
+// Keeps `.in()` filters well under the PostgREST URL length limit
+const UPDATE_CHUNK_SIZE = 100;
+
+export function isSelectable(item: TransferPreviewItem) {
+  return item.status === 'will_add' || item.status === 'low_confidence';
+}
+
+// Selected by default: everything that would be added without a second look
+export function isSelectedByDefault(item: TransferPreviewItem) {
+  return item.status === 'will_add';
+}
+
+// A dry run leaves its results as transfer items, this reads them back as a
+// report
+export function toPreviewItem(item: TransferItem): TransferPreviewItem | null {
+  let status: TransferPreviewStatus;
+
+  switch (item.status) {
+    case 'matched':
+      status =
+        item.confidence != null &&
+        Number(item.confidence) < LOW_CONFIDENCE_THRESHOLD
+          ? 'low_confidence'
+          : 'will_add';
+      break;
+    case 'skipped':
+      // Playlist tracks are only skipped when they can't be transferred at
+      // all (local files, unavailable tracks), not because of the library
+      if (item.kind !== 'album') return null;
+      status = 'in_library';
+      break;
+    case 'failed':
+      status = 'not_found';
+      break;
+    default:
+      return null;
+  }
+
+  return {
+    key: item.item_key,
+    kind: item.kind,
+    name: item.name,
+    artistName: item.artist_name,
+    status,
+    confidence: item.confidence != null ? Number(item.confidence) : null,
+    error: item.error,
+  };
+}
+
+export async function getTransferPreview(transferId: string) {
+  const items = await loadTransferItems(transferId);
+  return [...items.values()]
+    .map(toPreviewItem)
+    .filter((item): item is TransferPreviewItem => !!item);
+}
+
+// Runs the previewed transfer for real. Items the user deselected, and ones
+// that weren't found, are marked skipped so the worker leaves them alone.
+// With nothing left to add the preview is discarded instead.
+export async function commitTransferPreview(
+  transferId: string,
+  items: TransferPreviewItem[],
+  selectedKeys: Set<string>
+) {
+  const hasSelection = items.some(
+    (item) => isSelectable(item) && selectedKeys.has(item.key)
+  );
+  if (!hasSelection) {
+    await discardTransferPreview(transferId);
+    return false;
+  }
+
+  const keysToSkip = items
+    .filter((item) => item.status !== 'in_library')
+    .filter((item) => !isSelectable(item) || !selectedKeys.has(item.key))
+    .map((item) => item.key);
+
+  for (let i = 0; i < keysToSkip.length; i += UPDATE_CHUNK_SIZE) {
+    const { error } = await supabase
+      .from('transfer_items')
+      .update({
+        status: 'skipped',
+        error: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('transfer_id', transferId)
+      .in('item_key', keysToSkip.slice(i, i + UPDATE_CHUNK_SIZE));
+
+    if (error) {
+      throw new Error(`Failed to update transfer items: ${error.message}`);
+    }
+  }
+
+  await requeueTransfer(transferId, 'resume', false);
+  return true;
+}
+
+export async function discardTransferPreview(transferId: string) {
+  const { error } = await supabase
+    .from('transfers')
+    .delete()
+    .eq('id', transferId)
+    .eq('status', PREVIEW_TRANSFER_STATUS);
+
+  if (error) {
+    throw new Error(`Failed to discard preview: ${error.message}`);
+  }
+}
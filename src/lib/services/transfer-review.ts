@@ -0,0 +1,289 @@
+import { supabase } from '@/lib/supabase';
+import { ServiceType, Track } from '@/lib/types';
+import { addAlbumsToAppleMusicLibrary, searchAppleMusicCatalog } from '../api/apple-music';
+import {
+  addAlbumsToSpotifyLibrary,
+  removeTracksFromSpotifyPlaylist,
+  searchSpotifyCatalog,
+} from '../api/spotify';
+import { insertTracksAtSourcePositions } from './playlist-tracks';
+import { getServiceAuth } from './streaming-auth';
+import { tokenManager } from './token-manager';
+import {
+  addedTrackPositions,
+  createItemTracker,
+  loadTransferItems,
+} from './transfer-items';
+import {
+  LOW_CONFIDENCE_THRESHOLD,
+  MatchCandidate,
+  searchCatalogTracks,
+  TrackMatch,
+} from './track-matching';
+
+export type ReviewReason = 'unmatched' | 'low_confidence';
+export type ReviewStatus = 'pending' | 'accepted' | 'added' | 'skipped';
+
+export interface TransferReviewItem {
+  key: string;
+  kind: 'track' | 'album';
+  source: Track;
+  reason: ReviewReason;
+  confidence: number;
+  // Best guess from the matcher; for low-confidence tracks this is what was added
+  candidate?: MatchCandidate;
+  status: ReviewStatus;
+  resolvedTargetId?: string;
+}
+
+export type ReviewDecision =
+  | { action: 'accept' }
+  | { action: 'skip' }
+  | { action: 'replace'; candidate: MatchCandidate };
+
+export function buildReviewItems(matches: TrackMatch[]): TransferReviewItem[] {
+  return matches
+    .filter(
+      (match) => !match.targetId || match.confidence < LOW_CONFIDENCE_THRESHOLD
+    )
+    .map((match, index) => ({
+      key: `track:${match.track.position ?? index}:${match.track.id ?? ''}`,
+      kind: 'track' as const,
+      source: match.track,
+      reason: match.targetId ? 'low_confidence' : 'unmatched',
+      confidence: match.confidence,
+      candidate: match.candidate,
+      status: 'pending' as const,
+    }));
+}
+
+export function getPendingReviewItems(metadata: any): TransferReviewItem[] {
+  const items: TransferReviewItem[] = metadata?.reviewItems || [];
+  return items.filter((item) => item.status === 'pending');
+}
+
+async function getTargetAuth(userId: string, service: ServiceType) {
+  await tokenManager.refreshTokenIfNeeded(userId, service);
+  const auth = await getServiceAuth(userId, service);
+  if (!auth) {
+    throw new Error(`No ${service} authentication found`);
+  }
+  return auth;
+}
+
+export async function searchReviewCandidates(
+  userId: string,
+  service: ServiceType,
+  kind: TransferReviewItem['kind'],
+  query: string
+): Promise<MatchCandidate[]> {
+  const auth = await getTargetAuth(userId, service);
+
+  if (kind === 'track') {
+    return searchCatalogTracks(service, query, auth);
+  }
+
+  if (service === 'spotify') {
+    const results = await searchSpotifyCatalog(query, auth.accessToken);
+    return (results?.albums?.items || []).map((album: any) => ({
+      id: album.id,
+      name: album.name,
+      artist: album.artists?.[0]?.name || '',
+      album: album.name,
+    }));
+  }
+
+  const results = await searchAppleMusicCatalog(
+    query,
+    auth.musicUserToken || '',
+    ['albums'],
+    auth.storefront
+  );
+  return (results?.albums?.data || []).map((album: any) => ({
+    id: album.id,
+    name: album.attributes?.name || '',
+    artist: album.attributes?.artistName || '',
+    album: album.attributes?.name || '',
+  }));
+}
+
+// Whether a replaced guess can be taken out of the target playlist. Apple
+// Music's API can't remove tracks from library playlists, and transfers made
+// before the snapshot was recorded don't say where their guesses are.
+export function canRemoveGuesses(service: ServiceType, metadata: any) {
+  return service === 'spotify' && !!metadata?.targetSnapshotId;
+}
+
+export async function applyReviewDecisions(
+  userId: string,
+  transferId: string,
+  decisions: Record<string, ReviewDecision>
+) {
+  const { data: transfer, error } = await supabase
+    .from('transfers')
+    .select('*')
+    .eq('id', transferId)
+    .eq('user_id', userId)
+    .single();
+
+  if (error || !transfer) {
+    throw new Error(`Failed to load transfer: ${error?.message}`);
+  }
+
+  const service = transfer.destination_service as ServiceType;
+  const metadata = transfer.metadata || {};
+  const items: TransferReviewItem[] = metadata.reviewItems || [];
+  const auth = await getTargetAuth(userId, service);
+
+  const replacements = items.filter(
+    (item) =>
+      item.status === 'pending' && decisions[item.key]?.action === 'replace'
+  );
+  const trackPicks = replacements.filter((item) => item.kind === 'track');
+  const pickFor = (item: TransferReviewItem) =>
+    (decisions[item.key] as Extract<ReviewDecision, { action: 'replace' }>)
+      .candidate;
+  // Library transfers hold album guesses back, keeping one adds it
+  const albumPicks = items.filter(
+    (item) =>
+      item.kind === 'album' &&
+      item.status === 'pending' &&
+      (decisions[item.key]?.action === 'replace' ||
+        (decisions[item.key]?.action === 'accept' && item.candidate))
+  );
+  const albumIdFor = (item: TransferReviewItem) =>
+    decisions[item.key].action === 'replace'
+      ? pickFor(item).id
+      : item.candidate!.id;
+
+  if (trackPicks.length > 0) {
+    if (!metadata.targetPlaylistId) {
+      throw new Error('This transfer has no target playlist to add tracks to');
+    }
+
+    // Placed tracks sit in source order, so a guess's position in the
+    // transfer's snapshot is the number of placed tracks before it
+    const transferItems = await loadTransferItems(transferId);
+    const addedPositions = [
+      ...new Set([
+        ...addedTrackPositions(transferItems.values()),
+        ...items
+          .filter((item) => item.kind === 'track' && item.status === 'added')
+          .map((item) => item.source.position),
+      ]),
+    ].filter(
+      (position): position is number => position !== undefined && position >= 0
+    );
+
+    // Swap out the guesses we added during the transfer. Only the guessed
+    // entry is removed, not other occurrences of the same track.
+    if (canRemoveGuesses(service, metadata)) {
+      const guesses = trackPicks
+        .filter(
+          (item) =>
+            item.reason === 'low_confidence' &&
+            item.candidate &&
+            item.source.position !== undefined
+        )
+        .map((item) => ({
+          ...item.source,
+          id: item.candidate!.id,
+          position: addedPositions.filter(
+            (position) => position < item.source.position!
+          ).length,
+        }));
+      await removeTracksFromSpotifyPlaylist(
+        auth.accessToken,
+        metadata.targetPlaylistId,
+        guesses,
+        metadata.targetSnapshotId
+      );
+    }
+
+    // Picks go in at their source position, between the tracks that are
+    // already in the playlist. A guess that couldn't be removed still counts
+    // as placed, its replacement goes in just before it.
+    const pickedPositions = new Set(
+      trackPicks.map((item) => item.source.position)
+    );
+    const placedPositions = canRemoveGuesses(service, metadata)
+      ? addedPositions.filter((position) => !pickedPositions.has(position))
+      : addedPositions;
+
+    await insertTracksAtSourcePositions(
+      service,
+      metadata.targetPlaylistId,
+      trackPicks.map((item) => ({
+        targetId: pickFor(item).id,
+        targetUri: pickFor(item).uri,
+        position: item.source.position,
+      })),
+      (pick) => pick.position,
+      placedPositions,
+      auth.accessToken,
+      auth.musicUserToken
+    );
+  }
+
+  if (albumPicks.length > 0) {
+    const albumIds = albumPicks.map(albumIdFor);
+    if (service === 'spotify') {
+      await addAlbumsToSpotifyLibrary(albumIds, auth.accessToken);
+    } else {
+      await addAlbumsToAppleMusicLibrary(albumIds, auth.musicUserToken || '');
+    }
+  }
+
+  // Decided albums are finished, resuming the transfer leaves them alone
+  const decidedAlbums = items.filter(
+    (item) =>
+      item.kind === 'album' &&
+      item.status === 'pending' &&
+      decisions[item.key] &&
+      item.source.id
+  );
+  if (decidedAlbums.length > 0) {
+    const known = await loadTransferItems(transferId);
+    const tracker = createItemTracker(transferId, userId, known);
+    decidedAlbums
+      .filter((item) => known.has(item.source.id!))
+      .forEach((item) =>
+        tracker.update(
+          item.source.id!,
+          albumPicks.includes(item)
+            ? { kind: 'album', status: 'added', target_id: albumIdFor(item) }
+            : { kind: 'album', status: 'skipped' }
+        )
+      );
+    await tracker.flush();
+  }
+
+  const updatedItems = items.map((item) => {
+    const decision = decisions[item.key];
+    if (item.status !== 'pending' || !decision) return item;
+
+    switch (decision.action) {
+      case 'accept':
+        return { ...item, status: 'accepted' as const };
+      case 'skip':
+        return { ...item, status: 'skipped' as const };
+      case 'replace':
+        return {
+          ...item,
+          status: 'added' as const,
+          resolvedTargetId: decision.candidate.id,
+        };
+    }
+  });
+
+  const { error: updateError } = await supabase
+    .from('transfers')
+    .update({ metadata: { ...metadata, reviewItems: updatedItems } })
+    .eq('id', transferId);
+
+  if (updateError) {
+    throw new Error(`Failed to save review: ${updateError.message}`);
+  }
+
+  return updatedItems;
+}
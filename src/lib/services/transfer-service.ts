@@ -6,6 +6,27 @@ import {
   findBestMatchingAlbum,
   searchAppleMusicCatalog,
 } from '../api/apple-music';
+import {
+  addAlbumsToSpotifyLibrary,
+  checkSpotifyAlbumsInLibrary,
+  findBestMatchingSpotifyAlbum,
+  findSpotifyAlbumsByUPC,
+  searchSpotifyCatalog,
+} from '../api/spotify';
+import { getAppleMusicStorefront } from './apple-music-storefront';
+import { assertCanTransfer } from './entitlements';
+import { lookupAlbumMappings, saveAlbumMappings } from './mapping-cache';
+import { getServiceAuth } from './streaming-auth';
+import { tokenManager } from './token-manager';
+import {
+  createItemTracker,
+  ItemTracker,
+  loadTransferItems,
+  shouldRunItem,
+  TransferRunMode,
+} from './transfer-items';
+import { enqueueTransferJob, PREVIEW_TRANSFER_STATUS } from './transfer-jobs';
+import { TransferReviewItem } from './transfer-review';
 
 export type TransferProgress = {
   current: number;
@@ -20,117 +41,156 @@ export type TransferLogger = (
 
 type ServiceType = 'spotify' | 'apple-music';
 
+// Queues the transfer for the job worker, which keeps running it after the
+// tab is closed. Follow the returned row to see its progress. A dry run
+// stops after matching and leaves the row in `preview` status.
 export async function transferLibrary(
   userId: string,
   fromService: ServiceType,
   toService: ServiceType,
-  tokens: {
-    spotify_token?: string;
-    apple_music_token?: string;
-  },
+  dryRun = false
+) {
+  if (fromService === toService) {
+    throw new Error('Choose two different services to transfer between');
+  }
+  if (!dryRun) {
+    await assertCanTransfer(userId);
+  }
+
+  return enqueueTransferJob(
+    userId,
+    fromService,
+    toService,
+    { type: 'library', dryRun },
+    {
+      total_albums: 0,
+      successful_transfers: 0,
+      failed_transfers: 0,
+    }
+  );
+}
+
+async function getTransferToken(userId: string, service: ServiceType) {
+  await tokenManager.refreshTokenIfNeeded(userId, service);
+  const auth = await getServiceAuth(userId, service);
+
+  if (service === 'apple-music') {
+    if (!auth?.musicUserToken) {
+      throw new Error(
+        'Apple Music authentication required. Please reconnect your Apple Music account.'
+      );
+    }
+    return auth.musicUserToken;
+  }
+
+  if (!auth?.accessToken) {
+    throw new Error(
+      'Spotify authentication required. Please reconnect your Spotify account.'
+    );
+  }
+  return auth.accessToken;
+}
+
+// Runs a queued library transfer using the tokens stored for the user
+export async function runLibraryTransfer(
+  userId: string,
+  transferId: string,
+  fromService: ServiceType,
+  toService: ServiceType,
   onProgress: (progress: TransferProgress) => void,
-  logger: TransferLogger
+  logger: TransferLogger,
+  mode: TransferRunMode = 'resume',
+  dryRun = false
 ) {
   console.log('Starting transfer library process:', {
     userId,
+    transferId,
     fromService,
     toService,
-    hasSpotifyToken: !!tokens.spotify_token,
-    hasAppleMusicToken: !!tokens.apple_music_token,
+    mode,
+    dryRun,
   });
 
+  let runTransfer: (
+    onProgress: (progress: TransferProgress) => void
+  ) => Promise<{ successCount: number; failureCount: number }>;
+
   if (fromService === 'spotify' && toService === 'apple-music') {
-    if (!tokens.apple_music_token) {
-      throw new Error('Apple Music token is required for this transfer');
-    }
+    const appleMusicToken = await getTransferToken(userId, 'apple-music');
+    runTransfer = (onProgress) =>
+      transferSpotifyToAppleMusic(
+        userId,
+        transferId,
+        appleMusicToken,
+        onProgress,
+        logger,
+        mode,
+        dryRun
+      );
+  } else if (fromService === 'apple-music' && toService === 'spotify') {
+    const spotifyToken = await getTransferToken(userId, 'spotify');
+    runTransfer = (onProgress) =>
+      transferAppleMusicToSpotify(
+        userId,
+        transferId,
+        spotifyToken,
+        onProgress,
+        logger,
+        mode,
+        dryRun
+      );
+  } else {
+    throw new Error('This transfer direction is not yet implemented');
+  }
 
-    // Create initial transfer record
-    const { data: transfer, error: transferError } = await supabase
-      .from('transfers')
-      .insert([
-        {
-          user_id: userId,
-          source_service: fromService,
-          destination_service: toService,
-          status: 'in_progress',
-          tracksCount: 0,
+  try {
+    const result = await runTransfer(async (progress) => {
+      // Update progress in database
+      await supabase
+        .from('transfers')
+        .update({
           metadata: {
-            total_albums: 0,
-            successful_transfers: 0,
+            total_albums: progress.total,
+            successful_transfers: progress.current,
             failed_transfers: 0,
           },
-        },
-      ])
-      .select()
-      .single();
+          tracksCount: progress.total,
+        })
+        .eq('id', transferId);
 
-    if (transferError) {
-      throw new Error(
-        `Failed to create transfer record: ${transferError.message}`
-      );
-    }
+      onProgress(progress);
+    });
 
-    // Start background transfer
-    (async () => {
-      try {
-        await transferSpotifyToAppleMusic(
-          userId,
-          tokens.apple_music_token,
-          async (progress) => {
-            // Update progress in database
-            await supabase
-              .from('transfers')
-              .update({
-                metadata: {
-                  total_albums: progress.total,
-                  successful_transfers: progress.current,
-                  failed_transfers: 0,
-                },
-                tracksCount: progress.total,
-              })
-              .eq('id', transfer.id);
-
-            // Also call the UI callback
-            onProgress(progress);
-          },
-          logger
-        );
+    // Mark as completed
+    await supabase
+      .from('transfers')
+      .update({
+        status: dryRun ? PREVIEW_TRANSFER_STATUS : 'completed',
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', transferId);
 
-        // Mark as completed
-        await supabase
-          .from('transfers')
-          .update({
-            status: 'completed',
-            completed_at: new Date().toISOString(),
-          })
-          .eq('id', transfer.id);
-      } catch (error) {
-        console.error('Transfer failed:', error);
-
-        // Update transfer status to failed
-        await supabase
-          .from('transfers')
-          .update({
-            status: 'failed',
-            error: error.message,
-            completed_at: new Date().toISOString(),
-          })
-          .eq('id', transfer.id);
+    return result;
+  } catch (error) {
+    console.error('Transfer failed:', error);
 
-        throw error;
-      }
-    })().catch(console.error);
+    // Update transfer status to failed
+    await supabase
+      .from('transfers')
+      .update({
+        status: 'failed',
+        error: (error as Error).message,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', transferId);
 
-    return transfer;
-  } else {
-    throw new Error('This transfer direction is not yet implemented');
+    throw error;
   }
 }
 
-async function transferSpotifyToAppleMusic(
+async function fetchStoredAlbums(
   userId: string,
-  appleMusicToken: string,
-  onProgress: (progress: TransferProgress) => void,
+  service: ServiceType,
   logger: TransferLogger
 ) {
   // First, get the total count
@@ -138,15 +198,15 @@ async function transferSpotifyToAppleMusic(
     .from('user_albums')
     .select('*', { count: 'exact', head: true })
     .eq('user_id', userId)
-    .eq('service', 'spotify');
+    .eq('service', service)
+    .is('removed_at', null);
 
   if (countError) {
     throw new Error(`Failed to get album count: ${countError.message}`);
   }
 
   if (!count || count === 0) {
-    logger('info', 'No albums found to transfer');
-    return { successCount: 0, failureCount: 0 };
+    return [];
   }
 
   // Fetch all albums in pages
@@ -162,7 +222,8 @@ async function transferSpotifyToAppleMusic(
       .from('user_albums')
       .select('*')
       .eq('user_id', userId)
-      .eq('service', 'spotify')
+      .eq('service', service)
+      .is('removed_at', null)
       .order('added_at', { ascending: false })
       .range(from, to);
 
@@ -184,10 +245,145 @@ async function transferSpotifyToAppleMusic(
     );
   }
 
+  return allAlbums;
+}
+
+const describeAlbum = (album: any) => ({
+  kind: 'album' as const,
+  name: album.name,
+  artist_name: album.artist_name,
+});
+
+// A search hit that only matched the name or only the artist
+interface AlbumGuess {
+  album: any;
+  targetId: string;
+  name: string;
+  artist: string;
+  confidence: number;
+}
+
+// Guesses aren't added to the library, the user confirms or replaces them on
+// the review screen
+const toAlbumReviewItem = (guess: AlbumGuess): TransferReviewItem => ({
+  key: `album:${guess.album.album_id}`,
+  kind: 'album',
+  source: {
+    id: guess.album.album_id,
+    name: guess.album.name,
+    artist: guess.album.artist_name,
+    album: guess.album.name,
+  },
+  reason: 'low_confidence',
+  confidence: guess.confidence,
+  candidate: {
+    id: guess.targetId,
+    name: guess.name,
+    artist: guess.artist,
+    album: guess.name,
+  },
+  status: 'pending',
+});
+
+// Skips albums an earlier run already finished, or with `retry_failed` keeps
+// only the ones that failed
+async function loadAlbumsToRun(
+  userId: string,
+  transferId: string,
+  fromService: ServiceType,
+  mode: TransferRunMode,
+  logger: TransferLogger
+) {
+  const storedAlbums = await fetchStoredAlbums(userId, fromService, logger);
+  const items = createItemTracker(
+    transferId,
+    userId,
+    await loadTransferItems(transferId)
+  );
+
+  const albums = storedAlbums.filter((album) =>
+    shouldRunItem(items.get(album.album_id), mode)
+  );
+  const skipped = storedAlbums.length - albums.length;
+  if (skipped > 0) {
+    logger(
+      'info',
+      `Skipping ${skipped} albums that were handled by an earlier run`
+    );
+  }
+
+  return { albums, items };
+}
+
+async function splitCachedAlbums(
+  service: ServiceType,
+  albums: any[],
+  items: ItemTracker,
+  logger: TransferLogger
+) {
+  const cached: { album: any; targetId: string }[] = [];
+  const remaining: any[] = [];
+
+  // Albums matched by an earlier run of this transfer are reused as-is.
+  // Guesses are searched again so they go back to the review screen.
+  const unmatched = albums.filter((album) => {
+    const item = items.get(album.album_id);
+    const targetId = (item?.confidence ?? 1) >= 1 ? item?.target_id : null;
+    if (targetId) cached.push({ album, targetId });
+    return !targetId;
+  });
+  albums = unmatched;
+
+  try {
+    const findTargetId = await lookupAlbumMappings(
+      service,
+      albums.map((album) => ({ id: album.album_id, upc: album.upc }))
+    );
+
+    albums.forEach((album) => {
+      const targetId = findTargetId({ id: album.album_id, upc: album.upc });
+      if (targetId) {
+        cached.push({ album, targetId });
+      } else {
+        remaining.push(album);
+      }
+    });
+  } catch (error) {
+    console.error('Album mapping lookup failed:', error);
+    return { cached, remaining: albums };
+  }
+
+  logger('info', `Found ${cached.length} albums in the mapping cache`);
+  return { cached, remaining };
+}
+
+async function transferSpotifyToAppleMusic(
+  userId: string,
+  transferId: string,
+  appleMusicToken: string,
+  onProgress: (progress: TransferProgress) => void,
+  logger: TransferLogger,
+  mode: TransferRunMode,
+  dryRun: boolean
+) {
+  const { albums: allAlbums, items } = await loadAlbumsToRun(
+    userId,
+    transferId,
+    'spotify',
+    mode,
+    logger
+  );
+
+  if (allAlbums.length === 0) {
+    logger('info', 'No albums found to transfer');
+    return { successCount: 0, failureCount: 0 };
+  }
+
   logger(
     'info',
     `Starting transfer of ${allAlbums.length} albums from Spotify to Apple Music`
   );
+  const storefront = await getAppleMusicStorefront(userId);
   onProgress({ current: 0, total: allAlbums.length, stage: 'processing' });
 
   let successCount = 0;
@@ -196,11 +392,59 @@ async function transferSpotifyToAppleMusic(
   let alreadyInLibraryCount = 0;
   const foundAppleMusicIds: string[] = [];
   const albumsToAdd: { id: string; album: (typeof allAlbums)[0] }[] = [];
+  const guesses: AlbumGuess[] = [];
+  const newMappings: Parameters<typeof saveAlbumMappings>[1] = [];
+
+  const recordMatch = (
+    album: any,
+    targetId: string,
+    inLibrary: boolean,
+    confidence = 1
+  ) =>
+    items.update(album.album_id, {
+      ...describeAlbum(album),
+      status: inLibrary ? 'skipped' : 'matched',
+      target_id: targetId,
+      confidence,
+    });
+  const recordFailure = (album: any, error: string) =>
+    items.update(album.album_id, {
+      ...describeAlbum(album),
+      status: 'failed',
+      error,
+    });
 
   try {
+    // Albums matched by an earlier transfer skip the catalog lookups
+    const { cached, remaining } = await splitCachedAlbums(
+      'spotify',
+      allAlbums,
+      items,
+      logger
+    );
+
+    for (let i = 0; i < cached.length; i += 50) {
+      const batch = cached.slice(i, i + 50);
+      const existingAlbums = await checkAlbumsInLibrary(
+        batch.map((item) => item.targetId),
+        appleMusicToken
+      );
+
+      batch.forEach(({ album, targetId }) => {
+        processedCount++;
+        recordMatch(album, targetId, !!existingAlbums[targetId]);
+        if (existingAlbums[targetId]) {
+          alreadyInLibraryCount++;
+        } else {
+          foundAppleMusicIds.push(targetId);
+          albumsToAdd.push({ id: targetId, album });
+        }
+      });
+    }
+
     // First, process all albums with UPCs in larger batches
-    const albumsWithUpc = allAlbums.filter((album) => album.upc);
-    const albumsWithoutUpc = allAlbums.filter((album) => !album.upc);
+    const albumsWithUpc = remaining.filter((album) => album.upc);
+    const albumsWithoutUpc = remaining.filter((album) => !album.upc);
 
     logger('info', `Found ${albumsWithUpc.length} albums with UPC codes`);
 
@@ -217,48 +461,57 @@ async function transferSpotifyToAppleMusic(
             albumsWithUpc.length / batchSize
           )} (UPC matching)`
         );
-        const upcMatches = await findAlbumsByUPC(upcs, appleMusicToken);
+        const upcMatches = await findAlbumsByUPC(
+          upcs,
+          appleMusicToken,
+          storefront
+        );
 
         // Get all matched IDs
         const matchedIds = Object.values(upcMatches).filter(
           (id) => id !== null
         ) as string[];
 
-        if (matchedIds.length > 0) {
-          // Check library status in bulk
-          const existingAlbums = await checkAlbumsInLibrary(
-            matchedIds,
-            appleMusicToken
-          );
+        // Check library status in bulk
+        const existingAlbums =
+          matchedIds.length > 0
+            ? await checkAlbumsInLibrary(matchedIds, appleMusicToken)
+            : {};
 
-          // Process results
-          batch.forEach((album) => {
+        // Process results
+        batch.forEach((album) => {
+          const appleMusicId = upcMatches[album.upc!];
+          if (appleMusicId) {
             processedCount++;
-            const appleMusicId = upcMatches[album.upc!];
-            if (appleMusicId) {
-              if (existingAlbums[appleMusicId]) {
-                alreadyInLibraryCount++;
-                logger(
-                  'info',
-                  `✓ "${album.name}" by ${album.artist_name} - Already in library`
-                );
-              } else {
-                foundAppleMusicIds.push(appleMusicId);
-                albumsToAdd.push({ id: appleMusicId, album });
-                logger(
-                  'info',
-                  `+ "${album.name}" by ${album.artist_name} - Found via UPC match`
-                );
-              }
+            newMappings.push({
+              sourceId: album.album_id,
+              targetId: appleMusicId,
+              upc: album.upc,
+              method: 'upc',
+            });
+            recordMatch(album, appleMusicId, !!existingAlbums[appleMusicId]);
+            if (existingAlbums[appleMusicId]) {
+              alreadyInLibraryCount++;
+              logger(
+                'info',
+                `✓ "${album.name}" by ${album.artist_name} - Already in library`
+              );
             } else {
-              albumsWithoutUpc.push(album);
+              foundAppleMusicIds.push(appleMusicId);
+              albumsToAdd.push({ id: appleMusicId, album });
               logger(
                 'info',
-                `? "${album.name}" by ${album.artist_name} - No UPC match, will try search`
+                `+ "${album.name}" by ${album.artist_name} - Found via UPC match`
               );
             }
-          });
-        }
+          } else {
+            albumsWithoutUpc.push(album);
+            logger(
+              'info',
+              `? "${album.name}" by ${album.artist_name} - No UPC match, will try search`
+            );
+          }
+        });
 
         onProgress({
           current: processedCount,
@@ -291,25 +544,35 @@ async function transferSpotifyToAppleMusic(
             const searchQuery = `${album.name} ${album.artist_name}`;
             const searchResults = await searchAppleMusicCatalog(
               searchQuery,
-              appleMusicToken
+              appleMusicToken,
+              ['albums'],
+              storefront
             );
-            const appleMusicId = findBestMatchingAlbum(searchResults, album);
+            const match = findBestMatchingAlbum(searchResults, album);
 
-            if (appleMusicId) {
+            if (match) {
               logger(
                 'info',
                 `+ "${album.name}" by ${album.artist_name} - Found via search`
               );
-              return { album, appleMusicId };
+              return {
+                album,
+                appleMusicId: match.id,
+                name: match.name,
+                artist: match.artist,
+                confidence: match.confidence,
+              };
             } else {
               logger(
                 'error',
                 `✕ "${album.name}" by ${album.artist_name} - Not found in Apple Music`
               );
+              recordFailure(album, 'Not found in Apple Music');
               failureCount++;
             }
           } catch (error) {
             failureCount++;
+            recordFailure(album, `Search failed: ${(error as Error).message}`);
             logger(
               'error',
               `✕ "${album.name}" by ${album.artist_name} - Search failed: ${
@@ -329,7 +592,13 @@ async function transferSpotifyToAppleMusic(
         const searchResults = await Promise.all(searchPromises);
         const validResults = searchResults.filter(
           (result) => result !== null
-        ) as { album: any; appleMusicId: string }[];
+        ) as {
+          album: any;
+          appleMusicId: string;
+          name: string;
+          artist: string;
+          confidence: number;
+        }[];
 
         if (validResults.length > 0) {
           // Check library status in bulk
@@ -339,25 +608,436 @@ async function transferSpotifyToAppleMusic(
             appleMusicToken
           );
 
-          validResults.forEach(({ album, appleMusicId }) => {
-            if (existingAlbums[appleMusicId]) {
+          validResults.forEach(
+            ({ album, appleMusicId, name, artist, confidence }) => {
+              recordMatch(
+                album,
+                appleMusicId,
+                !!existingAlbums[appleMusicId],
+                confidence
+              );
+              if (existingAlbums[appleMusicId]) {
+                alreadyInLibraryCount++;
+                logger(
+                  'info',
+                  `✓ "${album.name}" by ${album.artist_name} - Already in library`
+                );
+              } else if (confidence < 1) {
+                guesses.push({
+                  album,
+                  targetId: appleMusicId,
+                  name,
+                  artist,
+                  confidence,
+                });
+                logger(
+                  'info',
+                  `? "${album.name}" by ${album.artist_name} - Possible match "${name}" by ${artist}, held for review`
+                );
+              } else {
+                foundAppleMusicIds.push(appleMusicId);
+                albumsToAdd.push({ id: appleMusicId, album });
+              }
+            }
+          );
+        }
+      }
+    }
+
+    await saveAlbumMappings('spotify', newMappings);
+
+    // Add albums to Apple Music library in batches. A dry run stops here
+    // with the matches recorded as transfer items.
+    const batchSize = 10;
+    const batches = dryRun ? 0 : Math.ceil(albumsToAdd.length / batchSize);
+
+    for (let i = 0; i < batches; i++) {
+      const start = i * batchSize;
+      const end = Math.min(start + batchSize, albumsToAdd.length);
+      const batch = albumsToAdd.slice(start, end);
+
+      try {
+        onProgress({
+          current: start,
+          total: albumsToAdd.length,
+          stage: 'adding',
+        });
+
+        await addAlbumsToAppleMusicLibrary(
+          batch.map((item) => item.id),
+          appleMusicToken
+        );
+
+        successCount += batch.length;
+        batch.forEach(({ id, album }) =>
+          items.update(album.album_id, {
+            ...describeAlbum(album),
+            status: 'added',
+            target_id: id,
+          })
+        );
+      } catch (error) {
+        console.error(
+          `Failed to add batch ${i + 1}/${batches} to library:`,
+          error
+        );
+        failureCount += batch.length;
+        batch.forEach(({ album }) =>
+          recordFailure(album, (error as Error).message)
+        );
+      }
+    }
+
+    logger(
+      'success',
+      dryRun
+        ? `Preview ready: ${albumsToAdd.length} albums to add, ${guesses.length} possible matches, ${alreadyInLibraryCount} already in library, ${failureCount} not found`
+        : `Transfer complete! Added ${successCount} albums, ${alreadyInLibraryCount} were already in library, ${guesses.length} need review, ${failureCount} failed`
+    );
+
+    onProgress({
+      current: allAlbums.length,
+      total: allAlbums.length,
+      stage: 'complete',
+    });
+
+    await items.flush();
+
+    // Update transfer record with success status
+    await supabase
+      .from('transfers')
+      .update({
+        status: dryRun ? PREVIEW_TRANSFER_STATUS : 'completed',
+        completed_at: new Date().toISOString(),
+        metadata: {
+          total_albums: allAlbums.length,
+          successful_transfers: successCount,
+          failed_transfers: failureCount,
+          already_in_library: alreadyInLibraryCount,
+          ...(dryRun && { albums_to_add: albumsToAdd.length }),
+          ...(!dryRun && { reviewItems: guesses.map(toAlbumReviewItem) }),
+        },
+      })
+      .eq('id', transferId);
+
+    return { successCount, failureCount };
+  } catch (error) {
+    await items.flush();
+
+    // Update transfer record with error
+    await supabase
+      .from('transfers')
+      .update({
+        status: 'failed',
+        completed_at: new Date().toISOString(),
+        error: (error as Error).message,
+        metadata: {
+          total_albums: allAlbums.length,
+          successful_transfers: successCount,
+          failed_transfers: failureCount,
+        },
+      })
+      .eq('id', transferId);
+
+    throw error;
+  }
+}
+
+async function transferAppleMusicToSpotify(
+  userId: string,
+  transferId: string,
+  spotifyToken: string,
+  onProgress: (progress: TransferProgress) => void,
+  logger: TransferLogger,
+  mode: TransferRunMode,
+  dryRun: boolean
+) {
+  const { albums: allAlbums, items } = await loadAlbumsToRun(
+    userId,
+    transferId,
+    'apple-music',
+    mode,
+    logger
+  );
+
+  if (allAlbums.length === 0) {
+    logger('info', 'No albums found to transfer');
+    return { successCount: 0, failureCount: 0 };
+  }
+
+  logger(
+    'info',
+    `Starting transfer of ${allAlbums.length} albums from Apple Music to Spotify`
+  );
+  onProgress({ current: 0, total: allAlbums.length, stage: 'processing' });
+
+  let successCount = 0;
+  let failureCount = 0;
+  let processedCount = 0;
+  let alreadyInLibraryCount = 0;
+  const foundSpotifyIds = new Set<string>();
+  const albumsToAdd: { id: string; album: (typeof allAlbums)[0] }[] = [];
+  const guesses: AlbumGuess[] = [];
+
+  const recordMatch = (
+    album: any,
+    targetId: string,
+    inLibrary: boolean,
+    confidence = 1
+  ) =>
+    items.update(album.album_id, {
+      ...describeAlbum(album),
+      status: inLibrary ? 'skipped' : 'matched',
+      target_id: targetId,
+      confidence,
+    });
+  const recordFailure = (album: any, error: string) =>
+    items.update(album.album_id, {
+      ...describeAlbum(album),
+      status: 'failed',
+      error,
+    });
+
+  const queueAlbum = (spotifyId: string, album: (typeof allAlbums)[0]) => {
+    // Deluxe and standard editions can resolve to the same Spotify album
+    if (foundSpotifyIds.has(spotifyId)) {
+      recordMatch(album, spotifyId, true);
+      return;
+    }
+    foundSpotifyIds.add(spotifyId);
+    albumsToAdd.push({ id: spotifyId, album });
+  };
+
+  const newMappings: Parameters<typeof saveAlbumMappings>[1] = [];
+
+  try {
+    // Albums matched by an earlier transfer skip the catalog lookups
+    const { cached, remaining } = await splitCachedAlbums(
+      'apple-music',
+      allAlbums,
+      items,
+      logger
+    );
+
+    for (let i = 0; i < cached.length; i += 20) {
+      const batch = cached.slice(i, i + 20);
+      const existingAlbums = await checkSpotifyAlbumsInLibrary(
+        batch.map((item) => item.targetId),
+        spotifyToken
+      );
+
+      batch.forEach(({ album, targetId }) => {
+        processedCount++;
+        recordMatch(album, targetId, !!existingAlbums[targetId]);
+        if (existingAlbums[targetId]) {
+          alreadyInLibraryCount++;
+        } else {
+          queueAlbum(targetId, album);
+        }
+      });
+    }
+
+    // The library sync stores the catalog UPC of Apple Music albums, albums
+    // that aren't in the catalog go to the text search below
+    const albumsWithUpc = remaining.filter((album) => album.upc);
+    const albumsToSearch = remaining.filter((album) => !album.upc);
+
+    logger('info', `Found ${albumsWithUpc.length} albums with UPC codes`);
+
+    if (albumsWithUpc.length > 0) {
+      const batchSize = 20;
+      for (let i = 0; i < albumsWithUpc.length; i += batchSize) {
+        const batch = albumsWithUpc.slice(i, i + batchSize);
+        const upcs = batch.map((album) => album.upc!);
+
+        logger(
+          'info',
+          `Processing batch ${i / batchSize + 1} of ${Math.ceil(
+            albumsWithUpc.length / batchSize
+          )} (UPC matching)`
+        );
+        const upcMatches = await findSpotifyAlbumsByUPC(upcs, spotifyToken);
+
+        const matchedIds = Object.values(upcMatches).filter(
+          (id) => id !== null
+        ) as string[];
+
+        const existingAlbums =
+          matchedIds.length > 0
+            ? await checkSpotifyAlbumsInLibrary(matchedIds, spotifyToken)
+            : {};
+
+        batch.forEach((album) => {
+          const spotifyId = upcMatches[album.upc!];
+          if (spotifyId) {
+            processedCount++;
+            newMappings.push({
+              sourceId: album.album_id,
+              targetId: spotifyId,
+              upc: album.upc,
+              method: 'upc',
+            });
+            recordMatch(album, spotifyId, !!existingAlbums[spotifyId]);
+            if (existingAlbums[spotifyId]) {
               alreadyInLibraryCount++;
               logger(
                 'info',
                 `✓ "${album.name}" by ${album.artist_name} - Already in library`
               );
             } else {
-              foundAppleMusicIds.push(appleMusicId);
-              albumsToAdd.push({ id: appleMusicId, album });
+              queueAlbum(spotifyId, album);
+              logger(
+                'info',
+                `+ "${album.name}" by ${album.artist_name} - Found via UPC match`
+              );
             }
+          } else {
+            albumsToSearch.push(album);
+            logger(
+              'info',
+              `? "${album.name}" by ${album.artist_name} - No UPC match, will try search`
+            );
+          }
+        });
+
+        onProgress({
+          current: processedCount,
+          total: allAlbums.length,
+          stage: 'matching',
+        });
+      }
+    }
+
+    logger(
+      'info',
+      `Searching for ${albumsToSearch.length} remaining albums without UPC matches`
+    );
+
+    if (albumsToSearch.length > 0) {
+      const searchBatchSize = 10;
+      for (let i = 0; i < albumsToSearch.length; i += searchBatchSize) {
+        const batch = albumsToSearch.slice(i, i + searchBatchSize);
+        logger(
+          'info',
+          `Processing search batch ${
+            Math.floor(i / searchBatchSize) + 1
+          } of ${Math.ceil(albumsToSearch.length / searchBatchSize)}`
+        );
+
+        const searchPromises = batch.map(async (album) => {
+          let match: {
+            album: any;
+            spotifyId: string;
+            name: string;
+            artist: string;
+            confidence: number;
+          } | null = null;
+          try {
+            const searchQuery = `${album.name} ${album.artist_name}`;
+            const searchResults = await searchSpotifyCatalog(
+              searchQuery,
+              spotifyToken
+            );
+            const best = findBestMatchingSpotifyAlbum(searchResults, album);
+
+            if (best) {
+              logger(
+                'info',
+                `+ "${album.name}" by ${album.artist_name} - Found via search`
+              );
+              match = {
+                album,
+                spotifyId: best.id,
+                name: best.name,
+                artist: best.artist,
+                confidence: best.confidence,
+              };
+            } else {
+              logger(
+                'error',
+                `✕ "${album.name}" by ${album.artist_name} - Not found in Spotify`
+              );
+              recordFailure(album, 'Not found in Spotify');
+              failureCount++;
+            }
+          } catch (error) {
+            failureCount++;
+            recordFailure(album, `Search failed: ${(error as Error).message}`);
+            logger(
+              'error',
+              `✕ "${album.name}" by ${album.artist_name} - Search failed: ${
+                (error as Error).message
+              }`
+            );
+          }
+          processedCount++;
+          onProgress({
+            current: processedCount,
+            total: allAlbums.length,
+            stage: 'matching',
           });
+          return match;
+        });
+
+        const searchResults = await Promise.all(searchPromises);
+        const validResults = searchResults.filter(
+          (result) => result !== null
+        ) as {
+          album: any;
+          spotifyId: string;
+          name: string;
+          artist: string;
+          confidence: number;
+        }[];
+
+        if (validResults.length > 0) {
+          const existingAlbums = await checkSpotifyAlbumsInLibrary(
+            validResults.map((r) => r.spotifyId),
+            spotifyToken
+          );
+
+          validResults.forEach(
+            ({ album, spotifyId, name, artist, confidence }) => {
+              recordMatch(
+                album,
+                spotifyId,
+                !!existingAlbums[spotifyId],
+                confidence
+              );
+              if (existingAlbums[spotifyId]) {
+                alreadyInLibraryCount++;
+                logger(
+                  'info',
+                  `✓ "${album.name}" by ${album.artist_name} - Already in library`
+                );
+              } else if (confidence < 1) {
+                guesses.push({
+                  album,
+                  targetId: spotifyId,
+                  name,
+                  artist,
+                  confidence,
+                });
+                logger(
+                  'info',
+                  `? "${album.name}" by ${album.artist_name} - Possible match "${name}" by ${artist}, held for review`
+                );
+              } else {
+                queueAlbum(spotifyId, album);
+              }
+            }
+          );
         }
       }
     }
 
-    // Add albums to Apple Music library in batches
-    const batchSize = 10;
-    const batches = Math.ceil(albumsToAdd.length / batchSize);
+    // Library album IDs can't be shared, so only catalog IDs get saved
+    await saveAlbumMappings('apple-music', newMappings);
+
+    // Save albums to the Spotify library using the bulk endpoint. A dry run
+    // stops here with the matches recorded as transfer items.
+    const batchSize = 50;
+    const batches = dryRun ? 0 : Math.ceil(albumsToAdd.length / batchSize);
 
     for (let i = 0; i < batches; i++) {
       const start = i * batchSize;
@@ -371,24 +1051,36 @@ async function transferSpotifyToAppleMusic(
           stage: 'adding',
         });
 
-        await addAlbumsToAppleMusicLibrary(
+        await addAlbumsToSpotifyLibrary(
           batch.map((item) => item.id),
-          appleMusicToken
+          spotifyToken
         );
 
         successCount += batch.length;
+        batch.forEach(({ id, album }) =>
+          items.update(album.album_id, {
+            ...describeAlbum(album),
+            status: 'added',
+            target_id: id,
+          })
+        );
       } catch (error) {
         console.error(
           `Failed to add batch ${i + 1}/${batches} to library:`,
           error
         );
         failureCount += batch.length;
+        batch.forEach(({ album }) =>
+          recordFailure(album, (error as Error).message)
+        );
       }
     }
 
     logger(
       'success',
-      `Transfer complete! Added ${successCount} albums, ${alreadyInLibraryCount} were already in library, ${failureCount} failed`
+      dryRun
+        ? `Preview ready: ${albumsToAdd.length} albums to add, ${guesses.length} possible matches, ${alreadyInLibraryCount} already in library, ${failureCount} not found`
+        : `Transfer complete! Added ${successCount} albums, ${alreadyInLibraryCount} were already in library, ${guesses.length} need review, ${failureCount} failed`
     );
 
     onProgress({
@@ -397,24 +1089,28 @@ async function transferSpotifyToAppleMusic(
       stage: 'complete',
     });
 
-    // Update transfer record with success status
+    await items.flush();
+
     await supabase
       .from('transfers')
       .update({
-        status: 'completed',
+        status: dryRun ? PREVIEW_TRANSFER_STATUS : 'completed',
         completed_at: new Date().toISOString(),
         metadata: {
           total_albums: allAlbums.length,
           successful_transfers: successCount,
           failed_transfers: failureCount,
           already_in_library: alreadyInLibraryCount,
+          ...(dryRun && { albums_to_add: albumsToAdd.length }),
+          ...(!dryRun && { reviewItems: guesses.map(toAlbumReviewItem) }),
         },
       })
-      .eq('id', transfer.id);
+      .eq('id', transferId);
 
     return { successCount, failureCount };
   } catch (error) {
-    // Update transfer record with error
+    await items.flush();
+
     await supabase
       .from('transfers')
       .update({
@@ -427,7 +1123,7 @@ async function transferSpotifyToAppleMusic(
           failed_transfers: failureCount,
         },
       })
-      .eq('id', transfer.id);
+      .eq('id', transferId);
 
     throw error;
   }
@@ -435,7 +1131,8 @@ async function transferSpotifyToAppleMusic(
 
 export async function verifyTransfer(
   userId: string,
-  appleMusicToken: string,
+  destinationService: ServiceType,
+  token: string,
   logger: TransferLogger
 ) {
   console.log('Verifying transferred albums...');
@@ -445,7 +1142,7 @@ export async function verifyTransfer(
     .from('transfers')
     .select('*')
     .eq('user_id', userId)
-    .eq('destination_service', 'apple-music')
+    .eq('destination_service', destinationService)
     .order('created_at', { ascending: false })
     .limit(1)
     .single();
@@ -464,7 +1161,7 @@ export async function verifyTransfer(
     .from('user_albums')
     .select('*')
     .eq('user_id', userId)
-    .eq('service', 'apple-music')
+    .eq('service', destinationService)
     .gte('created_at', transfer.created_at);
 
   if (albumsError) {
@@ -477,21 +1174,27 @@ export async function verifyTransfer(
     return { total: 0, found: 0 };
   }
 
-  // Check if albums exist in Apple Music library
-  const albumIds = albums.map((album) => album.service_id);
-  console.log(`Checking ${albumIds.length} albums in Apple Music library...`);
+  const serviceName =
+    destinationService === 'spotify' ? 'Spotify' : 'Apple Music';
+
+  // Check if albums exist in the destination library
+  const albumIds = albums.map((album) => album.album_id);
+  console.log(`Checking ${albumIds.length} albums in ${serviceName} library...`);
 
-  const results = await checkAlbumsInLibrary(albumIds, appleMusicToken);
+  const results =
+    destinationService === 'spotify'
+      ? await checkSpotifyAlbumsInLibrary(albumIds, token)
+      : await checkAlbumsInLibrary(albumIds, token);
 
   const foundCount = Object.values(results).filter((exists) => exists).length;
 
   logger(
     'info',
-    `Found ${foundCount} out of ${albumIds.length} albums in your Apple Music library`
+    `Found ${foundCount} out of ${albumIds.length} albums in your ${serviceName} library`
   );
 
   // Log details of missing albums
-  const missingAlbums = albums.filter((album) => !results[album.service_id]);
+  const missingAlbums = albums.filter((album) => !results[album.album_id]);
   if (missingAlbums.length > 0) {
     logger(
       'error',
@@ -508,7 +1211,7 @@ export async function verifyTransfer(
     missingAlbums: missingAlbums.map((album) => ({
       name: album.name,
       artist: album.artist_name,
-      id: album.service_id,
+      id: album.album_id,
     })),
   };
 }
@@ -1,20 +1,53 @@
 import { refreshSpotifyToken } from '@/lib/api/spotify';
 import { isTokenExpired } from '@/lib/auth';
+import { appleMusicClient, spotifyClient } from '@/lib/api/client';
 import { supabase } from '@/lib/supabase';
-import { ServiceType } from '@/lib/types';
+import { ServiceType, Track } from '@/lib/types';
 import {
   addAppleMusicAlbumToLibrary,
+  checkAlbumsInLibrary,
   searchAppleMusicAlbum,
 } from '../api/apple-music';
-import { addSpotifyAlbumToLibrary, searchSpotifyAlbum } from '../api/spotify';
-import { getServiceAuth, saveServiceAuth } from './streaming-auth';
-
-interface Track {
-  name: string;
-  artist: string;
-  album: string;
-  isrc?: string;
-}
+import {
+  addSpotifyAlbumToLibrary,
+  checkSpotifyAlbumsInLibrary,
+  getSpotifyPlaylistSnapshot,
+  searchSpotifyAlbum,
+} from '../api/spotify';
+import {
+  insertTracksAtSourcePositions,
+  PlaylistTrackPage,
+  readPlaylistTracks,
+  SkippedTrack,
+} from './playlist-tracks';
+import {
+  lookupAlbumMappings,
+  matchTracksCached,
+  saveAlbumMappings,
+} from './mapping-cache';
+import {
+  appleMusicCatalogUrl,
+  getAppleMusicStorefront,
+} from './apple-music-storefront';
+import { getServiceAuth } from './streaming-auth';
+import {
+  addedTrackPositions,
+  createItemTracker,
+  ItemTracker,
+  loadTransferItems,
+  shouldRunItem,
+  trackItemKey,
+  TransferRunMode,
+} from './transfer-items';
+import { PREVIEW_TRANSFER_STATUS } from './transfer-jobs';
+import { buildReviewItems, TransferReviewItem } from './transfer-review';
+import {
+  MatchCandidate,
+  MatchSummary,
+  matchTracks,
+  summarizeMatches,
+  TrackMatch,
+} from './track-matching';
 
 interface TransferPlaylistParams {
   sourceService: 'spotify' | 'apple-music';
@@ -24,6 +57,11 @@ interface TransferPlaylistParams {
   targetToken: string;
   onProgress?: (progress: TransferProgress) => void;
   userId: string;
+  // Set when a queued job runs the transfer, the row already exists
+  transferId?: string;
+  mode?: TransferRunMode;
+  // Match tracks without creating or changing the target playlist
+  dryRun?: boolean;
 }
 
 interface TransferAlbumParams {
@@ -34,6 +72,9 @@ interface TransferAlbumParams {
   targetToken: string;
   onProgress?: (progress: TransferProgress) => void;
   userId: string;
+  transferId?: string;
+  // Find the album and check the library without adding it
+  dryRun?: boolean;
 }
 
 export interface TransferHistoryRecord {
@@ -59,10 +100,10 @@ export interface TransferProgress {
   message: string;
   destinationPlaylistName?: string;
   error?: string;
-}
-
-async function delay(ms: number) {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+  matchSummary?: MatchSummary;
+  skipped?: SkippedTrack[];
+  // Tracks with no match on the target service
+  unmatched?: Track[];
 }
 
 async function ensureFreshToken(
@@ -81,16 +122,9 @@ async function ensureFreshToken(
 
     if (isTokenExpired(expiresAt / 1000) && refreshToken) {
       try {
-        const newAuth = await refreshSpotifyToken(refreshToken);
-
-        // Save the new tokens
-        await saveServiceAuth(userId, service, {
-          accessToken: newAuth.access_token,
-          refreshToken: newAuth.refresh_token,
-          expiresAt: new Date(Date.now() + newAuth.expires_in * 1000),
-        });
-
-        return newAuth.access_token;
+        // The new tokens are stored by the refresh itself
+        const newAuth = await refreshSpotifyToken(userId);
+        return newAuth.accessToken;
       } catch (error) {
         console.error('Failed to refresh token:', error);
         throw new Error(
@@ -109,25 +143,11 @@ async function ensureFreshToken(
     // For Apple Music, we need to ensure the Music User Token is still valid
     try {
       // Try to make a test request to verify the token
-      const response = await fetch(
-        'https://api.music.apple.com/v1/me/library/albums',
-        {
-          headers: {
-            Authorization: `Bearer ${token}`,
-            'Music-User-Token': auth.musicUserToken,
-          },
-        }
+      await appleMusicClient.request(
+        'https://api.music.apple.com/v1/me/library/albums?limit=1',
+        { accessToken: token, musicUserToken: auth.musicUserToken }
       );
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(
-          'Apple Music token validation failed:',
-          errorText
-        );
-        throw new Error('Apple Music token validation failed');
-      }
-
       return auth.musicUserToken;
     } catch (error) {
       console.error('Apple Music token validation failed:', error);
@@ -139,31 +159,7 @@ async function ensureFreshToken(
   return token;
 }
 
-async function retryWithBackoff(
-  fn: () => Promise<any>,
-  retries = 3,
-  baseDelay = 1000
-) {
-  for (let i = 0; i < retries; i++) {
-    try {
-      const result = await fn();
-      return result || { success: true };
-    } catch (error: any) {
-      if (
-        error?.message?.includes('API capacity exceeded') &&
-        i < retries - 1
-      ) {
-        const delayTime = baseDelay * Math.pow(2, i);
-        console.log(`Rate limited. Retrying in ${delayTime}ms...`);
-        await delay(delayTime);
-        continue;
-      }
-      throw error;
-    }
-  }
-}
-
-async function createPlaylist(
+export async function createPlaylist(
   service: 'spotify' | 'apple-music',
   { name, description, imageUrl }: { name: string; description: string; imageUrl?: string },
   token: string,
@@ -178,26 +174,19 @@ async function createPlaylist(
 
   if (service === 'spotify') {
     // First create the playlist
-    const response = await fetch('https://api.spotify.com/v1/me/playlists', {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${token}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        name,
-        description,
-        public: false,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Failed to create Spotify playlist:', errorText);
-      throw new Error('Failed to create Spotify playlist');
-    }
-
-    const data = await response.json();
+    const data = await spotifyClient.request(
+      'https://api.spotify.com/v1/me/playlists',
+      {
+        accessToken: token,
+        userId,
+        method: 'POST',
+        body: {
+          name,
+          description,
+          public: false,
+        },
+      }
+    );
     console.log('Successfully created Spotify playlist:', data);
 
     // If we have an image URL, upload it to the playlist
@@ -213,23 +202,17 @@ async function createPlaylist(
         const imageBlob = await imageResponse.blob();
         
         // Upload the image to Spotify
-        const uploadResponse = await fetch(
+        await spotifyClient.request(
           `https://api.spotify.com/v1/playlists/${data.id}/images`,
           {
+            accessToken: token,
+            userId,
             method: 'PUT',
-            headers: {
-              Authorization: `Bearer ${token}`,
-              'Content-Type': 'image/jpeg',
-            },
             body: imageBlob,
+            contentType: 'image/jpeg',
           }
         );
-
-        if (!uploadResponse.ok) {
-          console.error('Failed to upload image:', await uploadResponse.text());
-        } else {
-          console.log('Successfully uploaded playlist image');
-        }
+        console.log('Successfully uploaded playlist image');
       } catch (error) {
         console.error('Error uploading playlist image:', error);
       }
@@ -245,31 +228,20 @@ async function createPlaylist(
       throw new Error('Missing Apple Music user token');
     }
 
-    const response = await fetch(
+    const data = await appleMusicClient.request(
       'https://api.music.apple.com/v1/me/library/playlists',
       {
+        accessToken: token,
+        musicUserToken: auth.musicUserToken,
         method: 'POST',
-        headers: {
-          Authorization: `Bearer ${token}`,
-          'Music-User-Token': auth.musicUserToken,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
+        body: {
           attributes: {
             name,
             description,
           },
-        }),
+        },
       }
     );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Failed to create Apple Music playlist:', errorText);
-      throw new Error(`Failed to create Apple Music playlist: ${errorText}`);
-    }
-
-    const data = await response.json();
     console.log('Successfully created Apple Music playlist:', data);
     
     if (!data.data?.[0]?.id) {
@@ -291,9 +263,13 @@ export async function transferPlaylist({
   targetToken,
   onProgress,
   userId,
+  transferId: existingTransferId,
+  mode = 'resume',
+  dryRun = false,
 }: TransferPlaylistParams) {
   let transfer;
   let newPlaylist;
+  let items: ItemTracker | undefined;
 
   try {
     const sourceAuth = await getServiceAuth(userId, sourceService);
@@ -310,7 +286,7 @@ export async function transferPlaylist({
     });
 
     // Get playlist details including artwork
-    let imageUrl;
+    let imageUrl = playlist.artworkUrl;
     if (sourceService === 'apple-music' && playlist.attributes?.artwork?.url) {
       imageUrl = playlist.attributes.artwork.url
         .replace('{w}', '640')
@@ -318,36 +294,76 @@ export async function transferPlaylist({
       console.log('Found Apple Music playlist artwork:', imageUrl);
     }
 
-    const tracks = await getPlaylistTracks(
+    const sourcePlaylistId = playlist.playlist_id || playlist.id;
+    const freshSourceToken = await ensureFreshToken(
       sourceService,
-      playlist.playlist_id || playlist.id,
       sourceAuth.accessToken,
       userId
     );
+    console.log(`Fetching tracks from ${sourceService} playlist ${sourcePlaylistId}`);
 
-    transfer = await createTransfer(userId, sourceService, targetService, {
-      sourcePlaylistId: playlist.playlist_id || playlist.id,
+    // Tracks are read page by page and matched as each page arrives
+    const pages = readPlaylistTracks(
+      sourceService,
+      sourcePlaylistId,
+      sourceService === 'spotify'
+        ? { accessToken: freshSourceToken }
+        : {
+            accessToken: sourceAuth.accessToken,
+            musicUserToken: freshSourceToken,
+          }
+    );
+    const firstPage = await pages.next();
+    const totalItems = firstPage.done ? 0 : firstPage.value.total;
+
+    // A resumed job keeps writing to the playlist its earlier run created
+    const previous = existingTransferId
+      ? await getTransferMetadata(existingTransferId)
+      : {};
+    const metadata: Record<string, any> = {
+      ...previous,
+      type: 'playlist',
+      sourcePlaylistId,
       sourcePlaylistName: playlist.name || playlist.attributes?.name,
-      tracksCount: tracks.length,
-    });
+      tracksCount: totalItems,
+    };
+    if (existingTransferId) {
+      transfer = { id: existingTransferId };
+      await updateTransferMetadata(existingTransferId, metadata);
+    } else {
+      transfer = await createTransfer(
+        userId,
+        sourceService,
+        targetService,
+        metadata
+      );
+    }
 
     onProgress?.({
       stage: 'creating',
       progress: 30,
-      message: 'Creating playlist...',
+      message: dryRun ? 'Previewing transfer...' : 'Creating playlist...',
     });
 
-    newPlaylist = await createPlaylist(
-      targetService,
-      {
-        name: playlist.name || playlist.attributes?.name,
-        description: `Transferred from ${sourceService} using Velvet Metal`,
-        imageUrl,
-      },
-      targetAuth.accessToken,
-      userId
-    );
+    // A dry run only matches tracks, the playlist is created on commit
+    if (!dryRun) {
+      newPlaylist = previous.targetPlaylistId
+        ? { id: previous.targetPlaylistId, name: previous.targetPlaylistName }
+        : await createPlaylist(
+            targetService,
+            {
+              name: playlist.name || playlist.attributes?.name,
+              description: `Transferred from ${sourceService} using Velvet Metal`,
+              imageUrl,
+            },
+            targetAuth.accessToken,
+            userId
+          );
 
+      metadata.targetPlaylistId = newPlaylist.id;
+      metadata.targetPlaylistName = newPlaylist.name;
+    }
+    await updateTransferMetadata(transfer.id, metadata);
     await updateTransferStatus(transfer.id, 'in_progress', undefined);
 
     onProgress?.({
@@ -356,37 +372,130 @@ export async function transferPlaylist({
       message: 'Transferring tracks...',
     });
 
-    await addTracksToPlaylist(
-      targetService,
-      newPlaylist.id,
-      tracks,
-      targetAuth.accessToken,
+    const targetPlaylistId: string | null = newPlaylist?.id ?? null;
+    const matches: TrackMatch[] = [];
+    const skipped: SkippedTrack[] = [];
+    const tracker = createItemTracker(
+      transfer.id!,
       userId,
-      (current) => {
-        const progress = Math.min(50 + (current / tracks.length) * 50, 99);
-        onProgress?.({
-          stage: 'adding',
-          progress,
-          message: 'Transferring tracks...',
+      existingTransferId
+        ? await loadTransferItems(existingTransferId)
+        : undefined
+    );
+    items = tracker;
+
+    const transferPage = async (page: PlaylistTrackPage) => {
+      skipped.push(...page.skipped);
+      page.skipped.forEach((item) => {
+        console.warn(
+          `Skipping item ${item.position + 1} (${item.reason})${
+            item.name ? `: ${item.name}` : ''
+          }`
+        );
+        tracker.update(trackItemKey(item.position), {
+          kind: 'track',
+          name: item.name,
+          status: 'skipped',
         });
-        updateTransferStatus(transfer.id, 'in_progress', undefined);
+      });
+
+      // Tracks added by an earlier run of this transfer aren't added twice
+      const tracksToRun = page.tracks.filter((track) =>
+        shouldRunItem(tracker.get(trackItemKey(track.position)), mode)
+      );
+
+      const pageMatches = await addTracksToPlaylist(
+        sourceService,
+        targetService,
+        targetPlaylistId,
+        tracksToRun,
+        targetAuth.accessToken,
+        userId,
+        tracker,
+        (current) => {
+          const processed = page.offset + page.skipped.length + current;
+          const progress = Math.min(
+            50 + (processed / Math.max(totalItems, 1)) * 50,
+            99
+          );
+          onProgress?.({
+            stage: 'adding',
+            progress,
+            message: 'Transferring tracks...',
+          });
+          updateTransferStatus(transfer.id, 'in_progress', undefined);
+        }
+      );
+      matches.push(...pageMatches);
+    };
+
+    if (!firstPage.done) {
+      await transferPage(firstPage.value);
+      for await (const page of pages) {
+        await transferPage(page);
       }
-    );
+    }
 
-    await updateTransferStatus(transfer.id, 'success', undefined);
+    if (skipped.length > 0) {
+      console.log(
+        `Skipped ${skipped.length} items that can't be transferred:`,
+        skipped
+      );
+    }
+
+    await tracker.flush();
+
+    // The review screen removes guesses by their position in this version of
+    // the playlist, so it doesn't matter what has changed in it since
+    if (targetPlaylistId && targetService === 'spotify') {
+      metadata.targetSnapshotId = await getSpotifyPlaylistSnapshot(
+        targetAuth.accessToken,
+        targetPlaylistId
+      );
+    }
+
+    // Unmatched and low-confidence tracks are kept for the review screen,
+    // a preview lists them in its own report instead
+    if (!dryRun) {
+      const reviewItems = buildReviewItems(matches);
+      const reviewedKeys = new Set(reviewItems.map((item) => item.key));
+      metadata.reviewItems = [
+        ...(previous.reviewItems || []).filter(
+          (item: TransferReviewItem) => !reviewedKeys.has(item.key)
+        ),
+        ...reviewItems,
+      ];
+    }
+    const matchSummary = summarizeMatches(matches);
+    metadata.skippedItems = skipped;
+    // The transfer modal shows the summary once the worker has finished
+    metadata.matchSummary = matchSummary;
+    await updateTransferMetadata(transfer.id, metadata);
+
+    await updateTransferStatus(
+      transfer.id,
+      dryRun ? PREVIEW_TRANSFER_STATUS : 'success',
+      undefined
+    );
 
     // Ensure we send the complete stage
     onProgress?.({
       stage: 'complete',
       progress: 100,
-      message: 'Transfer complete!',
+      message: dryRun ? 'Preview ready' : 'Transfer complete!',
+      matchSummary,
+      skipped,
+      unmatched: matches
+        .filter((match) => !match.targetId)
+        .map((match) => match.track),
     });
 
-    return newPlaylist;
+    return { ...newPlaylist, matches, skipped };
   } catch (error: any) {
     console.error('Transfer failed:', error);
 
     if (transfer?.id) {
+      await items?.flush();
       await updateTransferStatus(
         transfer.id,
         'failed',
@@ -398,86 +507,17 @@ export async function transferPlaylist({
   }
 }
 
-async function getPlaylistTracks(
-  service: 'spotify' | 'apple-music',
-  playlistId: string,
-  token: string,
-  userId: string
-): Promise<Track[]> {
-  const freshToken = await ensureFreshToken(service, token, userId);
-
-  console.log(`Fetching tracks from ${service} playlist ${playlistId}`);
-
-  if (service === 'spotify') {
-    const response = await fetch(
-      `https://api.spotify.com/v1/playlists/${playlistId}/tracks`,
-      {
-        headers: {
-          Authorization: `Bearer ${freshToken}`,
-        },
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Failed to fetch Spotify tracks:', errorText);
-      throw new Error('Failed to fetch Spotify tracks');
-    }
-
-    const data = await response.json();
-    console.log(`Found ${data.items.length} tracks in Spotify playlist`);
-
-    return data.items.map((item: any) => {
-      const track = {
-        name: item.track.name,
-        artist: item.track.artists[0].name,
-        album: item.track.album.name,
-        isrc: item.track.external_ids?.isrc,
-      };
-      console.log('Processed Spotify track:', track);
-      return track;
-    });
-  } else {
-    const response = await fetch(
-      `https://api.music.apple.com/v1/me/library/playlists/${playlistId}/tracks`,
-      {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          'Music-User-Token': freshToken,
-        },
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Failed to fetch Apple Music tracks:', errorText);
-      throw new Error('Failed to fetch Apple Music tracks');
-    }
-
-    const data = await response.json();
-    console.log(`Found ${data.data.length} tracks in Apple Music playlist`);
-
-    return data.data.map((item: any) => {
-      const track = {
-        name: item.attributes.name,
-        artist: item.attributes.artistName,
-        album: item.attributes.albumName,
-        isrc: item.attributes.isrc,
-      };
-      console.log('Processed Apple Music track:', track);
-      return track;
-    });
-  }
-}
-
 async function addTracksToPlaylist(
+  sourceService: 'spotify' | 'apple-music',
   service: 'spotify' | 'apple-music',
-  playlistId: string,
+  // Null for a dry run, tracks are matched but not added
+  playlistId: string | null,
   tracks: Track[],
   token: string,
   userId: string,
+  items: ItemTracker,
   onProgress?: (current: number) => void
-) {
+): Promise<TrackMatch[]> {
   const auth = await getServiceAuth(userId, service);
   if (!auth) {
     throw new Error(`No ${service} authentication found`);
@@ -486,174 +526,88 @@ async function addTracksToPlaylist(
   console.log(`Adding ${tracks.length} tracks to ${service} playlist ${playlistId}`);
   console.log('Sample of tracks to add:', tracks.slice(0, 3));
 
-  if (service === 'spotify') {
-    // Process tracks in batches of 100 (Spotify API limit)
-    const batchSize = 100;
-    for (let i = 0; i < tracks.length; i += batchSize) {
-      const batch = tracks.slice(i, i + batchSize);
-      
-      // First search for each track to get Spotify URIs
-      const spotifyUris = await Promise.all(
-        batch.map(async (track) => {
-          try {
-            const query = encodeURIComponent(`track:${track.name} artist:${track.artist}`);
-            console.log(`Searching Spotify for: ${track.name} by ${track.artist}`);
-            
-            const searchResponse = await fetch(
-              `https://api.spotify.com/v1/search?q=${query}&type=track&limit=1`,
-              {
-                headers: {
-                  Authorization: `Bearer ${token}`,
-                },
-              }
-            );
-
-            if (!searchResponse.ok) {
-              console.error(`Search failed for track: ${track.name}`, await searchResponse.text());
-              return null;
-            }
-
-            const data = await searchResponse.json();
-            const uri = data.tracks?.items[0]?.uri;
-            
-            if (uri) {
-              console.log(`✓ Found Spotify track: ${uri} for "${track.name}"`);
-              return uri;
-            } else {
-              console.warn(`✗ No Spotify match found for: ${track.name} by ${track.artist}`);
-              return null;
-            }
-          } catch (error) {
-            console.error(`Error searching for track: ${track.name}`, error);
-            return null;
-          }
-        })
-      );
-
-      const validUris = spotifyUris.filter(Boolean);
-      console.log(`Found ${validUris.length}/${batch.length} tracks in this batch`);
+  // Spotify accepts 100 tracks per request, Apple Music 25
+  const batchSize = service === 'spotify' ? 100 : 25;
+  const matches: TrackMatch[] = [];
 
-      if (validUris.length > 0) {
-        try {
-          const response = await fetch(
-            `https://api.spotify.com/v1/playlists/${playlistId}/tracks`,
-            {
-              method: 'POST',
-              headers: {
-                Authorization: `Bearer ${token}`,
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                uris: validUris,
-              }),
-            }
-          );
+  for (let i = 0; i < tracks.length; i += batchSize) {
+    const batch = tracks.slice(i, i + batchSize);
 
-          if (!response.ok) {
-            const errorText = await response.text();
-            console.error('Failed to add batch to Spotify playlist:', errorText);
-            throw new Error('Failed to add tracks to Spotify playlist');
-          }
+    const batchMatches = await matchTracksCached(sourceService, service, batch, {
+      accessToken: token,
+      musicUserToken: auth.musicUserToken,
+      storefront: auth.storefront,
+    });
+    matches.push(...batchMatches);
 
-          console.log(`✓ Successfully added ${validUris.length} tracks to Spotify playlist`);
-        } catch (error) {
-          console.error('Error adding tracks to playlist:', error);
-          throw error;
-        }
+    batchMatches.forEach((match) => {
+      const item = {
+        kind: 'track' as const,
+        name: match.track.name,
+        artist_name: match.track.artist,
+      };
+      if (match.targetId) {
+        console.log(
+          `✓ Found ${service} track: ${match.targetId} for "${match.track.name}" (${match.method}, ${match.confidence})`
+        );
+        items.update(trackItemKey(match.track.position), {
+          ...item,
+          status: 'matched',
+          target_id: match.targetId,
+          confidence: match.confidence,
+        });
+      } else {
+        console.warn(
+          `✗ No ${service} match found for: ${match.track.name} by ${match.track.artist}`
+        );
+        items.update(trackItemKey(match.track.position), {
+          ...item,
+          status: 'failed',
+          error: 'No match found',
+        });
       }
+    });
 
+    const matched = batchMatches.filter((match) => match.targetId);
+    console.log(`Found ${matched.length}/${batch.length} tracks in this batch`);
+
+    if (!playlistId) {
       onProgress?.(i + batch.length);
+      continue;
     }
-  } else {
-    // Process tracks in batches for Apple Music
-    const batchSize = 25; // Apple Music allows up to 25 tracks per request
-    for (let i = 0; i < tracks.length; i += batchSize) {
-      const batch = tracks.slice(i, i + batchSize);
-      
-      // Search for each track in the batch
-      const appleMusicTracks = await Promise.all(
-        batch.map(async (track) => {
-          const query = encodeURIComponent(`${track.name} ${track.artist}`);
-          console.log(`Searching Apple Music for: ${track.name} by ${track.artist}`);
-          
-          try {
-            const response = await fetch(
-              `https://api.music.apple.com/v1/catalog/us/search?term=${query}&types=songs&limit=1`,
-              {
-                headers: {
-                  Authorization: `Bearer ${token}`,
-                  'Music-User-Token': auth.musicUserToken,
-                },
-              }
-            );
-
-            if (!response.ok) {
-              console.error(`Search failed for track: ${track.name}`, await response.text());
-              return null;
-            }
-
-            const data = await response.json();
-            const songId = data?.results?.songs?.data?.[0]?.id;
-            
-            if (songId) {
-              console.log(`✓ Found Apple Music track: ${songId} for "${track.name}"`);
-              return {
-                id: songId,
-                type: 'songs',
-              };
-            } else {
-              console.warn(`✗ No Apple Music match found for: ${track.name} by ${track.artist}`);
-              return null;
-            }
-          } catch (error) {
-            console.error(`Error searching for track: ${track.name}`, error);
-            return null;
-          }
+
+    try {
+      await insertTracksAtSourcePositions(
+        service,
+        playlistId,
+        matched,
+        (match) => match.track.position,
+        addedTrackPositions(items.values()),
+        token,
+        auth.musicUserToken
+      );
+    } catch (error) {
+      matched.forEach((match) =>
+        items.update(trackItemKey(match.track.position), {
+          kind: 'track',
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
         })
       );
-
-      const validTracks = appleMusicTracks.filter(Boolean);
-      console.log(`Found ${validTracks.length}/${batch.length} tracks in this batch`);
-
-      if (validTracks.length > 0) {
-        try {
-          // Add the batch of tracks to the playlist
-          const response = await fetch(
-            `https://api.music.apple.com/v1/me/library/playlists/${playlistId}/tracks`,
-            {
-              method: 'POST',
-              headers: {
-                Authorization: `Bearer ${token}`,
-                'Music-User-Token': auth.musicUserToken,
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                data: validTracks,
-              }),
-            }
-          );
-
-          if (!response.ok) {
-            const errorText = await response.text();
-            console.error('Failed to add batch to Apple Music playlist:', errorText);
-            throw new Error('Failed to add tracks to Apple Music playlist');
-          }
-
-          console.log(`✓ Successfully added ${validTracks.length} tracks to Apple Music playlist`);
-        } catch (error) {
-          console.error('Error adding tracks to playlist:', error);
-          throw error;
-        }
-      }
-
-      onProgress?.(i + batch.length);
-      
-      // Small delay between batches to avoid rate limiting
-      if (i + batchSize < tracks.length) {
-        await delay(500);
-      }
+      throw error;
     }
+    matched.forEach((match) =>
+      items.update(trackItemKey(match.track.position), {
+        kind: 'track',
+        status: 'added',
+      })
+    );
+
+    onProgress?.(i + batch.length);
   }
+
+  console.log('Match summary:', summarizeMatches(matches));
+  return matches;
 }
 
 export async function transferAlbum({
@@ -664,6 +618,8 @@ export async function transferAlbum({
   targetToken,
   onProgress,
   userId,
+  transferId: existingTransferId,
+  dryRun = false,
 }: TransferAlbumParams): Promise<void> {
   let transferId: string;
   try {
@@ -697,13 +653,30 @@ export async function transferAlbum({
       // Continue with transfer even if we can't get track count
     }
 
-    // Create transfer record
-    transferId = await createTransfer(userId, sourceService, destinationService, {
+    // Create transfer record. A resumed job keeps what its earlier run wrote.
+    const previous = existingTransferId
+      ? await getTransferMetadata(existingTransferId)
+      : {};
+    const albumMetadata: Record<string, any> = {
+      ...previous,
       type: 'album',
       sourceAlbumId: album.id,
       sourceAlbumName: album.name,
-      tracksCount: trackCount
-    });
+      tracksCount: trackCount,
+    };
+    if (existingTransferId) {
+      transferId = existingTransferId;
+      await updateTransferMetadata(transferId, albumMetadata);
+    } else {
+      transferId = (
+        await createTransfer(
+          userId,
+          sourceService,
+          destinationService,
+          albumMetadata
+        )
+      ).id as string;
+    }
 
     onProgress?.({
       stage: 'creating',
@@ -715,19 +688,58 @@ export async function transferAlbum({
     const searchQuery = `${album.name} ${album.artist_name}`;
     const albumQuery = album.name;
     const artistQuery = album.artist_name;
+    const sourceAlbum = { id: album.album_id || album.id, upc: album.upc };
     let targetAlbumId: string | null = null;
+    let confidence = 1;
+    let candidate: MatchCandidate | undefined;
 
     try {
-      if (destinationService === 'spotify') {
-        const result = await searchSpotifyAlbum(searchQuery, freshToken);
-        targetAlbumId = result?.id || null;
+      const findCachedAlbum = await lookupAlbumMappings(sourceService, [
+        sourceAlbum,
+      ]);
+      targetAlbumId = findCachedAlbum(sourceAlbum) || null;
+    } catch (error) {
+      console.error('Album mapping lookup failed:', error);
+    }
+
+    try {
+      if (targetAlbumId) {
+        console.log(`Found ${album.name} in the mapping cache`);
       } else {
-        const result = await searchAppleMusicAlbum(
-          albumQuery,
-          artistQuery,
-          freshToken
-        );
+        const result =
+          destinationService === 'spotify'
+            ? await searchSpotifyAlbum(searchQuery, freshToken)
+            : await searchAppleMusicAlbum(
+                albumQuery,
+                artistQuery,
+                freshToken,
+                targetAuth.storefront
+              );
         targetAlbumId = result?.id || null;
+
+        // The search only returns its top hit, so only cache exact matches
+        const isExactMatch =
+          result?.name?.toLowerCase() === album.name?.toLowerCase() &&
+          result?.artist?.toLowerCase() === album.artist_name?.toLowerCase();
+        if (!isExactMatch) confidence = 0.5;
+        if (result) {
+          candidate = {
+            id: result.id,
+            name: result.name,
+            artist: result.artist,
+            album: result.name,
+          };
+        }
+        if (result && isExactMatch) {
+          await saveAlbumMappings(sourceService, [
+            {
+              sourceId: sourceAlbum.id,
+              targetId: result.id,
+              upc: album.upc,
+              method: 'search',
+            },
+          ]);
+        }
       }
     } catch (error) {
       const errorMessage = 'Failed to find album in target service';
@@ -736,12 +748,77 @@ export async function transferAlbum({
       throw new Error(errorMessage);
     }
 
+    if (dryRun) {
+      await previewAlbum(
+        transferId,
+        userId,
+        destinationService,
+        album,
+        sourceAlbum.id,
+        targetAlbumId,
+        confidence,
+        freshToken
+      );
+      onProgress?.({
+        stage: 'complete',
+        progress: 100,
+        message: 'Preview ready',
+      });
+      return;
+    }
+
+    // Let the user pick the album by hand from the review screen, or confirm
+    // a search hit that only partly matched before it's added
+    const reviewItemFor = (
+      reason: TransferReviewItem['reason']
+    ): TransferReviewItem => ({
+      key: `album:${album.id}`,
+      kind: 'album',
+      source: {
+        id: sourceAlbum.id,
+        name: album.name,
+        artist: album.artist_name,
+        album: album.name,
+      },
+      reason,
+      confidence: reason === 'unmatched' ? 0 : confidence,
+      candidate: reason === 'unmatched' ? undefined : candidate,
+      status: 'pending',
+    });
+    const withReviewItem = (reviewItem: TransferReviewItem) => ({
+      ...albumMetadata,
+      reviewItems: [
+        ...(previous.reviewItems || []).filter(
+          (item: TransferReviewItem) => item.key !== reviewItem.key
+        ),
+        reviewItem,
+      ],
+    });
+
     if (!targetAlbumId) {
       const errorMessage = 'Album not found in target service';
+      await updateTransferMetadata(
+        transferId,
+        withReviewItem(reviewItemFor('unmatched'))
+      );
       await updateTransferStatus(transferId, 'failed', errorMessage);
       throw new Error(errorMessage);
     }
 
+    if (confidence < 1) {
+      await updateTransferMetadata(
+        transferId,
+        withReviewItem(reviewItemFor('low_confidence'))
+      );
+      await updateTransferStatus(transferId, 'success', undefined);
+      onProgress?.({
+        stage: 'complete',
+        progress: 100,
+        message: 'Found a possible match, review it to add the album',
+      });
+      return;
+    }
+
     onProgress?.({
       stage: 'searching',
       progress: 50,
@@ -753,7 +830,11 @@ export async function transferAlbum({
       if (destinationService === 'spotify') {
         await addSpotifyAlbumToLibrary(targetAlbumId, freshToken);
       } else {
-        await addAppleMusicAlbumToLibrary(targetAlbumId, freshToken);
+        await addAppleMusicAlbumToLibrary(
+          targetAlbumId,
+          freshToken,
+          targetAuth.storefront
+        );
       }
     } catch (error) {
       const errorMessage = 'Failed to add album to library';
@@ -766,13 +847,7 @@ export async function transferAlbum({
     await supabase
       .from('transfers')
       .update({
-        metadata: {
-          type: 'album',
-          sourceAlbumId: album.id,
-          sourceAlbumName: album.name,
-          targetAlbumId: targetAlbumId,
-          tracksCount: trackCount
-        },
+        metadata: { ...albumMetadata, targetAlbumId },
         status: 'success',
         completed_at: new Date().toISOString()
       })
@@ -789,6 +864,47 @@ export async function transferAlbum({
   }
 }
 
+// Records what transferring the album would do as its only transfer item
+async function previewAlbum(
+  transferId: string,
+  userId: string,
+  destinationService: ServiceType,
+  album: any,
+  sourceAlbumId: string,
+  targetAlbumId: string | null,
+  confidence: number,
+  token: string
+) {
+  const items = createItemTracker(transferId, userId);
+  const item = {
+    kind: 'album' as const,
+    name: album.name,
+    artist_name: album.artist_name,
+  };
+
+  if (targetAlbumId) {
+    const existingAlbums =
+      destinationService === 'spotify'
+        ? await checkSpotifyAlbumsInLibrary([targetAlbumId], token)
+        : await checkAlbumsInLibrary([targetAlbumId], token);
+    items.update(sourceAlbumId, {
+      ...item,
+      status: existingAlbums[targetAlbumId] ? 'skipped' : 'matched',
+      target_id: targetAlbumId,
+      confidence,
+    });
+  } else {
+    items.update(sourceAlbumId, {
+      ...item,
+      status: 'failed',
+      error: 'Album not found in target service',
+    });
+  }
+
+  await items.flush();
+  await updateTransferStatus(transferId, PREVIEW_TRANSFER_STATUS, undefined);
+}
+
 async function getAlbumTracks(
   service: 'spotify' | 'apple-music',
   albumId: string,
@@ -798,20 +914,10 @@ async function getAlbumTracks(
   const freshToken = await ensureFreshToken(service, token, userId);
 
   if (service === 'spotify') {
-    const response = await fetch(
+    const data = await spotifyClient.request(
       `https://api.spotify.com/v1/albums/${albumId}/tracks?limit=50`,
-      {
-        headers: {
-          Authorization: `Bearer ${freshToken}`,
-        },
-      }
+      { accessToken: freshToken, userId }
     );
-
-    if (!response.ok) {
-      throw new Error('Failed to fetch album tracks from Spotify');
-    }
-
-    const data = await response.json();
     return data.items.map((track: any) => ({
       name: track.name,
       artist: track.artists[0].name,
@@ -819,21 +925,11 @@ async function getAlbumTracks(
       isrc: track.external_ids?.isrc,
     }));
   } else {
-    const response = await fetch(
-      `https://api.music.apple.com/v1/catalog/us/albums/${albumId}/tracks`,
-      {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          'Music-User-Token': freshToken,
-        },
-      }
+    const storefront = await getAppleMusicStorefront(userId);
+    const data = await appleMusicClient.request(
+      appleMusicCatalogUrl(`albums/${albumId}/tracks`, storefront),
+      { accessToken: token, musicUserToken: freshToken }
     );
-
-    if (!response.ok) {
-      throw new Error('Failed to fetch album tracks from Apple Music');
-    }
-
-    const data = await response.json();
     return data.data.map((track: any) => ({
       name: track.attributes.name,
       artist: track.attributes.artistName,
@@ -847,142 +943,75 @@ async function addTracksToLibrary(
   service: 'spotify' | 'apple-music',
   tracks: Track[],
   token: string,
+  userId: string,
   onProgress?: (current: number) => void
 ) {
   const freshToken = await ensureFreshToken(service, token, userId);
   let addedCount = 0;
 
-  if (service === 'spotify') {
-    // Spotify allows adding tracks in batches
-    const trackUris = await Promise.all(
-      tracks.map(async (track) => {
-        try {
-          const searchResponse = await fetch(
-            `https://api.spotify.com/v1/search?q=${encodeURIComponent(
-              `isrc:${track.isrc}`
-            )}&type=track&limit=1`,
-            {
-              headers: {
-                Authorization: `Bearer ${freshToken}`,
-              },
-            }
-          );
-
-          if (!searchResponse.ok) {
-            throw new Error('Failed to search track on Spotify');
-          }
-
-          const searchData = await searchResponse.json();
-          const spotifyTrack = searchData.tracks.items[0];
-
-          if (spotifyTrack) {
-            return spotifyTrack.uri;
-          }
-
-          // Fallback to name + artist search if ISRC search fails
-          const fallbackResponse = await fetch(
-            `https://api.spotify.com/v1/search?q=${encodeURIComponent(
-              `track:${track.name} artist:${track.artist}`
-            )}&type=track&limit=1`,
-            {
-              headers: {
-                Authorization: `Bearer ${freshToken}`,
-              },
-            }
-          );
-
-          if (!fallbackResponse.ok) {
-            throw new Error('Failed to search track on Spotify');
-          }
-
-          const fallbackData = await fallbackResponse.json();
-          return fallbackData.tracks.items[0]?.uri;
-        } catch (error) {
-          console.error(`Failed to find track: ${track.name}`, error);
-          return null;
+  const matches = await matchTracks(
+    service,
+    tracks,
+    service === 'spotify'
+      ? { accessToken: freshToken }
+      : {
+          accessToken: token,
+          musicUserToken: freshToken,
+          storefront: await getAppleMusicStorefront(userId),
         }
-      })
-    );
+  );
+  const matched = matches.filter((match) => match.targetId);
 
-    const validTrackUris = trackUris.filter(Boolean);
+  if (service === 'spotify') {
+    const validTrackUris = matched.map(
+      (match) => match.targetUri || `spotify:track:${match.targetId}`
+    );
 
     // Add tracks in batches of 50
     for (let i = 0; i < validTrackUris.length; i += 50) {
       const batch = validTrackUris.slice(i, i + 50);
-      const response = await fetch('https://api.spotify.com/v1/me/tracks', {
+      await spotifyClient.request('https://api.spotify.com/v1/me/tracks', {
+        accessToken: freshToken,
+        userId,
         method: 'PUT',
-        headers: {
-          Authorization: `Bearer ${freshToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
+        body: {
           uris: batch,
-        }),
+        },
       });
 
-      if (!response.ok) {
-        throw new Error('Failed to add tracks to Spotify library');
-      }
-
       addedCount += batch.length;
       onProgress?.(addedCount);
-      await delay(1000); // Rate limiting
     }
   } else {
     // Apple Music requires adding tracks one by one
-    for (const track of tracks) {
+    for (const match of matched) {
       try {
-        const searchResponse = await fetch(
-          `https://api.music.apple.com/v1/catalog/us/songs?filter[isrc]=${track.isrc}`,
+        await appleMusicClient.request(
+          'https://api.music.apple.com/v1/me/library',
           {
-            headers: {
-              Authorization: `Bearer ${token}`,
-              'Music-User-Token': freshToken,
+            accessToken: token,
+            musicUserToken: freshToken,
+            method: 'POST',
+            body: {
+              data: [
+                {
+                  id: match.targetId,
+                  type: 'songs',
+                },
+              ],
             },
           }
         );
 
-        if (!searchResponse.ok) {
-          throw new Error('Failed to search track on Apple Music');
-        }
-
-        const searchData = await searchResponse.json();
-        const appleMusicTrack = searchData.data[0];
-
-        if (appleMusicTrack) {
-          const response = await fetch(
-            'https://api.music.apple.com/v1/me/library',
-            {
-              method: 'POST',
-              headers: {
-                Authorization: `Bearer ${token}`,
-                'Music-User-Token': freshToken,
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                data: [
-                  {
-                    id: appleMusicTrack.id,
-                    type: 'songs',
-                  },
-                ],
-              }),
-            }
-          );
-
-          if (!response.ok) {
-            throw new Error('Failed to add track to Apple Music library');
-          }
-
-          addedCount++;
-          onProgress?.(addedCount);
-          await delay(1000); // Rate limiting
-        }
+        addedCount++;
+        onProgress?.(addedCount);
       } catch (error) {
-        console.error(`Failed to add track: ${track.name}`, error);
+        console.error(`Failed to add track: ${match.track.name}`, error);
       }
     }
   }
+
+  return matches;
 }
 
 export async function createTransfer(
@@ -1052,6 +1081,40 @@ export async function updateTransferStatus(
   }
 }
 
+export async function getTransferMetadata(
+  transferId: string
+): Promise<Record<string, any>> {
+  const { data, error } = await supabase
+    .from('transfers')
+    .select('metadata')
+    .eq('id', transferId)
+    .single();
+
+  if (error) {
+    console.error('Failed to load transfer metadata:', error);
+    return {};
+  }
+
+  return data?.metadata || {};
+}
+
+export async function updateTransferMetadata(
+  transferId: string | undefined,
+  metadata: Record<string, any>
+) {
+  if (!transferId) return;
+
+  const { error } = await supabase
+    .from('transfers')
+    .update({ metadata })
+    .eq('id', transferId);
+
+  if (error) {
+    // Don't throw here to prevent breaking the transfer process
+    console.error('Failed to update transfer metadata:', error);
+  }
+}
+
 export async function getRecentTransfers(userId: string) {
   const { data, error } = await supabase
     .from('transfers')
@@ -3,17 +3,26 @@ import { createClient } from '@supabase/supabase-js';
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
-if (!supabaseUrl || !supabaseAnonKey) {
+// The transfer worker loads the same services under Node, where it acts on
+// behalf of every user and needs the service role key instead
+const isServer = typeof window === 'undefined';
+const supabaseKey = isServer
+  ? process.env.SUPABASE_SERVICE_ROLE_KEY
+  : supabaseAnonKey;
+
+if (!supabaseUrl || !supabaseKey) {
   throw new Error('Missing Supabase environment variables');
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-  auth: {
-    persistSession: true,
-    autoRefreshToken: true,
-    storageKey: 'velvet-metal-auth',
-    storage: window.localStorage
-  }
+export const supabase = createClient(supabaseUrl, supabaseKey, {
+  auth: isServer
+    ? { persistSession: false, autoRefreshToken: false }
+    : {
+        persistSession: true,
+        autoRefreshToken: true,
+        storageKey: 'velvet-metal-auth',
+        storage: window.localStorage,
+      },
 });
 
 export type AuthUser = {
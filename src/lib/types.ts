@@ -29,6 +29,7 @@ export interface UserPlaylist {
   is_public: boolean;
   external_url?: string;
   synced_at: string;
+  removed_at?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -44,7 +45,9 @@ export interface UserAlbum {
   image_url?: string;
   tracks_count?: number;
   external_url?: string;
+  upc?: string | null;
   synced_at: string;
+  removed_at?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -146,10 +149,14 @@ export interface Playlist {
 }
 
 export interface Track {
+  id?: string; // Source service track ID
+  catalogId?: string; // Apple Music catalog ID when `id` is a library ID
   name: string;
   artist: string;
   album: string;
   isrc?: string;
+  durationMs?: number;
+  position?: number; // Zero-based position within the source playlist
 }
 
 export interface SyncProgress {
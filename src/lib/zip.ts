@@ -0,0 +1,100 @@
+// Writes uncompressed ZIP archives. Exports are mostly text that compresses
+// well, but storing keeps the writer small and every unzip tool reads it.
+
+export interface ZipEntry {
+  path: string;
+  // Written in order, so large files can be built up a piece at a time
+  parts: string[];
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(crc: number, bytes: Uint8Array) {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date) {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      ((date.getFullYear() - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+// Hands the main thread back between files so the tab stays responsive
+const nextTick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(new Date());
+  const body: BlobPart[] = [];
+  const directory: BlobPart[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const data = entry.parts.map((part) => encoder.encode(part));
+    const size = data.reduce((total, bytes) => total + bytes.length, 0);
+    const crc = data.reduce((result, bytes) => crc32(result, bytes), 0);
+
+    // Bit 11 marks the file name as UTF-8
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    body.push(local.buffer, name, ...data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, size, true);
+    central.setUint32(24, size, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    directory.push(central.buffer, name);
+
+    offset += 30 + name.length + size;
+    await nextTick();
+  }
+
+  const directorySize = directory.reduce(
+    (total, part) => total + (part as ArrayBuffer | Uint8Array).byteLength,
+    0
+  );
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...body, ...directory, end.buffer], {
+    type: 'application/zip',
+  });
+}
@@ -2,7 +2,6 @@ import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { useAuth } from '@/contexts/auth-context';
 import { getSpotifyToken } from '@/lib/api/spotify';
 import { syncSpotifyLibrary } from '@/lib/services/spotify-library';
-import { saveServiceAuth } from '@/lib/services/streaming-auth';
 import { useQueryClient } from '@tanstack/react-query';
 import { useEffect, useRef } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
@@ -67,15 +66,6 @@ export default function SpotifyCallback() {
           expires_in: tokenResponse.expiresIn,
         });
 
-        const expiresAt = new Date();
-        expiresAt.setSeconds(expiresAt.getSeconds() + tokenResponse.expiresIn);
-
-        await saveServiceAuth(user.id, 'spotify', {
-          accessToken: tokenResponse.accessToken,
-          refreshToken: tokenResponse.refreshToken,
-          expiresAt,
-        });
-
         await queryClient.invalidateQueries(['serviceConnection']);
         await queryClient.invalidateQueries(['userServices']);
 
@@ -10,10 +10,20 @@ import { LinkPlaylistModal } from '@/shared/modals/LinkPlaylistModal';
 import { TransferPlaylistModal } from '@/shared/modals/PlaylistTransferModal';
 import { useQueryClient } from '@tanstack/react-query';
 import { motion } from 'framer-motion';
-import { ArrowLeft, Clock, Link as LinkIcon, Play, Plus } from 'lucide-react';
+import {
+  AlertCircle,
+  ArrowLeft,
+  Clock,
+  Link as LinkIcon,
+  Play,
+  Plus,
+} from 'lucide-react';
 import { useEffect, useState } from 'react';
 import { useLocation, useNavigate, useParams } from 'react-router-dom';
 
+// Sync runs whose replaced Apple Music playlist the user has dealt with
+const DISMISSED_REPLACEMENTS_KEY = 'dismissedReplacedPlaylists';
+
 export default function PlaylistDetails() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -53,7 +63,10 @@ export default function PlaylistDetails() {
     error,
   } = usePlaylistDetails(id, user?.id, service);
 
-  const { syncPairs } = usePlaylistSync(user?.id);
+  const { syncPairs, replacedPlaylists } = usePlaylistSync(user?.id);
+  const [dismissedReplacements, setDismissedReplacements] = useState<string[]>(
+    () => JSON.parse(localStorage.getItem(DISMISSED_REPLACEMENTS_KEY) || '[]')
+  );
 
   // Find if this playlist is part of any sync pairs
   const syncPair =
@@ -66,6 +79,21 @@ export default function PlaylistDetails() {
           pair.target_service === playlist.service)
     );
 
+  const leftoverPlaylists = (replacedPlaylists || []).filter(
+    (replaced) =>
+      replaced.syncPairId === syncPair?.id &&
+      !dismissedReplacements.includes(replaced.runId)
+  );
+
+  const dismissLeftoverPlaylists = () => {
+    const dismissed = [
+      ...dismissedReplacements,
+      ...leftoverPlaylists.map((replaced) => replaced.runId),
+    ];
+    localStorage.setItem(DISMISSED_REPLACEMENTS_KEY, JSON.stringify(dismissed));
+    setDismissedReplacements(dismissed);
+  };
+
   const handleTransfer = () => {
     if (playlist) {
       setIsTransferModalOpen(true);
@@ -274,6 +302,33 @@ export default function PlaylistDetails() {
             </div>
           </motion.div>
 
+          {leftoverPlaylists.length > 0 && (
+            <div className="mx-8 mb-4 flex items-start gap-3 rounded-md border border-yellow-500/40 bg-yellow-500/10 p-4 text-sm text-yellow-500">
+              <AlertCircle className="h-5 w-5 shrink-0" />
+              <div className="flex-1 space-y-1">
+                <p>
+                  Syncing replaced the Apple Music playlist with a reordered
+                  copy. Apple Music doesn't let us delete the old one, please
+                  remove it in the Music app:
+                </p>
+                <ul className="list-disc pl-5 text-yellow-500/80">
+                  {leftoverPlaylists.map((replaced) => (
+                    <li key={replaced.runId}>
+                      "{replaced.name}", replaced on{' '}
+                      {new Date(replaced.replacedAt).toLocaleDateString()}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+              <button
+                onClick={dismissLeftoverPlaylists}
+                className="font-medium hover:text-yellow-400"
+              >
+                Done
+              </button>
+            </div>
+          )}
+
           {/* Tracks List */}
           <div className="flex-1 overflow-y-auto">
             <motion.div
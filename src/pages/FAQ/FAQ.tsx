@@ -65,7 +65,7 @@ export default function FAQ() {
     },
     {
       question: "How often does Velvet Metal sync with my music services?",
-      answer: "The sync frequency depends on your subscription tier. Free accounts sync once daily, while premium accounts sync every few hours or in real-time, ensuring your library is always up to date.",
+      answer: "The sync frequency depends on your subscription tier. Free accounts sync once a day, while Pro and Enterprise accounts sync every hour, keeping your library up to date.",
       color: "bg-pink-100",
       pattern: "repeating-linear-gradient(-45deg, transparent, transparent 5px, rgba(236, 72, 153, 0.1) 5px, rgba(236, 72, 153, 0.1) 10px)",
     },
@@ -201,11 +201,15 @@ export const AlbumCard = ({
         </CardContent>
       </Card>
 
-      <AlbumTransferModal
-        open={isTransferModalOpen}
-        onOpenChange={setIsTransferModalOpen}
-        album={album}
-      />
+      {user && (
+        <AlbumTransferModal
+          open={isTransferModalOpen}
+          onOpenChange={setIsTransferModalOpen}
+          sourceService={album.service}
+          album={album}
+          userId={user.id}
+        />
+      )}
     </>
   );
 };
@@ -0,0 +1,216 @@
+import { useAuth } from '@/contexts/auth-context';
+import {
+  bucketOf,
+  DiffBucket,
+  DiffEntry,
+  getLibraryDiff,
+} from '@/lib/services/library-diff';
+import { UserAlbum, UserPlaylist } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { BulkTransferModal } from '@/shared/modals/BulkTransferModal';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowRightLeft, Disc, ListMusic } from 'lucide-react';
+import { useState } from 'react';
+
+type DiffKind = 'albums' | 'playlists';
+
+const BUCKETS: { id: DiffBucket; label: string }[] = [
+  { id: 'spotify', label: 'Only on Spotify' },
+  { id: 'apple-music', label: 'Only on Apple Music' },
+  { id: 'both', label: 'On both' },
+];
+
+const SERVICE_NAMES = {
+  spotify: 'Spotify',
+  'apple-music': 'Apple Music',
+};
+
+interface LibraryDiffProps {
+  searchQuery: string;
+}
+
+// The modal keeps the list it was opened with while the diff refreshes
+interface PendingTransfer {
+  sourceService: 'spotify' | 'apple-music';
+  itemType: 'album' | 'playlist';
+  items: (UserAlbum | UserPlaylist)[];
+}
+
+function matchesSearch(entry: DiffEntry<unknown>, query: string) {
+  const searchTerm = query.toLowerCase();
+  return (
+    entry.name.toLowerCase().includes(searchTerm) ||
+    entry.subtitle.toLowerCase().includes(searchTerm)
+  );
+}
+
+// Albums and playlists saved on one service but not the other
+export function LibraryDiff({ searchQuery }: LibraryDiffProps) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [kind, setKind] = useState<DiffKind>('albums');
+  const [bucket, setBucket] = useState<DiffBucket>('spotify');
+  const [transfer, setTransfer] = useState<PendingTransfer | null>(null);
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['libraryDiff', user?.id],
+    queryFn: () => getLibraryDiff(user!.id),
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  if (isError) {
+    return (
+      <div className="text-center text-brand-pink">
+        An error occurred while comparing your libraries. Please try again.
+      </div>
+    );
+  }
+
+  if (isLoading || !data) {
+    return <div className="text-center text-gray-600">Comparing...</div>;
+  }
+
+  const entries: DiffEntry<UserAlbum | UserPlaylist>[] = data[kind];
+  const counts = BUCKETS.reduce(
+    (result, { id }) => ({
+      ...result,
+      [id]: entries.filter((entry) => bucketOf(entry) === id).length,
+    }),
+    {} as Record<DiffBucket, number>
+  );
+  const visible = entries.filter(
+    (entry) =>
+      bucketOf(entry) === bucket &&
+      (!searchQuery || matchesSearch(entry, searchQuery))
+  );
+
+  // Everything listed in a one-sided bucket is missing from the other service
+  const source = bucket === 'both' ? null : bucket;
+  const missing = visible.map((entry) =>
+    source === 'spotify' ? entry.spotify! : entry.appleMusic!
+  );
+  const targetName =
+    SERVICE_NAMES[source === 'spotify' ? 'apple-music' : 'spotify'];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex items-center gap-2 p-1 bg-white border-2 border-black rounded-lg">
+          {(['albums', 'playlists'] as DiffKind[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setKind(option)}
+              className={cn(
+                'px-3 py-2 rounded-xs font-bold capitalize transition-all flex items-center gap-2',
+                kind === option && 'bg-yellow-200'
+              )}
+            >
+              {option === 'albums' ? (
+                <Disc className="w-4 h-4" />
+              ) : (
+                <ListMusic className="w-4 h-4" />
+              )}
+              {option}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2 p-1 bg-white border-2 border-black rounded-lg">
+          {BUCKETS.map(({ id, label }) => (
+            <button
+              key={id}
+              onClick={() => setBucket(id)}
+              className={cn(
+                'px-3 py-2 rounded-xs font-bold transition-all',
+                bucket === id && 'bg-yellow-200'
+              )}
+            >
+              {label} ({counts[id]})
+            </button>
+          ))}
+        </div>
+
+        {source && missing.length > 0 && (
+          <button
+            onClick={() =>
+              setTransfer({
+                sourceService: source,
+                itemType: kind === 'albums' ? 'album' : 'playlist',
+                items: missing,
+              })
+            }
+            className={cn(
+              'ml-auto px-4 py-2 border-2 border-black rounded-lg font-bold bg-green-400 transition-all flex items-center gap-2',
+              'hover:shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] hover:translate-x-[-2px] hover:translate-y-[-2px]'
+            )}
+          >
+            <ArrowRightLeft className="w-4 h-4" />
+            Transfer {missing.length} to {targetName}
+          </button>
+        )}
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="text-center text-gray-600">
+          {searchQuery
+            ? 'Nothing here matches your search.'
+            : bucket === 'both'
+              ? `None of your ${kind} are saved on both services yet.`
+              : `All of your ${kind} are on both services.`}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {visible.map((entry) => {
+            const item = entry.spotify || entry.appleMusic!;
+            return (
+              <div
+                key={entry.key}
+                className="flex items-center gap-4 bg-white border-4 border-black p-3 rounded-lg shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]"
+              >
+                {item.image_url ? (
+                  <img
+                    src={item.image_url}
+                    alt={entry.name}
+                    className="w-14 h-14 object-cover rounded-lg"
+                  />
+                ) : (
+                  <div className="w-14 h-14 flex items-center justify-center bg-gray-200 rounded-lg">
+                    {kind === 'albums' ? (
+                      <Disc className="w-6 h-6" />
+                    ) : (
+                      <ListMusic className="w-6 h-6" />
+                    )}
+                  </div>
+                )}
+                <div className="flex-1 min-w-0">
+                  <h3 className="font-bold truncate">{entry.name}</h3>
+                  <p className="text-gray-600 truncate">{entry.subtitle}</p>
+                </div>
+                {entry.matchedBy && (
+                  <span className="text-xs text-gray-500">
+                    Matched by {entry.matchedBy === 'upc' ? 'UPC' : 'name'}
+                  </span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {transfer && (
+        <BulkTransferModal
+          open={!!transfer}
+          onOpenChange={(open) => !open && setTransfer(null)}
+          sourceService={transfer.sourceService}
+          items={transfer.items}
+          itemType={transfer.itemType}
+          userId={user!.id}
+          onTransferComplete={() => {
+            queryClient.invalidateQueries({ queryKey: ['libraryDiff'] });
+          }}
+        />
+      )}
+    </div>
+  );
+}
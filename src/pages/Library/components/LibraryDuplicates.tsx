@@ -0,0 +1,251 @@
+import { useAuth } from '@/contexts/auth-context';
+import {
+  DuplicateGroup,
+  getLibraryDuplicates,
+} from '@/lib/services/library-duplicates';
+import {
+  removeAlbumsFromLibrary,
+  removePlaylistsFromLibrary,
+  supportsLibraryRemoval,
+} from '@/lib/services/library-removals';
+import { ServiceType, UserAlbum, UserPlaylist } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Check, Disc, ListMusic, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import { toast } from 'sonner';
+
+type DuplicateKind = 'albums' | 'playlists';
+
+const MATCH_LABELS = {
+  upc: 'Same UPC',
+  name: 'Same title and artist',
+  tracks: 'Mostly the same tracks',
+};
+
+interface LibraryDuplicatesProps {
+  service: ServiceType;
+}
+
+interface DuplicateCardProps {
+  group: DuplicateGroup<UserAlbum | UserPlaylist>;
+  kind: DuplicateKind;
+  canRemove: boolean;
+  removing: boolean;
+  onRemove: (keep: UserAlbum | UserPlaylist) => void;
+}
+
+function describe(item: UserAlbum | UserPlaylist) {
+  const details = [
+    'artist_name' in item ? item.artist_name : item.owner_name,
+    `${item.tracks_count || 0} tracks`,
+    'release_date' in item && item.release_date?.slice(0, 4),
+  ];
+  return details.filter(Boolean).join(' · ');
+}
+
+function DuplicateCard({
+  group,
+  kind,
+  canRemove,
+  removing,
+  onRemove,
+}: DuplicateCardProps) {
+  const [keepId, setKeepId] = useState(group.items[0].id);
+  const keep = group.items.find((item) => item.id === keepId)!;
+
+  return (
+    <div className="bg-white border-4 border-black p-4 rounded-lg shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="font-bold">{group.name}</h3>
+          <p className="text-xs text-gray-500">
+            {group.items.length} versions · {MATCH_LABELS[group.matchedBy]}
+          </p>
+        </div>
+        {canRemove && (
+          <button
+            onClick={() => onRemove(keep)}
+            disabled={removing}
+            className={cn(
+              'px-4 py-2 border-2 border-black rounded-lg font-bold bg-red-200 transition-all flex items-center gap-2',
+              'hover:shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] hover:translate-x-[-2px] hover:translate-y-[-2px]',
+              'disabled:opacity-50 disabled:pointer-events-none'
+            )}
+          >
+            <Trash2 className="w-4 h-4" />
+            {removing
+              ? 'Removing...'
+              : `Remove ${group.items.length - 1} other${
+                  group.items.length > 2 ? 's' : ''
+                }`}
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3">
+        {group.items.map((item) => (
+          <button
+            key={item.id}
+            onClick={() => setKeepId(item.id)}
+            className={cn(
+              'relative text-left p-2 border-2 border-black rounded-lg transition-all',
+              item.id === keepId ? 'bg-yellow-200' : 'bg-white opacity-75'
+            )}
+          >
+            {item.image_url ? (
+              <img
+                src={item.image_url}
+                alt={item.name}
+                className="aspect-square w-full object-cover rounded-lg mb-2"
+              />
+            ) : (
+              <div className="aspect-square w-full flex items-center justify-center bg-gray-200 rounded-lg mb-2">
+                {kind === 'albums' ? (
+                  <Disc className="w-8 h-8" />
+                ) : (
+                  <ListMusic className="w-8 h-8" />
+                )}
+              </div>
+            )}
+            <p className="font-bold truncate">{item.name}</p>
+            <p className="text-sm text-gray-600 truncate">{describe(item)}</p>
+            {item.id === keepId && (
+              <span className="absolute top-3 right-3 flex items-center gap-1 px-2 py-0.5 bg-white border-2 border-black rounded-full text-xs font-bold">
+                <Check className="w-3 h-3" />
+                Keep
+              </span>
+            )}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Albums and playlists saved more than once on the same service
+export function LibraryDuplicates({ service }: LibraryDuplicatesProps) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [kind, setKind] = useState<DuplicateKind>('albums');
+  const [removingKey, setRemovingKey] = useState<string | null>(null);
+  const canRemove = supportsLibraryRemoval(service);
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['libraryDuplicates', service, user?.id],
+    queryFn: () => getLibraryDuplicates(user!.id, service),
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const removeOthers = async (
+    group: DuplicateGroup<UserAlbum | UserPlaylist>,
+    keep: UserAlbum | UserPlaylist
+  ) => {
+    const others = group.items.filter((item) => item.id !== keep.id);
+    if (
+      !confirm(
+        `Keep "${keep.name}" and remove ${others.length} other version${
+          others.length > 1 ? 's' : ''
+        } from your library?`
+      )
+    ) {
+      return;
+    }
+
+    setRemovingKey(group.key);
+    try {
+      if (kind === 'albums') {
+        await removeAlbumsFromLibrary(user!.id, service, others as UserAlbum[]);
+      } else {
+        await removePlaylistsFromLibrary(
+          user!.id,
+          service,
+          others as UserPlaylist[]
+        );
+      }
+      toast.success(
+        `Removed ${others.length} duplicate${others.length > 1 ? 's' : ''}`
+      );
+      queryClient.invalidateQueries({
+        queryKey: ['libraryDuplicates', service],
+      });
+      queryClient.invalidateQueries({ queryKey: ['storedLibrary', service] });
+      queryClient.invalidateQueries({ queryKey: ['recentlyRemoved', service] });
+    } catch (error) {
+      console.error('Failed to remove duplicates:', error);
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to remove duplicates'
+      );
+    } finally {
+      setRemovingKey(null);
+    }
+  };
+
+  if (isError) {
+    return (
+      <div className="text-center text-brand-pink">
+        An error occurred while looking for duplicates. Please try again.
+      </div>
+    );
+  }
+
+  if (isLoading || !data) {
+    return (
+      <div className="text-center text-gray-600">Looking for duplicates...</div>
+    );
+  }
+
+  const groups: DuplicateGroup<UserAlbum | UserPlaylist>[] = data[kind];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2 p-1 bg-white border-2 border-black rounded-lg w-fit">
+        {(['albums', 'playlists'] as DuplicateKind[]).map((option) => (
+          <button
+            key={option}
+            onClick={() => setKind(option)}
+            className={cn(
+              'px-3 py-2 rounded-xs font-bold capitalize transition-all flex items-center gap-2',
+              kind === option && 'bg-yellow-200'
+            )}
+          >
+            {option === 'albums' ? (
+              <Disc className="w-4 h-4" />
+            ) : (
+              <ListMusic className="w-4 h-4" />
+            )}
+            {option} ({data[option].length})
+          </button>
+        ))}
+      </div>
+
+      {!canRemove && groups.length > 0 && (
+        <div className="p-3 bg-yellow-100 border-2 border-black rounded-lg text-sm">
+          Apple Music doesn't let other apps remove items from your library.
+          Remove the extra versions in the Music app and they'll drop off here
+          after the next sync.
+        </div>
+      )}
+
+      {groups.length === 0 ? (
+        <div className="text-center text-gray-600">
+          No duplicate {kind} found in your library.
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {groups.map((group) => (
+            <DuplicateCard
+              key={group.key}
+              group={group}
+              kind={kind}
+              canRemove={canRemove}
+              removing={removingKey === group.key}
+              onRemove={(keep) => removeOthers(group, keep)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
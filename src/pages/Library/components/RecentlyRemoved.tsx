@@ -0,0 +1,170 @@
+import { useAuth } from '@/contexts/auth-context';
+import {
+  canRestorePlaylist,
+  getRecentlyRemoved,
+  restoreRemovedAlbum,
+  restoreRemovedPlaylist,
+} from '@/lib/services/library-removals';
+import { ServiceType, UserAlbum, UserPlaylist } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Disc, ListMusic, Undo2 } from 'lucide-react';
+import { useState } from 'react';
+import { toast } from 'sonner';
+
+interface RecentlyRemovedProps {
+  service: ServiceType;
+}
+
+interface RemovedItemProps {
+  name: string;
+  subtitle: string;
+  imageUrl?: string;
+  icon: React.ReactNode;
+  removedAt: string;
+  restoring: boolean;
+  onRestore?: () => void;
+}
+
+function RemovedItem({
+  name,
+  subtitle,
+  imageUrl,
+  icon,
+  removedAt,
+  restoring,
+  onRestore,
+}: RemovedItemProps) {
+  return (
+    <div className="flex items-center gap-4 bg-white border-4 border-black p-3 rounded-lg shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]">
+      {imageUrl ? (
+        <img
+          src={imageUrl}
+          alt={name}
+          className="w-14 h-14 object-cover rounded-lg grayscale"
+        />
+      ) : (
+        <div className="w-14 h-14 flex items-center justify-center bg-gray-200 rounded-lg">
+          {icon}
+        </div>
+      )}
+      <div className="flex-1 min-w-0">
+        <h3 className="font-bold truncate">{name}</h3>
+        <p className="text-gray-600 truncate">{subtitle}</p>
+        <p className="text-xs text-gray-500">
+          Removed {new Date(removedAt).toLocaleDateString()}
+        </p>
+      </div>
+      {onRestore ? (
+        <button
+          onClick={onRestore}
+          disabled={restoring}
+          className={cn(
+            'px-4 py-2 border-2 border-black rounded-lg font-bold bg-yellow-200 transition-all flex items-center gap-2',
+            'hover:shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] hover:translate-x-[-2px] hover:translate-y-[-2px]',
+            'disabled:opacity-50 disabled:pointer-events-none'
+          )}
+        >
+          <Undo2 className="w-4 h-4" />
+          {restoring ? 'Restoring...' : 'Restore'}
+        </button>
+      ) : (
+        <span className="text-sm text-gray-500">Can't be restored</span>
+      )}
+    </div>
+  );
+}
+
+// Albums and playlists the library sync found missing from the service
+export function RecentlyRemoved({ service }: RecentlyRemovedProps) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['recentlyRemoved', service, user?.id],
+    queryFn: () => getRecentlyRemoved(user!.id, service),
+    enabled: !!user,
+  });
+
+  const restore = async (
+    id: string,
+    name: string,
+    run: () => Promise<void>
+  ) => {
+    setRestoringId(id);
+    try {
+      await run();
+      toast.success(`Restored "${name}" to your library`);
+      queryClient.invalidateQueries({ queryKey: ['recentlyRemoved', service] });
+      queryClient.invalidateQueries({ queryKey: ['storedLibrary', service] });
+    } catch (error) {
+      console.error('Failed to restore item:', error);
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to restore item'
+      );
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (isError) {
+    return (
+      <div className="text-center text-brand-pink">
+        An error occurred while loading removed items. Please try again.
+      </div>
+    );
+  }
+
+  if (isLoading || !data) {
+    return <div className="text-center text-gray-600">Loading...</div>;
+  }
+
+  if (!data.albums.length && !data.playlists.length) {
+    return (
+      <div className="text-center text-gray-600">
+        Nothing has been removed from your library in the last 30 days.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {data.albums.map((album: UserAlbum) => (
+        <RemovedItem
+          key={album.id}
+          name={album.name}
+          subtitle={album.artist_name}
+          imageUrl={album.image_url}
+          icon={<Disc className="w-6 h-6" />}
+          removedAt={album.removed_at!}
+          restoring={restoringId === album.id}
+          onRestore={() =>
+            restore(album.id, album.name, () =>
+              restoreRemovedAlbum(user!.id, album)
+            )
+          }
+        />
+      ))}
+      {data.playlists.map((playlist: UserPlaylist) => (
+        <RemovedItem
+          key={playlist.id}
+          name={playlist.name}
+          subtitle="Playlist"
+          imageUrl={playlist.image_url}
+          icon={<ListMusic className="w-6 h-6" />}
+          removedAt={playlist.removed_at!}
+          restoring={restoringId === playlist.id}
+          onRestore={
+            canRestorePlaylist(playlist)
+              ? () =>
+                  restore(playlist.id, playlist.name, () =>
+                    restoreRemovedPlaylist(user!.id, playlist)
+                  )
+              : undefined
+          }
+        />
+      ))}
+    </div>
+  );
+}
@@ -457,6 +457,11 @@ import {
   Grid,
   List,
   RefreshCw,
+  Trash2,
+  GitCompare,
+  CopyX,
+  Download,
+  Upload,
   AlignJustify as Spotify,
   Music2,
 } from "lucide-react";
@@ -465,10 +470,19 @@ import { toast } from "sonner";
 import { cn } from "../../lib/utils";
 import { useAuth } from "@/contexts/auth-context";
 import { useDebounce } from "@/hooks/useDebounce";
-import { getStoredLibrary, syncLibrary } from "@/lib/services";
+import { getStoredLibrary } from "@/lib/services";
+import { requestLibrarySync } from "@/lib/services/library-sync";
 import { getUserServices } from "@/lib/services/streaming-auth";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { ServiceType, ViewMode, Album } from "@/lib/types";
+import { LibraryDiff } from "./components/LibraryDiff";
+import { LibraryDuplicates } from "./components/LibraryDuplicates";
+import { RecentlyRemoved } from "./components/RecentlyRemoved";
+import { ExportLibraryDialog } from "@/shared/modals/ExportLibraryDialog";
+import { ImportPlaylistModal } from "@/shared/modals/ImportPlaylistModal";
+
+// What the content area shows below the controls
+type LibraryPanel = "albums" | "removed" | "compare" | "duplicates";
 
 export const Library = () => {
   const navigate = useNavigate();
@@ -478,6 +492,9 @@ export const Library = () => {
   const [searchParams, setSearchParams] = useSearchParams();
   const [searchQuery, setSearchQuery] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [panel, setPanel] = useState<LibraryPanel>("albums");
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
 
   const debouncedSearchQuery = useDebounce(searchQuery, 300);
 
@@ -526,6 +543,9 @@ export const Library = () => {
   });
 
   const isServiceConnected = userServices?.includes(activeService);
+  const streamingServices = (userServices || []).filter(
+    (service): service is ServiceType => service !== "lastfm"
+  );
 
   // Query for library data
   const { data, isError } = useQuery({
@@ -612,9 +632,9 @@ export const Library = () => {
         return;
       }
 
-      await syncLibrary(user!.id, activeService);
-      await queryClient.invalidateQueries(["storedLibrary", activeService]);
-      toast.success("Library refreshed successfully!");
+      // The sync worker picks it up, the library reloads when it finishes
+      await requestLibrarySync(user!.id, activeService);
+      toast.success("Library sync started");
     } catch (error) {
       console.error("Failed to refresh library:", error);
       toast.error("Failed to refresh library. Please try again.");
@@ -633,6 +653,9 @@ export const Library = () => {
     });
   };
 
+  const togglePanel = (next: LibraryPanel) =>
+    setPanel((current) => (current === next ? "albums" : next));
+
   const filteredAlbums = filterItems(
     data?.albums || [],
     debouncedSearchQuery,
@@ -678,6 +701,64 @@ export const Library = () => {
               >
                 <RefreshCw className="w-5 h-5" />
               </button>
+              <button
+                onClick={() => togglePanel("compare")}
+                title="Compare services"
+                className={cn(
+                  "p-3 border-2 border-black rounded-lg transition-all",
+                  "hover:shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] hover:translate-x-[-2px] hover:translate-y-[-2px]",
+                  "active:shadow-[0px_0px_0px_0px_rgba(0,0,0,1)] active:translate-x-[0px] active:translate-y-[0px]",
+                  panel === "compare" && "bg-yellow-200"
+                )}
+              >
+                <GitCompare className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => togglePanel("duplicates")}
+                title="Find duplicates"
+                className={cn(
+                  "p-3 border-2 border-black rounded-lg transition-all",
+                  "hover:shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] hover:translate-x-[-2px] hover:translate-y-[-2px]",
+                  "active:shadow-[0px_0px_0px_0px_rgba(0,0,0,1)] active:translate-x-[0px] active:translate-y-[0px]",
+                  panel === "duplicates" && "bg-yellow-200"
+                )}
+              >
+                <CopyX className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => setIsExportOpen(true)}
+                title="Export library"
+                className={cn(
+                  "p-3 border-2 border-black rounded-lg transition-all",
+                  "hover:shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] hover:translate-x-[-2px] hover:translate-y-[-2px]",
+                  "active:shadow-[0px_0px_0px_0px_rgba(0,0,0,1)] active:translate-x-[0px] active:translate-y-[0px]"
+                )}
+              >
+                <Download className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => setIsImportOpen(true)}
+                title="Import playlists"
+                className={cn(
+                  "p-3 border-2 border-black rounded-lg transition-all",
+                  "hover:shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] hover:translate-x-[-2px] hover:translate-y-[-2px]",
+                  "active:shadow-[0px_0px_0px_0px_rgba(0,0,0,1)] active:translate-x-[0px] active:translate-y-[0px]"
+                )}
+              >
+                <Upload className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => togglePanel("removed")}
+                title="Recently removed"
+                className={cn(
+                  "p-3 border-2 border-black rounded-lg transition-all",
+                  "hover:shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] hover:translate-x-[-2px] hover:translate-y-[-2px]",
+                  "active:shadow-[0px_0px_0px_0px_rgba(0,0,0,1)] active:translate-x-[0px] active:translate-y-[0px]",
+                  panel === "removed" && "bg-yellow-200"
+                )}
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
             </div>
           </div>
         </div>
@@ -725,55 +806,87 @@ export const Library = () => {
       </div>
 
       <div className="flex-1 overflow-y-auto px-8 pb-8">
-        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
-          {isError ? (
-            <div className="text-center text-brand-pink col-span-full">
-              An error occurred while loading your library. Please try again.
-            </div>
-          ) : !data?.albums ? (
-            // Loading state
-            Array.from({ length: 16 }).map((_, i) => (
-              <motion.div
-                key={i}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ duration: 0.3, delay: i * 0.05 }}
-                className={cn(
-                  "bg-white border-4 border-black p-4 rounded-lg transition-all",
-                  "hover:shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] hover:translate-x-[-2px] hover:translate-y-[-2px]",
-                  "shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]"
-                )}
-              >
-                <div className="aspect-square bg-gray-200 rounded-lg mb-4" />
-                <div className="h-4 bg-gray-200 rounded-xs mb-2" />
-                <div className="h-4 bg-gray-200 rounded-xs w-2/3" />
-              </motion.div>
-            ))
-          ) : (
-            filteredAlbums.map((album, i) => (
-              <motion.div
-                key={album.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ duration: 0.3, delay: i * 0.05 }}
-                className={cn(
-                  "bg-white border-4 border-black p-4 rounded-lg transition-all",
-                  "hover:shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] hover:translate-x-[-2px] hover:translate-y-[-2px]",
-                  "shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]"
-                )}
-              >
-                <img
-                  src={album.artwork.url}
-                  alt={album.name}
-                  className="aspect-square object-cover rounded-lg mb-4"
-                />
-                <h3 className="font-bold truncate">{album.name}</h3>
-                <p className="text-gray-600 truncate">{album.artistName}</p>
-              </motion.div>
-            ))
-          )}
-        </div>
+        {panel === "compare" ? (
+          <LibraryDiff searchQuery={debouncedSearchQuery} />
+        ) : panel === "duplicates" ? (
+          <LibraryDuplicates service={activeService} />
+        ) : panel === "removed" ? (
+          <RecentlyRemoved service={activeService} />
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+            {isError ? (
+              <div className="text-center text-brand-pink col-span-full">
+                An error occurred while loading your library. Please try again.
+              </div>
+            ) : !data?.albums ? (
+              // Loading state
+              Array.from({ length: 16 }).map((_, i) => (
+                <motion.div
+                  key={i}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.3, delay: i * 0.05 }}
+                  className={cn(
+                    "bg-white border-4 border-black p-4 rounded-lg transition-all",
+                    "hover:shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] hover:translate-x-[-2px] hover:translate-y-[-2px]",
+                    "shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]"
+                  )}
+                >
+                  <div className="aspect-square bg-gray-200 rounded-lg mb-4" />
+                  <div className="h-4 bg-gray-200 rounded-xs mb-2" />
+                  <div className="h-4 bg-gray-200 rounded-xs w-2/3" />
+                </motion.div>
+              ))
+            ) : (
+              filteredAlbums.map((album, i) => (
+                <motion.div
+                  key={album.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.3, delay: i * 0.05 }}
+                  className={cn(
+                    "bg-white border-4 border-black p-4 rounded-lg transition-all",
+                    "hover:shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] hover:translate-x-[-2px] hover:translate-y-[-2px]",
+                    "shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]"
+                  )}
+                >
+                  <img
+                    src={album.artwork.url}
+                    alt={album.name}
+                    className="aspect-square object-cover rounded-lg mb-4"
+                  />
+                  <h3 className="font-bold truncate">{album.name}</h3>
+                  <p className="text-gray-600 truncate">{album.artistName}</p>
+                </motion.div>
+              ))
+            )}
+          </div>
+        )}
       </div>
+
+      {user && (
+        <ExportLibraryDialog
+          open={isExportOpen}
+          onOpenChange={setIsExportOpen}
+          userId={user.id}
+          service={activeService}
+          services={streamingServices}
+          albumCount={data?.albums?.length || 0}
+          playlistCount={data?.playlists?.length || 0}
+        />
+      )}
+
+      {user && (
+        <ImportPlaylistModal
+          open={isImportOpen}
+          onOpenChange={setIsImportOpen}
+          userId={user.id}
+          services={streamingServices}
+          onImportComplete={() =>
+            queryClient.invalidateQueries({ queryKey: ["storedLibrary"] })
+          }
+        />
+      )}
     </div>
   );
 };
@@ -3,6 +3,7 @@ import { useLastFm } from "@/contexts/last-fm-context";
 import { useConnectedServices } from "@/lib/hooks/useConnectedServices";
 import { supabase } from "@/lib/supabase";
 import { ServiceConnection } from "@/shared/services/ServiceConnection";
+import { PlanUsage } from "./components/PlanUsage";
 import { format } from "date-fns";
 import { motion } from "framer-motion";
 import { LogOut, Music, Music2, Radio, Trash2, User } from "lucide-react";
@@ -120,6 +121,9 @@ export default function Settings() {
             </div>
           </motion.div>
 
+          {/* Plan and usage */}
+          <PlanUsage />
+
           {/* Connected Services */}
           <div className="space-y-3">
             {services.map((service, index) => (
@@ -0,0 +1,119 @@
+import { UpgradePlanModal } from "@/components/modals/UpgradePlanModal";
+import { Progress } from "@/components/ui/progress";
+import { useAuth } from "@/contexts/auth-context";
+import {
+  getEntitlements,
+  getUsage,
+  PLAN_NAMES,
+} from "@/lib/services/entitlements";
+import { cn } from "@/lib/utils";
+import { useQuery } from "@tanstack/react-query";
+import { motion } from "framer-motion";
+import { Gauge } from "lucide-react";
+import { useState } from "react";
+
+interface UsageRowProps {
+  label: string;
+  used: number;
+  limit: number | null;
+}
+
+function UsageRow({ label, used, limit }: UsageRowProps) {
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-1">
+        <span className="font-bold">{label}</span>
+        <span>
+          {used} / {limit === null ? "Unlimited" : limit}
+        </span>
+      </div>
+      {limit !== null && (
+        <Progress
+          value={Math.min((used / limit) * 100, 100)}
+          className="h-3 border-2 border-black bg-white"
+        />
+      )}
+    </div>
+  );
+}
+
+export function PlanUsage() {
+  const { user } = useAuth();
+  const [showPlans, setShowPlans] = useState(false);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["planUsage", user?.id],
+    queryFn: async () => {
+      const [entitlements, usage] = await Promise.all([
+        getEntitlements(user!.id),
+        getUsage(user!.id),
+      ]);
+      return { ...entitlements, usage };
+    },
+    enabled: !!user,
+  });
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={cn(
+        "bg-blue-100 border-4 border-black p-4 rounded-lg",
+        "shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]"
+      )}
+    >
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Gauge className="w-5 h-5" />
+          <h2 className="text-xl font-bold">
+            {data ? `${PLAN_NAMES[data.tier]} plan` : "Plan"}
+          </h2>
+        </div>
+        <button
+          onClick={() => setShowPlans(true)}
+          className={cn(
+            "px-4 py-1.5 bg-white border-2 border-black rounded-lg text-sm font-bold transition-all",
+            "hover:shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]",
+            "hover:translate-x-[-2px] hover:translate-y-[-2px]"
+          )}
+        >
+          Compare Plans
+        </button>
+      </div>
+
+      {isLoading || !data ? (
+        <p className="text-sm">Loading usage...</p>
+      ) : (
+        <div className="space-y-3">
+          <UsageRow
+            label="Connected services"
+            used={data.usage.connectedServices}
+            limit={data.limits.connectedServices}
+          />
+          <UsageRow
+            label="Transfers this month"
+            used={data.usage.transfersThisMonth}
+            limit={data.limits.transfersPerMonth}
+          />
+          <UsageRow
+            label="Synced playlists"
+            used={data.usage.syncPairs}
+            limit={data.limits.syncPairs}
+          />
+          <p className="text-sm">
+            {data.limits.playlistsPerBulkTransfer === null
+              ? "No limit on playlists per bulk transfer"
+              : `Up to ${data.limits.playlistsPerBulkTransfer} playlists per bulk transfer`}
+            , synced at most {data.limits.minSyncFrequency}
+          </p>
+        </div>
+      )}
+
+      <UpgradePlanModal
+        open={showPlans}
+        onClose={() => setShowPlans(false)}
+        currentTier={data?.tier}
+      />
+    </motion.div>
+  );
+}
@@ -4,24 +4,32 @@ import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { ServiceSelector } from '@/components/ui/service-selector';
 import { useToast } from '@/components/ui/use-toast';
 import { useAuth } from '@/contexts/auth-context';
+import { supabase } from '@/lib/supabase';
 import { getServiceAuth } from '@/lib/services/streaming-auth';
+import {
+  isTransferActive,
+  PREVIEW_TRANSFER_STATUS,
+  TransferCheckpoint,
+} from '@/lib/services/transfer-jobs';
+import {
+  commitTransferPreview,
+  discardTransferPreview,
+  getTransferPreview,
+  isSelectedByDefault,
+} from '@/lib/services/transfer-preview';
 import {
   TransferProgress,
   transferLibrary,
 } from '@/lib/services/transfer-service';
+import { TransferPreviewList } from '@/shared/components/TransferPreviewList';
 import { cn } from '@/lib/utils';
+import { useQuery } from '@tanstack/react-query';
 import { motion } from 'framer-motion';
 import { ArrowRight, CheckCircle } from 'lucide-react';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { TransferLog } from './TransferLog';
 import { Header } from './components/Header';
 
-interface LogEntry {
-  type: 'info' | 'success' | 'error';
-  message: string;
-  timestamp: Date;
-}
-
 export default function Transfer() {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -31,56 +39,111 @@ export default function Transfer() {
   const [toService, setToService] = useState<'spotify' | 'apple-music'>(
     'apple-music'
   );
-  const [isTransferring, setIsTransferring] = useState(false);
-  const [isCompleted, setIsCompleted] = useState(false);
-  const [progress, setProgress] = useState<TransferProgress>({
-    current: 0,
-    total: 0,
-    stage: 'processing',
+  const [transferId, setTransferId] = useState<string | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [isCommitting, setIsCommitting] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  // Library transfers run on the job worker, so reopening the page picks the
+  // latest one back up instead of starting over
+  const { data: transfer, refetch: refetchTransfer } = useQuery({
+    queryKey: ['library-transfer', user?.id, transferId],
+    queryFn: async () => {
+      let query = supabase.from('transfers').select('*');
+      query = transferId
+        ? query.eq('id', transferId)
+        : query
+            .eq('user_id', user!.id)
+            .eq('job_type', 'library')
+            .in('status', ['queued', 'in_progress', PREVIEW_TRANSFER_STATUS]);
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+    refetchInterval: (query) =>
+      !query.state.data || isTransferActive(query.state.data.status)
+        ? 3000
+        : false,
   });
-  const [logs, setLogs] = useState<LogEntry[]>([]);
 
-  const addLog = (type: LogEntry['type'], message: string) => {
-    setLogs((prev) => [...prev, { type, message, timestamp: new Date() }]);
-    if (message.includes('Transfer complete')) {
-      setIsCompleted(true);
-      setIsTransferring(false);
-    }
+  useEffect(() => {
+    if (!transfer) return;
+    if (!transferId) setTransferId(transfer.id);
+    setFromService(transfer.source_service);
+    setToService(transfer.destination_service);
+  }, [transfer, transferId]);
+
+  const isPreview = transfer?.status === PREVIEW_TRANSFER_STATUS;
+
+  const { data: preview } = useQuery({
+    queryKey: ['transfer-preview', transfer?.id],
+    queryFn: () => getTransferPreview(transfer!.id),
+    enabled: isPreview,
+  });
+
+  const previewItems = preview || [];
+
+  useEffect(() => {
+    setSelected(
+      new Set(
+        (preview || []).filter(isSelectedByDefault).map((item) => item.key)
+      )
+    );
+  }, [preview]);
+
+  const checkpoint = transfer?.checkpoint as TransferCheckpoint | null;
+  const isTransferring = isStarting || isTransferActive(transfer?.status);
+  const isCompleted =
+    transfer?.status === 'completed' || transfer?.status === 'success';
+  const progress: TransferProgress = {
+    current: checkpoint?.current || 0,
+    total: checkpoint?.total || 0,
+    stage: (checkpoint?.stage as TransferProgress['stage']) || 'processing',
   };
+  const logs = (checkpoint?.log || []).map((entry) => ({
+    ...entry,
+    timestamp: new Date(entry.timestamp),
+  }));
 
-  const handleTransfer = async () => {
+  const handleTransfer = async (dryRun = false) => {
     if (!user) return;
 
-    setIsTransferring(true);
-    setIsCompleted(false);
-    setLogs([]); // Clear previous logs
-    setProgress({ current: 0, total: 0, stage: 'processing' });
+    setIsStarting(true);
 
     try {
-      // Get Apple Music token from streaming auth service
-      const appleMusicAuth = await getServiceAuth(user.id, 'apple-music');
-      if (!appleMusicAuth?.musicUserToken) {
-        throw new Error(
-          'Apple Music authentication required. Please connect your Apple Music account first.'
-        );
+      // The worker uses the stored tokens, make sure they exist before queuing
+      for (const service of [fromService, toService]) {
+        const auth = await getServiceAuth(user.id, service);
+        const hasToken =
+          service === 'apple-music' ? auth?.musicUserToken : auth?.accessToken;
+        if (!hasToken) {
+          throw new Error(
+            `${
+              service === 'spotify' ? 'Spotify' : 'Apple Music'
+            } authentication required. Please connect your account first.`
+          );
+        }
       }
 
-      await transferLibrary(
+      const job = await transferLibrary(
         user.id,
         fromService,
         toService,
-        {
-          spotify_token: user.spotify_token,
-          apple_music_token: appleMusicAuth.musicUserToken,
-        },
-        setProgress,
-        addLog
+        dryRun
       );
+      setTransferId(job.id);
 
       toast({
-        title: 'Transfer Started',
-        description:
-          'Your transfer has started and will continue in the background.',
+        title: dryRun ? 'Preview Started' : 'Transfer Started',
+        description: dryRun
+          ? 'Matching your library. Nothing is added until you commit.'
+          : 'Your transfer has started and will continue even if you close this tab.',
       });
     } catch (error) {
       console.error('Transfer failed:', error);
@@ -92,7 +155,44 @@ export default function Transfer() {
             : 'An error occurred during the transfer. Please try again.',
         variant: 'destructive',
       });
-      setIsTransferring(false);
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!transfer) return;
+
+    setIsCommitting(true);
+    try {
+      const committed = await commitTransferPreview(
+        transfer.id,
+        previewItems,
+        selected
+      );
+      if (!committed) setTransferId(null);
+      await refetchTransfer();
+    } catch (error) {
+      console.error('Failed to commit preview:', error);
+      toast({
+        title: 'Transfer Failed',
+        description:
+          error instanceof Error ? error.message : 'Failed to start transfer',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsCommitting(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!transfer) return;
+
+    try {
+      await discardTransferPreview(transfer.id);
+      setTransferId(null);
+    } catch (error) {
+      console.error('Failed to discard preview:', error);
     }
   };
 
@@ -177,7 +277,9 @@ export default function Transfer() {
                           {progress.stage === 'processing' &&
                             `Processing ${progress.current.toLocaleString()} of ${progress.total.toLocaleString()} albums`}
                           {progress.stage === 'matching' &&
-                            `Matching ${progress.current.toLocaleString()} of ${progress.total.toLocaleString()} albums in Apple Music`}
+                            `Matching ${progress.current.toLocaleString()} of ${progress.total.toLocaleString()} albums in ${
+                              toService === 'spotify' ? 'Spotify' : 'Apple Music'
+                            }`}
                           {progress.stage === 'adding' &&
                             `Adding ${progress.current.toLocaleString()} of ${progress.total.toLocaleString()} albums to your library`}
                         </p>
@@ -198,27 +300,87 @@ export default function Transfer() {
                   </div>
                 )}
 
+                {transfer?.status === 'failed' && (
+                  <p className="text-sm text-center text-red-400">
+                    Transfer failed: {transfer.error || 'Unknown error'}
+                  </p>
+                )}
+
+                {isPreview && (
+                  <div className="space-y-3 text-white">
+                    <p className="text-sm text-white/80">
+                      Nothing has been added yet. Deselect anything you don't
+                      want, then commit the transfer.
+                    </p>
+                    <TransferPreviewList
+                      items={previewItems}
+                      selected={selected}
+                      onSelectionChange={setSelected}
+                      className="border-white/20"
+                    />
+                  </div>
+                )}
+
                 {/* Action Buttons */}
-                <div className="flex justify-center">
-                  <Button
-                    onClick={handleTransfer}
-                    disabled={isTransferring || fromService === toService}
-                    className={cn(
-                      'bg-white/20 text-white hover:bg-white/30 border-0',
-                      (isTransferring || fromService === toService) &&
-                        'opacity-50'
+                {isPreview ? (
+                  <div className="flex justify-center gap-3">
+                    <Button
+                      onClick={handleDiscard}
+                      disabled={isCommitting}
+                      className="bg-transparent text-white hover:bg-white/10 border-white/20"
+                    >
+                      Discard
+                    </Button>
+                    <Button
+                      onClick={handleCommit}
+                      disabled={isCommitting || selected.size === 0}
+                      className={cn(
+                        'bg-white/20 text-white hover:bg-white/30 border-0',
+                        (isCommitting || selected.size === 0) && 'opacity-50'
+                      )}
+                    >
+                      {isCommitting && (
+                        <LoadingSpinner className="mr-2 h-4 w-4 text-white" />
+                      )}
+                      Commit {selected.size.toLocaleString()} albums
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex justify-center gap-3">
+                    {!isTransferring && (
+                      <Button
+                        onClick={() => handleTransfer(true)}
+                        disabled={fromService === toService}
+                        className={cn(
+                          'bg-transparent text-white hover:bg-white/10 border-white/20',
+                          fromService === toService && 'opacity-50'
+                        )}
+                      >
+                        Preview
+                      </Button>
                     )}
-                  >
-                    {isTransferring ? (
-                      <LoadingSpinner className="mr-2 h-4 w-4 text-white" />
-                    ) : null}
-                    {isTransferring
-                      ? 'Transferring...'
-                      : isCompleted
-                      ? 'Start New Transfer'
-                      : 'Start Transfer'}
-                  </Button>
-                </div>
+                    <Button
+                      onClick={() => handleTransfer()}
+                      disabled={isTransferring || fromService === toService}
+                      className={cn(
+                        'bg-white/20 text-white hover:bg-white/30 border-0',
+                        (isTransferring || fromService === toService) &&
+                          'opacity-50'
+                      )}
+                    >
+                      {isTransferring ? (
+                        <LoadingSpinner className="mr-2 h-4 w-4 text-white" />
+                      ) : null}
+                      {isTransferring
+                        ? transfer?.status === 'queued'
+                          ? 'Queued...'
+                          : 'Transferring...'
+                        : isCompleted
+                        ? 'Start New Transfer'
+                        : 'Start Transfer'}
+                    </Button>
+                  </div>
+                )}
               </div>
             </div>
           </Card>
@@ -1,25 +1,49 @@
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { LoadingSpinner } from "@/components/ui/loading-spinner";
 import { useAuth } from "@/contexts/auth-context";
 import { supabase } from "@/lib/supabase";
+import {
+  getTransferItemCounts,
+  TransferRunMode,
+} from "@/lib/services/transfer-items";
+import {
+  isTransferActive,
+  requeueTransfer,
+} from "@/lib/services/transfer-jobs";
+import {
+  getPendingReviewItems,
+  TransferReviewItem,
+} from "@/lib/services/transfer-review";
 import { ServiceType } from "@/lib/types";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { formatDistanceToNow } from "date-fns";
 import { motion } from "framer-motion";
 import { cn } from "@/lib/utils";
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
 
 interface Transfer {
   id: string;
   user_id: string;
   source_service: ServiceType;
   destination_service: ServiceType;
-  status: "pending" | "success" | "failed";
+  status:
+    | "queued"
+    | "pending"
+    | "in_progress"
+    | "preview"
+    | "success"
+    | "completed"
+    | "failed";
   created_at: string;
   completed_at: string | null;
   error: string | null;
   tracks_transferred: number;
+  job_type: "library" | "playlist" | "album" | null;
   metadata: {
-    type?: "playlist" | "album";
+    type?: "library" | "playlist" | "album";
     sourcePlaylistId?: string;
     sourcePlaylistName?: string;
     targetPlaylistId?: string;
@@ -28,11 +52,15 @@ interface Transfer {
     sourceAlbumId?: string;
     targetAlbumId?: string;
     sourceAlbumName?: string;
+    reviewItems?: TransferReviewItem[];
   };
 }
 
 export default function TransferHistory() {
   const { user } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [requeueingId, setRequeueingId] = useState<string | null>(null);
 
   const { data: transfers, isLoading } = useQuery({
     queryKey: ["transfers", user?.id],
@@ -53,13 +81,48 @@ export default function TransferHistory() {
       return data as Transfer[];
     },
     enabled: !!user,
+    // Keep queued and running jobs up to date while the worker runs them
+    refetchInterval: (query) =>
+      query.state.data?.some((transfer) => isTransferActive(transfer.status))
+        ? 5000
+        : false,
+  });
+
+  // Only jobs run by the worker track their items and can be resumed
+  const jobIds = (transfers || [])
+    .filter((transfer) => transfer.job_type && !isTransferActive(transfer.status))
+    .map((transfer) => transfer.id);
+
+  const { data: itemCounts } = useQuery({
+    queryKey: ["transfer-item-counts", jobIds],
+    queryFn: () => getTransferItemCounts(jobIds),
+    enabled: jobIds.length > 0,
   });
 
   if (!user) return null;
 
+  const handleRequeue = async (transferId: string, mode: TransferRunMode) => {
+    setRequeueingId(transferId);
+    try {
+      await requeueTransfer(transferId, mode);
+      await queryClient.invalidateQueries({ queryKey: ["transfers", user.id] });
+      toast.success(
+        mode === "retry_failed" ? "Retrying failed items" : "Transfer resumed"
+      );
+    } catch (error) {
+      console.error("Failed to requeue transfer:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to resume transfer"
+      );
+    } finally {
+      setRequeueingId(null);
+    }
+  };
+
   const getStatusStyles = (status: Transfer["status"]) => {
     switch (status) {
       case "success":
+      case "completed":
         return {
           background: "bg-green-100",
           badge: "bg-green-200",
@@ -117,6 +180,15 @@ export default function TransferHistory() {
           <div className="space-y-4 pb-8">
             {transfers.map((transfer, index) => {
               const statusStyles = getStatusStyles(transfer.status);
+              const pendingReview = getPendingReviewItems(transfer.metadata);
+              const failedItems = itemCounts?.[transfer.id]?.failed || 0;
+              const canResume =
+                !!transfer.job_type && transfer.status === "failed";
+              const canRetryFailed =
+                !!transfer.job_type &&
+                !isTransferActive(transfer.status) &&
+                transfer.status !== "preview" &&
+                failedItems > 0;
 
               return (
                 <motion.div
@@ -185,6 +257,49 @@ export default function TransferHistory() {
                       </div>
                     </div>
 
+                    {pendingReview.length > 0 && (
+                      <div className="flex items-center justify-between flex-wrap gap-3">
+                        <div className="text-base">
+                          {pendingReview.length}{" "}
+                          {pendingReview.length === 1 ? "item needs" : "items need"}{" "}
+                          review
+                        </div>
+                        <Button
+                          variant="neutral"
+                          onClick={() =>
+                            navigate(`/transfer-history/${transfer.id}/review`)
+                          }
+                        >
+                          Review unmatched
+                        </Button>
+                      </div>
+                    )}
+
+                    {(canResume || canRetryFailed) && (
+                      <div className="flex items-center gap-3 flex-wrap">
+                        {canResume && (
+                          <Button
+                            variant="neutral"
+                            disabled={requeueingId === transfer.id}
+                            onClick={() => handleRequeue(transfer.id, "resume")}
+                          >
+                            Resume
+                          </Button>
+                        )}
+                        {canRetryFailed && (
+                          <Button
+                            variant="neutral"
+                            disabled={requeueingId === transfer.id}
+                            onClick={() =>
+                              handleRequeue(transfer.id, "retry_failed")
+                            }
+                          >
+                            Retry failed ({failedItems})
+                          </Button>
+                        )}
+                      </div>
+                    )}
+
                     {transfer.error && (
                       <div
                         className={cn(
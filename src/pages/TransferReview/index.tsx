@@ -0,0 +1,335 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { useAuth } from "@/contexts/auth-context";
+import { supabase } from "@/lib/supabase";
+import {
+  applyReviewDecisions,
+  canRemoveGuesses,
+  ReviewDecision,
+  searchReviewCandidates,
+  TransferReviewItem,
+} from "@/lib/services/transfer-review";
+import { MatchCandidate } from "@/lib/services/track-matching";
+import { ServiceType } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { motion } from "framer-motion";
+import { ArrowLeft, Check, Search, SkipForward } from "lucide-react";
+import { useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { toast } from "sonner";
+
+const serviceName = (service: ServiceType) =>
+  service === "apple-music" ? "Apple Music" : "Spotify";
+
+function ReviewItemCard({
+  item,
+  userId,
+  service,
+  canRemoveGuess,
+  decision,
+  onDecide,
+}: {
+  item: TransferReviewItem;
+  userId: string;
+  service: ServiceType;
+  // False when picking a replacement leaves the current match in the playlist
+  canRemoveGuess: boolean;
+  decision?: ReviewDecision;
+  onDecide: (decision: ReviewDecision | undefined) => void;
+}) {
+  const [query, setQuery] = useState(
+    `${item.source.name} ${item.source.artist}`
+  );
+  const [isSearching, setIsSearching] = useState(false);
+  const [results, setResults] = useState<MatchCandidate[] | null>(null);
+
+  const handleSearch = async () => {
+    setIsSearching(true);
+    try {
+      setResults(await searchReviewCandidates(userId, service, item.kind, query));
+    } catch (error) {
+      console.error("Review search failed:", error);
+      toast.error("Search failed. Please try again.");
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const isDone = item.status !== "pending";
+
+  return (
+    <div
+      className={cn(
+        "border-4 border-black rounded-lg p-4 space-y-3",
+        "shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]",
+        isDone ? "bg-gray-100 opacity-70" : "bg-yellow-100"
+      )}
+    >
+      <div className="flex items-start justify-between gap-3 flex-wrap">
+        <div>
+          <div className="font-bold text-lg">{item.source.name}</div>
+          <div className="text-sm">
+            {item.source.artist}
+            {item.kind === "track" && item.source.album
+              ? ` · ${item.source.album}`
+              : ""}
+          </div>
+        </div>
+        <Badge className="px-3 py-1 border-2 border-black rounded-lg font-bold capitalize bg-white">
+          {isDone
+            ? item.status
+            : item.reason === "unmatched"
+            ? "Not found"
+            : `Low confidence (${Math.round(item.confidence * 100)}%)`}
+        </Badge>
+      </div>
+
+      {item.reason === "low_confidence" && item.candidate && (
+        <div className="text-sm">
+          {item.kind === "album" ? "Best guess" : "Added as"}:{" "}
+          <span className="font-bold">{item.candidate.name}</span> by{" "}
+          {item.candidate.artist}
+        </div>
+      )}
+
+      {!isDone &&
+        item.kind === "track" &&
+        item.reason === "low_confidence" &&
+        !canRemoveGuess && (
+          <div className="text-sm font-bold">
+            If you pick another track, this one stays in the playlist next to
+            it.
+            {service === "apple-music"
+              ? " Apple Music doesn't let us remove tracks from a playlist,"
+              : " This transfer doesn't record where it was added,"}{" "}
+            so remove it yourself in {serviceName(service)}.
+          </div>
+        )}
+
+      {!isDone && (
+        <>
+          <div className="flex gap-2">
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSearch()}
+              placeholder={`Search ${serviceName(service)}`}
+            />
+            <Button onClick={handleSearch} disabled={isSearching || !query}>
+              {isSearching ? (
+                <LoadingSpinner className="h-4 w-4" />
+              ) : (
+                <Search />
+              )}
+            </Button>
+          </div>
+
+          {results && (
+            <div className="space-y-2">
+              {results.length === 0 && (
+                <div className="text-sm">No results. Try another search.</div>
+              )}
+              {results.map((candidate) => {
+                const isPicked =
+                  decision?.action === "replace" &&
+                  decision.candidate.id === candidate.id;
+                return (
+                  <button
+                    key={candidate.id}
+                    onClick={() =>
+                      onDecide(
+                        isPicked ? undefined : { action: "replace", candidate }
+                      )
+                    }
+                    className={cn(
+                      "w-full text-left border-2 border-black rounded-lg px-3 py-2",
+                      isPicked ? "bg-green-200" : "bg-white hover:bg-gray-50"
+                    )}
+                  >
+                    <div className="font-bold">{candidate.name}</div>
+                    <div className="text-sm">
+                      {candidate.artist}
+                      {item.kind === "track" && candidate.album
+                        ? ` · ${candidate.album}`
+                        : ""}
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="flex gap-2 flex-wrap">
+            {item.reason === "low_confidence" && (
+              <Button
+                variant={decision?.action === "accept" ? "default" : "neutral"}
+                onClick={() =>
+                  onDecide(
+                    decision?.action === "accept"
+                      ? undefined
+                      : { action: "accept" }
+                  )
+                }
+              >
+                <Check />{" "}
+                {item.kind === "album"
+                  ? "Add this album"
+                  : "Keep current match"}
+              </Button>
+            )}
+            <Button
+              variant={decision?.action === "skip" ? "default" : "neutral"}
+              onClick={() =>
+                onDecide(
+                  decision?.action === "skip" ? undefined : { action: "skip" }
+                )
+              }
+            >
+              <SkipForward /> Skip
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function TransferReview() {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [decisions, setDecisions] = useState<Record<string, ReviewDecision>>(
+    {}
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: transfer, isLoading } = useQuery({
+    queryKey: ["transfer", id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("transfers")
+        .select("*")
+        .eq("id", id)
+        .single();
+
+      if (error) {
+        console.error("Error fetching transfer:", error);
+        throw error;
+      }
+      return data;
+    },
+    enabled: !!user && !!id,
+  });
+
+  if (!user) return null;
+
+  const items: TransferReviewItem[] = transfer?.metadata?.reviewItems || [];
+  const pendingCount = items.filter((item) => item.status === "pending").length;
+  const decisionCount = Object.keys(decisions).length;
+  const service = transfer?.destination_service as ServiceType;
+
+  const handleDecide = (key: string, decision: ReviewDecision | undefined) => {
+    setDecisions((prev) => {
+      const next = { ...prev };
+      if (decision) {
+        next[key] = decision;
+      } else {
+        delete next[key];
+      }
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!id) return;
+    setIsSaving(true);
+    try {
+      await applyReviewDecisions(user.id, id, decisions);
+      setDecisions({});
+      await queryClient.invalidateQueries({ queryKey: ["transfer", id] });
+      await queryClient.invalidateQueries({ queryKey: ["transfers", user.id] });
+      toast.success("Review saved");
+    } catch (error) {
+      console.error("Failed to apply review:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save review"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="h-screen flex flex-col overflow-hidden">
+      <div className="flex-none pt-20 px-8">
+        <Button
+          variant="neutral"
+          className="mb-4"
+          onClick={() => navigate("/transfer-history")}
+        >
+          <ArrowLeft /> Back to history
+        </Button>
+        <motion.h1
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="text-2xl font-bold mb-2"
+        >
+          Review transfer
+        </motion.h1>
+        {transfer && (
+          <p className="mb-6">
+            {transfer.metadata?.sourcePlaylistName ||
+              transfer.metadata?.sourceAlbumName ||
+              "Library"}{" "}
+            → {serviceName(service)} · {pendingCount} of {items.length} items
+            need attention
+          </p>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-8 pb-24">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <LoadingSpinner />
+          </div>
+        ) : items.length === 0 ? (
+          <div
+            className={cn(
+              "bg-green-100 border-4 border-black p-6 rounded-lg text-center",
+              "shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]"
+            )}
+          >
+            <p className="text-lg">Every track in this transfer was matched.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {items.map((item) => (
+              <ReviewItemCard
+                key={item.key}
+                item={item}
+                userId={user.id}
+                service={service}
+                canRemoveGuess={canRemoveGuesses(service, transfer?.metadata)}
+                decision={decisions[item.key]}
+                onDecide={(decision) => handleDecide(item.key, decision)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {decisionCount > 0 && (
+        <div className="fixed bottom-6 right-8">
+          <Button size="lg" onClick={handleSave} disabled={isSaving}>
+            {isSaving && <LoadingSpinner className="h-4 w-4" />}
+            Apply {decisionCount} {decisionCount === 1 ? "change" : "changes"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { hostname } from 'os';
+import { supabase } from '../lib/supabase';
+import {
+  runLibrarySync,
+  SYNCABLE_SERVICES,
+} from '../lib/services/library-sync';
+import { publishToUser } from './realtime';
+import { Database } from '../types/supabase';
+
+type LibrarySyncRecord = Database['public']['Tables']['library_syncs']['Row'];
+
+const WORKER_ID = `${hostname()}:${process.pid}`;
+const POLL_INTERVAL_MS =
+  Number(process.env.LIBRARY_SYNC_POLL_INTERVAL_MS) || 30 * 1000;
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+// A sync whose heartbeat is older than this is considered abandoned
+const STALE_AFTER = '10 minutes';
+
+let stopping = false;
+let currentSync: LibrarySyncRecord | null = null;
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function claimNextSync(): Promise<LibrarySyncRecord | null> {
+  const { data, error } = await supabase.rpc('claim_library_sync', {
+    worker_id: WORKER_ID,
+    services: SYNCABLE_SERVICES,
+    stale_after: STALE_AFTER,
+  });
+
+  if (error) {
+    console.error('Failed to claim library sync:', error);
+    return null;
+  }
+
+  return data?.[0] || null;
+}
+
+async function sendHeartbeat(syncId: string) {
+  const { error } = await supabase
+    .from('library_syncs')
+    .update({ heartbeat_at: new Date().toISOString() })
+    .eq('id', syncId)
+    .eq('claimed_by', WORKER_ID);
+
+  if (error) {
+    console.error(`Failed to heartbeat library sync ${syncId}:`, error);
+  }
+}
+
+async function processSync(sync: LibrarySyncRecord) {
+  currentSync = sync;
+  const heartbeat = setInterval(
+    () => sendHeartbeat(sync.id),
+    HEARTBEAT_INTERVAL_MS
+  );
+
+  try {
+    await runLibrarySync(sync, (event) => publishToUser(sync.user_id, event));
+  } catch (error) {
+    // runLibrarySync has already recorded the failure and rescheduled
+    console.error(
+      `Library sync for ${sync.service} (user ${sync.user_id}) failed:`,
+      error
+    );
+  } finally {
+    clearInterval(heartbeat);
+    currentSync = null;
+  }
+}
+
+// Puts the sync back to due so another worker picks it up straight away
+async function releaseSync(sync: LibrarySyncRecord) {
+  await supabase
+    .from('library_syncs')
+    .update({
+      sync_status: 'idle',
+      claimed_by: null,
+      next_sync_time: new Date().toISOString(),
+    })
+    .eq('id', sync.id)
+    .eq('claimed_by', WORKER_ID);
+}
+
+async function pollForSyncs() {
+  console.log(`Library sync worker ${WORKER_ID} started`);
+
+  while (!stopping) {
+    const sync = await claimNextSync();
+    if (sync) {
+      await processSync(sync);
+    } else {
+      await delay(POLL_INTERVAL_MS);
+    }
+  }
+
+  console.log(`Library sync worker ${WORKER_ID} stopped`);
+}
+
+async function shutdown() {
+  if (stopping) return;
+  stopping = true;
+  console.log('Shutting down library sync worker...');
+
+  if (currentSync) {
+    await releaseSync(currentSync);
+  }
+  process.exit(0);
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
+pollForSyncs().catch((error) => {
+  console.error('Library sync worker crashed:', error);
+  process.exit(1);
+});
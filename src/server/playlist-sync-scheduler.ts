@@ -0,0 +1,191 @@
+import { supabase } from '../lib/supabase';
+import { getEntitlements } from '../lib/services/entitlements';
+import { syncPlaylistChanges } from '../lib/services/playlist-sync';
+import {
+  getNextSyncTime,
+  limitSyncFrequency,
+  PlaylistSyncError,
+  PlaylistSyncSchedule,
+  ScheduledPlaylist,
+  shouldDisableSync,
+} from '../lib/services/playlist-sync-schedule';
+import { tokenManager } from '../lib/services/token-manager';
+
+const POLL_INTERVAL_MS =
+  Number(process.env.PLAYLIST_SYNC_POLL_INTERVAL_MS) || 60 * 1000;
+const BATCH_SIZE = 20;
+// A claimed pair is pushed back this far so other schedulers skip it
+const CLAIM_LEASE_MS = 10 * 60 * 1000;
+
+let stopping = false;
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function findDueSyncs(): Promise<PlaylistSyncSchedule[]> {
+  const { data, error } = await supabase
+    .from('playlist_syncs')
+    .select('*')
+    .eq('sync_enabled', true)
+    .lte('next_sync', new Date().toISOString())
+    .order('next_sync', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    console.error('Failed to load due playlist syncs:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+// Only succeeds if nobody moved next_sync since we read the row
+async function claimSync(sync: PlaylistSyncSchedule) {
+  const { data, error } = await supabase
+    .from('playlist_syncs')
+    .update({ next_sync: new Date(Date.now() + CLAIM_LEASE_MS).toISOString() })
+    .eq('id', sync.id)
+    .eq('next_sync', sync.next_sync)
+    .select('id');
+
+  if (error) {
+    console.error(`Failed to claim playlist sync ${sync.id}:`, error);
+    return false;
+  }
+
+  return !!data?.length;
+}
+
+// When a plan allows fewer pairs than the user has, the oldest ones keep
+// syncing
+async function isWithinPairLimit(
+  sync: PlaylistSyncSchedule,
+  limit: number | null
+) {
+  if (limit === null) return true;
+
+  const { data, error } = await supabase
+    .from('playlist_syncs')
+    .select('id')
+    .eq('user_id', sync.user_id!)
+    .eq('sync_enabled', true)
+    .order('created_at', { ascending: true })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []).some((row) => row.id === sync.id);
+}
+
+async function disableOverLimitSync(sync: PlaylistSyncSchedule, limit: number) {
+  const lastError: PlaylistSyncError = {
+    message: `Your plan allows up to ${limit} synced playlist pairs`,
+    count: 0,
+    at: new Date().toISOString(),
+  };
+  console.log(`Playlist sync ${sync.id} is over its plan's pair limit`);
+
+  await supabase
+    .from('playlist_syncs')
+    .update({
+      sync_enabled: false,
+      last_error: lastError,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', sync.id);
+}
+
+async function runSync(sync: PlaylistSyncSchedule) {
+  const source = sync.source_playlist as unknown as ScheduledPlaylist;
+  const target = sync.target_playlist as unknown as ScheduledPlaylist;
+  const userId = sync.user_id!;
+  // Schedules made before a downgrade are held to the plan's fastest
+  let frequency = sync.sync_frequency;
+
+  try {
+    const { limits } = await getEntitlements(userId);
+    if (!(await isWithinPairLimit(sync, limits.syncPairs))) {
+      await disableOverLimitSync(sync, limits.syncPairs!);
+      return;
+    }
+    frequency = limitSyncFrequency(frequency, limits.minSyncFrequency);
+
+    await tokenManager.refreshTokenIfNeeded(userId, source.service);
+    await tokenManager.refreshTokenIfNeeded(userId, target.service);
+
+    const result = await syncPlaylistChanges(
+      userId,
+      source.id,
+      source.service,
+      target.id,
+      target.service
+    );
+    console.log(`Synced playlist pair ${sync.id}:`, result);
+
+    await supabase
+      .from('playlist_syncs')
+      .update({
+        last_synced: new Date().toISOString(),
+        next_sync: getNextSyncTime(frequency).toISOString(),
+        last_error: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', sync.id);
+  } catch (error) {
+    const previous = sync.last_error as unknown as PlaylistSyncError | null;
+    const lastError: PlaylistSyncError = {
+      message: error instanceof Error ? error.message : 'Unknown error',
+      count: (previous?.count || 0) + 1,
+      at: new Date().toISOString(),
+    };
+    console.error(
+      `Playlist sync ${sync.id} failed (${lastError.count} in a row):`,
+      error
+    );
+
+    await supabase
+      .from('playlist_syncs')
+      .update({
+        last_error: lastError,
+        next_sync: getNextSyncTime(frequency, lastError.count).toISOString(),
+        sync_enabled: !shouldDisableSync(lastError.count),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', sync.id);
+  }
+}
+
+async function pollForSyncs() {
+  console.log('Playlist sync scheduler started');
+
+  while (!stopping) {
+    const due = await findDueSyncs();
+
+    for (const sync of due) {
+      if (stopping) break;
+      if (await claimSync(sync)) {
+        await runSync(sync);
+      }
+    }
+
+    if (due.length < BATCH_SIZE) {
+      await delay(POLL_INTERVAL_MS);
+    }
+  }
+
+  console.log('Playlist sync scheduler stopped');
+}
+
+function shutdown() {
+  if (stopping) return;
+  stopping = true;
+  console.log('Shutting down playlist sync scheduler...');
+  // A pair interrupted mid-sync is retried once its claim lease runs out
+  process.exit(0);
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
+pollForSyncs().catch((error) => {
+  console.error('Playlist sync scheduler crashed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,32 @@
+import {
+  RealtimeEventInput,
+  toRealtimeEvent,
+} from '../lib/services/realtime-events';
+
+const EVENTS_URL =
+  process.env.WEBSOCKET_EVENTS_URL ||
+  `http://localhost:${process.env.WEBSOCKET_PORT || 8080}/events`;
+const EVENTS_SECRET = process.env.WEBSOCKET_EVENTS_SECRET;
+
+// Hands an event to the WebSocket server, which pushes it to every socket the
+// user has open. Clients also poll, so a lost event only delays the UI.
+export async function publishToUser(userId: string, input: RealtimeEventInput) {
+  if (!EVENTS_SECRET) return;
+
+  try {
+    const response = await fetch(EVENTS_URL, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${EVENTS_SECRET}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ userId, event: toRealtimeEvent(input) }),
+    });
+
+    if (!response.ok) {
+      console.error(`Failed to publish ${input.type}: ${response.status}`);
+    }
+  } catch (error) {
+    console.error(`Failed to publish ${input.type}:`, error);
+  }
+}
@@ -0,0 +1,331 @@
+import { hostname } from 'os';
+import { ServiceApiError } from '../lib/api/client';
+import { supabase } from '../lib/supabase';
+import {
+  EntitlementError,
+  recordTransferUsage,
+} from '../lib/services/entitlements';
+import { getServiceAuth } from '../lib/services/streaming-auth';
+import { tokenManager } from '../lib/services/token-manager';
+import {
+  transferAlbum,
+  TransferProgress,
+  transferPlaylist,
+} from '../lib/services/transfer';
+import {
+  TransferCheckpoint,
+  TransferJobPayload,
+  TransferLogEntry,
+} from '../lib/services/transfer-jobs';
+import { runLibraryTransfer } from '../lib/services/transfer-service';
+import { publishToUser } from './realtime';
+import { Database } from '../types/supabase';
+
+type TransferJob = Database['public']['Tables']['transfers']['Row'];
+type ServiceType = 'spotify' | 'apple-music';
+
+const WORKER_ID = `${hostname()}:${process.pid}`;
+const POLL_INTERVAL_MS = Number(process.env.TRANSFER_POLL_INTERVAL_MS) || 5000;
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+// A job whose heartbeat is older than this is considered abandoned
+const STALE_AFTER = '2 minutes';
+const MAX_ATTEMPTS = 3;
+const MAX_LOG_ENTRIES = 50;
+// Progress is pushed to open tabs more often than it is written to the row
+const PROGRESS_EVENT_INTERVAL_MS = 2000;
+
+let stopping = false;
+let currentJobId: string | null = null;
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function claimNextJob(): Promise<TransferJob | null> {
+  const { data, error } = await supabase.rpc('claim_transfer_job', {
+    worker_id: WORKER_ID,
+    stale_after: STALE_AFTER,
+  });
+
+  if (error) {
+    console.error('Failed to claim transfer job:', error);
+    return null;
+  }
+
+  return data?.[0] || null;
+}
+
+async function saveCheckpoint(jobId: string, checkpoint: TransferCheckpoint) {
+  const { error } = await supabase
+    .from('transfers')
+    .update({
+      checkpoint,
+      heartbeat_at: new Date().toISOString(),
+    })
+    .eq('id', jobId)
+    .eq('claimed_by', WORKER_ID);
+
+  if (error) {
+    console.error(`Failed to checkpoint transfer ${jobId}:`, error);
+  }
+}
+
+async function finishJob(jobId: string, status: string, error?: string) {
+  await supabase
+    .from('transfers')
+    .update({
+      status,
+      error: error ?? null,
+      claimed_by: null,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', jobId);
+}
+
+async function getSourceAndTargetTokens(
+  userId: string,
+  sourceService: ServiceType,
+  targetService: ServiceType
+) {
+  await tokenManager.refreshTokenIfNeeded(userId, sourceService);
+  await tokenManager.refreshTokenIfNeeded(userId, targetService);
+
+  const sourceAuth = await getServiceAuth(userId, sourceService);
+  const targetAuth = await getServiceAuth(userId, targetService);
+
+  if (!sourceAuth?.accessToken || !targetAuth?.accessToken) {
+    throw new Error(
+      'Missing authentication tokens. Please reconnect your services.'
+    );
+  }
+
+  return {
+    sourceToken: sourceAuth.accessToken,
+    targetToken: targetAuth.accessToken,
+  };
+}
+
+interface JobReporter {
+  progress: (update: Omit<TransferCheckpoint, 'log' | 'updatedAt'>) => void;
+  log: (type: TransferLogEntry['type'], message: string) => void;
+}
+
+async function runJob(job: TransferJob, reporter: JobReporter) {
+  const payload = job.payload as unknown as TransferJobPayload;
+  const sourceService = job.source_service as ServiceType;
+  const targetService = job.destination_service as ServiceType;
+  const mode = payload?.mode || 'resume';
+  const dryRun = !!payload?.dryRun;
+
+  // Counts against the monthly quota, dry runs are free
+  if (!dryRun) {
+    await recordTransferUsage(job.user_id, job.id);
+  }
+
+  const onItemProgress = (progress: TransferProgress) =>
+    reporter.progress({
+      stage: progress.stage,
+      current: Math.round(progress.progress),
+      total: 100,
+      message: progress.message,
+    });
+
+  switch (payload?.type) {
+    case 'library':
+      await runLibraryTransfer(
+        job.user_id,
+        job.id,
+        sourceService,
+        targetService,
+        ({ stage, current, total }) =>
+          reporter.progress({ stage, current, total }),
+        reporter.log,
+        mode,
+        dryRun
+      );
+      return;
+
+    case 'playlist':
+      await transferPlaylist({
+        sourceService,
+        targetService,
+        playlist: payload.playlist,
+        ...(await getSourceAndTargetTokens(
+          job.user_id,
+          sourceService,
+          targetService
+        )),
+        userId: job.user_id,
+        transferId: job.id,
+        mode,
+        dryRun,
+        onProgress: onItemProgress,
+      });
+      return;
+
+    case 'album':
+      await transferAlbum({
+        sourceService,
+        destinationService: targetService,
+        album: payload.album,
+        ...(await getSourceAndTargetTokens(
+          job.user_id,
+          sourceService,
+          targetService
+        )),
+        userId: job.user_id,
+        transferId: job.id,
+        dryRun,
+        onProgress: onItemProgress,
+      });
+      return;
+
+    default:
+      throw new Error(`Unknown transfer job type: ${job.job_type}`);
+  }
+}
+
+async function processJob(job: TransferJob) {
+  console.log(
+    `Running ${job.job_type} transfer ${job.id} (attempt ${job.attempts})`
+  );
+  currentJobId = job.id;
+
+  // A resumed job starts from the progress its last worker saved
+  const saved = job.checkpoint as unknown as TransferCheckpoint | null;
+  const state: TransferCheckpoint = {
+    ...(saved || { stage: 'processing', current: 0, total: 0 }),
+    updatedAt: new Date().toISOString(),
+  };
+
+  let lastProgressEvent = 0;
+  const reporter: JobReporter = {
+    progress: (update) => {
+      Object.assign(state, update, { updatedAt: new Date().toISOString() });
+
+      if (Date.now() - lastProgressEvent >= PROGRESS_EVENT_INTERVAL_MS) {
+        lastProgressEvent = Date.now();
+        publishToUser(job.user_id, {
+          type: 'transfer_progress',
+          transferId: job.id,
+          stage: state.stage,
+          current: state.current,
+          total: state.total,
+          message: state.message,
+        });
+      }
+    },
+    log: (type, message) => {
+      const timestamp = new Date().toISOString();
+      state.log = [...(state.log || []), { type, message, timestamp }].slice(
+        -MAX_LOG_ENTRIES
+      );
+    },
+  };
+
+  // Progress is written on the heartbeat rather than on every callback
+  const flush = () => saveCheckpoint(job.id, state);
+  const heartbeat = setInterval(flush, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    await runJob(job, reporter);
+    clearInterval(heartbeat);
+    await flush();
+
+    // The transfer functions set their own final status, only close out
+    // rows they left open
+    const { data } = await supabase
+      .from('transfers')
+      .select('status')
+      .eq('id', job.id)
+      .single();
+    if (data?.status === 'in_progress') {
+      await finishJob(job.id, 'success');
+    }
+    await publishToUser(job.user_id, {
+      type: 'transfer_finished',
+      transferId: job.id,
+      status: !data || data.status === 'in_progress' ? 'success' : data.status,
+    });
+    console.log(`Transfer ${job.id} finished`);
+  } catch (error) {
+    clearInterval(heartbeat);
+    await flush();
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Transfer ${job.id} failed:`, error);
+
+    if (job.attempts < MAX_ATTEMPTS && isRetryable(error)) {
+      await supabase
+        .from('transfers')
+        .update({ status: 'queued', error: message, claimed_by: null })
+        .eq('id', job.id);
+    } else {
+      await finishJob(job.id, 'failed', message);
+      await publishToUser(job.user_id, {
+        type: 'transfer_failed',
+        transferId: job.id,
+        error: message,
+      });
+    }
+  } finally {
+    currentJobId = null;
+  }
+}
+
+// The client already retried these, a later attempt may still succeed
+const RETRYABLE_API_ERRORS = ['rate_limited', 'server_error', 'network_error'];
+
+function isRetryable(error: unknown) {
+  if (error instanceof EntitlementError) {
+    return false;
+  }
+  if (error instanceof ServiceApiError) {
+    return RETRYABLE_API_ERRORS.includes(error.code);
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return /rate limit|capacity exceeded|429|5\d\d|fetch failed|network/i.test(
+    message
+  );
+}
+
+async function releaseJob(jobId: string) {
+  await supabase
+    .from('transfers')
+    .update({ status: 'queued', claimed_by: null })
+    .eq('id', jobId)
+    .eq('claimed_by', WORKER_ID);
+}
+
+async function pollForJobs() {
+  console.log(`Transfer worker ${WORKER_ID} started`);
+
+  while (!stopping) {
+    const job = await claimNextJob();
+    if (job) {
+      await processJob(job);
+    } else {
+      await delay(POLL_INTERVAL_MS);
+    }
+  }
+
+  console.log(`Transfer worker ${WORKER_ID} stopped`);
+}
+
+async function shutdown() {
+  if (stopping) return;
+  stopping = true;
+  console.log('Shutting down transfer worker...');
+
+  // Hand the running job back so it doesn't wait out the stale timeout
+  if (currentJobId) {
+    await releaseJob(currentJobId);
+  }
+  process.exit(0);
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
+pollForJobs().catch((error) => {
+  console.error('Transfer worker crashed:', error);
+  process.exit(1);
+});
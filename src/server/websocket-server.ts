@@ -1,14 +1,58 @@
-import { createServer } from 'http';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
 import { parse } from 'url';
-import { WebSocketServer } from 'ws';
+import { WebSocket, WebSocketServer } from 'ws';
 import { verifyToken } from '../lib/auth/token';
+import {
+  CLIENT_EVENT_TYPES,
+  isRealtimeEvent,
+  RealtimeEvent,
+  toRealtimeEvent,
+} from '../lib/services/realtime-events';
 
-const server = createServer();
+// Sockets that miss a ping for this long are dropped
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const EVENTS_SECRET = process.env.WEBSOCKET_EVENTS_SECRET;
+
+interface UserSocket extends WebSocket {
+  isAlive?: boolean;
+}
+
+const server = createServer(handleHttpRequest);
 const wss = new WebSocketServer({ server });
 
-const clients = new Map();
+// A user can have the app open in several tabs, each with its own socket
+const clients = new Map<string, Set<UserSocket>>();
+
+function addClient(userId: string, ws: UserSocket) {
+  const sockets = clients.get(userId) || new Set<UserSocket>();
+  sockets.add(ws);
+  clients.set(userId, sockets);
+}
+
+function removeClient(userId: string, ws: UserSocket) {
+  const sockets = clients.get(userId);
+  if (!sockets) return;
 
-wss.on('connection', async (ws, req) => {
+  sockets.delete(ws);
+  if (sockets.size === 0) {
+    clients.delete(userId);
+  }
+}
+
+export function sendToUser(
+  userId: string,
+  event: RealtimeEvent,
+  except?: WebSocket
+) {
+  const message = JSON.stringify(event);
+  clients.get(userId)?.forEach((ws) => {
+    if (ws !== except && ws.readyState === WebSocket.OPEN) {
+      ws.send(message);
+    }
+  });
+}
+
+wss.on('connection', async (ws: UserSocket, req) => {
   const { query } = parse(req.url!, true);
   const token = query.token as string;
 
@@ -19,30 +63,90 @@ wss.on('connection', async (ws, req) => {
       return;
     }
 
-    clients.set(user.id, ws);
+    ws.isAlive = true;
+    addClient(user.id, ws);
+
+    ws.on('pong', () => {
+      ws.isAlive = true;
+    });
+
+    // Tabs relay the sync events they raise to the user's other tabs
+    ws.on('message', (data) => {
+      try {
+        const event = JSON.parse(data.toString());
+        if (isRealtimeEvent(event) && CLIENT_EVENT_TYPES.includes(event.type)) {
+          sendToUser(user.id, event, ws);
+        }
+      } catch (error) {
+        console.error('Invalid message from client:', error);
+      }
+    });
 
     ws.on('close', () => {
-      clients.delete(user.id);
+      removeClient(user.id, ws);
     });
   } catch (error) {
     ws.close();
   }
 });
 
+const heartbeat = setInterval(() => {
+  clients.forEach((sockets, userId) => {
+    sockets.forEach((ws) => {
+      if (!ws.isAlive) {
+        removeClient(userId, ws);
+        ws.terminate();
+        return;
+      }
+      ws.isAlive = false;
+      ws.ping();
+    });
+  });
+}, HEARTBEAT_INTERVAL_MS);
+
+wss.on('close', () => clearInterval(heartbeat));
+
+// Other server processes (the workers) publish events with
+// POST /events { userId, event }, authorized by WEBSOCKET_EVENTS_SECRET
+function handleHttpRequest(req: IncomingMessage, res: ServerResponse) {
+  if (req.method !== 'POST' || req.url !== '/events') {
+    res.writeHead(404).end();
+    return;
+  }
+
+  if (
+    !EVENTS_SECRET ||
+    req.headers.authorization !== `Bearer ${EVENTS_SECRET}`
+  ) {
+    res.writeHead(401).end();
+    return;
+  }
+
+  let body = '';
+  req.on('data', (chunk) => {
+    body += chunk;
+  });
+  req.on('end', () => {
+    try {
+      const { userId, event } = JSON.parse(body);
+      if (typeof userId !== 'string' || !isRealtimeEvent(event)) {
+        res.writeHead(400).end();
+        return;
+      }
+
+      sendToUser(userId, event);
+      res.writeHead(204).end();
+    } catch (error) {
+      res.writeHead(400).end();
+    }
+  });
+}
+
 export function notifyUserLibraryUpdate(
   userId: string,
   service: 'spotify' | 'apple-music'
 ) {
-  const ws = clients.get(userId);
-  if (ws) {
-    ws.send(
-      JSON.stringify({
-        type: 'library_update',
-        service,
-        timestamp: new Date().toISOString(),
-      })
-    );
-  }
+  sendToUser(userId, toRealtimeEvent({ type: 'library_update', service }));
 }
 
 const PORT = process.env.WEBSOCKET_PORT || 8080;
@@ -0,0 +1,117 @@
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  isSelectable,
+  TransferPreviewItem,
+  TransferPreviewStatus,
+} from '@/lib/services/transfer-preview';
+import { cn } from '@/lib/utils';
+
+const STATUS_ORDER: TransferPreviewStatus[] = [
+  'low_confidence',
+  'will_add',
+  'not_found',
+  'in_library',
+];
+
+const STATUS_LABELS: Record<TransferPreviewStatus, string> = {
+  will_add: 'Will add',
+  in_library: 'Already in library',
+  low_confidence: 'Low confidence',
+  not_found: 'Not found',
+};
+
+const STATUS_STYLES: Record<TransferPreviewStatus, string> = {
+  will_add: 'text-green-500',
+  in_library: 'opacity-60',
+  low_confidence: 'text-yellow-500',
+  not_found: 'text-red-500',
+};
+
+interface TransferPreviewListProps {
+  items: TransferPreviewItem[];
+  selected: Set<string>;
+  onSelectionChange: (selected: Set<string>) => void;
+  className?: string;
+}
+
+export function TransferPreviewList({
+  items,
+  selected,
+  onSelectionChange,
+  className,
+}: TransferPreviewListProps) {
+  const counts = items.reduce(
+    (acc, item) => ({ ...acc, [item.status]: (acc[item.status] || 0) + 1 }),
+    {} as Partial<Record<TransferPreviewStatus, number>>
+  );
+
+  // Items that need a decision first, ones that can't be added last
+  const sorted = [...items].sort(
+    (a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status)
+  );
+
+  const toggle = (key: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) {
+      next.add(key);
+    } else {
+      next.delete(key);
+    }
+    onSelectionChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-4 text-sm">
+        {STATUS_ORDER.filter((status) => counts[status]).map((status) => (
+          <span key={status} className={STATUS_STYLES[status]}>
+            {counts[status]!.toLocaleString()} {STATUS_LABELS[status]}
+          </span>
+        ))}
+        <span className="ml-auto">
+          {selected.size.toLocaleString()} selected
+        </span>
+      </div>
+
+      <ScrollArea className={cn('h-[240px] rounded-md border', className)}>
+        <div className="divide-y">
+          {sorted.map((item) => (
+            <label
+              key={item.key}
+              className={cn(
+                'flex items-center gap-3 px-3 py-2 text-sm',
+                isSelectable(item) && 'cursor-pointer'
+              )}
+            >
+              <Checkbox
+                checked={isSelectable(item) && selected.has(item.key)}
+                disabled={!isSelectable(item)}
+                onCheckedChange={(checked) =>
+                  toggle(item.key, checked === true)
+                }
+              />
+              <div className="min-w-0 flex-1">
+                <p className="truncate font-medium">{item.name || 'Unknown'}</p>
+                {item.artistName && (
+                  <p className="truncate text-xs opacity-70">
+                    {item.artistName}
+                  </p>
+                )}
+              </div>
+              <span
+                className={cn('shrink-0 text-xs', STATUS_STYLES[item.status])}
+                title={item.error || undefined}
+              >
+                {STATUS_LABELS[item.status]}
+                {item.status === 'low_confidence' &&
+                  item.confidence != null &&
+                  ` (${Math.round(item.confidence * 100)}%)`}
+              </span>
+            </label>
+          ))}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
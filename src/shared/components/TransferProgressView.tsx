@@ -0,0 +1,123 @@
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { TransferProgress } from '@/lib/services/transfer';
+import { CheckCircle2, XCircle } from 'lucide-react';
+
+interface TransferProgressViewProps {
+  progress: TransferProgress;
+  destinationName?: string;
+  action?: 'transfer' | 'import';
+}
+
+// Rows that couldn't be read or matched, listed under the summary
+function ProblemList({
+  title,
+  items,
+}: {
+  title: string;
+  items: { key: string; label: string }[];
+}) {
+  if (!items.length) return null;
+
+  return (
+    <div className="text-left">
+      <p className="text-sm font-medium text-white/60 mb-1">
+        {title} ({items.length})
+      </p>
+      <ScrollArea className="max-h-32 rounded-md border border-white/10 bg-white/5">
+        <ul className="p-2 text-sm text-white/40 space-y-0.5">
+          {items.map((item) => (
+            <li key={item.key} className="truncate">
+              {item.label}
+            </li>
+          ))}
+        </ul>
+      </ScrollArea>
+    </div>
+  );
+}
+
+export function TransferProgressView({
+  progress,
+  destinationName,
+  action = 'transfer',
+}: TransferProgressViewProps) {
+  const heading = action === 'import' ? 'Import' : 'Transfer';
+
+  if (progress.stage === 'complete') {
+    const invalid =
+      progress.skipped?.filter((item) => item.reason === 'invalid') || [];
+    const skipped =
+      progress.skipped?.filter((item) => item.reason !== 'invalid') || [];
+
+    return (
+      <div className="flex flex-col items-center justify-center py-6 space-y-4">
+        <div className="rounded-full bg-green-500/20 p-3">
+          <CheckCircle2 className="h-12 w-12 text-green-500" />
+        </div>
+        <div className="text-center space-y-2 w-full">
+          <h3 className="text-xl font-medium text-white">
+            {heading} Complete!
+          </h3>
+          <p className="text-white/60">
+            Successfully {action === 'import' ? 'imported' : 'transferred'}{' '}
+            {destinationName} to your library
+          </p>
+          {progress.matchSummary && (
+            <p className="text-sm text-white/40">
+              {progress.matchSummary.exact} exact matches,{' '}
+              {progress.matchSummary.fuzzy} matched by search
+              {progress.matchSummary.lowConfidence > 0 &&
+                ` (${progress.matchSummary.lowConfidence} low confidence)`}
+              , {progress.matchSummary.unmatched} not found
+            </p>
+          )}
+          {!!skipped.length && (
+            <p className="text-sm text-white/40">
+              {skipped.length} items skipped (local files, podcast episodes or
+              unavailable tracks)
+            </p>
+          )}
+          <ProblemList
+            title="Rows that couldn't be read"
+            items={invalid.map((item, i) => ({
+              key: `invalid-${i}`,
+              label: `Row ${item.position + 1}${item.name ? `: ${item.name}` : ''}`,
+            }))}
+          />
+          <ProblemList
+            title="Not found"
+            items={(progress.unmatched || []).map((track, i) => ({
+              key: `unmatched-${i}`,
+              label: `${track.artist} - ${track.name}`,
+            }))}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (progress.stage === 'error') {
+    return (
+      <div className="flex flex-col items-center justify-center py-6 space-y-4">
+        <div className="rounded-full bg-red-500/20 p-3">
+          <XCircle className="h-12 w-12 text-red-500" />
+        </div>
+        <div className="text-center space-y-2">
+          <h3 className="text-xl font-medium text-white">{heading} Failed</h3>
+          <p className="text-white/60">{progress.error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Progress
+        value={progress.progress}
+        className="w-full bg-white/5 [&>div]:bg-white"
+      />
+      <p className="text-center text-sm text-white/60">{progress.message}</p>
+    </div>
+  );
+}
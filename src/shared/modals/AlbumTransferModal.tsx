@@ -9,18 +9,21 @@ import {
 import { Label } from '@/components/ui/label';
 import { Progress } from '@/components/ui/progress';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import { transferAlbum } from '@/lib/services/transfer';
+import { assertCanTransfer, EntitlementError } from '@/lib/services/entitlements';
+import {
+  enqueueTransferJob,
+  getTransferJobs,
+  isTransferActive,
+  toAlbumJobPayload,
+  toTransferProgress,
+} from '@/lib/services/transfer-jobs';
+import { getPendingReviewItems } from '@/lib/services/transfer-review';
 import { cn } from '@/lib/utils';
-import { AlertCircle, Loader2, Music, Music2 } from 'lucide-react';
-import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Loader2, Music, Music2 } from 'lucide-react';
+import { useEffect, useState } from 'react';
 import { toast } from 'sonner';
 
-interface TransferProgress {
-  stage: 'fetching' | 'creating' | 'searching' | 'adding';
-  progress: number; // 0-100
-  message: string;
-}
-
 interface AlbumTransferModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -38,47 +41,71 @@ export function AlbumTransferModal({
   userId,
   onTransferComplete,
 }: AlbumTransferModalProps) {
-  const [isTransferring, setIsTransferring] = useState(false);
-  const [progress, setProgress] = useState<TransferProgress | null>(null);
+  const [isQueuing, setIsQueuing] = useState(false);
+  const [jobId, setJobId] = useState<string | null>(null);
   const [targetService, setTargetService] = useState<'spotify' | 'apple-music'>(
     sourceService === 'spotify' ? 'apple-music' : 'spotify'
   );
 
-  const sourceToken = localStorage.getItem(
-    sourceService === 'spotify' ? 'spotify_access_token' : 'apple_music_token'
-  );
-  const targetToken = localStorage.getItem(
-    targetService === 'spotify' ? 'spotify_access_token' : 'apple_music_token'
-  );
+  // The worker runs the transfer and counts it against the monthly quota
+  const { data: jobs = [] } = useQuery({
+    queryKey: ['transfer-jobs', jobId ? [jobId] : []],
+    queryFn: () => getTransferJobs([jobId!]),
+    enabled: !!jobId,
+    refetchInterval: (query) =>
+      (query.state.data || []).some((job) => isTransferActive(job.status))
+        ? 3000
+        : false,
+  });
+  const job = jobs[0];
+  const progress = job ? toTransferProgress(job) : null;
+  const isTransferring = isQueuing || !!jobId;
 
-  const handleTransfer = async () => {
-    if (!sourceToken || !targetToken) {
-      toast.error('Please connect both services first');
-      return;
+  useEffect(() => {
+    if (!job || isTransferActive(job.status)) return;
+
+    // A partial match is held until the user confirms it on the review screen
+    if (
+      job.status === 'success' &&
+      getPendingReviewItems(job.metadata).length > 0
+    ) {
+      toast.info(
+        'Found a possible match. Review it in your transfer history to add the album.'
+      );
+      onTransferComplete?.();
+      onOpenChange(false);
+    } else if (job.status === 'success') {
+      toast.success('Album transferred successfully!');
+      onTransferComplete?.();
+      onOpenChange(false);
+    } else {
+      toast.error(job.error || 'Failed to transfer album');
     }
+    setJobId(null);
+  }, [job, onTransferComplete, onOpenChange]);
 
-    setIsTransferring(true);
-    setProgress(null);
+  const handleTransfer = async () => {
+    setIsQueuing(true);
 
     try {
-      await transferAlbum({
+      await assertCanTransfer(userId);
+      const queued = await enqueueTransferJob(
+        userId,
         sourceService,
         targetService,
-        album,
-        sourceToken,
-        targetToken,
-        onProgress: setProgress,
-        userId,
-      });
-
-      toast.success('Album transferred successfully!');
-      onTransferComplete?.();
-      onOpenChange(false);
+        toAlbumJobPayload(album),
+        { sourceAlbumName: album.name }
+      );
+      setJobId(queued.id);
     } catch (error) {
       console.error('Transfer error:', error);
-      toast.error('Failed to transfer album');
+      toast.error(
+        error instanceof EntitlementError
+          ? error.message
+          : 'Failed to transfer album'
+      );
     } finally {
-      setIsTransferring(false);
+      setIsQueuing(false);
     }
   };
 
@@ -157,10 +184,9 @@ export function AlbumTransferModal({
               <div className="flex items-center gap-2">
                 {progress ? (
                   <>
-                    <Progress 
-                      value={progress.progress} 
-                      className="bg-white/5"
-                      indicatorClassName="bg-white"
+                    <Progress
+                      value={progress.progress}
+                      className="bg-white/5 [&>div]:bg-white"
                     />
                     <span className="text-sm text-white/60">
                       {progress.progress.toFixed(0)}%
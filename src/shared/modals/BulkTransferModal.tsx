@@ -10,11 +10,32 @@ import { Label } from '@/components/ui/label';
 import { Progress } from '@/components/ui/progress';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { getServiceAuth } from '@/lib/services/streaming-auth';
-import { transferAlbum, transferPlaylist } from '@/lib/services/transfer';
+import {
+  assertCanBulkTransferPlaylists,
+  assertCanTransfer,
+  EntitlementError,
+} from '@/lib/services/entitlements';
+import {
+  enqueueTransferJob,
+  getTransferJobs,
+  isTransferActive,
+  PREVIEW_TRANSFER_STATUS,
+  toAlbumJobPayload,
+  toPlaylistJobPayload,
+  TransferCheckpoint,
+} from '@/lib/services/transfer-jobs';
+import {
+  commitTransferPreview,
+  discardTransferPreview,
+  getTransferPreview,
+  isSelectedByDefault,
+  TransferPreviewItem,
+} from '@/lib/services/transfer-preview';
+import { TransferPreviewList } from '@/shared/components/TransferPreviewList';
 import { cn } from '@/lib/utils';
+import { useQuery } from '@tanstack/react-query';
 import { CheckCircle2, Loader2, Music, Music2, XCircle } from 'lucide-react';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { toast } from 'sonner';
 
 interface TransferProgress {
@@ -32,6 +53,38 @@ interface TransferProgress {
   error?: string;
 }
 
+function toItemProgress(itemId: string, job?: any): TransferProgress {
+  const checkpoint = job?.checkpoint as TransferCheckpoint | null;
+
+  if (job?.status === 'success' || job?.status === 'completed') {
+    return { itemId, stage: 'complete', progress: 100, message: 'Done' };
+  }
+  if (job?.status === PREVIEW_TRANSFER_STATUS) {
+    return {
+      itemId,
+      stage: 'complete',
+      progress: 100,
+      message: 'Preview ready',
+    };
+  }
+  if (job?.status === 'failed') {
+    return {
+      itemId,
+      stage: 'error',
+      progress: 0,
+      message: 'Transfer failed',
+      error: job.error || undefined,
+    };
+  }
+
+  return {
+    itemId,
+    stage: (checkpoint?.stage as TransferProgress['stage']) || 'fetching',
+    progress: checkpoint?.current || 0,
+    message: checkpoint?.message || 'Queued',
+  };
+}
+
 interface BulkTransferModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -51,128 +104,173 @@ export function BulkTransferModal({
   userId,
   onTransferComplete,
 }: BulkTransferModalProps) {
-  const [isTransferring, setIsTransferring] = useState(false);
-  const [progress, setProgress] = useState<Record<string, TransferProgress>>(
-    {}
-  );
+  const [isQueuing, setIsQueuing] = useState(false);
+  const [isCommitting, setIsCommitting] = useState(false);
+  // Source item id -> queued transfer id
+  const [jobIds, setJobIds] = useState<Record<string, string>>({});
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
   const [destinationService, setDestinationService] = useState<
     'spotify' | 'apple-music'
   >(sourceService === 'spotify' ? 'apple-music' : 'spotify');
 
-  const handleTransfer = async () => {
-    setIsTransferring(true);
+  const { data: jobs = [] } = useQuery({
+    queryKey: ['transfer-jobs', Object.values(jobIds)],
+    queryFn: () => getTransferJobs(Object.values(jobIds)),
+    enabled: Object.keys(jobIds).length > 0,
+    refetchInterval: (query) =>
+      (query.state.data || []).some((job) => isTransferActive(job.status))
+        ? 3000
+        : false,
+  });
 
-    try {
-      const sourceTokenData = await getServiceAuth(userId, sourceService);
-      const targetTokenData = await getServiceAuth(userId, destinationService);
+  const progress: Record<string, TransferProgress> = {};
+  Object.entries(jobIds).forEach(([itemId, jobId]) => {
+    const job = jobs.find((j) => j.id === jobId);
+    progress[itemId] = toItemProgress(itemId, job);
+  });
+
+  const handleTransfer = async (dryRun = false) => {
+    setIsQueuing(true);
 
-      if (!sourceTokenData?.accessToken || !targetTokenData?.accessToken) {
-        toast.error('Authentication failed. Please reconnect your services.');
-        return;
+    try {
+      if (itemType === 'playlist') {
+        await assertCanBulkTransferPlaylists(userId, items.length);
+      }
+      if (!dryRun) {
+        await assertCanTransfer(userId, items.length);
       }
 
-      // Store tokens in localStorage for the transfer process
-      if (sourceService === 'spotify') {
-        localStorage.setItem(
-          'spotify_access_token',
-          sourceTokenData.accessToken
+      // Each item becomes its own job, the worker runs them after the modal
+      // (or the tab) is closed
+      const queued: Record<string, string> = {};
+      for (const item of items) {
+        const job = await enqueueTransferJob(
+          userId,
+          sourceService,
+          destinationService,
+          {
+            ...(itemType === 'playlist'
+              ? toPlaylistJobPayload(item)
+              : toAlbumJobPayload(item)),
+            dryRun,
+          },
+          itemType === 'playlist'
+            ? { sourcePlaylistName: item.name }
+            : { sourceAlbumName: item.name }
         );
-        localStorage.setItem('apple_music_token', targetTokenData.accessToken);
+        queued[item.id] = job.id;
+      }
+      setJobIds(queued);
+      setIsPreviewing(dryRun);
+
+      if (dryRun) {
+        toast.success(`Previewing ${items.length} ${itemType}s...`);
       } else {
-        localStorage.setItem('apple_music_token', sourceTokenData.accessToken);
-        localStorage.setItem(
-          'spotify_access_token',
-          targetTokenData.accessToken
+        toast.success(
+          `Queued ${items.length} ${itemType}s. You can close this window.`
         );
+        onTransferComplete?.();
       }
+    } catch (error) {
+      console.error('Failed to queue transfers:', error);
+      toast.error(
+        error instanceof EntitlementError
+          ? error.message
+          : `Failed to transfer ${itemType}s`
+      );
+    } finally {
+      setIsQueuing(false);
+    }
+  };
 
-      // Transfer items in parallel with a limit
-      const batchSize = 3; // Process 3 items at a time
-      for (let i = 0; i < items.length; i += batchSize) {
-        const batch = items.slice(i, i + batchSize);
-        await Promise.all(
-          batch.map(async (item) => {
-            try {
-              setProgress((prev) => ({
-                ...prev,
-                [item.id]: {
-                  itemId: item.id,
-                  stage: 'fetching',
-                  progress: 0,
-                  message: `Starting transfer of "${item.name}"...`,
-                },
-              }));
+  const allComplete =
+    Object.keys(progress).length > 0 &&
+    Object.values(progress).every(
+      (p) => p.stage === 'complete' || p.stage === 'error'
+    );
 
-              if (itemType === 'playlist') {
-                await transferPlaylist({
-                  sourceService,
-                  destinationService,
-                  playlist: item,
-                  sourceToken: sourceTokenData.accessToken,
-                  targetToken: targetTokenData.accessToken,
-                  userId,
-                  onProgress: (currentProgress) => {
-                    setProgress((prev) => ({
-                      ...prev,
-                      [item.id]: {
-                        ...currentProgress,
-                        itemId: item.id,
-                      },
-                    }));
-                  },
-                });
-              } else {
-                await transferAlbum({
-                  sourceService,
-                  destinationService,
-                  album: item,
-                  sourceToken: sourceTokenData.accessToken,
-                  targetToken: targetTokenData.accessToken,
-                  userId,
-                  onProgress: (currentProgress) => {
-                    setProgress((prev) => ({
-                      ...prev,
-                      [item.id]: {
-                        ...currentProgress,
-                        itemId: item.id,
-                      },
-                    }));
-                  },
-                });
-              }
-            } catch (error) {
-              setProgress((prev) => ({
-                ...prev,
-                [item.id]: {
-                  itemId: item.id,
-                  stage: 'error',
-                  progress: 0,
-                  message: 'Transfer failed',
-                  error:
-                    error instanceof Error
-                      ? error.message
-                      : 'Unknown error occurred',
-                },
-              }));
-            }
-          })
+  const isTransferring =
+    isQueuing || (Object.keys(jobIds).length > 0 && !allComplete);
+
+  // Every job previews its own items, their keys are prefixed with the job id
+  // so they stay unique across jobs
+  const previewJobIds = jobs
+    .filter((job) => job.status === PREVIEW_TRANSFER_STATUS)
+    .map((job) => job.id);
+  const { data: previews } = useQuery({
+    queryKey: ['transfer-previews', previewJobIds],
+    queryFn: async () => {
+      const results: Record<string, TransferPreviewItem[]> = {};
+      for (const jobId of previewJobIds) {
+        results[jobId] = await getTransferPreview(jobId);
+      }
+      return results;
+    },
+    enabled: isPreviewing && allComplete && previewJobIds.length > 0,
+  });
+  const previewItems = Object.entries(previews || {}).flatMap(([jobId, items]) =>
+    items.map((item) => ({ ...item, key: `${jobId}:${item.key}` }))
+  );
+
+  useEffect(() => {
+    setSelected(
+      new Set(
+        Object.entries(previews || {}).flatMap(([jobId, items]) =>
+          items
+            .filter(isSelectedByDefault)
+            .map((item) => `${jobId}:${item.key}`)
+        )
+      )
+    );
+  }, [previews]);
+
+  const handleCommit = async () => {
+    setIsCommitting(true);
+
+    try {
+      const committed: Record<string, string> = {};
+      for (const [itemId, jobId] of Object.entries(jobIds)) {
+        const jobItems = previews?.[jobId];
+        if (!jobItems) continue;
+
+        const jobSelection = new Set(
+          jobItems
+            .map((item) => item.key)
+            .filter((key) => selected.has(`${jobId}:${key}`))
         );
+        if (await commitTransferPreview(jobId, jobItems, jobSelection)) {
+          committed[itemId] = jobId;
+        }
       }
 
-      toast.success(`All ${itemType}s transferred successfully!`);
+      setJobIds(committed);
+      setIsPreviewing(false);
+      toast.success(
+        `Queued ${Object.keys(committed).length} ${itemType}s. You can close this window.`
+      );
       onTransferComplete?.();
     } catch (error) {
+      console.error('Failed to commit transfers:', error);
       toast.error(`Failed to transfer ${itemType}s`);
     } finally {
-      setIsTransferring(false);
+      setIsCommitting(false);
     }
   };
 
-  const allComplete =
-    Object.keys(progress).length > 0 &&
-    Object.values(progress).every(
-      (p) => p.stage === 'complete' || p.stage === 'error'
-    );
+  const handleDiscard = async () => {
+    try {
+      for (const jobId of previewJobIds) {
+        await discardTransferPreview(jobId);
+      }
+    } catch (error) {
+      console.error('Failed to discard previews:', error);
+    }
+    setJobIds({});
+    setIsPreviewing(false);
+  };
+
+  const isReviewingPreview = isPreviewing && allComplete;
 
   const totalProgress =
     Object.values(progress).reduce((sum, p) => sum + p.progress, 0) /
@@ -303,6 +401,17 @@ export function BulkTransferModal({
             </ScrollArea>
           </div>
 
+          {isReviewingPreview && (
+            <div className="space-y-4">
+              <Label>Preview</Label>
+              <TransferPreviewList
+                items={previewItems}
+                selected={selected}
+                onSelectionChange={setSelected}
+              />
+            </div>
+          )}
+
           {isTransferring ? (
             <div className="space-y-4">
               <div className="flex items-center gap-2">
@@ -312,13 +421,39 @@ export function BulkTransferModal({
                 </span>
               </div>
               <p className="text-sm text-muted-foreground">
-                Transferring {items.length}{' '}
+                {isPreviewing ? 'Previewing' : 'Transferring'} {items.length}{' '}
                 {itemType === 'playlist' ? 'playlists' : 'albums'}...
               </p>
             </div>
+          ) : isReviewingPreview ? (
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="neutral"
+                onClick={handleDiscard}
+                disabled={isCommitting}
+              >
+                Discard
+              </Button>
+              <Button
+                onClick={handleCommit}
+                disabled={isCommitting || selected.size === 0}
+              >
+                {isCommitting ? 'Committing...' : 'Commit'}
+              </Button>
+            </div>
           ) : (
-            <div className="flex justify-end">
-              <Button onClick={handleTransfer} disabled={isTransferring}>
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="neutral"
+                onClick={() => handleTransfer(true)}
+                disabled={isTransferring}
+              >
+                Preview
+              </Button>
+              <Button
+                onClick={() => handleTransfer()}
+                disabled={isTransferring}
+              >
                 {isTransferring ? 'Transferring...' : 'Start Transfer'}
               </Button>
             </div>
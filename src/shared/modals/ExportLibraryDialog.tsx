@@ -7,57 +7,107 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { downloadBlob, ExportFormat } from '@/lib/export';
 import {
-  convertAlbumsToCSV,
-  convertPlaylistsToCSV,
-  downloadFile,
-} from '@/lib/export';
-import { NormalizedAlbum, Playlist } from '@/lib/types';
+  ExportProgress,
+  exportLibrary,
+  exportWholeLibrary,
+} from '@/lib/services/library-export';
+import { ServiceType } from '@/lib/types';
 import { Download } from 'lucide-react';
 import { useState } from 'react';
+import { toast } from 'sonner';
+
+type ExportType = 'albums' | 'playlists' | 'everything';
+
+const FORMATS: Record<ExportType, { value: ExportFormat; label: string }[]> = {
+  albums: [
+    { value: 'csv', label: 'CSV' },
+    { value: 'json', label: 'JSON' },
+  ],
+  playlists: [
+    { value: 'csv', label: 'CSV' },
+    { value: 'json', label: 'JSON' },
+    { value: 'm3u8', label: 'M3U8' },
+    { value: 'xspf', label: 'XSPF' },
+  ],
+  everything: [],
+};
+
+const SERVICE_NAMES: Record<ServiceType, string> = {
+  spotify: 'Spotify',
+  'apple-music': 'Apple Music',
+};
+
+const OPTION_CLASS =
+  'flex flex-col items-center justify-between rounded-md border-2 border-muted bg-transparent p-4 hover:bg-accent hover:text-accent-foreground peer-data-[state=checked]:border-primary [&:has([data-state=checked])]:border-primary';
 
 interface ExportLibraryDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  albums: NormalizedAlbum[];
-  playlists: Playlist[];
+  userId: string;
   service: 'spotify' | 'apple-music';
+  // Connected streaming services, all of them go into the full archive
+  services: ServiceType[];
+  albumCount: number;
+  playlistCount: number;
 }
 
 export function ExportLibraryDialog({
   open,
   onOpenChange,
-  albums,
-  playlists,
+  userId,
   service,
+  services,
+  albumCount,
+  playlistCount,
 }: ExportLibraryDialogProps) {
-  const [format, setFormat] = useState<'csv' | 'json'>('csv');
-  const [type, setType] = useState<'albums' | 'playlists'>('albums');
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [type, setType] = useState<ExportType>('albums');
+  const [exporting, setExporting] = useState(false);
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
 
-  const handleExport = () => {
-    const timestamp = new Date().toISOString().split('T')[0];
-    const filename = `${service}-${type}-${timestamp}.${format}`;
+  const handleTypeChange = (value: ExportType) => {
+    setType(value);
+    if (!FORMATS[value].some((option) => option.value === format)) {
+      setFormat('csv');
+    }
+  };
 
-    if (format === 'csv') {
-      const content =
-        type === 'albums'
-          ? convertAlbumsToCSV(albums)
-          : convertPlaylistsToCSV(playlists);
-      downloadFile(content, filename, 'csv');
-    } else {
-      const content = JSON.stringify(
-        type === 'albums' ? albums : playlists,
-        null,
-        2
+  const handleExport = async () => {
+    setExporting(true);
+    setProgress(null);
+    try {
+      const file =
+        type === 'everything'
+          ? await exportWholeLibrary(userId, services, setProgress)
+          : await exportLibrary(userId, service, type, format, setProgress);
+      downloadBlob(file.blob, file.filename);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to export library:', error);
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to export library'
       );
-      downloadFile(content, filename, 'json');
+    } finally {
+      setExporting(false);
+      setProgress(null);
     }
-    onOpenChange(false);
   };
 
+  const typeOptions: { value: ExportType; label: string }[] = [
+    { value: 'albums', label: `Albums (${albumCount})` },
+    { value: 'playlists', label: `Playlists (${playlistCount})` },
+    { value: 'everything', label: 'Everything (ZIP)' },
+  ];
+
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
+    <Dialog
+      open={open}
+      onOpenChange={(next) => !exporting && onOpenChange(next)}
+    >
       <DialogContent>
         <DialogHeader>
           <DialogTitle>Export Library</DialogTitle>
@@ -70,80 +120,95 @@ export function ExportLibraryDialog({
           <div>
             <Label className="text-sm font-medium">What to export:</Label>
             <RadioGroup
-              defaultValue={type}
-              onValueChange={(value) =>
-                setType(value as 'albums' | 'playlists')
-              }
-              className="mt-2 grid grid-cols-2 gap-4"
+              value={type}
+              onValueChange={(value) => handleTypeChange(value as ExportType)}
+              className="mt-2 grid grid-cols-3 gap-4"
             >
-              <div>
-                <RadioGroupItem
-                  value="albums"
-                  id="albums"
-                  className="peer sr-only"
-                />
-                <Label
-                  htmlFor="albums"
-                  className="flex flex-col items-center justify-between rounded-md border-2 border-muted bg-transparent p-4 hover:bg-accent hover:text-accent-foreground peer-data-[state=checked]:border-primary [&:has([data-state=checked])]:border-primary"
-                >
-                  Albums ({albums.length})
-                </Label>
-              </div>
-              <div>
-                <RadioGroupItem
-                  value="playlists"
-                  id="playlists"
-                  className="peer sr-only"
-                />
-                <Label
-                  htmlFor="playlists"
-                  className="flex flex-col items-center justify-between rounded-md border-2 border-muted bg-transparent p-4 hover:bg-accent hover:text-accent-foreground peer-data-[state=checked]:border-primary [&:has([data-state=checked])]:border-primary"
-                >
-                  Playlists ({playlists.length})
-                </Label>
-              </div>
+              {typeOptions.map((option) => (
+                <div key={option.value}>
+                  <RadioGroupItem
+                    value={option.value}
+                    id={option.value}
+                    className="peer sr-only"
+                  />
+                  <Label htmlFor={option.value} className={OPTION_CLASS}>
+                    {option.label}
+                  </Label>
+                </div>
+              ))}
             </RadioGroup>
           </div>
 
-          <div>
-            <Label className="text-sm font-medium">Format:</Label>
-            <RadioGroup
-              defaultValue={format}
-              onValueChange={(value) => setFormat(value as 'csv' | 'json')}
-              className="mt-2 grid grid-cols-2 gap-4"
-            >
-              <div>
-                <RadioGroupItem value="csv" id="csv" className="peer sr-only" />
-                <Label
-                  htmlFor="csv"
-                  className="flex flex-col items-center justify-between rounded-md border-2 border-muted bg-transparent p-4 hover:bg-accent hover:text-accent-foreground peer-data-[state=checked]:border-primary [&:has([data-state=checked])]:border-primary"
-                >
-                  CSV
-                </Label>
-              </div>
-              <div>
-                <RadioGroupItem
-                  value="json"
-                  id="json"
-                  className="peer sr-only"
-                />
-                <Label
-                  htmlFor="json"
-                  className="flex flex-col items-center justify-between rounded-md border-2 border-muted bg-transparent p-4 hover:bg-accent hover:text-accent-foreground peer-data-[state=checked]:border-primary [&:has([data-state=checked])]:border-primary"
-                >
-                  JSON
-                </Label>
-              </div>
-            </RadioGroup>
-          </div>
+          {type === 'everything' ? (
+            <p className="text-sm text-muted-foreground">
+              A ZIP archive with albums and full playlist track listings from{' '}
+              {services.map((id) => SERVICE_NAMES[id]).join(' and ')}, as CSV,
+              JSON, M3U8 and XSPF.
+            </p>
+          ) : (
+            <div>
+              <Label className="text-sm font-medium">Format:</Label>
+              <RadioGroup
+                value={format}
+                onValueChange={(value) => setFormat(value as ExportFormat)}
+                className="mt-2 grid grid-cols-4 gap-4"
+              >
+                {FORMATS[type].map((option) => (
+                  <div key={option.value}>
+                    <RadioGroupItem
+                      value={option.value}
+                      id={option.value}
+                      className="peer sr-only"
+                    />
+                    <Label htmlFor={option.value} className={OPTION_CLASS}>
+                      {option.label}
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+              {type === 'playlists' &&
+                (format === 'm3u8' || format === 'xspf') && (
+                  <p className="mt-2 text-sm text-muted-foreground">
+                    One file per playlist, downloaded together as a ZIP
+                  </p>
+                )}
+            </div>
+          )}
+
+          {exporting && (
+            <div className="space-y-2">
+              <Progress
+                value={
+                  progress
+                    ? (progress.playlistsDone / progress.playlistsTotal) * 100
+                    : 0
+                }
+              />
+              <p className="text-sm text-muted-foreground">
+                {progress
+                  ? `Reading ${SERVICE_NAMES[progress.service]} playlists: ${progress.playlistsDone} of ${progress.playlistsTotal}, ${progress.tracks} tracks`
+                  : 'Preparing export...'}
+              </p>
+            </div>
+          )}
 
           <div className="flex justify-end gap-2">
-            <Button variant="outline" onClick={() => onOpenChange(false)}>
+            <Button
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={exporting}
+            >
               Cancel
             </Button>
-            <Button onClick={handleExport} className="gap-2">
+            <Button
+              onClick={handleExport}
+              className="gap-2"
+              disabled={
+                exporting || (type === 'everything' && !services.length)
+              }
+            >
               <Download className="h-4 w-4" />
-              Export
+              {exporting ? 'Exporting...' : 'Export'}
             </Button>
           </div>
         </div>
@@ -0,0 +1,313 @@
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  IMPORT_FILE_TYPES,
+  importPlaylists,
+  ParsedPlaylist,
+  parsePlaylistFile,
+} from '@/lib/services/playlist-import';
+import { TransferProgress } from '@/lib/services/transfer';
+import { ServiceType } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { TransferProgressView } from '@/shared/components/TransferProgressView';
+import { FileUp, Loader2, Music, Music2 } from 'lucide-react';
+import { useState } from 'react';
+
+const SERVICE_OPTIONS: {
+  value: ServiceType;
+  label: string;
+  icon: typeof Music;
+}[] = [
+  { value: 'spotify', label: 'Spotify', icon: Music },
+  { value: 'apple-music', label: 'Apple Music', icon: Music2 },
+];
+
+interface ImportPlaylistModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  // Connected streaming services the playlists can be created on
+  services: ServiceType[];
+  onImportComplete?: () => void;
+}
+
+export function ImportPlaylistModal({
+  open,
+  onOpenChange,
+  userId,
+  services,
+  onImportComplete,
+}: ImportPlaylistModalProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [playlists, setPlaylists] = useState<ParsedPlaylist[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [targetService, setTargetService] = useState<ServiceType | undefined>(
+    services[0]
+  );
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState<TransferProgress | null>(null);
+
+  const target = targetService || services[0];
+  const chosen = playlists.filter((_, index) => selected.has(index));
+  const destinationName =
+    chosen.length === 1 ? `"${chosen[0].name}"` : `${chosen.length} playlists`;
+
+  const reset = () => {
+    setFileName(null);
+    setPlaylists([]);
+    setSelected(new Set());
+    setProgress(null);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+
+    try {
+      const parsed = parsePlaylistFile(file.name, await file.text());
+      if (!parsed.some((playlist) => playlist.tracks.length)) {
+        throw new Error(`No tracks could be read from ${file.name}`);
+      }
+      setPlaylists(parsed);
+      setSelected(
+        new Set(
+          parsed.flatMap((playlist, index) =>
+            playlist.tracks.length ? [index] : []
+          )
+        )
+      );
+    } catch (error) {
+      console.error('Failed to read playlist file:', error);
+      setProgress({
+        stage: 'error',
+        progress: 0,
+        message: 'Import failed',
+        error:
+          error instanceof Error ? error.message : 'The file could not be read',
+      });
+    }
+  };
+
+  const toggle = (index: number) =>
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+
+  const handleImport = async () => {
+    if (!target || !chosen.length || isImporting) return;
+
+    setIsImporting(true);
+    setProgress({
+      stage: 'processing',
+      progress: 0,
+      message: 'Starting import...',
+    });
+
+    try {
+      await importPlaylists(userId, target, chosen, setProgress);
+      onImportComplete?.();
+    } catch (error) {
+      console.error('Import error:', error);
+      setProgress({
+        stage: 'error',
+        progress: 0,
+        message: 'Import failed',
+        error:
+          error instanceof Error ? error.message : 'An unknown error occurred',
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isImporting) {
+      onOpenChange(false);
+      // Reset state after modal is closed
+      setTimeout(reset, 200);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[600px] bg-zinc-900 text-white border-white/10">
+        {progress?.stage !== 'complete' && (
+          <DialogHeader>
+            <DialogTitle className="text-white">Import Playlists</DialogTitle>
+            <DialogDescription className="text-white/60">
+              {fileName
+                ? `From ${fileName}`
+                : 'Create playlists from a CSV, M3U, M3U8, XSPF or JSON file'}
+            </DialogDescription>
+          </DialogHeader>
+        )}
+
+        <div className="space-y-6">
+          {!progress && !playlists.length && (
+            <label className="flex flex-col items-center justify-center gap-2 rounded-md border-2 border-dashed border-white/10 bg-white/5 p-8 cursor-pointer hover:bg-white/10 transition-colors">
+              <FileUp className="h-8 w-8 text-white" />
+              <span className="text-white">Choose a file</span>
+              <span className="text-sm text-white/40">
+                Our own exports, or playlists saved from other apps
+              </span>
+              <input
+                type="file"
+                accept={IMPORT_FILE_TYPES}
+                className="sr-only"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </label>
+          )}
+
+          {!progress && !!playlists.length && (
+            <>
+              <ScrollArea className="max-h-60 rounded-md border border-white/10 bg-white/5">
+                <div className="p-2 space-y-1">
+                  {playlists.map((playlist, index) => (
+                    <label
+                      key={index}
+                      className={cn(
+                        'flex items-center gap-3 rounded-md p-2 hover:bg-white/10',
+                        !playlist.tracks.length && 'opacity-50'
+                      )}
+                    >
+                      <Checkbox
+                        checked={selected.has(index)}
+                        disabled={!playlist.tracks.length}
+                        onCheckedChange={() => toggle(index)}
+                      />
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-white">{playlist.name}</p>
+                        <p className="text-sm text-white/40">
+                          {playlist.tracks.length} tracks
+                          {!!playlist.errors.length && (
+                            <span className="text-yellow-500">
+                              , {playlist.errors.length} rows couldn't be read
+                            </span>
+                          )}
+                        </p>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              </ScrollArea>
+
+              <div>
+                <Label className="text-sm font-medium text-white">
+                  Create on:
+                </Label>
+                <RadioGroup
+                  value={target}
+                  onValueChange={(value) =>
+                    setTargetService(value as ServiceType)
+                  }
+                  className="mt-2 grid grid-cols-2 gap-4"
+                >
+                  {SERVICE_OPTIONS.map(({ value, label, icon: Icon }) => {
+                    const connected = services.includes(value);
+                    return (
+                      <div key={value}>
+                        <RadioGroupItem
+                          value={value}
+                          id={`import-${value}`}
+                          disabled={!connected}
+                          className="peer sr-only"
+                        />
+                        <Label
+                          htmlFor={`import-${value}`}
+                          className={cn(
+                            'flex flex-col items-center justify-between rounded-md border-2 p-4 cursor-pointer transition-colors',
+                            connected
+                              ? 'border-white/10 bg-white/5 hover:bg-white/10 peer-data-[state=checked]:border-white peer-data-[state=checked]:bg-white/10'
+                              : 'border-white/10 bg-white/5 cursor-not-allowed opacity-50'
+                          )}
+                        >
+                          <Icon className="mb-2 h-6 w-6 text-white" />
+                          <span className="text-white">{label}</span>
+                        </Label>
+                      </div>
+                    );
+                  })}
+                </RadioGroup>
+              </div>
+            </>
+          )}
+
+          {progress && (
+            <TransferProgressView
+              progress={progress}
+              destinationName={destinationName}
+              action="import"
+            />
+          )}
+
+          <div className="flex justify-end gap-2">
+            {progress?.stage === 'complete' ? (
+              <Button
+                onClick={handleClose}
+                className="bg-green-500/20 text-green-500 hover:bg-green-500/30 min-w-[100px]"
+              >
+                Close
+              </Button>
+            ) : progress?.stage === 'error' ? (
+              <>
+                <Button
+                  variant="neutral"
+                  onClick={handleClose}
+                  className="border-white/10 bg-white/5 text-white hover:bg-white/10"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  onClick={() =>
+                    playlists.length ? setProgress(null) : reset()
+                  }
+                  className="bg-white/10 text-white hover:bg-white/20"
+                >
+                  {playlists.length ? 'Back' : 'Choose Another File'}
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button
+                  variant="neutral"
+                  onClick={handleClose}
+                  disabled={isImporting}
+                  className="border-white/10 bg-white/5 text-white hover:bg-white/10 disabled:opacity-50"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleImport}
+                  disabled={isImporting || !chosen.length || !target}
+                  className="bg-white/10 text-white hover:bg-white/20 disabled:opacity-50"
+                >
+                  {isImporting && (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  )}
+                  Import
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
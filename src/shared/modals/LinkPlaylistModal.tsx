@@ -7,13 +7,32 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import { Checkbox } from '@/components/ui/checkbox';
 import { usePlaylistSync } from '@/lib/hooks/usePlaylistSync';
 import { useUserPlaylists } from '@/lib/hooks/usePlaylistQueries';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ConflictPolicy, SyncDirection } from '@/lib/services/playlist-merge';
+import {
+  SYNC_FREQUENCIES,
+  SyncFrequency,
+} from '@/lib/services/playlist-sync-schedule';
 import { useState } from 'react';
 import { NormalizedPlaylist } from '@/lib/types';
 
+const CONFLICT_POLICY_LABELS: Record<ConflictPolicy, string> = {
+  source_wins: 'This playlist wins',
+  target_wins: 'Linked playlist wins',
+  keep_both: 'Keep both',
+};
+
 interface LinkPlaylistModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -32,6 +51,11 @@ export function LinkPlaylistModal({
   const [selectedPlaylist, setSelectedPlaylist] = useState<NormalizedPlaylist | null>(
     null
   );
+  const [frequency, setFrequency] = useState<SyncFrequency>('daily');
+  const [syncDirection, setSyncDirection] = useState<SyncDirection>('one_way');
+  const [conflictPolicy, setConflictPolicy] =
+    useState<ConflictPolicy>('source_wins');
+  const [rebuildToReorder, setRebuildToReorder] = useState(false);
 
   const { createSyncPair } = usePlaylistSync(userId);
 
@@ -51,6 +75,10 @@ export function LinkPlaylistModal({
       sourceService: sourcePlaylist.service,
       targetPlaylistId: selectedPlaylist.playlist_id,
       targetService: selectedPlaylist.service,
+      frequency,
+      syncDirection,
+      conflictPolicy,
+      rebuildToReorder: targetService === 'apple-music' && rebuildToReorder,
     });
 
     onLinkComplete?.();
@@ -63,8 +91,10 @@ export function LinkPlaylistModal({
         <DialogHeader>
           <DialogTitle>Link with {targetService} Playlist</DialogTitle>
           <DialogDescription>
-            Select a playlist to sync with "{sourcePlaylist.name}". Changes made to
-            either playlist will be reflected in both.
+            Select a playlist to sync with "{sourcePlaylist.name}".{' '}
+            {syncDirection === 'two_way'
+              ? 'Changes made to either playlist will be reflected in both.'
+              : 'The linked playlist will follow changes made to this one.'}
           </DialogDescription>
         </DialogHeader>
 
@@ -99,6 +129,86 @@ export function LinkPlaylistModal({
           </ScrollArea>
         )}
 
+        <div className="flex items-center justify-between gap-4">
+          <span className="text-sm font-medium">Sync frequency</span>
+          <Select
+            value={frequency}
+            onValueChange={(value) => setFrequency(value as SyncFrequency)}
+          >
+            <SelectTrigger className="w-[140px] capitalize">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SYNC_FREQUENCIES.map((option) => (
+                <SelectItem key={option} value={option} className="capitalize">
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <span className="text-sm font-medium">Sync direction</span>
+          <Select
+            value={syncDirection}
+            onValueChange={(value) => setSyncDirection(value as SyncDirection)}
+          >
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="one_way">One-way</SelectItem>
+              <SelectItem value="two_way">Two-way</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {syncDirection === 'two_way' && (
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-sm font-medium">When both sides change</span>
+            <Select
+              value={conflictPolicy}
+              onValueChange={(value) =>
+                setConflictPolicy(value as ConflictPolicy)
+              }
+            >
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(CONFLICT_POLICY_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {targetService === 'apple-music' && (
+          <label className="flex items-start gap-3">
+            <Checkbox
+              className="mt-0.5"
+              checked={rebuildToReorder}
+              onCheckedChange={(checked) =>
+                setRebuildToReorder(checked === true)
+              }
+            />
+            <span className="space-y-1">
+              <span className="block text-sm font-medium">
+                Keep the Apple Music playlist in order
+              </span>
+              <span className="block text-sm text-muted-foreground">
+                Apple Music can't reorder playlists, so syncs replace it with a
+                reordered copy. The old playlist stays in your library until
+                you delete it.
+              </span>
+            </span>
+          </label>
+        )}
+
         <DialogFooter>
           <Button
             variant="outline"
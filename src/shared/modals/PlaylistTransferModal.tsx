@@ -7,34 +7,22 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
-import { Progress } from '@/components/ui/progress';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import { transferPlaylist } from '@/lib/services/transfer';
-import { cn } from '@/lib/utils';
+import { assertCanTransfer } from '@/lib/services/entitlements';
+import { TransferProgress } from '@/lib/services/transfer';
 import {
-  AlertCircle,
-  CheckCircle2,
-  Loader2,
-  Music,
-  Music2,
-  XCircle,
-} from 'lucide-react';
-import { useState } from 'react';
-
-interface TransferProgress {
-  stage:
-    | 'fetching'
-    | 'creating'
-    | 'searching'
-    | 'adding'
-    | 'processing'
-    | 'complete'
-    | 'error';
-  progress: number; // 0-100
-  message: string;
-  destinationPlaylistName?: string;
-  error?: string;
-}
+  enqueueTransferJob,
+  getTransferJobs,
+  isTransferActive,
+  requeueTransfer,
+  toPlaylistJobPayload,
+  toTransferProgress,
+} from '@/lib/services/transfer-jobs';
+import { cn } from '@/lib/utils';
+import { TransferProgressView } from '@/shared/components/TransferProgressView';
+import { useQuery } from '@tanstack/react-query';
+import { AlertCircle, Loader2, Music, Music2 } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
 
 interface TransferPlaylistModalProps {
   open: boolean;
@@ -45,50 +33,6 @@ interface TransferPlaylistModalProps {
   onTransferComplete?: () => void;
 }
 
-function TransferProgress({ progress }: { progress: TransferProgress }) {
-  if (progress.stage === 'complete') {
-    return (
-      <div className="flex flex-col items-center justify-center py-6 space-y-4">
-        <div className="rounded-full bg-green-500/20 p-3">
-          <CheckCircle2 className="h-12 w-12 text-green-500" />
-        </div>
-        <div className="text-center space-y-2">
-          <h3 className="text-xl font-medium text-white">Transfer Complete!</h3>
-          <p className="text-white/60">
-            Successfully transferred "{progress.destinationPlaylistName}" to your library
-          </p>
-        </div>
-      </div>
-    );
-  }
-
-  if (progress.stage === 'error') {
-    return (
-      <div className="flex flex-col items-center justify-center py-6 space-y-4">
-        <div className="rounded-full bg-red-500/20 p-3">
-          <XCircle className="h-12 w-12 text-red-500" />
-        </div>
-        <div className="text-center space-y-2">
-          <h3 className="text-xl font-medium text-white">Transfer Failed</h3>
-          <p className="text-white/60">{progress.error}</p>
-        </div>
-      </div>
-    );
-  }
-
-  return (
-    <div className="space-y-4">
-      <Progress 
-        value={progress.progress} 
-        className="w-full bg-white/5 [&>div]:bg-white" 
-      />
-      <p className="text-center text-sm text-white/60">
-        {progress.message}
-      </p>
-    </div>
-  );
-}
-
 export function TransferPlaylistModal({
   open,
   onOpenChange,
@@ -97,66 +41,90 @@ export function TransferPlaylistModal({
   userId,
   onTransferComplete,
 }: TransferPlaylistModalProps) {
-  const [isTransferring, setIsTransferring] = useState(false);
-  const [progress, setProgress] = useState<TransferProgress | null>(null);
+  const [isQueuing, setIsQueuing] = useState(false);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [queueError, setQueueError] = useState<string | null>(null);
   const [targetService, setTargetService] = useState<'spotify' | 'apple-music'>(
     sourceService === 'spotify' ? 'apple-music' : 'spotify'
   );
 
+  // The transfer runs on the worker, which checks the monthly quota and
+  // counts it, so the modal only follows the queued job
+  const { data: jobs = [], refetch } = useQuery({
+    queryKey: ['transfer-jobs', jobId ? [jobId] : []],
+    queryFn: () => getTransferJobs([jobId!]),
+    enabled: !!jobId,
+    refetchInterval: (query) =>
+      (query.state.data || []).some((job) => isTransferActive(job.status))
+        ? 3000
+        : false,
+  });
+  const job = jobs[0];
+
+  const progress: TransferProgress | null = queueError
+    ? {
+        stage: 'error',
+        progress: 0,
+        message: 'Transfer failed',
+        error: queueError,
+      }
+    : job
+      ? toTransferProgress(job)
+      : isQueuing || jobId
+        ? { stage: 'processing', progress: 0, message: 'Starting transfer...' }
+        : null;
+  const isTransferring =
+    isQueuing || (!!jobId && (!job || isTransferActive(job.status)));
+
+  // Reported once per job, the row is refetched after it finishes
+  const reportedJobId = useRef<string | null>(null);
+  useEffect(() => {
+    if (job?.status === 'success' && reportedJobId.current !== job.id) {
+      reportedJobId.current = job.id;
+      onTransferComplete?.();
+    }
+  }, [job?.id, job?.status, onTransferComplete]);
+
   const handleTransfer = async () => {
     if (!userId || isTransferring) return;
-    
-    setIsTransferring(true);
-    setProgress({
-      stage: 'processing',
-      progress: 0,
-      message: 'Starting transfer...',
-      destinationPlaylistName: playlist.name
-    });
 
-    try {
-      await transferPlaylist({
-        sourceService,
-        targetService,
-        playlist,
-        sourceToken: '', // Token will be fetched from database
-        targetToken: '', // Token will be fetched from database
-        userId,
-        onProgress: (transferProgress) => {
-          setProgress({
-            ...transferProgress,
-            destinationPlaylistName: playlist.name
-          });
-        },
-      });
+    setIsQueuing(true);
+    setQueueError(null);
 
-      // Call onTransferComplete callback if provided
-      if (onTransferComplete) {
-        onTransferComplete();
+    try {
+      // A failed job picks up where it stopped and isn't counted again
+      if (jobId) {
+        await requeueTransfer(jobId, 'resume');
+        await refetch();
+      } else {
+        await assertCanTransfer(userId);
+        const queued = await enqueueTransferJob(
+          userId,
+          sourceService,
+          targetService,
+          toPlaylistJobPayload(playlist),
+          { sourcePlaylistName: playlist.name }
+        );
+        setJobId(queued.id);
       }
-
-      // Don't close the modal, just show completion state
-      setIsTransferring(false);
     } catch (error) {
       console.error('Transfer error:', error);
-      setProgress({
-        stage: 'error',
-        progress: 0,
-        message: 'Transfer failed',
-        error: error instanceof Error ? error.message : 'An unknown error occurred',
-        destinationPlaylistName: playlist.name
-      });
-      setIsTransferring(false);
+      setQueueError(
+        error instanceof Error ? error.message : 'An unknown error occurred'
+      );
+    } finally {
+      setIsQueuing(false);
     }
   };
 
   const handleClose = () => {
-    // Only allow closing if not currently transferring
-    if (!isTransferring) {
+    // A queued transfer keeps running on the worker after the modal closes
+    if (!isQueuing) {
       onOpenChange(false);
       // Reset state after modal is closed
       setTimeout(() => {
-        setProgress(null);
+        setJobId(null);
+        setQueueError(null);
         setTargetService(sourceService === 'spotify' ? 'apple-music' : 'spotify');
       }, 200);
     }
@@ -231,13 +199,19 @@ export function TransferPlaylistModal({
             </div>
           )}
 
-          {progress && <TransferProgress progress={progress} />}
+          {progress && (
+            <TransferProgressView
+              progress={progress}
+              destinationName={`"${playlist.name}"`}
+            />
+          )}
 
           {!progress && (
             <div className="flex items-center gap-2 rounded-md border border-white/10 bg-white/5 p-4">
               <AlertCircle className="h-5 w-5 text-yellow-500" />
               <p className="text-sm text-white/60">
-                This process may take a few minutes depending on the playlist size
+                This process may take a few minutes depending on the playlist size.
+                It keeps running if you close this window.
               </p>
             </div>
           )}
@@ -271,10 +245,10 @@ export function TransferPlaylistModal({
                 <Button
                   variant="outline"
                   onClick={handleClose}
-                  disabled={isTransferring}
+                  disabled={isQueuing}
                   className="border-white/10 bg-white/5 text-white hover:bg-white/10 disabled:opacity-50"
                 >
-                  Cancel
+                  {jobId ? 'Close' : 'Cancel'}
                 </Button>
                 <Button
                   onClick={handleTransfer}
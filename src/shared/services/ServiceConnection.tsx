@@ -7,6 +7,10 @@ import {
   authorizeAppleMusic,
   unauthorizeAppleMusic,
 } from '@/lib/services/apple-music-auth';
+import {
+  assertCanConnectService,
+  EntitlementError,
+} from '@/lib/services/entitlements';
 import { authorizeLastFm, unauthorizeLastFm } from '@/lib/services/lastfm-auth';
 import {
   authorizeSpotify,
@@ -15,7 +19,7 @@ import {
 import { ServiceType } from '@/lib/services/streaming-auth';
 import { useState } from 'react';
 import { ReloadIcon } from '@radix-ui/react-icons';
-import { forceSyncLibrary } from '@/lib/services/library-sync';
+import { requestLibrarySync } from '@/lib/services/library-sync';
 
 interface ServiceConnectionProps {
   service: ServiceType;
@@ -46,6 +50,11 @@ export function ServiceConnection({ service }: ServiceConnectionProps) {
 
     setIsConnecting(true);
     try {
+      // Last.fm is only a username kept in the browser
+      if (service !== 'lastfm') {
+        await assertCanConnectService(user.id, service);
+      }
+
       if (service === 'spotify') {
         await authorizeSpotify(user.id);
       } else if (service === 'apple-music') {
@@ -62,7 +71,10 @@ export function ServiceConnection({ service }: ServiceConnectionProps) {
       console.error('Error connecting service:', error);
       toast({
         title: 'Error',
-        description: 'Failed to connect service. Please try again.',
+        description:
+          error instanceof EntitlementError
+            ? error.message
+            : 'Failed to connect service. Please try again.',
       });
     } finally {
       setIsConnecting(false);
@@ -103,11 +115,11 @@ export function ServiceConnection({ service }: ServiceConnectionProps) {
     
     setIsSyncing(true);
     try {
-      console.log(`Starting force sync for ${service}...`);
-      await forceSyncLibrary(user.id, service);
+      console.log(`Requesting library sync for ${service}...`);
+      await requestLibrarySync(user.id, service);
       toast({
         title: 'Success',
-        description: 'Library sync started successfully. Check console for progress.',
+        description: 'Library sync queued. Your library will update in a minute or two.',
         duration: 5000,
       });
     } catch (error: any) {
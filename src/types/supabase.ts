@@ -34,6 +34,42 @@ export type Database = {
   }
   public: {
     Tables: {
+      album_mappings: {
+        Row: {
+          apple_music_id: string
+          confidence: number
+          confirmed_at: string
+          created_at: string
+          id: string
+          upc: string | null
+          match_method: string
+          spotify_id: string
+          updated_at: string
+        }
+        Insert: {
+          apple_music_id: string
+          confidence?: number
+          confirmed_at?: string
+          created_at?: string
+          id?: string
+          upc?: string | null
+          match_method: string
+          spotify_id: string
+          updated_at?: string
+        }
+        Update: {
+          apple_music_id?: string
+          confidence?: number
+          confirmed_at?: string
+          created_at?: string
+          id?: string
+          upc?: string | null
+          match_method?: string
+          spotify_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       album_tracks: {
         Row: {
           album_id: string
@@ -82,10 +118,48 @@ export type Database = {
         }
         Relationships: []
       }
+      library_sync_history: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          error: string | null
+          id: string
+          service: string
+          started_at: string | null
+          stats: Json | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          service: string
+          started_at?: string | null
+          stats?: Json | null
+          status: string
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          service?: string
+          started_at?: string | null
+          stats?: Json | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       library_syncs: {
         Row: {
+          claimed_by: string | null
           created_at: string
           error_count: number | null
+          heartbeat_at: string | null
           id: string
           last_error: string | null
           last_sync_time: string | null
@@ -98,8 +172,10 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          claimed_by?: string | null
           created_at?: string
           error_count?: number | null
+          heartbeat_at?: string | null
           id?: string
           last_error?: string | null
           last_sync_time?: string | null
@@ -112,8 +188,10 @@ export type Database = {
           user_id: string
         }
         Update: {
+          claimed_by?: string | null
           created_at?: string
           error_count?: number | null
+          heartbeat_at?: string | null
           id?: string
           last_error?: string | null
           last_sync_time?: string | null
@@ -129,15 +207,19 @@ export type Database = {
       }
       playlist_sync_pairs: {
         Row: {
+          conflict_policy: string
           created_at: string | null
           error_count: number | null
           id: string
           is_active: boolean | null
           last_error: string | null
           last_error_at: string | null
+          last_snapshot: Json | null
           last_synced_at: string | null
+          rebuild_to_reorder: boolean
           source_playlist_id: string
           source_service: string
+          sync_direction: string
           sync_enabled: boolean | null
           target_playlist_id: string
           target_service: string
@@ -145,15 +227,19 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          conflict_policy?: string
           created_at?: string | null
           error_count?: number | null
           id?: string
           is_active?: boolean | null
           last_error?: string | null
           last_error_at?: string | null
+          last_snapshot?: Json | null
           last_synced_at?: string | null
+          rebuild_to_reorder?: boolean
           source_playlist_id: string
           source_service: string
+          sync_direction?: string
           sync_enabled?: boolean | null
           target_playlist_id: string
           target_service: string
@@ -161,15 +247,19 @@ export type Database = {
           user_id: string
         }
         Update: {
+          conflict_policy?: string
           created_at?: string | null
           error_count?: number | null
           id?: string
           is_active?: boolean | null
           last_error?: string | null
           last_error_at?: string | null
+          last_snapshot?: Json | null
           last_synced_at?: string | null
+          rebuild_to_reorder?: boolean
           source_playlist_id?: string
           source_service?: string
+          sync_direction?: string
           sync_enabled?: boolean | null
           target_playlist_id?: string
           target_service?: string
@@ -186,6 +276,41 @@ export type Database = {
           },
         ]
       }
+      playlist_sync_runs: {
+        Row: {
+          changes: Json
+          created_at: string
+          id: string
+          sync_direction: string
+          sync_pair_id: string
+          user_id: string
+        }
+        Insert: {
+          changes: Json
+          created_at?: string
+          id?: string
+          sync_direction: string
+          sync_pair_id: string
+          user_id: string
+        }
+        Update: {
+          changes?: Json
+          created_at?: string
+          id?: string
+          sync_direction?: string
+          sync_pair_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "playlist_sync_runs_sync_pair_id_fkey"
+            columns: ["sync_pair_id"]
+            isOneToOne: false
+            referencedRelation: "playlist_sync_pairs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       playlist_syncs: {
         Row: {
           created_at: string
@@ -294,14 +419,141 @@ export type Database = {
         }
         Relationships: []
       }
+      track_mappings: {
+        Row: {
+          apple_music_id: string
+          confidence: number
+          confirmed_at: string
+          created_at: string
+          id: string
+          isrc: string | null
+          match_method: string
+          spotify_id: string
+          updated_at: string
+        }
+        Insert: {
+          apple_music_id: string
+          confidence?: number
+          confirmed_at?: string
+          created_at?: string
+          id?: string
+          isrc?: string | null
+          match_method: string
+          spotify_id: string
+          updated_at?: string
+        }
+        Update: {
+          apple_music_id?: string
+          confidence?: number
+          confirmed_at?: string
+          created_at?: string
+          id?: string
+          isrc?: string | null
+          match_method?: string
+          spotify_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      transfer_items: {
+        Row: {
+          artist_name: string | null
+          confidence: number | null
+          created_at: string
+          error: string | null
+          id: string
+          item_key: string
+          kind: string
+          name: string | null
+          status: string
+          target_id: string | null
+          transfer_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          artist_name?: string | null
+          confidence?: number | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          item_key: string
+          kind: string
+          name?: string | null
+          status?: string
+          target_id?: string | null
+          transfer_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          artist_name?: string | null
+          confidence?: number | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          item_key?: string
+          kind?: string
+          name?: string | null
+          status?: string
+          target_id?: string | null
+          transfer_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transfer_items_transfer_id_fkey"
+            columns: ["transfer_id"]
+            isOneToOne: false
+            referencedRelation: "transfers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transfer_usage: {
+        Row: {
+          created_at: string
+          id: string
+          transfer_id: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          transfer_id?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          transfer_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transfer_usage_transfer_id_fkey"
+            columns: ["transfer_id"]
+            isOneToOne: true
+            referencedRelation: "transfers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       transfers: {
         Row: {
+          attempts: number
+          checkpoint: Json | null
+          claimed_by: string | null
           completed_at: string | null
           created_at: string
           destination_service: string
           error: string | null
+          heartbeat_at: string | null
           id: string
+          job_type: string | null
           metadata: Json | null
+          payload: Json | null
           source_service: string
           started_at: string | null
           status: string
@@ -310,12 +562,18 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          attempts?: number
+          checkpoint?: Json | null
+          claimed_by?: string | null
           completed_at?: string | null
           created_at?: string
           destination_service: string
           error?: string | null
+          heartbeat_at?: string | null
           id?: string
+          job_type?: string | null
           metadata?: Json | null
+          payload?: Json | null
           source_service: string
           started_at?: string | null
           status: string
@@ -324,12 +582,18 @@ export type Database = {
           user_id: string
         }
         Update: {
+          attempts?: number
+          checkpoint?: Json | null
+          claimed_by?: string | null
           completed_at?: string | null
           created_at?: string
           destination_service?: string
           error?: string | null
+          heartbeat_at?: string | null
           id?: string
+          job_type?: string | null
           metadata?: Json | null
+          payload?: Json | null
           source_service?: string
           started_at?: string | null
           status?: string
@@ -351,6 +615,7 @@ export type Database = {
           image_url: string | null
           name: string
           release_date: string | null
+          removed_at: string | null
           service: Database["public"]["Enums"]["service_type"]
           synced_at: string | null
           tracks_count: number | null
@@ -369,6 +634,7 @@ export type Database = {
           image_url?: string | null
           name: string
           release_date?: string | null
+          removed_at?: string | null
           service: Database["public"]["Enums"]["service_type"]
           synced_at?: string | null
           tracks_count?: number | null
@@ -387,6 +653,7 @@ export type Database = {
           image_url?: string | null
           name?: string
           release_date?: string | null
+          removed_at?: string | null
           service?: Database["public"]["Enums"]["service_type"]
           synced_at?: string | null
           tracks_count?: number | null
@@ -411,6 +678,7 @@ export type Database = {
           owner_name: string | null
           playlist_id: string
           public: boolean | null
+          removed_at: string | null
           service: Database["public"]["Enums"]["service_type"]
           synced_at: string | null
           tracks_count: number | null
@@ -431,6 +699,7 @@ export type Database = {
           owner_name?: string | null
           playlist_id: string
           public?: boolean | null
+          removed_at?: string | null
           service: Database["public"]["Enums"]["service_type"]
           synced_at?: string | null
           tracks_count?: number | null
@@ -451,6 +720,7 @@ export type Database = {
           owner_name?: string | null
           playlist_id?: string
           public?: boolean | null
+          removed_at?: string | null
           service?: Database["public"]["Enums"]["service_type"]
           synced_at?: string | null
           tracks_count?: number | null
@@ -462,36 +732,45 @@ export type Database = {
       user_services: {
         Row: {
           access_token: string
+          country: string | null
           created_at: string | null
           id: string
           last_library_sync: string | null
           music_user_token: string | null
           refresh_token: string | null
           service: Database["public"]["Enums"]["service_type"]
+          storefront: string | null
+          storefront_language: string | null
           token_expires_at: string | null
           updated_at: string | null
           user_id: string
         }
         Insert: {
           access_token: string
+          country?: string | null
           created_at?: string | null
           id?: string
           last_library_sync?: string | null
           music_user_token?: string | null
           refresh_token?: string | null
           service: Database["public"]["Enums"]["service_type"]
+          storefront?: string | null
+          storefront_language?: string | null
           token_expires_at?: string | null
           updated_at?: string | null
           user_id: string
         }
         Update: {
           access_token?: string
+          country?: string | null
           created_at?: string | null
           id?: string
           last_library_sync?: string | null
           music_user_token?: string | null
           refresh_token?: string | null
           service?: Database["public"]["Enums"]["service_type"]
+          storefront?: string | null
+          storefront_language?: string | null
           token_expires_at?: string | null
           updated_at?: string | null
           user_id?: string
@@ -507,6 +786,21 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: undefined
       }
+      claim_library_sync: {
+        Args: {
+          worker_id: string
+          services: string[]
+          stale_after?: unknown
+        }
+        Returns: Database["public"]["Tables"]["library_syncs"]["Row"][]
+      }
+      claim_transfer_job: {
+        Args: {
+          worker_id: string
+          stale_after?: unknown
+        }
+        Returns: Database["public"]["Tables"]["transfers"]["Row"][]
+      }
       count_unique_albums: {
         Args: {
           user_id_param: string
@@ -519,6 +813,47 @@ export type Database = {
         }
         Returns: number
       }
+      effective_subscription_tier: {
+        Args: {
+          user_id_param: string
+        }
+        Returns: Database["public"]["Enums"]["subscription_tier"]
+      }
+      max_connected_services: {
+        Args: {
+          tier: Database["public"]["Enums"]["subscription_tier"]
+        }
+        Returns: number
+      }
+      max_transfers_per_month: {
+        Args: {
+          tier: Database["public"]["Enums"]["subscription_tier"]
+        }
+        Returns: number
+      }
+      record_import_usage: {
+        Args: {
+          playlist_count: number
+        }
+        Returns: undefined
+      }
+      record_transfer_usage: {
+        Args: {
+          user_id_param: string
+          transfer_id_param: string
+        }
+        Returns: undefined
+      }
+      transfer_item_counts: {
+        Args: {
+          transfer_ids: string[]
+        }
+        Returns: {
+          transfer_id: string
+          status: string
+          count: number
+        }[]
+      }
     }
     Enums: {
       library_item_type: "track" | "album" | "playlist"
@@ -0,0 +1,25 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Browsers call with the user's session token and may only act for that
+// user. The transfer worker calls with the service role key and names the
+// user it is working for.
+export async function resolveUserId(
+  req: Request,
+  supabase: SupabaseClient,
+  serviceKey: string,
+  requestedUserId?: string
+): Promise<string | null> {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '')
+  if (!token) return null
+
+  if (token === serviceKey) {
+    return requestedUserId || null
+  }
+
+  const { data: { user } } = await supabase.auth.getUser(token)
+  if (!user || (requestedUserId && requestedUserId !== user.id)) {
+    return null
+  }
+
+  return user.id
+}
@@ -1,5 +1,7 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { resolveUserId } from '../_shared/auth.ts'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
 
 interface SpotifyTokenResponse {
   access_token: string
@@ -10,14 +12,15 @@ interface SpotifyTokenResponse {
 }
 
 serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
   try {
-    const { code, userId } = await req.json()
+    const { code, codeVerifier } = await req.json()
     
-    if (!code || !userId) {
-      return new Response(
-        JSON.stringify({ error: 'Missing required parameters' }),
-        { status: 400, headers: { 'Content-Type': 'application/json' } }
-      )
+    if (!code) {
+      return jsonResponse({ error: 'Missing required parameters' }, 400)
     }
 
     // Get environment variables
@@ -28,10 +31,15 @@ serve(async (req) => {
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
 
     if (!clientId || !clientSecret || !redirectUri || !supabaseUrl || !supabaseServiceKey) {
-      return new Response(
-        JSON.stringify({ error: 'Missing environment variables' }),
-        { status: 500, headers: { 'Content-Type': 'application/json' } }
-      )
+      return jsonResponse({ error: 'Missing environment variables' }, 500)
+    }
+
+    // Create Supabase client
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const userId = await resolveUserId(req, supabase, supabaseServiceKey)
+    if (!userId) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
     }
 
     // Exchange code for tokens
@@ -45,6 +53,8 @@ serve(async (req) => {
         grant_type: 'authorization_code',
         code,
         redirect_uri: redirectUri,
+        // Authorization URLs built by the app carry a PKCE challenge
+        ...(codeVerifier ? { code_verifier: codeVerifier } : {}),
       }),
     })
 
@@ -55,39 +65,43 @@ serve(async (req) => {
 
     const tokens: SpotifyTokenResponse = await tokenResponse.json()
 
-    // Create Supabase client
-    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    // Catalog lookups are limited to what the user can play in their country
+    let country: string | null = null
+    const profileResponse = await fetch('https://api.spotify.com/v1/me', {
+      headers: { Authorization: `Bearer ${tokens.access_token}` },
+    })
+    if (profileResponse.ok) {
+      country = (await profileResponse.json()).country || null
+    } else {
+      console.error('Failed to fetch Spotify profile:', await profileResponse.text())
+    }
 
-    // Save tokens to user_service_auth table
+    // Save tokens to user_services table
     const { error: dbError } = await supabase
-      .from('user_service_auth')
-      .upsert({
-        user_id: userId,
-        service: 'spotify',
-        tokens: {
+      .from('user_services')
+      .upsert(
+        {
+          user_id: userId,
+          service: 'spotify',
           access_token: tokens.access_token,
           refresh_token: tokens.refresh_token,
-          expires_in: tokens.expires_in,
-          expires_at: new Date(Date.now() + tokens.expires_in * 1000).toISOString(),
+          token_expires_at: new Date(Date.now() + tokens.expires_in * 1000).toISOString(),
+          country,
+          updated_at: new Date().toISOString(),
         },
-      })
+        { onConflict: 'user_id,service' }
+      )
 
     if (dbError) {
       throw new Error(`Database error: ${dbError.message}`)
     }
 
-    return new Response(
-      JSON.stringify({
-        access_token: tokens.access_token,
-        refresh_token: tokens.refresh_token,
-        expires_in: tokens.expires_in,
-      }),
-      { headers: { 'Content-Type': 'application/json' } }
-    )
+    return jsonResponse({
+      access_token: tokens.access_token,
+      refresh_token: tokens.refresh_token,
+      expires_in: tokens.expires_in,
+    })
   } catch (error) {
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      { status: 500, headers: { 'Content-Type': 'application/json' } }
-    )
+    return jsonResponse({ error: error.message }, 500)
   }
 })
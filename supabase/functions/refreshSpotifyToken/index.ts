@@ -0,0 +1,97 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { resolveUserId } from '../_shared/auth.ts'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+
+interface SpotifyTokenResponse {
+  access_token: string
+  token_type: string
+  scope: string
+  expires_in: number
+  refresh_token?: string
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { userId } = await req.json().catch(() => ({}))
+
+    // Get environment variables
+    const clientId = Deno.env.get('SPOTIFY_CLIENT_ID')
+    const clientSecret = Deno.env.get('SPOTIFY_CLIENT_SECRET')
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!clientId || !clientSecret || !supabaseUrl || !supabaseServiceKey) {
+      return jsonResponse({ error: 'Missing environment variables' }, 500)
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const resolvedUserId = await resolveUserId(req, supabase, supabaseServiceKey, userId)
+    if (!resolvedUserId) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const { data: service, error: serviceError } = await supabase
+      .from('user_services')
+      .select('refresh_token')
+      .eq('user_id', resolvedUserId)
+      .eq('service', 'spotify')
+      .single()
+
+    if (serviceError || !service?.refresh_token) {
+      return jsonResponse({ error: 'No Spotify refresh token found' }, 404)
+    }
+
+    const tokenResponse = await fetch('https://accounts.spotify.com/api/token', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Authorization': `Basic ${btoa(`${clientId}:${clientSecret}`)}`,
+      },
+      body: new URLSearchParams({
+        grant_type: 'refresh_token',
+        refresh_token: service.refresh_token,
+      }),
+    })
+
+    if (!tokenResponse.ok) {
+      const error = await tokenResponse.text()
+      throw new Error(`Spotify token refresh failed: ${error}`)
+    }
+
+    const tokens: SpotifyTokenResponse = await tokenResponse.json()
+
+    // Spotify only sometimes rotates the refresh token
+    const refreshToken = tokens.refresh_token || service.refresh_token
+    const expiresAt = new Date(Date.now() + tokens.expires_in * 1000).toISOString()
+
+    const { error: dbError } = await supabase
+      .from('user_services')
+      .update({
+        access_token: tokens.access_token,
+        refresh_token: refreshToken,
+        token_expires_at: expiresAt,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('user_id', resolvedUserId)
+      .eq('service', 'spotify')
+
+    if (dbError) {
+      throw new Error(`Database error: ${dbError.message}`)
+    }
+
+    return jsonResponse({
+      access_token: tokens.access_token,
+      refresh_token: refreshToken,
+      expires_in: tokens.expires_in,
+      expires_at: expiresAt,
+    })
+  } catch (error) {
+    return jsonResponse({ error: error.message }, 500)
+  }
+})
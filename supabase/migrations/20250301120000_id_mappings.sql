@@ -0,0 +1,87 @@
+create table "public"."track_mappings" (
+    "id" uuid not null default gen_random_uuid(),
+    "isrc" text,
+    "spotify_id" text not null,
+    "apple_music_id" text not null,
+    "match_method" text not null,
+    "confidence" numeric not null default 1,
+    "confirmed_at" timestamp with time zone not null default timezone('utc'::text, now()),
+    "created_at" timestamp with time zone not null default timezone('utc'::text, now()),
+    "updated_at" timestamp with time zone not null default timezone('utc'::text, now())
+);
+
+
+alter table "public"."track_mappings" enable row level security;
+
+create table "public"."album_mappings" (
+    "id" uuid not null default gen_random_uuid(),
+    "upc" text,
+    "spotify_id" text not null,
+    "apple_music_id" text not null,
+    "match_method" text not null,
+    "confidence" numeric not null default 1,
+    "confirmed_at" timestamp with time zone not null default timezone('utc'::text, now()),
+    "created_at" timestamp with time zone not null default timezone('utc'::text, now()),
+    "updated_at" timestamp with time zone not null default timezone('utc'::text, now())
+);
+
+
+alter table "public"."album_mappings" enable row level security;
+
+CREATE UNIQUE INDEX track_mappings_pkey ON public.track_mappings USING btree (id);
+
+CREATE UNIQUE INDEX track_mappings_pair_key ON public.track_mappings USING btree (spotify_id, apple_music_id);
+
+CREATE INDEX track_mappings_isrc_idx ON public.track_mappings USING btree (isrc);
+
+CREATE INDEX track_mappings_apple_music_id_idx ON public.track_mappings USING btree (apple_music_id);
+
+CREATE UNIQUE INDEX album_mappings_pkey ON public.album_mappings USING btree (id);
+
+CREATE UNIQUE INDEX album_mappings_pair_key ON public.album_mappings USING btree (spotify_id, apple_music_id);
+
+CREATE INDEX album_mappings_upc_idx ON public.album_mappings USING btree (upc);
+
+CREATE INDEX album_mappings_apple_music_id_idx ON public.album_mappings USING btree (apple_music_id);
+
+alter table "public"."track_mappings" add constraint "track_mappings_pkey" PRIMARY KEY using index "track_mappings_pkey";
+
+alter table "public"."track_mappings" add constraint "track_mappings_pair_key" UNIQUE using index "track_mappings_pair_key";
+
+alter table "public"."track_mappings" add constraint "track_mappings_match_method_check" CHECK ((match_method = ANY (ARRAY['isrc'::text, 'search'::text, 'manual'::text]))) not valid;
+
+alter table "public"."track_mappings" validate constraint "track_mappings_match_method_check";
+
+alter table "public"."album_mappings" add constraint "album_mappings_pkey" PRIMARY KEY using index "album_mappings_pkey";
+
+alter table "public"."album_mappings" add constraint "album_mappings_pair_key" UNIQUE using index "album_mappings_pair_key";
+
+alter table "public"."album_mappings" add constraint "album_mappings_match_method_check" CHECK ((match_method = ANY (ARRAY['upc'::text, 'search'::text, 'manual'::text]))) not valid;
+
+alter table "public"."album_mappings" validate constraint "album_mappings_match_method_check";
+
+grant select on table "public"."track_mappings" to "authenticated";
+
+grant all on table "public"."track_mappings" to "service_role";
+
+grant select on table "public"."album_mappings" to "authenticated";
+
+grant all on table "public"."album_mappings" to "service_role";
+
+-- Mappings are catalog facts shared by every user, not per-user data. Every
+-- transfer and sync trusts them, so users can only read them: the workers
+-- write the pairs they matched themselves using the service role.
+create policy "Authenticated users can view track mappings"
+on "public"."track_mappings"
+as permissive
+for select
+to authenticated
+using (true);
+
+
+create policy "Authenticated users can view album mappings"
+on "public"."album_mappings"
+as permissive
+for select
+to authenticated
+using (true);
@@ -0,0 +1,65 @@
+alter table "public"."transfers" add column "job_type" text;
+
+alter table "public"."transfers" add column "payload" jsonb;
+
+alter table "public"."transfers" add column "checkpoint" jsonb;
+
+alter table "public"."transfers" add column "claimed_by" text;
+
+alter table "public"."transfers" add column "heartbeat_at" timestamp with time zone;
+
+alter table "public"."transfers" add column "attempts" smallint not null default 0;
+
+CREATE INDEX transfers_job_queue_idx ON public.transfers USING btree (status, heartbeat_at) WHERE (job_type IS NOT NULL);
+
+alter table "public"."transfers" add constraint "transfers_job_type_check" CHECK ((job_type = ANY (ARRAY['library'::text, 'playlist'::text, 'album'::text]))) not valid;
+
+alter table "public"."transfers" validate constraint "transfers_job_type_check";
+
+-- Jobs wait as 'queued' until a worker claims them, and library transfers
+-- finish as 'completed'
+alter table "public"."transfers" drop constraint "transfers_status_check";
+
+alter table "public"."transfers" add constraint "transfers_status_check" CHECK ((status = ANY (ARRAY['pending'::text, 'queued'::text, 'in_progress'::text, 'success'::text, 'completed'::text, 'failed'::text]))) not valid;
+
+alter table "public"."transfers" validate constraint "transfers_status_check";
+
+-- Hands the oldest queued job to a worker. Jobs whose worker stopped sending
+-- heartbeats (crash, deploy) are handed out again so they get resumed.
+CREATE OR REPLACE FUNCTION public.claim_transfer_job(worker_id text, stale_after interval DEFAULT '00:02:00'::interval)
+ RETURNS SETOF transfers
+ LANGUAGE plpgsql
+AS $function$
+BEGIN
+    RETURN QUERY
+    UPDATE transfers
+    SET
+        status = 'in_progress',
+        claimed_by = worker_id,
+        heartbeat_at = NOW(),
+        attempts = transfers.attempts + 1,
+        started_at = COALESCE(transfers.started_at, NOW()),
+        updated_at = NOW()
+    WHERE transfers.id = (
+        SELECT queued.id
+        FROM transfers queued
+        WHERE queued.job_type IS NOT NULL
+            AND (
+                queued.status = 'queued'
+                OR (
+                    queued.status = 'in_progress'
+                    AND queued.heartbeat_at < NOW() - stale_after
+                )
+            )
+        ORDER BY queued.created_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING transfers.*;
+END;
+$function$
+;
+
+revoke execute on function "public"."claim_transfer_job"(text, interval) from public, anon, authenticated;
+
+grant execute on function "public"."claim_transfer_job"(text, interval) to "service_role";
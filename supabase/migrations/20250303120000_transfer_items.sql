@@ -0,0 +1,82 @@
+create table "public"."transfer_items" (
+    "id" uuid not null default gen_random_uuid(),
+    "transfer_id" uuid not null,
+    "user_id" uuid not null,
+    "item_key" text not null,
+    "kind" text not null,
+    "name" text,
+    "artist_name" text,
+    "status" text not null default 'pending'::text,
+    "target_id" text,
+    "error" text,
+    "created_at" timestamp with time zone not null default timezone('utc'::text, now()),
+    "updated_at" timestamp with time zone not null default timezone('utc'::text, now())
+);
+
+
+alter table "public"."transfer_items" enable row level security;
+
+CREATE UNIQUE INDEX transfer_items_pkey ON public.transfer_items USING btree (id);
+
+CREATE UNIQUE INDEX transfer_items_transfer_id_item_key_key ON public.transfer_items USING btree (transfer_id, item_key);
+
+CREATE INDEX transfer_items_transfer_id_status_idx ON public.transfer_items USING btree (transfer_id, status);
+
+alter table "public"."transfer_items" add constraint "transfer_items_pkey" PRIMARY KEY using index "transfer_items_pkey";
+
+alter table "public"."transfer_items" add constraint "transfer_items_transfer_id_item_key_key" UNIQUE using index "transfer_items_transfer_id_item_key_key";
+
+alter table "public"."transfer_items" add constraint "transfer_items_transfer_id_fkey" FOREIGN KEY (transfer_id) REFERENCES transfers(id) ON DELETE CASCADE not valid;
+
+alter table "public"."transfer_items" validate constraint "transfer_items_transfer_id_fkey";
+
+alter table "public"."transfer_items" add constraint "transfer_items_user_id_fkey" FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE not valid;
+
+alter table "public"."transfer_items" validate constraint "transfer_items_user_id_fkey";
+
+alter table "public"."transfer_items" add constraint "transfer_items_kind_check" CHECK ((kind = ANY (ARRAY['album'::text, 'track'::text]))) not valid;
+
+alter table "public"."transfer_items" validate constraint "transfer_items_kind_check";
+
+alter table "public"."transfer_items" add constraint "transfer_items_status_check" CHECK ((status = ANY (ARRAY['pending'::text, 'matched'::text, 'added'::text, 'skipped'::text, 'failed'::text]))) not valid;
+
+alter table "public"."transfer_items" validate constraint "transfer_items_status_check";
+
+CREATE OR REPLACE FUNCTION public.transfer_item_counts(transfer_ids uuid[])
+ RETURNS TABLE(transfer_id uuid, status text, count integer)
+ LANGUAGE sql
+ STABLE
+AS $function$
+  SELECT transfer_items.transfer_id, transfer_items.status, COUNT(*)::integer
+  FROM transfer_items
+  WHERE transfer_items.transfer_id = ANY(transfer_ids)
+  GROUP BY transfer_items.transfer_id, transfer_items.status;
+$function$
+;
+
+grant select, insert, update, delete on table "public"."transfer_items" to "authenticated";
+
+grant all on table "public"."transfer_items" to "service_role";
+
+create policy "Users can view their own transfer items"
+on "public"."transfer_items"
+as permissive
+for select
+to public
+using ((auth.uid() = user_id));
+
+
+create policy "Users can insert their own transfer items"
+on "public"."transfer_items"
+as permissive
+for insert
+to public
+with check ((auth.uid() = user_id));
+
+
+create policy "Users can update their own transfer items"
+on "public"."transfer_items"
+as permissive
+for update
+to public
+using ((auth.uid() = user_id));
@@ -0,0 +1,14 @@
+alter table "public"."transfer_items" add column "confidence" numeric;
+
+alter table "public"."transfers" drop constraint "transfers_status_check";
+
+alter table "public"."transfers" add constraint "transfers_status_check" CHECK ((status = ANY (ARRAY['pending'::text, 'queued'::text, 'in_progress'::text, 'preview'::text, 'success'::text, 'completed'::text, 'failed'::text]))) not valid;
+
+alter table "public"."transfers" validate constraint "transfers_status_check";
+
+create policy "Users can discard their own transfer previews"
+on "public"."transfers"
+as permissive
+for delete
+to public
+using (((auth.uid() = user_id) AND (status = 'preview'::text)));
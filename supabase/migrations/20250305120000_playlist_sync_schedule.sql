@@ -0,0 +1,12 @@
+CREATE UNIQUE INDEX playlist_syncs_pair_idx ON public.playlist_syncs USING btree (user_id, ((source_playlist ->> 'id'::text)), ((target_playlist ->> 'id'::text)));
+
+insert into "public"."playlist_syncs" ("user_id", "source_playlist", "target_playlist", "sync_frequency", "next_sync", "sync_enabled")
+select
+    "user_id",
+    jsonb_build_object('id', "source_playlist_id", 'service', "source_service"),
+    jsonb_build_object('id', "target_playlist_id", 'service', "target_service"),
+    'daily'::sync_frequency,
+    now(),
+    coalesce("sync_enabled", true)
+from "public"."playlist_sync_pairs"
+on conflict do nothing;
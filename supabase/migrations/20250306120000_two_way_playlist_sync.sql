@@ -0,0 +1,58 @@
+alter table "public"."playlist_sync_pairs" add column "sync_direction" text not null default 'one_way'::text;
+
+alter table "public"."playlist_sync_pairs" add column "conflict_policy" text not null default 'source_wins'::text;
+
+alter table "public"."playlist_sync_pairs" add column "last_snapshot" jsonb;
+
+alter table "public"."playlist_sync_pairs" add constraint "playlist_sync_pairs_sync_direction_check" CHECK ((sync_direction = ANY (ARRAY['one_way'::text, 'two_way'::text]))) not valid;
+
+alter table "public"."playlist_sync_pairs" validate constraint "playlist_sync_pairs_sync_direction_check";
+
+alter table "public"."playlist_sync_pairs" add constraint "playlist_sync_pairs_conflict_policy_check" CHECK ((conflict_policy = ANY (ARRAY['source_wins'::text, 'target_wins'::text, 'keep_both'::text]))) not valid;
+
+alter table "public"."playlist_sync_pairs" validate constraint "playlist_sync_pairs_conflict_policy_check";
+
+create table "public"."playlist_sync_runs" (
+    "id" uuid not null default gen_random_uuid(),
+    "sync_pair_id" uuid not null,
+    "user_id" uuid not null,
+    "sync_direction" text not null,
+    "changes" jsonb not null,
+    "created_at" timestamp with time zone not null default timezone('utc'::text, now())
+);
+
+
+alter table "public"."playlist_sync_runs" enable row level security;
+
+CREATE UNIQUE INDEX playlist_sync_runs_pkey ON public.playlist_sync_runs USING btree (id);
+
+CREATE INDEX playlist_sync_runs_sync_pair_id_created_at_idx ON public.playlist_sync_runs USING btree (sync_pair_id, created_at DESC);
+
+alter table "public"."playlist_sync_runs" add constraint "playlist_sync_runs_pkey" PRIMARY KEY using index "playlist_sync_runs_pkey";
+
+alter table "public"."playlist_sync_runs" add constraint "playlist_sync_runs_sync_pair_id_fkey" FOREIGN KEY (sync_pair_id) REFERENCES playlist_sync_pairs(id) ON DELETE CASCADE not valid;
+
+alter table "public"."playlist_sync_runs" validate constraint "playlist_sync_runs_sync_pair_id_fkey";
+
+alter table "public"."playlist_sync_runs" add constraint "playlist_sync_runs_user_id_fkey" FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE not valid;
+
+alter table "public"."playlist_sync_runs" validate constraint "playlist_sync_runs_user_id_fkey";
+
+grant select, insert on table "public"."playlist_sync_runs" to "authenticated";
+
+grant all on table "public"."playlist_sync_runs" to "service_role";
+
+create policy "Users can view their own playlist sync runs"
+on "public"."playlist_sync_runs"
+as permissive
+for select
+to public
+using ((auth.uid() = user_id));
+
+
+create policy "Users can insert their own playlist sync runs"
+on "public"."playlist_sync_runs"
+as permissive
+for insert
+to public
+with check ((auth.uid() = user_id));
@@ -0,0 +1,3 @@
+alter table "public"."user_services" add column "storefront" text;
+
+alter table "public"."user_services" add column "storefront_language" text;
@@ -0,0 +1,25 @@
+alter table "public"."user_services" add column "country" text;
+
+create policy "Users can insert their own album tracks"
+on "public"."album_tracks"
+as permissive
+for insert
+to public
+with check ((auth.uid() = user_id));
+
+
+create policy "Users can update their own album tracks"
+on "public"."album_tracks"
+as permissive
+for update
+to public
+using ((auth.uid() = user_id))
+with check ((auth.uid() = user_id));
+
+
+create policy "Users can view their own album tracks"
+on "public"."album_tracks"
+as permissive
+for select
+to public
+using ((auth.uid() = user_id));
@@ -0,0 +1,94 @@
+alter table "public"."library_syncs" add column "claimed_by" text;
+
+alter table "public"."library_syncs" add column "heartbeat_at" timestamp with time zone;
+
+create table "public"."library_sync_history" (
+    "id" uuid not null default gen_random_uuid(),
+    "user_id" uuid not null references auth.users(id) on delete cascade,
+    "service" text not null,
+    "status" text not null,
+    "started_at" timestamp with time zone,
+    "completed_at" timestamp with time zone,
+    "error" text,
+    "stats" jsonb,
+    "created_at" timestamp with time zone not null default now(),
+    constraint "library_sync_history_pkey" primary key ("id")
+);
+
+alter table "public"."library_sync_history" enable row level security;
+
+CREATE INDEX library_sync_history_user_service_idx ON public.library_sync_history USING btree (user_id, service, completed_at DESC);
+
+create policy "Users can view their own library sync history"
+on "public"."library_sync_history"
+as permissive
+for select
+to public
+using ((auth.uid() = user_id));
+
+-- Every connected service gets a schedule, the worker picks it up right away
+insert into "public"."library_syncs" ("user_id", "service", "next_sync_time")
+select "user_id", "service"::text, now()
+from "public"."user_services"
+on conflict ("user_id", "service") do nothing;
+
+CREATE OR REPLACE FUNCTION public.schedule_library_sync()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+AS $function$
+BEGIN
+    INSERT INTO library_syncs (user_id, service, next_sync_time)
+    VALUES (new.user_id, new.service::text, NOW())
+    ON CONFLICT (user_id, service) DO NOTHING;
+    RETURN new;
+END;
+$function$
+;
+
+CREATE TRIGGER schedule_library_sync_on_connect AFTER INSERT ON public.user_services FOR EACH ROW EXECUTE FUNCTION schedule_library_sync();
+
+-- Hands the most overdue library sync to a worker. The row stays locked as
+-- 'syncing' until the worker finishes, so a user's library for one service
+-- is only ever synced once at a time. Syncs whose worker stopped sending
+-- heartbeats (crash, deploy) are handed out again.
+CREATE OR REPLACE FUNCTION public.claim_library_sync(worker_id text, services text[], stale_after interval DEFAULT '00:10:00'::interval)
+ RETURNS SETOF library_syncs
+ LANGUAGE plpgsql
+AS $function$
+BEGIN
+    RETURN QUERY
+    UPDATE library_syncs
+    SET
+        sync_status = 'syncing'::sync_status,
+        claimed_by = worker_id,
+        heartbeat_at = NOW(),
+        last_sync_time = NOW(),
+        updated_at = NOW()
+    WHERE library_syncs.id = (
+        SELECT due.id
+        FROM library_syncs due
+        WHERE due.service = ANY (services)
+            AND due.next_sync_time <= NOW()
+            AND (
+                due.sync_status IS DISTINCT FROM 'syncing'::sync_status
+                OR COALESCE(due.heartbeat_at, due.last_sync_time) < NOW() - stale_after
+            )
+            AND EXISTS (
+                SELECT 1
+                FROM user_services connected
+                WHERE connected.user_id = due.user_id
+                    AND connected.service::text = due.service
+            )
+        ORDER BY due.next_sync_time
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING library_syncs.*;
+END;
+$function$
+;
+
+revoke execute on function "public"."claim_library_sync"(text, text[], interval) from public, anon, authenticated;
+
+grant execute on function "public"."claim_library_sync"(text, text[], interval) to "service_role";
@@ -0,0 +1,31 @@
+-- Set by the library sync when an item is no longer saved on the service.
+-- Removed items stay around so they can be shown and restored.
+alter table "public"."user_albums" add column "removed_at" timestamp with time zone;
+
+alter table "public"."user_playlists" add column "removed_at" timestamp with time zone;
+
+CREATE INDEX idx_user_albums_removed ON public.user_albums USING btree (user_id, service, removed_at DESC) WHERE (removed_at IS NOT NULL);
+
+CREATE INDEX idx_user_playlists_removed ON public.user_playlists USING btree (user_id, service, removed_at DESC) WHERE (removed_at IS NOT NULL);
+
+CREATE OR REPLACE FUNCTION public.count_unique_albums(user_id_param uuid)
+ RETURNS integer
+ LANGUAGE sql
+AS $function$
+  SELECT COUNT(DISTINCT (name || ':::' || artist_name))
+  FROM user_albums
+  WHERE user_id = user_id_param
+    AND removed_at IS NULL;
+$function$
+;
+
+CREATE OR REPLACE FUNCTION public.count_unique_playlists(user_id_param uuid)
+ RETURNS integer
+ LANGUAGE sql
+AS $function$
+  SELECT COUNT(DISTINCT (name))
+  FROM user_playlists
+  WHERE user_id = user_id_param
+    AND removed_at IS NULL;
+$function$
+;
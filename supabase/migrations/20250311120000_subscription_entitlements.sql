@@ -0,0 +1,123 @@
+-- Plan changes are made server-side with the service role. Users can still
+-- edit the rest of their profile.
+CREATE OR REPLACE FUNCTION public.protect_subscription_fields()
+ RETURNS trigger
+ LANGUAGE plpgsql
+AS $function$
+BEGIN
+    IF current_user NOT IN ('anon', 'authenticated') THEN
+        RETURN new;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        IF new.subscription_tier IS DISTINCT FROM 'free'::subscription_tier
+            OR new.subscription_expires_at IS NOT NULL THEN
+            RAISE EXCEPTION 'Subscription tiers can''t be changed by users'
+                USING ERRCODE = '42501';
+        END IF;
+    ELSIF new.subscription_tier IS DISTINCT FROM old.subscription_tier
+        OR new.subscription_expires_at IS DISTINCT FROM old.subscription_expires_at THEN
+        RAISE EXCEPTION 'Subscription tiers can''t be changed by users'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN new;
+END;
+$function$
+;
+
+CREATE TRIGGER protect_subscription_fields BEFORE INSERT OR UPDATE ON public.profiles FOR EACH ROW EXECUTE FUNCTION protect_subscription_fields();
+
+-- The tier a user is entitled to right now, a lapsed subscription is free
+CREATE OR REPLACE FUNCTION public.effective_subscription_tier(user_id_param uuid)
+ RETURNS subscription_tier
+ LANGUAGE sql
+ STABLE
+ SECURITY DEFINER
+AS $function$
+  SELECT COALESCE(
+    (
+      SELECT CASE
+        WHEN subscription_expires_at IS NOT NULL AND subscription_expires_at < NOW()
+          THEN 'free'::subscription_tier
+        ELSE subscription_tier
+      END
+      FROM profiles
+      WHERE id = user_id_param
+    ),
+    'free'::subscription_tier
+  );
+$function$
+;
+
+-- Mirrors connectedServices in PLAN_LIMITS (src/lib/services/entitlements.ts),
+-- NULL is unlimited
+CREATE OR REPLACE FUNCTION public.max_connected_services(tier subscription_tier)
+ RETURNS integer
+ LANGUAGE sql
+ IMMUTABLE
+AS $function$
+  SELECT CASE tier
+    WHEN 'free'::subscription_tier THEN 2
+    WHEN 'pro'::subscription_tier THEN 5
+    ELSE NULL
+  END;
+$function$
+;
+
+-- Connecting goes through the browser and the Spotify edge function, so the
+-- limit is checked here. Reconnecting a service is an upsert of the same row
+-- and doesn't count as a new connection.
+CREATE OR REPLACE FUNCTION public.enforce_connected_service_limit()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+AS $function$
+DECLARE
+    service_limit integer;
+BEGIN
+    service_limit := max_connected_services(effective_subscription_tier(new.user_id));
+
+    IF service_limit IS NOT NULL AND (
+        SELECT COUNT(*)
+        FROM user_services
+        WHERE user_id = new.user_id
+            AND service <> new.service
+    ) >= service_limit THEN
+        RAISE EXCEPTION 'Your plan allows up to % connected services', service_limit
+            USING ERRCODE = 'P0001';
+    END IF;
+
+    RETURN new;
+END;
+$function$
+;
+
+CREATE TRIGGER enforce_connected_service_limit BEFORE INSERT ON public.user_services FOR EACH ROW EXECUTE FUNCTION enforce_connected_service_limit();
+
+-- One row per transfer that counted against the monthly quota. Written by the
+-- transfer worker when it first runs a transfer for real, dry runs are free.
+-- Usage outlives the transfer, deleting one from the history doesn't refund it.
+create table "public"."transfer_usage" (
+    "id" uuid not null default gen_random_uuid(),
+    "user_id" uuid not null references auth.users(id) on delete cascade,
+    "transfer_id" uuid references public.transfers(id) on delete set null,
+    "created_at" timestamp with time zone not null default now(),
+    constraint "transfer_usage_pkey" primary key ("id"),
+    constraint "transfer_usage_transfer_id_key" unique ("transfer_id")
+);
+
+alter table "public"."transfer_usage" enable row level security;
+
+CREATE INDEX transfer_usage_user_created_idx ON public.transfer_usage USING btree (user_id, created_at DESC);
+
+grant select on table "public"."transfer_usage" to "authenticated";
+
+grant all on table "public"."transfer_usage" to "service_role";
+
+create policy "Users can view their own transfer usage"
+on "public"."transfer_usage"
+as permissive
+for select
+to public
+using ((auth.uid() = user_id));
@@ -0,0 +1,4 @@
+-- Apple Music playlists can only be put back in order by creating a new copy,
+-- which leaves the old playlist in the user's library. Pairs only do that
+-- when the user turned it on.
+alter table "public"."playlist_sync_pairs" add column "rebuild_to_reorder" boolean not null default false;
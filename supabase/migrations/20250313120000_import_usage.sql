@@ -0,0 +1,58 @@
+-- Mirrors transfersPerMonth in PLAN_LIMITS (src/lib/services/entitlements.ts),
+-- NULL is unlimited
+CREATE OR REPLACE FUNCTION public.max_transfers_per_month(tier subscription_tier)
+ RETURNS integer
+ LANGUAGE sql
+ IMMUTABLE
+AS $function$
+  SELECT CASE tier
+    WHEN 'free'::subscription_tier THEN 10
+    WHEN 'pro'::subscription_tier THEN 200
+    ELSE NULL
+  END;
+$function$
+;
+
+-- Playlist imports run in the browser and have no transfer row, so they are
+-- counted here: one usage row per imported playlist, for the calling user
+-- only. The quota is checked under a per-user lock so two imports started at
+-- once can't both squeeze under the limit.
+CREATE OR REPLACE FUNCTION public.record_import_usage(playlist_count integer)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+AS $function$
+DECLARE
+    caller uuid := auth.uid();
+    transfer_limit integer;
+    used integer;
+BEGIN
+    IF caller IS NULL THEN
+        RAISE EXCEPTION 'Not signed in' USING ERRCODE = '42501';
+    END IF;
+    IF playlist_count < 1 THEN
+        RETURN;
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext('transfer_usage:' || caller::text));
+
+    transfer_limit := max_transfers_per_month(effective_subscription_tier(caller));
+    SELECT COUNT(*) INTO used
+    FROM transfer_usage
+    WHERE user_id = caller
+        AND created_at >= date_trunc('month', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+
+    IF transfer_limit IS NOT NULL AND used + playlist_count > transfer_limit THEN
+        RAISE EXCEPTION 'You''ve used % of the % transfers included in your plan this month', used, transfer_limit
+            USING ERRCODE = 'P0001';
+    END IF;
+
+    INSERT INTO transfer_usage (user_id)
+    SELECT caller FROM generate_series(1, playlist_count);
+END;
+$function$
+;
+
+revoke all on function public.record_import_usage(integer) from public, anon;
+
+grant execute on function public.record_import_usage(integer) to authenticated;
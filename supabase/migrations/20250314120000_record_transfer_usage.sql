@@ -0,0 +1,40 @@
+-- Counts a transfer against the monthly quota for the transfer worker. The
+-- check and the insert happen under the same per-user lock as
+-- record_import_usage(), so two workers running jobs for one user can't both
+-- pass the check. A transfer is only counted once, resuming or retrying it
+-- is free.
+CREATE OR REPLACE FUNCTION public.record_transfer_usage(user_id_param uuid, transfer_id_param uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+AS $function$
+DECLARE
+    transfer_limit integer;
+    used integer;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('transfer_usage:' || user_id_param::text));
+
+    IF EXISTS (SELECT 1 FROM transfer_usage WHERE transfer_id = transfer_id_param) THEN
+        RETURN;
+    END IF;
+
+    transfer_limit := max_transfers_per_month(effective_subscription_tier(user_id_param));
+    SELECT COUNT(*) INTO used
+    FROM transfer_usage
+    WHERE user_id = user_id_param
+        AND created_at >= date_trunc('month', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+
+    IF transfer_limit IS NOT NULL AND used + 1 > transfer_limit THEN
+        RAISE EXCEPTION 'You''ve used % of the % transfers included in your plan this month', used, transfer_limit
+            USING ERRCODE = 'P0001';
+    END IF;
+
+    INSERT INTO transfer_usage (user_id, transfer_id)
+    VALUES (user_id_param, transfer_id_param);
+END;
+$function$
+;
+
+-- Only the workers call it, with the service role
+revoke all on function public.record_transfer_usage(uuid, uuid) from public, anon, authenticated;
+
+grant execute on function public.record_transfer_usage(uuid, uuid) to service_role;